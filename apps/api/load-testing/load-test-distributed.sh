@@ -6,6 +6,9 @@
 set -e
 
 API_URL="${API_URL:-http://localhost:3000}"
+WRITE_KEY="${WRITE_KEY:-}"
+FORMAT="${FORMAT:-json}"
+COMPRESSION="${COMPRESSION:-}"
 DURATION="${DURATION:-60s}"
 INSTANCES="${INSTANCES:-10}"
 RPS_PER_INSTANCE=$((5000000 / INSTANCES))
@@ -41,6 +44,9 @@ for i in $(seq 1 $INSTANCES); do
         --quiet \
         --tag instance=$i \
         -e API_URL=$API_URL \
+        -e WRITE_KEY=$WRITE_KEY \
+        -e FORMAT=$FORMAT \
+        -e COMPRESSION=$COMPRESSION \
         -e RPS=$RPS_PER_INSTANCE \
         --duration $DURATION \
         load-test.js > "load-test-$i.log" 2>&1 &
@@ -46,6 +46,7 @@ export const options = {
 };
 
 const API_BASE_URL = __ENV.API_URL || 'http://localhost:3000';
+const WRITE_KEY = __ENV.WRITE_KEY || '';
 
 export default function () {
   const event = generateEvent();
@@ -54,7 +55,7 @@ export default function () {
     `${API_BASE_URL}/events`,
     JSON.stringify(event),
     {
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'X-Write-Key': WRITE_KEY },
       timeout: '10s',
     }
   );
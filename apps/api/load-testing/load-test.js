@@ -127,22 +127,37 @@ export const options = {
 };
 
 const API_BASE_URL = __ENV.API_URL || 'http://localhost:3000';
+const WRITE_KEY = __ENV.WRITE_KEY || '';
+// Batch body format: json (one array) or ndjson (one event per line, streamed by the API)
+const BATCH_FORMAT = __ENV.FORMAT || 'json';
+// gzip or deflate to compress request bodies (k6 sets Content-Encoding)
+const COMPRESSION = __ENV.COMPRESSION || '';
 
-export function singleEvent() {
-  const event = generateEvent();
-
+function postEvents(body, contentType, timeout) {
   const params = {
     headers: {
-      'Content-Type': 'application/json',
+      'Content-Type': contentType,
+      'X-Write-Key': WRITE_KEY,
     },
-    timeout: '10s',
+    timeout,
   };
+  if (COMPRESSION) {
+    params.compression = COMPRESSION;
+  }
+
+  return http.post(`${API_BASE_URL}/events`, body, params);
+}
+
+function postBatch(batch, timeout) {
+  return BATCH_FORMAT === 'ndjson'
+    ? postEvents(batch.map((event) => JSON.stringify(event)).join('\n'), 'application/x-ndjson', timeout)
+    : postEvents(JSON.stringify(batch), 'application/json', timeout);
+}
+
+export function singleEvent() {
+  const event = generateEvent();
 
-  const response = http.post(
-    `${API_BASE_URL}/events`,
-    JSON.stringify(event),
-    params
-  );
+  const response = postEvents(JSON.stringify(event), 'application/json', '10s');
 
   const success = check(response, {
     'status is 202': (r) => r.status === 202,
@@ -162,18 +177,7 @@ export function singleEvent() {
 export function batchEvents() {
   const batch = generateBatch(10);
 
-  const params = {
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    timeout: '10s',
-  };
-
-  const response = http.post(
-    `${API_BASE_URL}/events`,
-    JSON.stringify(batch),
-    params
-  );
+  const response = postBatch(batch, '10s');
 
   const success = check(response, {
     'status is 202': (r) => r.status === 202,
@@ -193,18 +197,7 @@ export function batchEvents() {
 export function largeBatchEvents() {
   const batch = generateBatch(100);
 
-  const params = {
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    timeout: '15s',
-  };
-
-  const response = http.post(
-    `${API_BASE_URL}/events`,
-    JSON.stringify(batch),
-    params
-  );
+  const response = postBatch(batch, '15s');
 
   const success = check(response, {
     'status is 202': (r) => r.status === 202,
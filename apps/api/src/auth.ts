@@ -2,6 +2,7 @@ import { betterAuth } from "better-auth";
 import { type MongoClient } from "mongodb";
 import { mongodbAdapter } from "better-auth/adapters/mongodb";
 import mongoose from "mongoose";
+import { getConfig } from "./config";
 
 /**
  * Better Auth configuration with MongoDB adapter
@@ -54,16 +55,18 @@ function getMongoDb() {
  */
 export function initAuth() {
   const db = getMongoDb();
+  const { auth, server } = getConfig();
+  const isProduction = server.environment === "production";
 
-  const trustedOrigins = process.env.ALLOWED_ORIGINS?.split(",").map(o => o.trim()) || [
+  const trustedOrigins = server.allowedOrigins.length > 0 ? server.allowedOrigins : [
     "http://localhost:3000",
     "http://localhost:5173",
   ];
 
   console.log("[Auth] Initializing Better Auth with config:");
-  console.log(`  - baseURL: ${process.env.BETTER_AUTH_URL || "http://localhost:3000"}`);
+  console.log(`  - baseURL: ${auth.url}`);
   console.log(`  - trustedOrigins:`, trustedOrigins);
-  console.log(`  - useSecureCookies: ${process.env.NODE_ENV === "production"}`);
+  console.log(`  - useSecureCookies: ${isProduction}`);
 
   return betterAuth({
     database: mongodbAdapter(db, {
@@ -87,11 +90,11 @@ export function initAuth() {
       updateAge: 60 * 60 * 24, // 1 day in seconds
     },
 
-    // Security settings
-    secret: process.env.BETTER_AUTH_SECRET || "please-change-this-secret-in-production",
+    // Security settings; loadConfig() rejects placeholder secrets in production
+    secret: auth.secret,
 
     // Base URL for the application
-    baseURL: process.env.BETTER_AUTH_URL || "http://localhost:3000",
+    baseURL: auth.url,
 
     // Trusted origins for CORS
     trustedOrigins,
@@ -105,7 +108,7 @@ export function initAuth() {
     // Advanced options
     advanced: {
       // Use secure cookies in production
-      useSecureCookies: process.env.NODE_ENV === "production",
+      useSecureCookies: isProduction,
       // Cross-site cookie settings
       crossSubDomainCookies: {
         enabled: false,
@@ -113,7 +116,7 @@ export function initAuth() {
       // Cookie options
       cookieOptions: {
         sameSite: "none", // Required for cross-origin cookies
-        secure: process.env.NODE_ENV === "production",
+        secure: isProduction,
         httpOnly: true,
         path: "/",
       },
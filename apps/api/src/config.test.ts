@@ -0,0 +1,152 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  ConfigError,
+  DEFAULT_INGESTION_SETTINGS,
+  describeConfig,
+  loadConfig,
+  mergeIngestionSettings,
+} from './config';
+
+const BASE_ENV = { MONGODB_URI: 'mongodb://localhost:27017/martech' };
+
+function problemsOf(env: NodeJS.ProcessEnv): string[] {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return error.problems;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('loadConfig', () => {
+  let directory: string | null = null;
+
+  function configFile(content: unknown): string {
+    directory = mkdtempSync(path.join(tmpdir(), 'martech-config-'));
+    const file = path.join(directory, 'config.json');
+    writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = null;
+    }
+  });
+
+  it('uses the defaults when only the database is configured', () => {
+    const config = loadConfig(BASE_ENV);
+
+    expect(config.ingestion).toEqual(DEFAULT_INGESTION_SETTINGS);
+    expect(config.database).toMatchObject({ maxPoolSize: 50, minPoolSize: 10 });
+    expect(config.server).toMatchObject({ port: 3000, environment: 'development', allowedOrigins: [] });
+    expect(config.writeKeys.required).toBe(true);
+  });
+
+  it('parses environment variables and ignores empty ones', () => {
+    const config = loadConfig({
+      ...BASE_ENV,
+      PORT: '8080',
+      WAL_ENABLED: 'false',
+      ALLOWED_ORIGINS: 'https://app.example.com, https://admin.example.com',
+      INGESTION_MAX_BUFFER_SIZE: '500',
+      PII_HASH_SALT: '',
+    });
+
+    expect(config.server.port).toBe(8080);
+    expect(config.writeAheadLog.enabled).toBe(false);
+    expect(config.server.allowedOrigins).toEqual(['https://app.example.com', 'https://admin.example.com']);
+    expect(config.ingestion.maxBufferSize).toBe(500);
+    expect(config.privacy.piiHashSalt).toBeUndefined();
+  });
+
+  it('reads the config file and lets the environment override it', () => {
+    const file = configFile({
+      ingestion: { maxBufferSize: 1000, flushIntervalMs: 500 },
+      analyticsExport: { enabled: false },
+    });
+
+    const config = loadConfig({ ...BASE_ENV, CONFIG_FILE: file, INGESTION_FLUSH_INTERVAL_MS: '250' });
+
+    expect(config.ingestion).toMatchObject({ maxBufferSize: 1000, flushIntervalMs: 250 });
+    expect(config.analyticsExport.enabled).toBe(false);
+  });
+
+  it('reports every invalid setting at once', () => {
+    const file = configFile({ ingestion: { maxBuferSize: 1000 }, metrics: {} });
+
+    const problems = problemsOf({
+      CONFIG_FILE: file,
+      PORT: 'eighty',
+      WAL_FSYNC_POLICY: 'sometimes',
+      MONGODB_MIN_POOL_SIZE: '100',
+      ANALYTICS_EXPORT_CRON: 'every day',
+    });
+
+    expect(problems).toEqual(
+      expect.arrayContaining([
+        `${file} ingestion.maxBuferSize: unknown setting`,
+        `${file} metrics: unknown section`,
+        'PORT: must be an integer between 1 and 65535',
+        'WAL_FSYNC_POLICY: must be one of always, interval, never',
+        'MONGODB_URI: required',
+        'MONGODB_MIN_POOL_SIZE: must not exceed MONGODB_MAX_POOL_SIZE',
+        'ANALYTICS_EXPORT_CRON: "every day" is not a valid cron expression',
+      ])
+    );
+    expect(problems).toHaveLength(7);
+  });
+
+  it('rejects placeholder and short auth secrets in production', () => {
+    const production = { ...BASE_ENV, NODE_ENV: 'production' };
+
+    expect(problemsOf(production)).toEqual([expect.stringMatching(/^BETTER_AUTH_SECRET/)]);
+    expect(
+      problemsOf({ ...production, BETTER_AUTH_SECRET: 'change-this-to-a-secure-random-string-in-production' })
+    ).toHaveLength(1);
+    expect(problemsOf({ ...production, BETTER_AUTH_SECRET: 'short' })).toHaveLength(1);
+    expect(problemsOf({ ...production, BETTER_AUTH_SECRET: 'k'.repeat(32) })).toEqual([]);
+  });
+});
+
+describe('mergeIngestionSettings', () => {
+  it('applies a partial update to the current settings', () => {
+    expect(mergeIngestionSettings(DEFAULT_INGESTION_SETTINGS, { maxBufferSize: 5000 })).toEqual({
+      settings: { ...DEFAULT_INGESTION_SETTINGS, maxBufferSize: 5000 },
+    });
+  });
+
+  it('rejects unknown, out-of-range and inconsistent values', () => {
+    expect(mergeIngestionSettings(DEFAULT_INGESTION_SETTINGS, [])).toHaveProperty('problems');
+    expect(mergeIngestionSettings(DEFAULT_INGESTION_SETTINGS, { walDir: '/tmp' })).toEqual({
+      problems: ['walDir: unknown setting'],
+    });
+    expect(mergeIngestionSettings(DEFAULT_INGESTION_SETTINGS, { maxConcurrentFlushes: 0 })).toEqual({
+      problems: ['maxConcurrentFlushes: must be an integer between 1 and 50'],
+    });
+    expect(mergeIngestionSettings(DEFAULT_INGESTION_SETTINGS, { maxBufferSize: '5000' })).toHaveProperty('problems');
+    expect(mergeIngestionSettings(DEFAULT_INGESTION_SETTINGS, { backpressureThreshold: 100 })).toEqual({
+      problems: ['backpressureThreshold: must be at least maxBufferSize'],
+    });
+  });
+});
+
+describe('describeConfig', () => {
+  it('masks secrets', () => {
+    const config = loadConfig({ ...BASE_ENV, PII_HASH_SALT: 'pepper' });
+
+    const described = describeConfig(config);
+
+    expect(described.database.uri).toBe('********');
+    expect(described.privacy.piiHashSalt).toBe('********');
+    expect(described.auth.secret).toBe('********');
+    expect(described.auth.url).toBe('http://localhost:3000');
+  });
+});
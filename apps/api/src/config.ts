@@ -0,0 +1,449 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import cron from 'node-cron';
+import { DEFAULT_TIMESTAMP_POLICY, OUT_OF_RANGE_POLICIES } from './utils/eventTimestamp';
+import type { WalFsyncPolicy } from './services/writeAheadLog.service';
+import { errorMessage } from './utils/errors';
+
+// Typed application configuration. Every setting has a default, can be set in a
+// JSON config file (CONFIG_FILE, same sections and keys as below) and overridden
+// by its environment variable. loadConfig() validates everything at startup and
+// fails with the full list of problems rather than on first use.
+
+interface Setting<T> {
+  env: string;
+  default: T;
+  // Checks a config-file or admin API value; undefined when invalid
+  parse: (value: unknown) => T | undefined;
+  // Turns the environment string into the JSON form parse() expects
+  fromEnv?: (value: string) => unknown;
+  expected: string;
+  // Never returned by the admin endpoint
+  secret?: boolean;
+}
+
+type Section = Record<string, Setting<unknown>>;
+
+type SectionValues<S extends Section> = { [Key in keyof S]: S[Key] extends Setting<infer T> ? T : never };
+
+function integer(env: string, fallback: number, min = 0, max = Number.MAX_SAFE_INTEGER): Setting<number> {
+  return {
+    env,
+    default: fallback,
+    expected: max === Number.MAX_SAFE_INTEGER ? `an integer >= ${min}` : `an integer between ${min} and ${max}`,
+    parse: (value) =>
+      typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : undefined,
+    fromEnv: (value) => (/^-?\d+$/.test(value.trim()) ? Number(value) : value),
+  };
+}
+
+function boolean(env: string, fallback: boolean): Setting<boolean> {
+  const strings: Record<string, boolean> = { true: true, false: false, '1': true, '0': false };
+  return {
+    env,
+    default: fallback,
+    expected: 'true or false',
+    parse: (value) => (typeof value === 'boolean' ? value : undefined),
+    fromEnv: (value) => strings[value.trim().toLowerCase()] ?? value,
+  };
+}
+
+function text<T extends string | undefined>(env: string, fallback: T, secret = false): Setting<string | T> {
+  return {
+    env,
+    default: fallback,
+    expected: 'a string',
+    secret,
+    parse: (value) => (typeof value === 'string' ? value : undefined),
+  };
+}
+
+function oneOf<T extends string>(env: string, values: readonly T[], fallback: T): Setting<T> {
+  return {
+    env,
+    default: fallback,
+    expected: `one of ${values.join(', ')}`,
+    parse: (value) => (values.includes(value as T) ? (value as T) : undefined),
+  };
+}
+
+// Comma-separated in the environment, an array of strings in the config file
+function list(env: string, fallback: string[]): Setting<string[]> {
+  return {
+    env,
+    default: fallback,
+    expected: 'a list of strings',
+    parse: (value) =>
+      Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? value.map((item) => item.trim()).filter((item) => item !== '')
+        : undefined,
+    fromEnv: (value) => value.split(','),
+  };
+}
+
+// Session identifier the analytics queries group events by: the one clients send,
+// or the one server-side sessionization derived (falling back to the client one)
+export const ANALYTICS_SESSION_IDS = ['client', 'derived'] as const;
+export type AnalyticsSessionId = (typeof ANALYTICS_SESSION_IDS)[number];
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Placeholders shipped in the docs and .env.example; never acceptable in production
+const PLACEHOLDER_AUTH_SECRETS = [
+  'please-change-this-secret-in-production',
+  'change-this-to-a-secure-random-string-in-production',
+];
+const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+export const CONFIG_SCHEMA = {
+  server: {
+    environment: text('NODE_ENV', 'development'),
+    port: integer('PORT', 3000, 1, 65535),
+    prometheusPort: integer('PROMETHEUS_PORT', 9464, 1, 65535),
+    // Dashboard origins allowed by CORS and Better Auth in production
+    allowedOrigins: list('ALLOWED_ORIGINS', []),
+    // "true", a hop count or a list of trusted proxy addresses (see Express "trust proxy")
+    trustProxy: text('TRUST_PROXY', 'false'),
+    // Largest accepted request body after gzip/deflate decompression
+    maxBodyBytes: integer('MAX_BODY_BYTES', 10 * 1024 * 1024, 1),
+  },
+  auth: {
+    secret: text('BETTER_AUTH_SECRET', PLACEHOLDER_AUTH_SECRETS[0], true),
+    url: text('BETTER_AUTH_URL', 'http://localhost:3000'),
+  },
+  database: {
+    uri: text('MONGODB_URI', '', true),
+    maxPoolSize: integer('MONGODB_MAX_POOL_SIZE', 50, 1),
+    minPoolSize: integer('MONGODB_MIN_POOL_SIZE', 10),
+    serverSelectionTimeoutMs: integer('MONGODB_SERVER_SELECTION_TIMEOUT_MS', 5 * SECOND, 1),
+    socketTimeoutMs: integer('MONGODB_SOCKET_TIMEOUT_MS', 45 * SECOND, 0),
+  },
+  ingestion: {
+    // Events per flush; a full batch triggers a flush before the interval
+    maxBufferSize: integer('INGESTION_MAX_BUFFER_SIZE', 2000, 1, 100000),
+    flushIntervalMs: integer('INGESTION_FLUSH_INTERVAL_MS', 200, 10, MINUTE),
+    // Buffered + retrying events above which new requests get 429
+    backpressureThreshold: integer('INGESTION_BACKPRESSURE_THRESHOLD', 10000, 1, 1000000),
+    maxConcurrentFlushes: integer('INGESTION_MAX_CONCURRENT_FLUSHES', 5, 1, 50),
+    maxFlushAttempts: integer('INGESTION_MAX_FLUSH_ATTEMPTS', 5, 1, 20),
+    retryBaseDelayMs: integer('INGESTION_RETRY_BASE_DELAY_MS', 200, 1, MINUTE),
+    retryMaxDelayMs: integer('INGESTION_RETRY_MAX_DELAY_MS', 30 * SECOND, 1, 10 * MINUTE),
+  },
+  // POST /events requests that wait until their events are stored
+  synchronousIngestion: {
+    defaultTimeoutMs: integer('SYNC_INGESTION_DEFAULT_TIMEOUT_MS', 5 * SECOND, 1, 10 * MINUTE),
+    maxTimeoutMs: integer('SYNC_INGESTION_MAX_TIMEOUT_MS', 30 * SECOND, 1, 10 * MINUTE),
+  },
+  // GET /events/live: accepted events streamed to the dashboard
+  liveStream: {
+    // Open connections per instance; 0 turns the stream off
+    maxConnections: integer('LIVE_STREAM_MAX_CONNECTIONS', 20, 0, 1000),
+    // Highest rate a connection may ask for; further matching events are skipped
+    maxEventsPerSecond: integer('LIVE_STREAM_MAX_EVENTS_PER_SECOND', 50, 1, 10000),
+    // Keeps proxies from closing quiet connections and reports skipped events
+    heartbeatMs: integer('LIVE_STREAM_HEARTBEAT_MS', 15 * SECOND, SECOND, 10 * MINUTE),
+  },
+  // Scales the ingestion limits down while MongoDB is slow, failing or disconnected
+  backpressure: {
+    adaptive: boolean('BACKPRESSURE_ADAPTIVE', true),
+    // Average flush duration at which limits start shrinking, and at which they are lowest
+    targetFlushLatencyMs: integer('BACKPRESSURE_TARGET_FLUSH_LATENCY_MS', 250, 1, 10 * MINUTE),
+    maxFlushLatencyMs: integer('BACKPRESSURE_MAX_FLUSH_LATENCY_MS', 5 * SECOND, 1, 10 * MINUTE),
+    // Share of failing flushes at which limits are lowest
+    maxErrorRatePercent: integer('BACKPRESSURE_MAX_ERROR_RATE_PERCENT', 50, 1, 100),
+    // Upper bound for the Retry-After of shed requests
+    maxRetryAfterSeconds: integer('BACKPRESSURE_MAX_RETRY_AFTER_SECONDS', 30, 1, 3600),
+  },
+  writeAheadLog: {
+    enabled: boolean('WAL_ENABLED', true),
+    directory: text('WAL_DIR', path.resolve(process.cwd(), 'data/wal')),
+    segmentSizeBytes: integer('WAL_SEGMENT_SIZE_BYTES', 16 * 1024 * 1024, 1024),
+    fsyncPolicy: oneOf<WalFsyncPolicy>('WAL_FSYNC_POLICY', ['always', 'interval', 'never'], 'interval'),
+    fsyncIntervalMs: integer('WAL_FSYNC_INTERVAL_MS', 100, 1),
+    retainCompletedSegments: integer('WAL_RETAIN_SEGMENTS', 0),
+  },
+  // Historical imports from CSV, NDJSON and JSON files (POST /admin/imports)
+  imports: {
+    // Uploads are stored here, and imports can only read files inside it
+    directory: text('IMPORT_DIR', path.resolve(process.cwd(), 'data/imports')),
+    // Records validated and written per bulk insert; progress is saved after each chunk
+    chunkSize: integer('IMPORT_CHUNK_SIZE', 1000, 1, 100000),
+    maxUploadBytes: integer('IMPORT_MAX_UPLOAD_BYTES', 1024 * 1024 * 1024, 1),
+    // JSON files are parsed in memory; larger histories should be NDJSON or CSV
+    maxJsonBytes: integer('IMPORT_MAX_JSON_BYTES', 100 * 1024 * 1024, 1),
+    // How often each instance looks for queued imports and ones left by a stopped instance
+    pollIntervalMs: integer('IMPORT_POLL_INTERVAL_MS', 30 * SECOND, 0),
+  },
+  writeKeys: {
+    // false only while migrating existing senders
+    required: boolean('WRITE_KEYS_REQUIRED', true),
+  },
+  rateLimits: {
+    enabled: boolean('RATE_LIMIT_ENABLED', true),
+    sourceEventsPerSecond: integer('RATE_LIMIT_SOURCE_EVENTS_PER_SECOND', 1000),
+    sourceBurst: integer('RATE_LIMIT_SOURCE_BURST', 5000),
+    ipEventsPerSecond: integer('RATE_LIMIT_IP_EVENTS_PER_SECOND', 200),
+    ipBurst: integer('RATE_LIMIT_IP_BURST', 1000),
+    // Events per source per UTC day; 0 = unlimited
+    dailyQuota: integer('DAILY_EVENT_QUOTA', 0),
+  },
+  timestamps: {
+    outOfRange: oneOf('TIMESTAMP_OUT_OF_RANGE_POLICY', OUT_OF_RANGE_POLICIES, DEFAULT_TIMESTAMP_POLICY.outOfRange),
+    // 0 disables a bound
+    maxFutureMs: integer('TIMESTAMP_MAX_FUTURE_MS', DEFAULT_TIMESTAMP_POLICY.maxFutureMs),
+    maxPastMs: integer('TIMESTAMP_MAX_PAST_MS', DEFAULT_TIMESTAMP_POLICY.maxPastMs),
+  },
+  enrichment: {
+    userAgent: boolean('ENRICHMENT_USER_AGENT', true),
+    geoip: boolean('ENRICHMENT_GEOIP', true),
+    ip: boolean('ENRICHMENT_IP', true),
+    traffic: boolean('ENRICHMENT_TRAFFIC', true),
+  },
+  sessions: {
+    analyticsSessionId: oneOf('ANALYTICS_SESSION_ID', ANALYTICS_SESSION_IDS, 'client'),
+  },
+  privacy: {
+    // Without it, redaction rules cannot hash values
+    piiHashSalt: text('PII_HASH_SALT', undefined, true),
+  },
+  // How often each instance reloads runtime settings stored in MongoDB; 0 disables it
+  refreshIntervals: {
+    eventTypesMs: integer('EVENT_TYPE_REFRESH_MS', 30 * SECOND),
+    payloadSchemasMs: integer('PAYLOAD_SCHEMA_REFRESH_MS', 30 * SECOND),
+    redactionRulesMs: integer('REDACTION_RULES_REFRESH_MS', 30 * SECOND),
+    pipelineMs: integer('PIPELINE_REFRESH_MS', 30 * SECOND),
+    trafficFilterMs: integer('TRAFFIC_FILTER_REFRESH_MS', 30 * SECOND),
+    writeKeysMs: integer('WRITE_KEY_REFRESH_MS', 30 * SECOND),
+    rateLimitsMs: integer('RATE_LIMIT_REFRESH_MS', 30 * SECOND),
+    sessionizationMs: integer('SESSIONIZATION_REFRESH_MS', 30 * SECOND),
+  },
+  analyticsExport: {
+    enabled: boolean('ANALYTICS_EXPORT_ENABLED', true),
+    cron: text('ANALYTICS_EXPORT_CRON', '0 10 * * *'),
+    timezone: text('ANALYTICS_EXPORT_TIMEZONE', 'UTC'),
+    s3Bucket: text('ANALYTICS_EXPORT_S3_BUCKET', 'wbd-analytics-exports'),
+    s3Region: text('ANALYTICS_EXPORT_S3_REGION', 'ap-south-1'),
+  },
+} satisfies Record<string, Section>;
+
+type Schema = typeof CONFIG_SCHEMA;
+
+export type AppConfig = { [Name in keyof Schema]: SectionValues<Schema[Name]> };
+
+export type IngestionSettings = AppConfig['ingestion'];
+
+export type SynchronousIngestionSettings = AppConfig['synchronousIngestion'];
+
+export type ConfigSectionName = keyof AppConfig;
+
+// Sections the admin endpoint can change while the server runs
+export const RUNTIME_SECTIONS: ConfigSectionName[] = ['ingestion'];
+
+export const DEFAULT_INGESTION_SETTINGS: IngestionSettings = defaultsOf(CONFIG_SCHEMA.ingestion);
+
+export const DEFAULT_SYNCHRONOUS_INGESTION: SynchronousIngestionSettings = defaultsOf(
+  CONFIG_SCHEMA.synchronousIngestion
+);
+
+// Every problem found while loading the configuration
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function defaultsOf<S extends Section>(section: S): SectionValues<S> {
+  return Object.fromEntries(
+    Object.entries(section).map(([key, setting]) => [key, setting.default])
+  ) as SectionValues<S>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply values to a section: unknown keys and invalid values are reported in problems
+ *
+ * @param source - Where the values come from, for error messages
+ */
+function applyValues<S extends Section>(
+  section: S,
+  target: SectionValues<S>,
+  values: Record<string, unknown>,
+  source: (key: string) => string,
+  problems: string[]
+): void {
+  for (const [key, value] of Object.entries(values)) {
+    const setting = section[key];
+    if (!setting) {
+      problems.push(`${source(key)}: unknown setting`);
+      continue;
+    }
+    const parsed = setting.parse(value);
+    if (parsed === undefined) {
+      problems.push(`${source(key)}: must be ${setting.expected}`);
+      continue;
+    }
+    (target as Record<string, unknown>)[key] = parsed;
+  }
+}
+
+function readConfigFile(file: string, problems: string[]): Record<string, unknown> {
+  try {
+    const content = JSON.parse(readFileSync(file, 'utf8'));
+    if (!isObject(content)) {
+      problems.push(`${file}: must contain a JSON object`);
+      return {};
+    }
+    return content;
+  } catch (error) {
+    problems.push(`${file}: ${errorMessage(error)}`);
+    return {};
+  }
+}
+
+// Checks between settings, and settings that are unsafe in production
+function checkConsistency(config: AppConfig, problems: string[]): void {
+  const { auth, database, ingestion, backpressure, analyticsExport, server } = config;
+
+  if (database.uri === '') {
+    problems.push('MONGODB_URI: required');
+  }
+  if (database.minPoolSize > database.maxPoolSize) {
+    problems.push('MONGODB_MIN_POOL_SIZE: must not exceed MONGODB_MAX_POOL_SIZE');
+  }
+  problems.push(...checkIngestionSettings(ingestion));
+  if (config.synchronousIngestion.defaultTimeoutMs > config.synchronousIngestion.maxTimeoutMs) {
+    problems.push('SYNC_INGESTION_DEFAULT_TIMEOUT_MS: must not exceed SYNC_INGESTION_MAX_TIMEOUT_MS');
+  }
+  if (backpressure.targetFlushLatencyMs >= backpressure.maxFlushLatencyMs) {
+    problems.push('BACKPRESSURE_TARGET_FLUSH_LATENCY_MS: must be below BACKPRESSURE_MAX_FLUSH_LATENCY_MS');
+  }
+  if (analyticsExport.enabled && !cron.validate(analyticsExport.cron)) {
+    problems.push(`ANALYTICS_EXPORT_CRON: "${analyticsExport.cron}" is not a valid cron expression`);
+  }
+
+  if (server.environment === 'production') {
+    if (PLACEHOLDER_AUTH_SECRETS.includes(auth.secret) || auth.secret.length < MIN_PRODUCTION_SECRET_LENGTH) {
+      problems.push(
+        `BETTER_AUTH_SECRET: must be set to a random value of at least ${MIN_PRODUCTION_SECRET_LENGTH} characters in production (openssl rand -base64 32)`
+      );
+    }
+  }
+}
+
+/**
+ * Relations between ingestion settings that the individual bounds cannot express
+ *
+ * @returns problems found, empty when the settings are consistent
+ */
+export function checkIngestionSettings(settings: IngestionSettings): string[] {
+  const problems: string[] = [];
+  if (settings.backpressureThreshold < settings.maxBufferSize) {
+    problems.push('backpressureThreshold: must be at least maxBufferSize');
+  }
+  if (settings.retryBaseDelayMs > settings.retryMaxDelayMs) {
+    problems.push('retryBaseDelayMs: must not exceed retryMaxDelayMs');
+  }
+  return problems;
+}
+
+/**
+ * Build the configuration from the defaults, the config file and the environment,
+ * in increasing order of precedence. Empty environment variables count as unset.
+ *
+ * @throws ConfigError listing every invalid, unknown or insecure setting
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const problems: string[] = [];
+  const file = env.CONFIG_FILE ? readConfigFile(path.resolve(env.CONFIG_FILE), problems) : {};
+  const config = {} as Record<string, Record<string, unknown>>;
+
+  for (const [name, section] of Object.entries(CONFIG_SCHEMA) as [string, Section][]) {
+    const values = defaultsOf(section);
+    const fromFile = file[name];
+    if (fromFile !== undefined) {
+      if (isObject(fromFile)) {
+        applyValues(section, values, fromFile, (key) => `${env.CONFIG_FILE} ${name}.${key}`, problems);
+      } else {
+        problems.push(`${env.CONFIG_FILE} ${name}: must be an object`);
+      }
+    }
+
+    const fromEnv = Object.fromEntries(
+      Object.entries(section)
+        .filter(([, setting]) => env[setting.env] !== undefined && env[setting.env] !== '')
+        .map(([key, setting]) => {
+          const value = env[setting.env] as string;
+          return [key, setting.fromEnv ? setting.fromEnv(value) : value];
+        })
+    );
+    applyValues(section, values, fromEnv, (key) => section[key].env, problems);
+    config[name] = values;
+  }
+
+  const unknownSection = Object.keys(file).find((name) => !(name in CONFIG_SCHEMA));
+  if (unknownSection) {
+    problems.push(`${env.CONFIG_FILE} ${unknownSection}: unknown section`);
+  }
+
+  checkConsistency(config as AppConfig, problems);
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config as AppConfig;
+}
+
+let current: AppConfig | null = null;
+
+// Loads the configuration once at startup; see loadConfig()
+export function initConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  current = loadConfig(env);
+  return current;
+}
+
+// The configuration loaded by initConfig(), for modules created outside registerRoutes()
+export function getConfig(): AppConfig {
+  if (!current) {
+    throw new Error('Configuration not loaded. Call initConfig() at startup first.');
+  }
+  return current;
+}
+
+/**
+ * Validate a partial update of a runtime section against the current values
+ *
+ * @returns the updated section, or the problems that prevent the update
+ */
+export function mergeIngestionSettings(
+  current: IngestionSettings,
+  update: unknown
+): { settings: IngestionSettings } | { problems: string[] } {
+  if (!isObject(update)) {
+    return { problems: ['body must be an object of ingestion settings'] };
+  }
+
+  const problems: string[] = [];
+  const settings = { ...current };
+  applyValues(CONFIG_SCHEMA.ingestion, settings, update, (key) => key, problems);
+  problems.push(...(problems.length === 0 ? checkIngestionSettings(settings) : []));
+  return problems.length > 0 ? { problems } : { settings };
+}
+
+// The configuration without secrets: set secrets are replaced with "********"
+export function describeConfig(config: AppConfig): Record<string, Record<string, unknown>> {
+  return Object.fromEntries(
+    (Object.entries(CONFIG_SCHEMA) as [ConfigSectionName, Section][]).map(([name, section]) => [
+      name,
+      Object.fromEntries(
+        Object.entries(section).map(([key, setting]) => {
+          const value = (config[name] as Record<string, unknown>)[key];
+          return [key, setting.secret && value ? '********' : value];
+        })
+      ),
+    ])
+  );
+}
@@ -0,0 +1,58 @@
+import type { Request, Response } from 'express';
+import { type AppConfig, describeConfig, mergeIngestionSettings, RUNTIME_SECTIONS } from '../config';
+import type { EventIngestionService } from '../services/eventIngestion.service';
+
+// Authenticated view of the effective configuration and runtime ingestion tuning
+export class ConfigController {
+  constructor(
+    private config: AppConfig,
+    private ingestionService: EventIngestionService
+  ) {}
+
+  /**
+   * GET /admin/config
+   *
+   * The configuration this instance runs with, secrets masked. The ingestion
+   * section reflects runtime changes.
+   */
+  async get(_req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      config: describeConfig({ ...this.config, ingestion: this.ingestionService.getSettings() }),
+      runtimeSections: RUNTIME_SECTIONS,
+    });
+  }
+
+  /**
+   * PATCH /admin/config/ingestion
+   * Body: any subset of the ingestion settings, e.g. { maxBufferSize: 5000 }
+   *
+   * Applies to this instance only and lasts until it restarts; persist changes in
+   * the environment or CONFIG_FILE.
+   */
+  async updateIngestion(req: Request, res: Response): Promise<void> {
+    try {
+      const result = mergeIngestionSettings(this.ingestionService.getSettings(), req.body);
+      if ('problems' in result) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid ingestion settings: ${result.problems.join('; ')}`,
+        });
+        return;
+      }
+
+      this.ingestionService.updateSettings(result.settings);
+      console.log('[ConfigController] Ingestion settings updated', {
+        updatedBy: req.user?.email,
+        settings: result.settings,
+      });
+
+      res.status(200).json(result.settings);
+    } catch (error) {
+      console.error('[ConfigController] updateIngestion error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while updating the ingestion settings',
+      });
+    }
+  }
+}
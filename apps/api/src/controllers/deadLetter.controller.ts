@@ -0,0 +1,177 @@
+import type { Request, Response } from 'express';
+import type { DeadLetterRepository } from '../repositories/deadLetter.repository';
+import type { EventIngestionService } from '../services/eventIngestion.service';
+
+const MAX_REPLAY_BATCH = 1000;
+
+function parseEventIds(value: unknown): string[] | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length === 0 || !value.every((id) => typeof id === 'string')) {
+    return null;
+  }
+  return value;
+}
+
+// Admin endpoints for events that could not be written after retries
+export class DeadLetterController {
+  constructor(
+    private deadLetters: DeadLetterRepository,
+    private ingestionService: EventIngestionService
+  ) {}
+
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, pageSize, type } = req.query;
+
+      const pageNum = page ? parseInt(page as string, 10) : 1;
+      const pageSizeNum = pageSize ? parseInt(pageSize as string, 10) : 20;
+
+      if (Number.isNaN(pageNum) || pageNum < 1) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid page parameter. Must be a positive integer',
+        });
+        return;
+      }
+
+      if (Number.isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid pageSize parameter. Must be between 1 and 100',
+        });
+        return;
+      }
+
+      const result = await this.deadLetters.list({
+        page: pageNum,
+        pageSize: pageSizeNum,
+        type: typeof type === 'string' ? type : undefined,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('[DeadLetterController] list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching dead-lettered events',
+      });
+    }
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await this.deadLetters.findById(req.params.eventId);
+
+      if (!entry) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No dead-lettered event with id ${req.params.eventId}`,
+        });
+        return;
+      }
+
+      res.status(200).json(entry);
+    } catch (error) {
+      console.error('[DeadLetterController] get error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching the dead-lettered event',
+      });
+    }
+  }
+
+  /**
+   * Re-submit dead-lettered events through the ingestion buffer
+   * Body: { eventIds?: string[], limit?: number } - without eventIds the oldest `limit` entries are replayed
+   */
+  async replay(req: Request, res: Response): Promise<void> {
+    try {
+      const eventIds = parseEventIds(req.body?.eventIds);
+      if (eventIds === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'eventIds must be a non-empty array of strings',
+        });
+        return;
+      }
+
+      const limit = req.body?.limit ?? 100;
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPLAY_BATCH) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `limit must be an integer between 1 and ${MAX_REPLAY_BATCH}`,
+        });
+        return;
+      }
+
+      const admission = this.ingestionService.admit();
+      if (!admission.accepted) {
+        res.setHeader('Retry-After', String(admission.retryAfterSeconds));
+        res.status(429).json({
+          error: 'Too Many Requests',
+          message: 'Event buffer at capacity, try again shortly',
+          code: 'INGESTION_OVERLOADED',
+          retryAfter: admission.retryAfterSeconds,
+        });
+        return;
+      }
+
+      const entries = await this.deadLetters.claimForReplay({
+        eventIds,
+        limit: eventIds ? eventIds.length : limit,
+      });
+
+      // Once buffered (and written to the WAL) the event is owned by the pipeline again.
+      // If it fails permanently it is dead-lettered anew with a fresh attempt count.
+      // Entries that could not be buffered go back to the store.
+      const results = await Promise.allSettled(entries.map((entry) => this.ingestionService.addEvent(entry.event)));
+      const failed = entries.filter((_entry, index) => results[index].status === 'rejected');
+      if (failed.length > 0) {
+        await this.deadLetters.restore(failed);
+        throw new Error(`Could not re-queue ${failed.length} dead-lettered events`);
+      }
+
+      res.status(202).json({
+        message: 'Dead-lettered events re-queued for ingestion',
+        count: entries.length,
+        eventIds: entries.map((entry) => entry.eventId),
+      });
+    } catch (error) {
+      console.error('[DeadLetterController] replay error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while replaying dead-lettered events',
+      });
+    }
+  }
+
+  /**
+   * Permanently delete dead-lettered events
+   * Body: { eventIds: string[] } or { all: true }
+   */
+  async purge(req: Request, res: Response): Promise<void> {
+    try {
+      const eventIds = req.params.eventId ? [req.params.eventId] : parseEventIds(req.body?.eventIds);
+
+      if (eventIds === null || (eventIds === undefined && req.body?.all !== true)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide eventIds (non-empty array of strings) or { "all": true }',
+        });
+        return;
+      }
+
+      const deletedCount = await this.deadLetters.delete(eventIds);
+
+      res.status(200).json({ deletedCount });
+    } catch (error) {
+      console.error('[DeadLetterController] purge error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while purging dead-lettered events',
+      });
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import type { Request, Response } from 'express';
+import type { EventTypeStatus } from '@martech/types';
+import { EVENT_TYPE_NAME_PATTERN, EVENT_TYPE_STATUSES } from '../models/EventTypeDefinition';
+import type { EventTypeChanges } from '../repositories/eventType.repository';
+import type { EventTypeCatalog } from '../services/eventTypeCatalog.service';
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_ICON_LENGTH = 16;
+
+function isStatus(value: unknown): value is EventTypeStatus {
+  return EVENT_TYPE_STATUSES.includes(value as EventTypeStatus);
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
+
+// Returns the first problem with the editable fields of a request body, or null
+function checkFields(body: Record<string, unknown>): string | null {
+  if (body.description !== undefined && !isText(body.description, MAX_TEXT_LENGTH)) {
+    return `description must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (body.owner !== undefined && !isText(body.owner, MAX_TEXT_LENGTH)) {
+    return `owner must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (body.status !== undefined && !isStatus(body.status)) {
+    return `status must be one of: ${EVENT_TYPE_STATUSES.join(', ')}`;
+  }
+  if (body.icon !== undefined && !isText(body.icon, MAX_ICON_LENGTH)) {
+    return `icon must be a non-empty string of at most ${MAX_ICON_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Management of the event-type catalog. Types are never deleted because stored
+// events keep referring to them; set status to "blocked" to stop accepting a type.
+export class EventTypeController {
+  constructor(private catalog: EventTypeCatalog) {}
+
+  async list(req: Request, res: Response): Promise<void> {
+    const { status } = req.query;
+
+    if (status !== undefined && !isStatus(status)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Invalid status parameter. Must be one of: ${EVENT_TYPE_STATUSES.join(', ')}`,
+      });
+      return;
+    }
+
+    const eventTypes = this.catalog.list().filter((eventType) => !status || eventType.status === status);
+
+    res.status(200).json({ eventTypes });
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    const eventType = this.catalog.get(req.params.name);
+
+    if (!eventType) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Event type ${req.params.name} is not in the catalog`,
+      });
+      return;
+    }
+
+    res.status(200).json(eventType);
+  }
+
+  /**
+   * POST /event-types
+   * Body: { name, description, owner, status?, icon? }
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body ?? {};
+
+      if (typeof body.name !== 'string' || !EVENT_TYPE_NAME_PATTERN.test(body.name)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'name must be lowercase snake_case (e.g. "newsletter_signup"), at most 64 characters',
+        });
+        return;
+      }
+
+      if (body.description === undefined || body.owner === undefined) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'description and owner are required',
+        });
+        return;
+      }
+
+      const problem = checkFields(body);
+      if (problem) {
+        res.status(400).json({ error: 'Bad Request', message: problem });
+        return;
+      }
+
+      const eventType = await this.catalog.create({
+        name: body.name,
+        description: body.description,
+        owner: body.owner,
+        status: body.status,
+        icon: body.icon,
+      });
+
+      if (!eventType) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Event type ${body.name} already exists`,
+        });
+        return;
+      }
+
+      res.status(201).json(eventType);
+    } catch (error) {
+      console.error('[EventTypeController] create error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while creating the event type',
+      });
+    }
+  }
+
+  /**
+   * PATCH /event-types/:name
+   * Body: any of { description, owner, status, icon }
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body ?? {};
+      const changes: EventTypeChanges = {};
+
+      for (const field of ['description', 'owner', 'status', 'icon'] as const) {
+        if (body[field] !== undefined) {
+          changes[field] = body[field];
+        }
+      }
+
+      if (Object.keys(changes).length === 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide at least one of: description, owner, status, icon',
+        });
+        return;
+      }
+
+      const problem = checkFields(changes);
+      if (problem) {
+        res.status(400).json({ error: 'Bad Request', message: problem });
+        return;
+      }
+
+      const eventType = await this.catalog.update(req.params.name, changes);
+
+      if (!eventType) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Event type ${req.params.name} is not in the catalog`,
+        });
+        return;
+      }
+
+      res.status(200).json(eventType);
+    } catch (error) {
+      console.error('[EventTypeController] update error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while updating the event type',
+      });
+    }
+  }
+}
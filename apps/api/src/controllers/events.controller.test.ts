@@ -1,9 +1,23 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import { Request, Response } from 'express';
-import { EventType } from '@martech/types';
+import { EventType, type EventTypeStatus } from '@martech/types';
 import { EventsController } from './events.controller';
 import { EventIngestionService } from '../services/eventIngestion.service';
-import { EventRepository } from '../repositories/event.repository';
+import type { EventRepository, NormalizedEvent } from '../repositories/event.repository';
+import { PayloadSchemaRegistry } from '../services/payloadSchemaRegistry.service';
+import { PayloadSchemaRepository } from '../repositories/payloadSchema.repository';
+import type { PayloadSchemaMode } from '../models/PayloadSchema';
+import { EventTypeCatalog } from '../services/eventTypeCatalog.service';
+import { EventTypeRepository } from '../repositories/eventType.repository';
+import type { IdentityResolver } from '../services/identityResolver.service';
+import { EventEnrichment } from '../services/eventEnrichment.service';
+import { PayloadRedactor } from '../services/payloadRedactor.service';
+import type { RedactionRuleRepository } from '../repositories/redactionRule.repository';
+import { EventTransformPipeline } from '../services/eventTransformPipeline.service';
+import type { TransformPipelineRepository } from '../repositories/transformPipeline.repository';
+import { TrafficFilterService } from '../services/trafficFilter.service';
+import type { TrafficFilterRepository } from '../repositories/trafficFilter.repository';
+import { DEFAULT_TRAFFIC_FILTER } from '../utils/trafficFilter';
 
 describe('EventsController', () => {
   let controller: EventsController;
@@ -17,6 +31,7 @@ describe('EventsController', () => {
   beforeEach(() => {
     mockIngestionService = {
       canAcceptEvent: vi.fn().mockReturnValue(true),
+      admit: vi.fn().mockReturnValue({ accepted: true }),
       addEvent: vi.fn().mockResolvedValue(undefined),
       forceFlush: vi.fn(),
       getBufferSize: vi.fn(),
@@ -27,7 +42,6 @@ describe('EventsController', () => {
       bulkInsert: vi.fn(),
       getUserJourney: vi.fn(),
       getAnalyticsStats: vi.fn(),
-      getUserMetrics: vi.fn(),
     } as any;
 
     controller = new EventsController(mockIngestionService, mockRepository);
@@ -90,8 +104,51 @@ describe('EventsController', () => {
       );
     });
 
+    it('reports which eventIds came from the client', async () => {
+      mockRequest = {
+        body: [
+          {
+            eventId: 'web:evt-1',
+            userId: 'user123',
+            sessionId: 'session456',
+            type: 'page_view',
+          },
+          {
+            userId: 'user123',
+            sessionId: 'session456',
+            type: 'button_click',
+          },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      const body = jsonMock.mock.calls[0][0];
+      expect(statusMock).toHaveBeenCalledWith(202);
+      expect(body.eventIds[0]).toBe('web:evt-1');
+      expect(body.clientEventIds).toEqual(['web:evt-1']);
+      expect(body.generatedEventIds).toEqual([body.eventIds[1]]);
+    });
+
+    it('rejects event with invalid eventId', async () => {
+      mockRequest = {
+        body: {
+          eventId: 'has spaces',
+          userId: 'user123',
+          sessionId: 'session456',
+          type: EventType.PAGE_VIEW,
+        },
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+    });
+
     it('rejects when buffer is full', async () => {
-      mockIngestionService.canAcceptEvent = vi.fn().mockReturnValue(false);
+      mockIngestionService.admit = vi.fn().mockReturnValue({ accepted: false, retryAfterSeconds: 4 });
+      mockResponse.setHeader = vi.fn();
       mockRequest = {
         body: {
           userId: 'user123',
@@ -103,9 +160,11 @@ describe('EventsController', () => {
       await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
 
       expect(statusMock).toHaveBeenCalledWith(429);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '4');
       expect(jsonMock).toHaveBeenCalledWith(
         expect.objectContaining({
           error: 'Too Many Requests',
+          retryAfter: 4,
         })
       );
     });
@@ -157,6 +216,209 @@ describe('EventsController', () => {
       expect(statusMock).toHaveBeenCalledWith(400);
     });
 
+    it('buffers valid events and reports per-index results in partial mode', async () => {
+      mockRequest = {
+        query: { partial: 'true' },
+        body: [
+          {
+            userId: 'user123',
+            sessionId: 'session456',
+            type: 'page_view',
+          },
+          {
+            userId: 'user123',
+            type: 'page_view',
+          },
+          {
+            userId: 'user123',
+            sessionId: 'session456',
+            type: 'page_view',
+            occurredAt: 'yesterday-ish',
+          },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(207);
+      expect(mockIngestionService.addEvent).toHaveBeenCalledTimes(1);
+
+      const body = jsonMock.mock.calls[0][0];
+      expect(body.accepted).toBe(1);
+      expect(body.rejected).toBe(2);
+      expect(body.results[0]).toEqual(
+        expect.objectContaining({ index: 0, status: 'accepted', eventId: expect.any(String) })
+      );
+      expect(body.results[1]).toEqual({
+        index: 1,
+        status: 'rejected',
+        error: expect.objectContaining({ code: 'MISSING_FIELD', field: 'sessionId' }),
+      });
+      expect(body.results[2].error).toEqual(
+        expect.objectContaining({ code: 'INVALID_TIMESTAMP', field: 'occurredAt' })
+      );
+    });
+
+    it('rejects the whole batch in strict mode', async () => {
+      mockRequest = {
+        body: [
+          {
+            userId: 'user123',
+            sessionId: 'session456',
+            type: 'page_view',
+          },
+          {
+            userId: 'user123',
+            sessionId: 'session456',
+            type: 'INVALID_TYPE',
+          },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'UNKNOWN_EVENT_TYPE', index: 1 })
+      );
+      expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+    });
+
+    describe('with the event-type catalog', () => {
+      const definition = (name: string, status: EventTypeStatus) => ({
+        name,
+        description: `${name} event`,
+        owner: 'growth',
+        status,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const createController = () => {
+        const repository = new EventTypeRepository();
+        vi.spyOn(repository, 'seed').mockResolvedValue(undefined);
+        vi.spyOn(repository, 'findAll').mockResolvedValue([
+          definition('newsletter_signup', 'active'),
+          definition('legacy_click', 'deprecated'),
+          definition('spam_event', 'blocked'),
+        ]);
+        const catalog = new EventTypeCatalog(repository);
+        return catalog.load().then(() =>
+          new EventsController(mockIngestionService, mockRepository, { eventTypes: catalog })
+        );
+      };
+
+      const event = (type: string) => ({ userId: 'user123', sessionId: 'session456', type });
+
+      it('accepts types registered at runtime', async () => {
+        mockRequest = { body: event('newsletter_signup') };
+
+        await (await createController()).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        expect(statusMock).toHaveBeenCalledWith(202);
+        expect(jsonMock.mock.calls[0][0].deprecatedEventTypes).toBeUndefined();
+      });
+
+      it('rejects blocked types', async () => {
+        mockRequest = { body: event('spam_event') };
+
+        await (await createController()).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        expect(statusMock).toHaveBeenCalledWith(400);
+        expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ code: 'BLOCKED_EVENT_TYPE' }));
+      });
+
+      it('accepts deprecated types and reports them', async () => {
+        mockRequest = { body: [event('legacy_click'), event('legacy_click')] };
+
+        await (await createController()).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        expect(statusMock).toHaveBeenCalledWith(202);
+        expect(jsonMock.mock.calls[0][0].deprecatedEventTypes).toEqual(['legacy_click']);
+      });
+    });
+
+    describe('with registered payload schemas', () => {
+      const purchaseSchema = {
+        type: 'object',
+        required: ['amount'],
+        properties: { amount: { type: 'number' } },
+      };
+
+      const createController = async (mode: PayloadSchemaMode) => {
+        const repository = new PayloadSchemaRepository();
+        vi.spyOn(repository, 'findAll').mockResolvedValue([
+          {
+            eventType: 'purchase',
+            mode,
+            currentVersion: 2,
+            versions: [{ version: 2, schema: purchaseSchema, createdAt: new Date() }],
+            updatedAt: new Date(),
+          },
+        ]);
+        const registry = new PayloadSchemaRegistry(repository);
+        await registry.load();
+        return new EventsController(mockIngestionService, mockRepository, { payloadSchemas: registry });
+      };
+
+      const purchase = (payload: Record<string, unknown>) => ({
+        userId: 'user123',
+        sessionId: 'session456',
+        type: EventType.PURCHASE,
+        payload,
+      });
+
+      it('rejects payloads that violate the schema in enforce mode', async () => {
+        mockRequest = { body: purchase({ amount: '19.99' }) };
+
+        await (await createController('enforce')).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        expect(statusMock).toHaveBeenCalledWith(400);
+        expect(jsonMock).toHaveBeenCalledWith(
+          expect.objectContaining({
+            code: 'INVALID_PAYLOAD',
+            field: 'payload.amount',
+            message: 'Payload does not match purchase schema v2: payload.amount must be number, got string',
+          })
+        );
+        expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+      });
+
+      it('accepts and tags violating payloads in warn mode', async () => {
+        mockRequest = { query: { partial: 'true' }, body: [purchase({})] };
+
+        await (await createController('warn')).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        const event = vi.mocked(mockIngestionService.addEvent).mock.calls[0][0];
+        expect(event.schemaViolations).toEqual({
+          version: 2,
+          violations: [{ path: 'payload.amount', message: 'is required' }],
+        });
+        expect(jsonMock.mock.calls[0][0].results[0].schemaViolations).toEqual(event.schemaViolations);
+      });
+
+      it('does not tag valid payloads or types without a schema', async () => {
+        mockRequest = {
+          body: [purchase({ amount: 19.99 }), { userId: 'u', sessionId: 's', type: EventType.PAGE_VIEW }],
+        };
+
+        await (await createController('warn')).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        expect(statusMock).toHaveBeenCalledWith(202);
+        for (const [event] of vi.mocked(mockIngestionService.addEvent).mock.calls) {
+          expect(event.schemaViolations).toBeUndefined();
+        }
+      });
+
+      it('skips validation when the mode is off', async () => {
+        mockRequest = { body: purchase({ amount: 'free' }) };
+
+        await (await createController('off')).ingestEvent(mockRequest as Request, mockResponse as Response);
+
+        expect(statusMock).toHaveBeenCalledWith(202);
+      });
+    });
+
     it('handles service errors', async () => {
       mockIngestionService.addEvent = vi.fn().mockRejectedValue(new Error('Service error'));
       mockRequest = {
@@ -176,6 +438,330 @@ describe('EventsController', () => {
         })
       );
     });
+
+    it('reports unparseable NDJSON lines as INVALID_JSON rejections', async () => {
+      mockRequest = {
+        query: { partial: 'true' },
+        body: [{ userId: 'user123', sessionId: 'session456', type: EventType.PAGE_VIEW }, null],
+        lineErrors: new Map([[1, 'Line 2 is not valid JSON: Unexpected end of JSON input']]),
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(207);
+      expect(jsonMock.mock.calls[0][0].results[1]).toEqual({
+        index: 1,
+        status: 'rejected',
+        error: { code: 'INVALID_JSON', message: 'Line 2 is not valid JSON: Unexpected end of JSON input' },
+      });
+    });
+
+    it('rejects events still out of range after clock-skew correction with the reject policy', async () => {
+      controller = new EventsController(mockIngestionService, mockRepository, {
+        timestampPolicy: { maxFutureMs: 60000, maxPastMs: 0, outOfRange: 'reject' },
+      });
+      const inOneYear = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString();
+      mockRequest = {
+        query: { partial: 'true' },
+        body: [
+          { userId: 'user123', sessionId: 'session456', type: EventType.PAGE_VIEW, occurredAt: inOneYear },
+          // Same timestamp, but the device clock is a year ahead: corrected and accepted
+          { userId: 'user123', sessionId: 'session456', type: EventType.PAGE_VIEW, occurredAt: inOneYear, sentAt: inOneYear },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      const { results } = jsonMock.mock.calls[0][0];
+      expect(results[0]).toMatchObject({ status: 'rejected', error: { code: 'TIMESTAMP_OUT_OF_RANGE', field: 'occurredAt' } });
+      expect(results[1]).toMatchObject({ status: 'accepted' });
+    });
+
+    it('redacts PII from payloads before buffering', async () => {
+      const redactor = new PayloadRedactor({
+        findAll: vi.fn().mockResolvedValue([
+          { eventType: '*', rules: [{ detect: 'email', action: 'mask' }], updatedAt: new Date() },
+        ]),
+      } as unknown as RedactionRuleRepository);
+      await redactor.load();
+      controller = new EventsController(mockIngestionService, mockRepository, { redactor });
+      mockRequest = {
+        body: {
+          userId: 'user123',
+          sessionId: 'session456',
+          type: EventType.FORM_SUBMIT,
+          payload: { form: 'newsletter', email: 'jane@example.com' },
+        },
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ payload: { form: 'newsletter', email: 'j***@example.com' } })
+      );
+    });
+
+    it('runs accepted events through the transformation pipeline', async () => {
+      const pipeline = new EventTransformPipeline({
+        find: vi.fn().mockResolvedValue({
+          stages: [
+            { name: 'drop-debug', action: 'drop', when: { where: { 'payload.element': 'debug' } } },
+            { name: 'price-to-amount', action: 'rename', from: 'payload.price', to: 'payload.amount' },
+          ],
+          updatedAt: new Date(),
+        }),
+      } as unknown as TransformPipelineRepository);
+      await pipeline.load();
+      controller = new EventsController(mockIngestionService, mockRepository, { pipeline });
+      mockRequest = {
+        body: [
+          { userId: 'user123', sessionId: 'session456', type: EventType.BUTTON_CLICK, payload: { element: 'debug' } },
+          { userId: 'user123', sessionId: 'session456', type: EventType.PURCHASE, payload: { price: 19.9 } },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      // Dropped events are still reported as accepted
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ count: 2 }));
+      expect(mockIngestionService.addEvent).toHaveBeenCalledTimes(1);
+      expect(mockIngestionService.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ type: EventType.PURCHASE, payload: { amount: 19.9 } })
+      );
+    });
+
+    it('drops internal traffic in drop mode but reports it as accepted', async () => {
+      const trafficFilter = new TrafficFilterService({
+        find: vi.fn().mockResolvedValue({ ...DEFAULT_TRAFFIC_FILTER, mode: 'drop', internalUserIds: ['qa-1'], updatedAt: new Date() }),
+      } as unknown as TrafficFilterRepository);
+      await trafficFilter.load();
+      controller = new EventsController(mockIngestionService, mockRepository, { trafficFilter });
+      mockRequest = {
+        body: [
+          { userId: 'qa-1', sessionId: 'session456', type: EventType.PAGE_VIEW },
+          { userId: 'user123', sessionId: 'session789', type: EventType.PAGE_VIEW },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ count: 2 }));
+      expect(mockIngestionService.addEvent).toHaveBeenCalledTimes(1);
+      expect(mockIngestionService.addEvent).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user123' }));
+    });
+
+    it('waits for persistence and reports each event when asked to', async () => {
+      mockIngestionService.addEventsAndWait = vi.fn().mockImplementation(async (events: NormalizedEvent[]) => [
+        { eventId: events[0].eventId, status: 'persisted' },
+        { eventId: events[1].eventId, status: 'duplicate' },
+      ]);
+      mockRequest = {
+        query: { waitForPersistence: 'true', persistenceTimeoutMs: '2000' },
+        body: [
+          { eventId: 'b7f1c2a0-0000-4000-8000-000000000001', userId: 'user123', sessionId: 'session456', type: EventType.PURCHASE },
+          { eventId: 'b7f1c2a0-0000-4000-8000-000000000002', userId: 'user123', sessionId: 'session456', type: EventType.PURCHASE },
+        ],
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEventsAndWait).toHaveBeenCalledWith(expect.any(Array), 2000);
+      expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          counts: { persisted: 1, duplicate: 1 },
+          results: [
+            { index: 0, eventId: 'b7f1c2a0-0000-4000-8000-000000000001', status: 'persisted' },
+            { index: 1, eventId: 'b7f1c2a0-0000-4000-8000-000000000002', status: 'duplicate' },
+          ],
+        })
+      );
+    });
+
+    it('answers 207 when a synchronous request has events that are not stored', async () => {
+      mockIngestionService.addEventsAndWait = vi.fn().mockImplementation(async (events: NormalizedEvent[]) => [
+        { eventId: events[0].eventId, status: 'pending', error: 'Not stored within 5000ms; still queued for retry' },
+      ]);
+      mockRequest = {
+        headers: { 'x-wait-for-persistence': 'true' },
+        body: { userId: 'user123', sessionId: 'session456', type: EventType.PURCHASE },
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEventsAndWait).toHaveBeenCalledWith(expect.any(Array), 5000);
+      expect(statusMock).toHaveBeenCalledWith(207);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ counts: { pending: 1 } }));
+    });
+
+    it('rejects a synchronous timeout above the maximum', async () => {
+      mockRequest = {
+        query: { waitForPersistence: 'true', persistenceTimeoutMs: '600000' },
+        body: { userId: 'user123', sessionId: 'session456', type: EventType.PURCHASE },
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+    });
+
+    it('enriches accepted events with the client IP and user agent', async () => {
+      const enrichment = new EventEnrichment({ userAgent: true, geoip: false, ip: true, traffic: false });
+      controller = new EventsController(mockIngestionService, mockRepository, { enrichment });
+      mockRequest = {
+        ip: '203.0.113.7',
+        headers: { 'user-agent': 'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0' },
+        body: { userId: 'user123', sessionId: 'session456', type: EventType.PAGE_VIEW },
+      };
+
+      await controller.ingestEvent(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: expect.objectContaining({ ip: '203.0.113.0', browser: { name: 'Firefox', version: '121.0' } }),
+        })
+      );
+    });
+  });
+
+  describe('trackPixel', () => {
+    let sendMock: Mock<Response['send']>;
+    let headers: Record<string, string>;
+
+    beforeEach(() => {
+      headers = {};
+      sendMock = vi.fn();
+      mockResponse.setHeader = vi.fn((name: string, value: string | number | readonly string[]) => {
+        headers[name] = String(value);
+        return mockResponse as Response;
+      });
+      mockResponse.send = sendMock;
+    });
+
+    const encode = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    it('buffers an event built from query parameters and returns a GIF', async () => {
+      mockRequest = {
+        query: {
+          userId: 'user123',
+          sessionId: 'email-campaign-42',
+          type: EventType.PAGE_VIEW,
+          payload: encode({ campaign: 'spring', open: true }),
+        },
+        sourceId: 'src_email',
+      };
+
+      await controller.trackPixel(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user123',
+          type: EventType.PAGE_VIEW,
+          payload: { campaign: 'spring', open: true },
+          sourceId: 'src_email',
+        })
+      );
+      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(headers['Content-Type']).toBe('image/gif');
+      expect(headers['X-Event-Status']).toBe('accepted');
+      expect(sendMock.mock.calls[0][0].subarray(0, 6).toString()).toBe('GIF89a');
+    });
+
+    it('still returns the GIF for a rejected event', async () => {
+      mockRequest = {
+        query: { userId: 'user123', sessionId: 'sess', type: EventType.PAGE_VIEW, payload: 'bm90IGpzb24' },
+      };
+
+      await controller.trackPixel(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(headers['X-Event-Status']).toBe('rejected');
+      expect(headers['X-Event-Rejection']).toBe('INVALID_FIELD_TYPE');
+    });
+
+    it('validates pixel events like POST /events', async () => {
+      mockRequest = { query: { userId: 'user123', type: EventType.PAGE_VIEW } };
+
+      await controller.trackPixel(mockRequest as Request, mockResponse as Response);
+
+      expect(headers['X-Event-Rejection']).toBe('MISSING_FIELD');
+    });
+
+    it('rejects a pixel without a userId', async () => {
+      mockRequest = { query: { sessionId: 'sess', type: EventType.PAGE_VIEW } };
+
+      await controller.trackPixel(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+      expect(headers['X-Event-Status']).toBe('rejected');
+      expect(headers['X-Event-Rejection']).toBe('MISSING_FIELD');
+    });
+  });
+
+  describe('ingestSegment', () => {
+    it('buffers a track call and answers like Segment', async () => {
+      mockRequest = {
+        body: { userId: 'user123', event: 'Product Added', properties: { sku: 'A-1' }, messageId: 'ajs-next-abc' },
+        sourceId: 'src_web',
+      };
+
+      await controller.ingestSegment(mockRequest as Request, mockResponse as Response, 'track');
+
+      expect(mockIngestionService.addEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventId: 'segment:ajs-next-abc',
+          userId: 'user123',
+          type: EventType.ADD_TO_CART,
+          payload: { sku: 'A-1' },
+          sourceId: 'src_web',
+        })
+      );
+      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(jsonMock).toHaveBeenCalledWith({ success: true });
+    });
+
+    it('rejects a single message that fails validation', async () => {
+      mockRequest = { body: { userId: 'user123', event: 'Never Registered' } };
+
+      await controller.ingestSegment(mockRequest as Request, mockResponse as Response, 'track');
+
+      expect(mockIngestionService.addEvent).not.toHaveBeenCalled();
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ code: 'UNKNOWN_EVENT_TYPE', field: 'type' }));
+    });
+
+    it('accepts the valid messages of a batch and lists the others', async () => {
+      mockRequest = {
+        body: {
+          batch: [
+            { type: 'page', anonymousId: 'anon-1', properties: { path: '/' } },
+            { type: 'track', anonymousId: 'anon-1' },
+            { type: 'screen', userId: 'user123', name: 'Home' },
+          ],
+        },
+      };
+
+      await controller.ingestSegment(mockRequest as Request, mockResponse as Response);
+
+      expect(mockIngestionService.addEvent).toHaveBeenCalledTimes(2);
+      expect(statusMock).toHaveBeenCalledWith(200);
+      expect(jsonMock).toHaveBeenCalledWith({
+        success: true,
+        accepted: 2,
+        rejected: 1,
+        errors: [{ index: 1, error: expect.objectContaining({ code: 'MISSING_FIELD', field: 'event' }) }],
+      });
+    });
+
+    it('rejects a batch body without a batch array', async () => {
+      mockRequest = { body: [{ type: 'track' }] };
+
+      await controller.ingestSegment(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+    });
   });
 
   describe('getUserJourney', () => {
@@ -200,6 +786,34 @@ describe('EventsController', () => {
       });
     });
 
+    it('merges the events of linked identities', async () => {
+      const identities = {
+        resolve: vi.fn().mockResolvedValue({
+          canonicalUserId: 'user123',
+          userIds: ['user123', 'anon-1'],
+          links: [],
+        }),
+      } as unknown as IdentityResolver;
+      controller = new EventsController(mockIngestionService, mockRepository, { identities });
+      mockRepository.getUserJourney = vi.fn().mockResolvedValue([]);
+
+      mockRequest = {
+        params: { userId: 'anon-1' },
+        query: {},
+      };
+
+      await controller.getUserJourney(mockRequest as Request, mockResponse as Response);
+
+      expect(mockRepository.getUserJourney).toHaveBeenCalledWith(['user123', 'anon-1'], {});
+      expect(jsonMock).toHaveBeenCalledWith({
+        userId: 'anon-1',
+        canonicalUserId: 'user123',
+        identities: ['user123', 'anon-1'],
+        count: 0,
+        events: [],
+      });
+    });
+
     it('validates from date parameter', async () => {
       mockRequest = {
         params: { userId: 'user123' },
@@ -266,6 +880,16 @@ describe('EventsController', () => {
       expect(jsonMock).toHaveBeenCalledWith(mockStats);
     });
 
+    it('includes excluded traffic only when asked', async () => {
+      mockRepository.getAnalyticsStats = vi.fn().mockResolvedValue({});
+
+      await controller.getStats({ query: {} } as unknown as Request, mockResponse as Response);
+      await controller.getStats({ query: { includeExcluded: 'true' } } as unknown as Request, mockResponse as Response);
+
+      expect(mockRepository.getAnalyticsStats).toHaveBeenNthCalledWith(1, { includeExcluded: false });
+      expect(mockRepository.getAnalyticsStats).toHaveBeenNthCalledWith(2, { includeExcluded: true });
+    });
+
     it('handles errors', async () => {
       mockRepository.getAnalyticsStats = vi.fn().mockRejectedValue(new Error('DB error'));
 
@@ -276,65 +900,4 @@ describe('EventsController', () => {
       expect(statusMock).toHaveBeenCalledWith(500);
     });
   });
-
-  describe('getUsers', () => {
-    it('returns paginated users with defaults', async () => {
-      const mockResult = {
-        users: [],
-        pagination: { page: 1, pageSize: 10, total: 0 },
-      };
-      mockRepository.getUserMetrics = vi.fn().mockResolvedValue(mockResult);
-
-      mockRequest = {
-        query: {},
-      };
-
-      await controller.getUsers(mockRequest as Request, mockResponse as Response);
-
-      expect(mockRepository.getUserMetrics).toHaveBeenCalledWith({
-        page: 1,
-        pageSize: 10,
-      });
-      expect(statusMock).toHaveBeenCalledWith(200);
-    });
-
-    it('accepts custom pagination params', async () => {
-      const mockResult = {
-        users: [],
-        pagination: { page: 2, pageSize: 20, total: 0 },
-      };
-      mockRepository.getUserMetrics = vi.fn().mockResolvedValue(mockResult);
-
-      mockRequest = {
-        query: { page: '2', pageSize: '20' },
-      };
-
-      await controller.getUsers(mockRequest as Request, mockResponse as Response);
-
-      expect(mockRepository.getUserMetrics).toHaveBeenCalledWith({
-        page: 2,
-        pageSize: 20,
-      });
-    });
-
-    it('rejects invalid page param', async () => {
-      mockRequest = {
-        query: { page: '0' },
-      };
-
-      await controller.getUsers(mockRequest as Request, mockResponse as Response);
-
-      expect(statusMock).toHaveBeenCalledWith(400);
-    });
-
-    it('rejects invalid pageSize param', async () => {
-      mockRequest = {
-        query: { pageSize: '200' },
-      };
-
-      await controller.getUsers(mockRequest as Request, mockResponse as Response);
-
-      expect(statusMock).toHaveBeenCalledWith(400);
-    });
-  });
 });
@@ -1,59 +1,315 @@
 import { Request, Response } from 'express';
-import { EventIngestionService } from '../services/eventIngestion.service';
+import type { EventIngestionService, PersistenceStatus } from '../services/eventIngestion.service';
 import { EventRepository, NormalizedEvent } from '../repositories/event.repository';
-import { RawEvent, validateRawEvent, validateDate, validateLimit } from '../validators/event.validator';
+import {
+  type RawEvent,
+  type EventTypeLookup,
+  type EventValidationIssue,
+  builtInEventTypeStatus,
+  inspectRawEvent,
+  validateDate,
+  validateLimit,
+} from '../validators/event.validator';
 import { normalizeEvent } from '../utils/eventNormalizer';
+import { DEFAULT_TIMESTAMP_POLICY, type TimestampPolicy, applyTimestampPolicy } from '../utils/eventTimestamp';
+import { type SegmentMessageType, mapSegmentMessage, readSegmentBatch } from '../utils/segmentMapper';
+import type { PayloadSchemaCheck, PayloadSchemaRegistry } from '../services/payloadSchemaRegistry.service';
+import type { EventTypeCatalog } from '../services/eventTypeCatalog.service';
+import type { IdentityResolver } from '../services/identityResolver.service';
+import type { EventEnrichment } from '../services/eventEnrichment.service';
+import type { PayloadRedactor } from '../services/payloadRedactor.service';
+import type { EventTransformPipeline } from '../services/eventTransformPipeline.service';
+import type { TrafficFilterService } from '../services/trafficFilter.service';
+import type { Sessionizer } from '../services/sessionizer.service';
+import { DEFAULT_SYNCHRONOUS_INGESTION, type SynchronousIngestionSettings } from '../config';
+import {
+  eventIngestionCounter,
+  payloadSchemaViolationCounter,
+  synchronousIngestionCounter,
+} from '../observability/metrics';
+
+function isPartialMode(req: Request): boolean {
+  const value = req.query?.partial;
+  return value === 'true' || value === '1';
+}
+
+// Opt-in synchronous mode: ?waitForPersistence=true or an X-Wait-For-Persistence: true header
+function waitsForPersistence(req: Request): boolean {
+  const value = req.query?.waitForPersistence ?? req.headers?.['x-wait-for-persistence'];
+  return value === 'true' || value === '1';
+}
+
+/**
+ * How long a synchronous request waits, from ?persistenceTimeoutMs= or the
+ * X-Persistence-Timeout-Ms header
+ *
+ * @returns the timeout, or null when it is not an integer between 1 and maxTimeoutMs
+ */
+function persistenceTimeout(req: Request, settings: SynchronousIngestionSettings): number | null {
+  const value = req.query?.persistenceTimeoutMs ?? req.headers?.['x-persistence-timeout-ms'];
+  if (value === undefined) {
+    return settings.defaultTimeoutMs;
+  }
+
+  const timeoutMs = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  return timeoutMs >= 1 && timeoutMs <= settings.maxTimeoutMs ? timeoutMs : null;
+}
+
+// Outcome of one element of a synchronous request; split events share the index
+interface SynchronousResult {
+  index: number;
+  status: PersistenceStatus | 'dropped' | 'rejected';
+  eventId?: string;
+  error?: EventValidationIssue | string;
+}
+
+// Final outcomes; anything else makes a synchronous response 207
+const SETTLED_STATUSES: SynchronousResult['status'][] = ['persisted', 'duplicate', 'dropped'];
+
+// Bot and internal traffic kept in flag mode only counts with ?includeExcluded=true
+function includesExcluded(req: Request): boolean {
+  const value = req.query?.includeExcluded;
+  return value === 'true' || value === '1';
+}
+
+// Only catalog event types are used as label values to keep metric cardinality bounded
+function recordRejection(rawEvent: RawEvent, issue: EventValidationIssue, lookupEventType: EventTypeLookup): void {
+  const eventType =
+    issue.code !== 'UNKNOWN_EVENT_TYPE' && typeof rawEvent?.type === 'string' && lookupEventType(rawEvent.type)
+      ? rawEvent.type
+      : 'unknown';
+
+  eventIngestionCounter.inc({ event_type: eventType, status: 'rejected' });
+}
+
+function payloadIssue(rawEvent: RawEvent, check: PayloadSchemaCheck): EventValidationIssue {
+  const [first] = check.violations;
+  return {
+    code: 'INVALID_PAYLOAD',
+    field: first.path,
+    message: `Payload does not match ${rawEvent.type} schema v${check.version}: ${first.path} ${first.message}`,
+  };
+}
+
+// NDJSON lines that were not valid JSON, as rejections for their index
+function lineIssues(lineErrors?: Map<number, string>): Map<number, EventValidationIssue> | undefined {
+  return (
+    lineErrors &&
+    new Map(Array.from(lineErrors, ([index, message]) => [index, { code: 'INVALID_JSON', message }]))
+  );
+}
+
+// Transparent 1x1 GIF returned by the tracking pixel
+const PIXEL_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Builds an event from tracking-pixel query parameters. The payload travels as
+// base64 (or base64url) encoded JSON so it survives email clients rewriting URLs.
+function pixelEvent(query: Request['query']): { rawEvent: RawEvent } | { issue: EventValidationIssue } {
+  const field = (name: string): string | undefined =>
+    typeof query[name] === 'string' ? (query[name] as string) : undefined;
+
+  const userId = field('userId');
+  const type = field('type');
+  if (userId === undefined || type === undefined) {
+    const missing = userId === undefined ? 'userId' : 'type';
+    return {
+      issue: { code: 'MISSING_FIELD', field: missing, message: `Missing or invalid required field: ${missing}` },
+    };
+  }
+
+  let payload: Record<string, unknown> | undefined;
+  const encodedPayload = field('payload');
+  if (encodedPayload !== undefined) {
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64').toString('utf8'));
+    } catch {
+      payload = undefined;
+    }
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return {
+        issue: {
+          code: 'INVALID_FIELD_TYPE',
+          field: 'payload',
+          message: 'payload must be a base64-encoded JSON object',
+        },
+      };
+    }
+  }
+
+  return {
+    rawEvent: {
+      eventId: field('eventId'),
+      userId,
+      // Empty counts as missing: rejected unless the source sessionizes server-side
+      sessionId: field('sessionId') ?? '',
+      type,
+      occurredAt: field('occurredAt'),
+      sentAt: field('sentAt'),
+      ...(payload && { payload }),
+    },
+  };
+}
+
+type EventIdSource = 'client' | 'generated';
+
+// Per-index outcome of validating and normalizing one element of a request body
+export interface AcceptedOutcome {
+  index: number;
+  status: 'accepted';
+  event: NormalizedEvent;
+  eventIdSource: EventIdSource;
+}
+
+export interface RejectedOutcome {
+  index: number;
+  status: 'rejected';
+  error: EventValidationIssue;
+}
+
+export type EventOutcome = AcceptedOutcome | RejectedOutcome;
+
+export interface EventsControllerOptions {
+  // Registered payload schemas; payloads are not checked without it
+  payloadSchemas?: PayloadSchemaRegistry;
+  // Accepted event types; only the built-in types without it
+  eventTypes?: EventTypeCatalog;
+  // Merges the journeys of linked identities
+  identities?: IdentityResolver;
+  // Adds device, geo and traffic context to accepted events
+  enrichment?: EventEnrichment;
+  // Clock-skew correction and range checks; omitted uses DEFAULT_TIMESTAMP_POLICY
+  timestampPolicy?: TimestampPolicy;
+  redactor?: PayloadRedactor;
+  pipeline?: EventTransformPipeline;
+  trafficFilter?: TrafficFilterService;
+  // Limits of ?waitForPersistence=true; omitted uses DEFAULT_SYNCHRONOUS_INGESTION
+  synchronousIngestion?: SynchronousIngestionSettings;
+  // Makes sessionId optional for sources with server-side sessionization
+  sessionizer?: Sessionizer;
+}
 
 export class EventsController {
+  private payloadSchemas?: PayloadSchemaRegistry;
+  private eventTypes?: EventTypeCatalog;
+  private identities?: IdentityResolver;
+  private enrichment?: EventEnrichment;
+  private timestampPolicy: TimestampPolicy;
+  private redactor?: PayloadRedactor;
+  private pipeline?: EventTransformPipeline;
+  private trafficFilter?: TrafficFilterService;
+  private synchronousIngestion: SynchronousIngestionSettings;
+  private sessionizer?: Sessionizer;
+
   constructor(
     private ingestionService: EventIngestionService,
-    private repository: EventRepository
-  ) {}
+    private repository: EventRepository,
+    options: EventsControllerOptions = {}
+  ) {
+    this.payloadSchemas = options.payloadSchemas;
+    this.eventTypes = options.eventTypes;
+    this.identities = options.identities;
+    this.enrichment = options.enrichment;
+    this.timestampPolicy = options.timestampPolicy ?? DEFAULT_TIMESTAMP_POLICY;
+    this.redactor = options.redactor;
+    this.pipeline = options.pipeline;
+    this.trafficFilter = options.trafficFilter;
+    this.synchronousIngestion = options.synchronousIngestion ?? DEFAULT_SYNCHRONOUS_INGESTION;
+    this.sessionizer = options.sessionizer;
+  }
+
+  private readonly lookupEventType: EventTypeLookup = (name) =>
+    this.eventTypes ? this.eventTypes.getStatus(name) : builtInEventTypeStatus(name);
 
+  /**
+   * POST /events
+   *
+   * Default (strict) mode rejects the whole request with 400 on the first invalid event.
+   * With ?partial=true valid events are buffered and a 207 response lists the outcome
+   * of every index, so one malformed event no longer discards the rest of the batch.
+   * With ?waitForPersistence=true the response is only sent once the events are
+   * stored or the timeout expires, and reports what happened to each of them.
+   */
   async ingestEvent(req: Request, res: Response): Promise<void> {
     try {
-      if (!this.ingestionService.canAcceptEvent()) {
+      const admission = this.ingestionService.admit();
+      if (!admission.accepted) {
+        res.setHeader('Retry-After', String(admission.retryAfterSeconds));
         res.status(429).json({
           error: 'Too Many Requests',
           message: 'Event buffer at capacity, try again shortly',
-          retryAfter: 1,
+          code: 'INGESTION_OVERLOADED',
+          retryAfter: admission.retryAfterSeconds,
         });
         return;
       }
 
-      const rawEvents: RawEvent[] = Array.isArray(req.body) ? req.body : [req.body];
-      const normalizedEvents: NormalizedEvent[] = [];
+      const synchronous = waitsForPersistence(req);
+      const timeoutMs = synchronous ? persistenceTimeout(req, this.synchronousIngestion) : null;
+      if (synchronous && timeoutMs === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `persistenceTimeoutMs must be an integer between 1 and ${this.synchronousIngestion.maxTimeoutMs}`,
+        });
+        return;
+      }
 
-      for (const rawEvent of rawEvents) {
-        const validationError = validateRawEvent(rawEvent);
-        if (validationError) {
-          res.status(400).json(validationError);
-          return;
-        }
+      const rawEvents: RawEvent[] = Array.isArray(req.body) ? req.body : [req.body];
+      const partial = isPartialMode(req);
+      const outcomes = this.evaluateEvents(req, rawEvents, partial, lineIssues(req.lineErrors));
 
-        const normalized = normalizeEvent(rawEvent);
+      const firstRejection = outcomes.find((o): o is RejectedOutcome => o.status === 'rejected');
+      if (!partial && firstRejection) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: firstRejection.error.message,
+          code: firstRejection.error.code,
+          field: firstRejection.error.field,
+          index: firstRejection.index,
+        });
+        return;
+      }
 
-        if (isNaN(normalized.occurredAt.getTime())) {
-          res.status(400).json({
-            error: 'Bad Request',
-            message: 'Invalid occurredAt timestamp format',
-          });
-          return;
-        }
+      const accepted = outcomes.filter((o): o is AcceptedOutcome => o.status === 'accepted');
+      // Still accepted, but reported so senders can migrate before the type is blocked
+      const deprecatedEventTypes = Array.from(
+        new Set(accepted.map((o) => o.event.type).filter((type) => this.lookupEventType(type) === 'deprecated'))
+      );
 
-        normalizedEvents.push(normalized);
+      if (timeoutMs !== null) {
+        await this.respondWhenPersisted(res, outcomes, timeoutMs, deprecatedEventTypes);
+        return;
       }
 
-      const addPromises = normalizedEvents.map((event) =>
-        this.ingestionService.addEvent(event)
-      );
+      await this.buffer(accepted.map((o) => o.event));
 
-      await Promise.all(addPromises);
+      if (partial) {
+        res.status(207).json({
+          message: 'Batch processed',
+          accepted: accepted.length,
+          rejected: outcomes.length - accepted.length,
+          ...(deprecatedEventTypes.length > 0 && { deprecatedEventTypes }),
+          results: outcomes.map((o) =>
+            o.status === 'accepted'
+              ? {
+                  index: o.index,
+                  status: o.status,
+                  eventId: o.event.eventId,
+                  eventIdSource: o.eventIdSource,
+                  ...(o.event.schemaViolations && { schemaViolations: o.event.schemaViolations }),
+                }
+              : { index: o.index, status: o.status, error: o.error }
+          ),
+        });
+        return;
+      }
 
       res.status(202).json({
         message: 'Events accepted for processing',
-        count: normalizedEvents.length,
-        eventIds: normalizedEvents.map((e) => e.eventId),
+        count: accepted.length,
+        eventIds: accepted.map((o) => o.event.eventId),
+        clientEventIds: accepted.filter((o) => o.eventIdSource === 'client').map((o) => o.event.eventId),
+        generatedEventIds: accepted.filter((o) => o.eventIdSource === 'generated').map((o) => o.event.eventId),
+        ...(deprecatedEventTypes.length > 0 && { deprecatedEventTypes }),
       });
 
     } catch (error: any) {
@@ -69,6 +325,275 @@ export class EventsController {
     }
   }
 
+  /**
+   * GET /p.gif
+   *
+   * Tracking pixel for clients that can only load an image, such as email opens.
+   * Event fields come from the query string and go through the same validation and
+   * buffering as POST /events. The GIF is returned even when the event is rejected,
+   * so the image never shows as broken; the outcome is in the X-Event-Status header.
+   */
+  async trackPixel(req: Request, res: Response): Promise<void> {
+    try {
+      const parsed = pixelEvent(req.query);
+      const [outcome]: EventOutcome[] =
+        'issue' in parsed
+          ? [{ index: 0, status: 'rejected', error: parsed.issue }]
+          : this.evaluateEvents(req, [parsed.rawEvent], false);
+
+      if (outcome.status === 'rejected') {
+        if ('issue' in parsed) {
+          eventIngestionCounter.inc({ event_type: 'unknown', status: 'rejected' });
+        }
+        res.setHeader('X-Event-Status', 'rejected');
+        res.setHeader('X-Event-Rejection', outcome.error.code);
+      } else if (!this.ingestionService.admit().accepted) {
+        res.setHeader('X-Event-Status', 'dropped');
+      } else {
+        await this.buffer([outcome.event]);
+        res.setHeader('X-Event-Status', 'accepted');
+        res.setHeader('X-Event-Id', outcome.event.eventId);
+      }
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error('[EventsController] trackPixel error:', error);
+      }
+      res.setHeader('X-Event-Status', 'error');
+    }
+
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+    res.setHeader('Pragma', 'no-cache');
+    res.setHeader('Expires', '0');
+    res.status(200).send(PIXEL_GIF);
+  }
+
+  /**
+   * POST /v1/track, /v1/identify, /v1/page, /v1/screen, /v1/alias and /v1/batch
+   *
+   * Segment-compatible tracking API. Messages are mapped onto RawEvents and go through
+   * the same validation and buffering as POST /events; responses use Segment's
+   * { success: true } shape so existing SDKs only need a different host. A batch is
+   * processed in partial mode and its rejected messages are listed in `errors`.
+   *
+   * @param type - Message type of a single-message route; undefined for /v1/batch
+   */
+  async ingestSegment(req: Request, res: Response, type?: SegmentMessageType): Promise<void> {
+    try {
+      const admission = this.ingestionService.admit();
+      if (!admission.accepted) {
+        res.setHeader('Retry-After', String(admission.retryAfterSeconds));
+        res.status(429).json({
+          error: 'Too Many Requests',
+          message: 'Event buffer at capacity, try again shortly',
+          code: 'INGESTION_OVERLOADED',
+          retryAfter: admission.retryAfterSeconds,
+        });
+        return;
+      }
+
+      const batch = type ? null : readSegmentBatch(req.body);
+      if (!type && !batch) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Request body must be an object with a batch array of messages',
+        });
+        return;
+      }
+
+      const messages = batch ? batch.messages : [req.body];
+      const mappingIssues = new Map<number, EventValidationIssue>();
+      const rawEvents = messages.map((message, index) => {
+        const mapped = mapSegmentMessage(message, type, batch?.defaults);
+        if ('issue' in mapped) {
+          mappingIssues.set(index, mapped.issue);
+          return message as RawEvent;
+        }
+        return mapped.rawEvent;
+      });
+
+      const outcomes = this.evaluateEvents(req, rawEvents, batch !== null, mappingIssues);
+      const rejected = outcomes.filter((o): o is RejectedOutcome => o.status === 'rejected');
+
+      if (!batch && rejected.length > 0) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: rejected[0].error.message,
+          code: rejected[0].error.code,
+          field: rejected[0].error.field,
+        });
+        return;
+      }
+
+      const accepted = outcomes.filter((o): o is AcceptedOutcome => o.status === 'accepted');
+      await this.buffer(accepted.map((o) => o.event));
+
+      res.status(200).json({
+        success: true,
+        ...(batch && { accepted: accepted.length, rejected: rejected.length }),
+        ...(rejected.length > 0 && { errors: rejected.map((o) => ({ index: o.index, error: o.error })) }),
+      });
+
+    } catch (error) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.error('[EventsController] ingestSegment error:', error);
+      }
+
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An unexpected error occurred while processing events',
+      });
+    }
+  }
+
+  // Validates and normalizes every element. In strict mode evaluation stops at the
+  // first rejection because the request is going to be refused anyway.
+  // knownIssues holds elements already rejected while reading the request (NDJSON
+  // lines that were not valid JSON, Segment messages that could not be mapped).
+  private evaluateEvents(
+    req: Request,
+    rawEvents: RawEvent[],
+    partial: boolean,
+    knownIssues?: Map<number, EventValidationIssue>
+  ): EventOutcome[] {
+    const outcomes: EventOutcome[] = [];
+    // Sources with server-side sessionization get a session for events sent without one
+    const sessionIdOptional = Boolean(this.sessionizer?.settingsFor(req.sourceId));
+
+    for (let index = 0; index < rawEvents.length; index++) {
+      const rawEvent = rawEvents[index];
+      const envelopeIssue =
+        knownIssues?.get(index) ?? inspectRawEvent(rawEvent, this.lookupEventType, { sessionIdOptional });
+      // Payloads are only checked against the tracking plan once the envelope is valid
+      const check = envelopeIssue ? null : this.checkPayload(rawEvent);
+      const issue = envelopeIssue ?? (check?.mode === 'enforce' ? payloadIssue(rawEvent, check) : null);
+      const normalized = issue ? { issue } : this.normalize(req, rawEvent, check);
+
+      if ('issue' in normalized) {
+        recordRejection(rawEvent, normalized.issue, this.lookupEventType);
+        outcomes.push({ index, status: 'rejected', error: normalized.issue });
+        if (!partial) {
+          break;
+        }
+        continue;
+      }
+
+      outcomes.push({
+        index,
+        status: 'accepted',
+        event: normalized.event,
+        eventIdSource: rawEvent.eventId ? 'client' : 'generated',
+      });
+    }
+
+    return outcomes;
+  }
+
+  // Normalizes a valid event, applies the timestamp policy (which may still reject it),
+  // marks bot and internal traffic, strips PII from the payload and enriches it with
+  // what the request tells about the client. Redaction runs after payload validation,
+  // which needs the original values; the traffic filter runs before enrichment
+  // anonymizes the IP.
+  private normalize(
+    req: Request,
+    rawEvent: RawEvent,
+    check: PayloadSchemaCheck | null
+  ): { event: NormalizedEvent } | { issue: EventValidationIssue } {
+    const event = normalizeEvent(rawEvent, req.sourceId);
+    const timestampIssue = applyTimestampPolicy(event, this.timestampPolicy);
+    if (timestampIssue) {
+      return { issue: timestampIssue };
+    }
+
+    if (check) {
+      event.schemaViolations = { version: check.version, violations: check.violations };
+    }
+    const client = { ip: req.ip, userAgent: req.headers?.['user-agent'] };
+    this.trafficFilter?.apply(event, client);
+    this.redactor?.redact(event);
+    this.enrichment?.enrich(event, client);
+    return { event };
+  }
+
+  // Runs accepted events through the transformation pipeline and buffers what comes
+  // out. Responses keep reporting the eventIds clients sent, even for events the
+  // traffic filter or a stage dropped, and for split events.
+  private async buffer(events: NormalizedEvent[]): Promise<void> {
+    const prepared = events.flatMap((event) => this.prepare(event));
+    await Promise.all(prepared.map((event) => this.ingestionService.addEvent(event)));
+  }
+
+  // The events to store for an accepted event: none when the traffic filter or a
+  // pipeline stage drops it, several when a stage splits it
+  private prepare(event: NormalizedEvent): NormalizedEvent[] {
+    if (this.trafficFilter?.drops(event)) {
+      return [];
+    }
+    return this.pipeline ? this.pipeline.run(event) : [event];
+  }
+
+  /**
+   * Synchronous POST /events: 200 when every event was stored (or was a duplicate,
+   * or dropped by the traffic filter or pipeline), 207 when any failed, was still
+   * pending at the timeout or, in partial mode, was rejected.
+   */
+  private async respondWhenPersisted(
+    res: Response,
+    outcomes: EventOutcome[],
+    timeoutMs: number,
+    deprecatedEventTypes: string[]
+  ): Promise<void> {
+    const prepared = new Map(
+      outcomes.flatMap((o) => (o.status === 'accepted' ? [[o.index, this.prepare(o.event)] as const] : []))
+    );
+    const persistence = await this.ingestionService.addEventsAndWait(
+      Array.from(prepared.values()).flat(),
+      timeoutMs
+    );
+    const resultsById = new Map(persistence.map((result) => [result.eventId, result]));
+
+    const results = outcomes.flatMap<SynchronousResult>((o) => {
+      if (o.status === 'rejected') {
+        return [{ index: o.index, status: o.status, error: o.error }];
+      }
+      const stored = prepared.get(o.index) ?? [];
+      if (stored.length === 0) {
+        return [{ index: o.index, eventId: o.event.eventId, status: 'dropped' }];
+      }
+      return stored.map((event) => ({
+        index: o.index,
+        ...(resultsById.get(event.eventId) ?? { eventId: event.eventId, status: 'pending' }),
+      }));
+    });
+
+    const counts: Record<string, number> = {};
+    for (const result of results) {
+      counts[result.status] = (counts[result.status] ?? 0) + 1;
+      if (result.status !== 'rejected') {
+        synchronousIngestionCounter.inc({ status: result.status });
+      }
+    }
+
+    res.status(results.every((result) => SETTLED_STATUSES.includes(result.status)) ? 200 : 207).json({
+      message: 'Events processed',
+      counts,
+      ...(deprecatedEventTypes.length > 0 && { deprecatedEventTypes }),
+      results,
+    });
+  }
+
+  private checkPayload(rawEvent: RawEvent): PayloadSchemaCheck | null {
+    if (!this.payloadSchemas) {
+      return null;
+    }
+
+    const check = this.payloadSchemas.check(rawEvent.type, rawEvent.payload ?? {});
+    if (check) {
+      payloadSchemaViolationCounter.inc({ event_type: rawEvent.type, mode: check.mode });
+    }
+    return check;
+  }
+
   async getUserJourney(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
@@ -124,10 +649,13 @@ export class EventsController {
         options.limit = limitNum;
       }
 
-      const events = await this.repository.getUserJourney(userId, options);
+      // Merge the events of every identity linked to this user (anonymous IDs, devices...)
+      const identity = this.identities ? await this.identities.resolve(userId) : null;
+      const events = await this.repository.getUserJourney(identity ? identity.userIds : userId, options);
 
       res.status(200).json({
         userId,
+        ...(identity && { canonicalUserId: identity.canonicalUserId, identities: identity.userIds }),
         count: events.length,
         events,
       });
@@ -142,9 +670,9 @@ export class EventsController {
     }
   }
 
-  async getStats(_req: Request, res: Response): Promise<void> {
+  async getStats(req: Request, res: Response): Promise<void> {
     try {
-      const stats = await this.repository.getAnalyticsStats();
+      const stats = await this.repository.getAnalyticsStats({ includeExcluded: includesExcluded(req) });
       res.status(200).json(stats);
     } catch (error: any) {
       console.error('[EventsController] getStats error:', error);
@@ -154,42 +682,4 @@ export class EventsController {
       });
     }
   }
-
-  async getUsers(req: Request, res: Response): Promise<void> {
-    try {
-      const { page, pageSize } = req.query;
-
-      const pageNum = page ? parseInt(page as string, 10) : 1;
-      const pageSizeNum = pageSize ? parseInt(pageSize as string, 10) : 10;
-
-      if (isNaN(pageNum) || pageNum < 1) {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'Invalid page parameter. Must be a positive integer',
-        });
-        return;
-      }
-
-      if (isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'Invalid pageSize parameter. Must be between 1 and 100',
-        });
-        return;
-      }
-
-      const result = await this.repository.getUserMetrics({
-        page: pageNum,
-        pageSize: pageSizeNum
-      });
-
-      res.status(200).json(result);
-    } catch (error: any) {
-      console.error('[EventsController] getUsers error:', error);
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'An error occurred while fetching users',
-      });
-    }
-  }
 }
@@ -0,0 +1,77 @@
+import type { Request, Response } from 'express';
+import type { IdentityResolver, ResolvedIdentity } from '../services/identityResolver.service';
+
+function toResponse(userId: string, identity: ResolvedIdentity) {
+  return {
+    userId,
+    canonicalUserId: identity.canonicalUserId,
+    identities: identity.links,
+  };
+}
+
+// Inspection and correction of the identity graph built from identify/alias events
+export class IdentityController {
+  constructor(private identities: IdentityResolver) {}
+
+  /**
+   * GET /users/:userId/identities
+   *
+   * Any identifier of the user may be passed; the response always describes the
+   * whole identity it belongs to.
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const identity = await this.identities.resolve(userId);
+
+      res.status(200).json(toResponse(userId, identity));
+    } catch (error) {
+      console.error('[IdentityController] get error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while resolving identities',
+      });
+    }
+  }
+
+  /**
+   * DELETE /users/:userId/identities/:identifier
+   *
+   * Detach a wrongly merged identifier (e.g. a shared device) from the user. The
+   * canonical user ID itself cannot be unlinked.
+   */
+  async unlink(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId, identifier } = req.params;
+      const identity = await this.identities.resolve(userId);
+
+      if (identifier === identity.canonicalUserId) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `${identifier} is the canonical user ID; unlink the identities linked to it instead`,
+        });
+        return;
+      }
+
+      if (!identity.links.some((link) => link.identifier === identifier)) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `${identifier} is not linked to user ${identity.canonicalUserId}`,
+        });
+        return;
+      }
+
+      await this.identities.unlink(identifier);
+      // Re-resolve from the canonical user: userId may be the identifier just removed
+      const remaining = await this.identities.resolve(identity.canonicalUserId);
+
+      res.status(200).json(toResponse(userId, remaining));
+    } catch (error) {
+      console.error('[IdentityController] unlink error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while unlinking the identity',
+      });
+    }
+  }
+}
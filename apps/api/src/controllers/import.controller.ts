@@ -0,0 +1,228 @@
+import type { Request, Response } from 'express';
+import { IMPORT_FORMATS, type ImportFormat } from '../models/ImportJob';
+import type { ImportJobInfo } from '../repositories/importJob.repository';
+import type { EventImportService } from '../services/eventImport.service';
+import { checkImportDefaults, checkImportMapping } from '../utils/importMapping';
+import { RequestBodyError, decodeRequestBody } from '../utils/ndjsonReader';
+
+const MAX_TEXT_LENGTH = 500;
+
+// Upload content types that tell the format of the file
+const CONTENT_TYPE_FORMATS: Record<string, ImportFormat> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/json': 'json',
+};
+
+function isFormat(value: unknown): value is ImportFormat {
+  return IMPORT_FORMATS.includes(value as ImportFormat);
+}
+
+// Returns the first problem with a POST /admin/imports body, or null
+function checkImportRequest(body: Record<string, unknown>): string | null {
+  if (typeof body.file !== 'string' || body.file.trim() === '' || body.file.length > MAX_TEXT_LENGTH) {
+    return 'file must be the path of a file in the import directory, e.g. the file returned by POST /admin/imports/files';
+  }
+  if (body.format !== undefined && !isFormat(body.format)) {
+    return `format must be one of: ${IMPORT_FORMATS.join(', ')}`;
+  }
+  if (body.sourceId !== undefined && (typeof body.sourceId !== 'string' || body.sourceId.length > MAX_TEXT_LENGTH)) {
+    return 'sourceId must be a string';
+  }
+  return (
+    (body.mapping !== undefined ? checkImportMapping(body.mapping) : null) ??
+    (body.defaults !== undefined ? checkImportDefaults(body.defaults) : null)
+  );
+}
+
+// Admin endpoints for historical imports: upload a file, queue its import, follow
+// progress and rejections, pause, resume and roll back
+export class ImportController {
+  constructor(private imports: EventImportService) {}
+
+  /**
+   * POST /admin/imports/files
+   * Body: the raw file (optionally gzip/deflate encoded); ?format= or the Content-Type
+   * (text/csv, application/x-ndjson, application/json) names its format
+   */
+  async upload(req: Request, res: Response): Promise<void> {
+    try {
+      const format = req.query.format ?? CONTENT_TYPE_FORMATS[(req.headers['content-type'] ?? '').split(';')[0].trim()];
+      if (format !== undefined && !isFormat(format)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `format must be one of: ${IMPORT_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const content = decodeRequestBody(req, req.headers['content-encoding']);
+      const upload = await this.imports.saveUpload(content, format);
+
+      console.log('[ImportController] File uploaded', { ...upload, uploadedBy: req.user?.email });
+      res.status(201).json({ ...upload, ...(format && { format }) });
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        // Stop reading: the rest of an oversized or corrupt upload is not needed
+        req.unpipe();
+        req.pause();
+        res.status(error.status).json({
+          error: error.status === 413 ? 'Payload Too Large' : 'Bad Request',
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('[ImportController] upload error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while storing the uploaded file',
+      });
+    }
+  }
+
+  /**
+   * POST /admin/imports
+   * Body: { file, format?, mapping?, defaults?, sourceId? }
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const body = req.body ?? {};
+      const problem = checkImportRequest(body);
+      if (problem) {
+        res.status(400).json({ error: 'Bad Request', message: problem });
+        return;
+      }
+
+      const result = await this.imports.create({
+        file: body.file,
+        format: body.format,
+        mapping: body.mapping,
+        defaults: body.defaults,
+        sourceId: body.sourceId,
+        createdBy: req.user?.email,
+      });
+      if ('problem' in result) {
+        res.status(400).json({ error: 'Bad Request', message: result.problem });
+        return;
+      }
+
+      res.status(202).json(result.job);
+    } catch (error) {
+      console.error('[ImportController] create error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while creating the import',
+      });
+    }
+  }
+
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, pageSize } = req.query;
+
+      const pageNum = page ? parseInt(page as string, 10) : 1;
+      const pageSizeNum = pageSize ? parseInt(pageSize as string, 10) : 20;
+
+      if (Number.isNaN(pageNum) || pageNum < 1) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid page parameter. Must be a positive integer',
+        });
+        return;
+      }
+
+      if (Number.isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid pageSize parameter. Must be between 1 and 100',
+        });
+        return;
+      }
+
+      res.status(200).json(await this.imports.list({ page: pageNum, pageSize: pageSizeNum }));
+    } catch (error) {
+      console.error('[ImportController] list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching imports',
+      });
+    }
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.imports.find(req.params.importId);
+
+      if (!job) {
+        this.notFound(res, req.params.importId);
+        return;
+      }
+
+      res.status(200).json(job);
+    } catch (error) {
+      console.error('[ImportController] get error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching the import',
+      });
+    }
+  }
+
+  // POST /admin/imports/:importId/pause
+  async pause(req: Request, res: Response): Promise<void> {
+    await this.changeStatus(req, res, 'pause', 'queued or running');
+  }
+
+  // POST /admin/imports/:importId/resume
+  async resume(req: Request, res: Response): Promise<void> {
+    await this.changeStatus(req, res, 'resume', 'paused or failed');
+  }
+
+  // POST /admin/imports/:importId/rollback - deletes the events the import wrote
+  async rollback(req: Request, res: Response): Promise<void> {
+    await this.changeStatus(req, res, 'rollback', 'paused, completed or failed');
+  }
+
+  private async changeStatus(
+    req: Request,
+    res: Response,
+    action: 'pause' | 'resume' | 'rollback',
+    allowedStatuses: string
+  ): Promise<void> {
+    try {
+      const { importId } = req.params;
+      const job: ImportJobInfo | null = await this.imports[action](importId);
+
+      if (!job) {
+        const current = await this.imports.find(importId);
+        if (!current) {
+          this.notFound(res, importId);
+          return;
+        }
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Import ${importId} is ${current.status}; only ${allowedStatuses} imports can ${action === 'rollback' ? 'be rolled back' : `be ${action}d`}`,
+        });
+        return;
+      }
+
+      console.log(`[ImportController] Import ${action}`, { importId, by: req.user?.email });
+      res.status(200).json(job);
+    } catch (error) {
+      console.error(`[ImportController] ${action} error:`, error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: `An error occurred during the import ${action}`,
+      });
+    }
+  }
+
+  private notFound(res: Response, importId: string): void {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `No import with id ${importId}`,
+    });
+  }
+}
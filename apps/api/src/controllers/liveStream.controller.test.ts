@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { LiveStreamController, parseSubscription } from './liveStream.controller';
+import { LiveEventStream } from '../services/liveEventStream.service';
+import type { NormalizedEvent } from '../repositories/event.repository';
+
+const settings = { maxConnections: 1, maxEventsPerSecond: 50, heartbeatMs: 15000 };
+
+const createEvent = (eventId: string, type: string): NormalizedEvent => ({
+  eventId,
+  userId: 'u1',
+  sessionId: 's1',
+  type,
+  payload: {},
+  occurredAt: new Date(0),
+  receivedAt: new Date(0),
+});
+
+describe('parseSubscription', () => {
+  it('reads the filter, sample rate and rate cap', () => {
+    expect(
+      parseSubscription(
+        { userId: 'u1', type: 'purchase, page_view', where: '{"payload.plan":"pro"}', sample: '0.25', maxEventsPerSecond: '10' },
+        settings
+      )
+    ).toEqual({
+      filter: { userId: 'u1', types: ['purchase', 'page_view'], where: { 'payload.plan': 'pro' } },
+      sampleRate: 0.25,
+      maxEventsPerSecond: 10,
+    });
+    expect(parseSubscription({}, settings)).toEqual({ filter: {}, sampleRate: 1, maxEventsPerSecond: 50 });
+  });
+
+  it('rejects invalid parameters', () => {
+    expect(parseSubscription({ where: 'plan=pro' }, settings)).toMatch(/Invalid where parameter/);
+    expect(parseSubscription({ where: '{"secret":1}' }, settings)).toMatch(/Invalid where parameter: /);
+    expect(parseSubscription({ type: 'purchase,' }, settings)).toMatch(/Invalid type parameter/);
+    expect(parseSubscription({ sample: '0' }, settings)).toMatch(/Invalid sample parameter/);
+    expect(parseSubscription({ maxEventsPerSecond: '51' }, settings)).toMatch(/between 1 and 50/);
+  });
+});
+
+describe('LiveStreamController', () => {
+  let stream: LiveEventStream;
+  let controller: LiveStreamController;
+  let mockResponse: Record<string, ReturnType<typeof vi.fn> | boolean>;
+  let onClose: (() => void) | undefined;
+  let mockRequest: Partial<Request>;
+
+  beforeEach(() => {
+    stream = new LiveEventStream(settings);
+    controller = new LiveStreamController(stream, settings);
+    mockResponse = {
+      status: vi.fn(),
+      json: vi.fn(),
+      setHeader: vi.fn(),
+      writeHead: vi.fn(),
+      write: vi.fn(),
+      end: vi.fn(),
+      writableNeedDrain: false,
+    };
+    (mockResponse.status as ReturnType<typeof vi.fn>).mockReturnValue(mockResponse);
+    onClose = undefined;
+    mockRequest = {
+      query: { type: 'page_view' },
+      on: vi.fn((_event: string | symbol, listener: (...args: unknown[]) => void) => {
+        onClose = listener;
+        return mockRequest as Request;
+      }),
+    };
+  });
+
+  it('streams matching events until the client disconnects', async () => {
+    await controller.stream(mockRequest as Request, mockResponse as unknown as Response);
+
+    expect(mockResponse.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+    expect(mockResponse.write).toHaveBeenCalledWith(expect.stringContaining('event: ready\n'));
+
+    stream.publish(createEvent('e1', 'page_view'));
+    stream.publish(createEvent('e2', 'purchase'));
+    expect(mockResponse.write).toHaveBeenCalledWith(expect.stringMatching(/^data: \{"eventId":"e1"/));
+    expect(mockResponse.write).not.toHaveBeenCalledWith(expect.stringContaining('"e2"'));
+
+    onClose?.();
+    expect(stream.connectionCount).toBe(0);
+  });
+
+  it('returns 503 with Retry-After when every connection is taken', async () => {
+    stream.subscribe({ filter: {}, sampleRate: 1, maxEventsPerSecond: 1 }, { send: () => true, close: () => {} });
+
+    await controller.stream(mockRequest as Request, mockResponse as unknown as Response);
+
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('Retry-After', '3');
+    expect(mockResponse.status).toHaveBeenCalledWith(503);
+    expect(mockResponse.writeHead).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the stream is turned off', async () => {
+    const disabled = { ...settings, maxConnections: 0 };
+    controller = new LiveStreamController(new LiveEventStream(disabled), disabled);
+
+    await controller.stream(mockRequest as Request, mockResponse as unknown as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(404);
+  });
+
+  it('returns 400 for an invalid filter', async () => {
+    mockRequest.query = { sample: '2' };
+
+    await controller.stream(mockRequest as Request, mockResponse as unknown as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(stream.connectionCount).toBe(0);
+  });
+});
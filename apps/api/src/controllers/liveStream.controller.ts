@@ -0,0 +1,145 @@
+import type { Request, Response } from 'express';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { LiveEventStream, LiveStreamSettings, LiveSubscription } from '../services/liveEventStream.service';
+import { checkCondition } from '../utils/eventTransforms';
+
+// How long EventSource waits before reconnecting after the connection drops
+const RECONNECT_DELAY_MS = 3000;
+
+const FILTER_PARAMS = ['userId', 'type', 'sourceId'] as const;
+
+/**
+ * Reads userId, type (comma-separated), sourceId, where (JSON), sample and
+ * maxEventsPerSecond; returns the problem with them as a string
+ */
+export function parseSubscription(query: Request['query'], settings: LiveStreamSettings): LiveSubscription | string {
+  for (const name of FILTER_PARAMS) {
+    const value = query[name];
+    if (value !== undefined && (typeof value !== 'string' || value === '')) {
+      return `Invalid ${name} parameter`;
+    }
+  }
+  const { userId, type, sourceId } = query as Record<(typeof FILTER_PARAMS)[number], string | undefined>;
+
+  const types = type?.split(',').map((name) => name.trim());
+  if (types?.some((name) => name === '')) {
+    return 'Invalid type parameter. Use a comma-separated list of event types';
+  }
+
+  let where: Record<string, unknown> | undefined;
+  if (query.where !== undefined) {
+    try {
+      where = JSON.parse(String(query.where));
+    } catch {
+      return 'Invalid where parameter. Must be a JSON object of paths to values, e.g. {"payload.plan":"pro"}';
+    }
+    const problem = checkCondition({ where });
+    if (problem) {
+      return `Invalid where parameter: ${problem}`;
+    }
+  }
+
+  const sampleRate = query.sample === undefined ? 1 : Number(query.sample);
+  if (!(sampleRate > 0 && sampleRate <= 1)) {
+    return 'Invalid sample parameter. Must be a number greater than 0 and at most 1';
+  }
+
+  const maxEventsPerSecond =
+    query.maxEventsPerSecond === undefined ? settings.maxEventsPerSecond : Number(query.maxEventsPerSecond);
+  if (!Number.isInteger(maxEventsPerSecond) || maxEventsPerSecond < 1 || maxEventsPerSecond > settings.maxEventsPerSecond) {
+    return `Invalid maxEventsPerSecond parameter. Must be an integer between 1 and ${settings.maxEventsPerSecond}`;
+  }
+
+  return {
+    filter: {
+      ...(userId && { userId }),
+      ...(types && { types }),
+      ...(sourceId && { sourceId }),
+      ...(where && { where }),
+    },
+    sampleRate,
+    maxEventsPerSecond,
+  };
+}
+
+function message(event: string | null, data: unknown): string {
+  return `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+// Accepted events as Server-Sent Events, for checking tracking calls as they arrive
+export class LiveStreamController {
+  constructor(
+    private live: LiveEventStream,
+    private settings: LiveStreamSettings
+  ) {}
+
+  /**
+   * GET /events/live?userId=&type=&sourceId=&where=&sample=&maxEventsPerSecond=
+   *
+   * Each accepted event that matches the filter is sent as a message (before it is
+   * flushed, so a later write failure is not reflected). A "ready" event echoes the
+   * subscription and a "stats" event every heartbeat counts the events sent and
+   * skipped for the rate cap or a slow client.
+   */
+  async stream(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.live.enabled) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: 'The live event stream is turned off (LIVE_STREAM_MAX_CONNECTIONS=0)',
+        });
+        return;
+      }
+
+      const subscription = parseSubscription(req.query, this.settings);
+      if (typeof subscription === 'string') {
+        res.status(400).json({ error: 'Bad Request', message: subscription });
+        return;
+      }
+
+      const connection = this.live.subscribe(subscription, {
+        send: (event: NormalizedEvent) => {
+          // Skip rather than buffer while the client is still reading earlier events
+          if (res.writableNeedDrain) {
+            return false;
+          }
+          res.write(message(null, event));
+          return true;
+        },
+        close: () => res.end(),
+      });
+      if (!connection) {
+        res.setHeader('Retry-After', String(Math.ceil(RECONNECT_DELAY_MS / 1000)));
+        res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Too many live stream connections, try again later',
+        });
+        return;
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Stops nginx from buffering the stream
+        'X-Accel-Buffering': 'no',
+      });
+      res.write(`retry: ${RECONNECT_DELAY_MS}\n`);
+      res.write(message('ready', subscription));
+
+      const heartbeat = setInterval(() => res.write(message('stats', connection.stats())), this.settings.heartbeatMs);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        connection.unsubscribe();
+      });
+    } catch (error) {
+      console.error('[LiveStreamController] stream error:', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'Internal Server Error',
+          message: 'An error occurred while opening the live stream',
+        });
+      }
+    }
+  }
+}
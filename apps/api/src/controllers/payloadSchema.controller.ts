@@ -0,0 +1,173 @@
+import type { Request, Response } from 'express';
+import { PAYLOAD_SCHEMA_MODES, type PayloadSchemaMode } from '../models/PayloadSchema';
+import type { PayloadSchemaEntry } from '../repositories/payloadSchema.repository';
+import type { PayloadSchemaRegistry } from '../services/payloadSchemaRegistry.service';
+import type { EventTypeCatalog } from '../services/eventTypeCatalog.service';
+import { checkSchemaDefinition } from '../validators/payloadSchema.validator';
+
+function isMode(value: unknown): value is PayloadSchemaMode {
+  return PAYLOAD_SCHEMA_MODES.includes(value as PayloadSchemaMode);
+}
+
+// Listing shows only the current version; the full history is on the detail route
+function summarize(entry: PayloadSchemaEntry) {
+  const current = entry.versions.find((version) => version.version === entry.currentVersion);
+  return {
+    eventType: entry.eventType,
+    mode: entry.mode,
+    currentVersion: entry.currentVersion,
+    schema: current?.schema,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+// Authenticated management of the tracking plan (per-event-type payload schemas)
+export class PayloadSchemaController {
+  constructor(
+    private registry: PayloadSchemaRegistry,
+    private eventTypes: EventTypeCatalog
+  ) {}
+
+  async list(_req: Request, res: Response): Promise<void> {
+    res.status(200).json({ schemas: this.registry.list().map(summarize) });
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    const entry = this.registry.get(req.params.eventType);
+
+    if (!entry) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No payload schema registered for ${req.params.eventType}`,
+      });
+      return;
+    }
+
+    res.status(200).json(entry);
+  }
+
+  async getVersion(req: Request, res: Response): Promise<void> {
+    const entry = this.registry.get(req.params.eventType);
+    const versionNum = parseInt(req.params.version, 10);
+    const version = entry?.versions.find((v) => v.version === versionNum);
+
+    if (!entry || !version) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No version ${req.params.version} of the ${req.params.eventType} payload schema`,
+      });
+      return;
+    }
+
+    res.status(200).json({ eventType: entry.eventType, ...version });
+  }
+
+  /**
+   * PUT /schemas/:eventType
+   * Body: { schema: JSONSchema, mode?: 'off' | 'warn' | 'enforce' }
+   *
+   * Every call registers a new version; earlier versions are kept for reference.
+   */
+  async register(req: Request, res: Response): Promise<void> {
+    try {
+      const eventType = req.params.eventType;
+      const { schema, mode } = req.body ?? {};
+
+      if (!this.eventTypes.get(eventType)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid event type: ${eventType}. Register it in the event-type catalog first`,
+        });
+        return;
+      }
+
+      if (mode !== undefined && !isMode(mode)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid mode. Must be one of: ${PAYLOAD_SCHEMA_MODES.join(', ')}`,
+        });
+        return;
+      }
+
+      const problem = checkSchemaDefinition(schema);
+      if (problem) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid schema: ${problem}`,
+        });
+        return;
+      }
+
+      const entry = await this.registry.register(eventType, schema, {
+        mode,
+        createdBy: req.user?.email,
+      });
+
+      res.status(entry.currentVersion === 1 ? 201 : 200).json(summarize(entry));
+    } catch (error) {
+      console.error('[PayloadSchemaController] register error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while registering the payload schema',
+      });
+    }
+  }
+
+  /**
+   * PATCH /schemas/:eventType
+   * Body: { mode: 'off' | 'warn' | 'enforce' }
+   */
+  async updateMode(req: Request, res: Response): Promise<void> {
+    try {
+      const { mode } = req.body ?? {};
+
+      if (!isMode(mode)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid mode. Must be one of: ${PAYLOAD_SCHEMA_MODES.join(', ')}`,
+        });
+        return;
+      }
+
+      const entry = await this.registry.setMode(req.params.eventType, mode);
+
+      if (!entry) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No payload schema registered for ${req.params.eventType}`,
+        });
+        return;
+      }
+
+      res.status(200).json(summarize(entry));
+    } catch (error) {
+      console.error('[PayloadSchemaController] updateMode error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while updating the payload schema mode',
+      });
+    }
+  }
+
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.registry.remove(req.params.eventType);
+
+      if (!deleted) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No payload schema registered for ${req.params.eventType}`,
+        });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('[PayloadSchemaController] remove error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while deleting the payload schema',
+      });
+    }
+  }
+}
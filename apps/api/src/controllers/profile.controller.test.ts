@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { Request, Response } from 'express';
+import { ProfileController } from './profile.controller';
+import { ProfileTracker } from '../services/profileTracker.service';
+import { ProfileRepository } from '../repositories/profile.repository';
+
+describe('ProfileController', () => {
+  let controller: ProfileController;
+  let mockProfiles: ProfileTracker;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let jsonMock: Mock<Response['json']>;
+  let statusMock: Mock<Response['status']>;
+
+  beforeEach(() => {
+    mockProfiles = new ProfileTracker(new ProfileRepository());
+    vi.spyOn(mockProfiles, 'list').mockResolvedValue({
+      users: [],
+      totalCount: 0,
+      page: 1,
+      pageSize: 10,
+      totalPages: 0,
+    });
+    vi.spyOn(mockProfiles, 'getProfile').mockResolvedValue(null);
+    vi.spyOn(mockProfiles, 'updateTraits').mockResolvedValue({
+      userId: 'user123',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      eventCount: 0,
+      sessionCount: 0,
+      traits: { plan: 'pro' },
+      computed: { eventTypeCounts: {}, purchaseCount: 0, totalRevenue: 0 },
+    });
+
+    controller = new ProfileController(mockProfiles);
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn();
+    mockResponse = {
+      status: statusMock,
+      json: jsonMock,
+    };
+    statusMock.mockReturnValue(mockResponse as Response);
+  });
+
+  describe('list', () => {
+    it('returns paginated profiles with defaults', async () => {
+      mockRequest = { query: {} };
+
+      await controller.list(mockRequest as Request, mockResponse as Response);
+
+      expect(mockProfiles.list).toHaveBeenCalledWith({ page: 1, pageSize: 10 });
+      expect(statusMock).toHaveBeenCalledWith(200);
+    });
+
+    it('accepts custom pagination params and includeExcluded', async () => {
+      mockRequest = { query: { page: '2', pageSize: '20', includeExcluded: 'true' } };
+
+      await controller.list(mockRequest as Request, mockResponse as Response);
+
+      expect(mockProfiles.list).toHaveBeenCalledWith({ page: 2, pageSize: 20, includeExcluded: true });
+    });
+
+    it('rejects invalid page and pageSize params', async () => {
+      await controller.list({ query: { page: '0' } } as unknown as Request, mockResponse as Response);
+      await controller.list({ query: { pageSize: '200' } } as unknown as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenNthCalledWith(1, 400);
+      expect(statusMock).toHaveBeenNthCalledWith(2, 400);
+      expect(mockProfiles.list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('get', () => {
+    it('returns 404 for a user without a profile', async () => {
+      mockRequest = { params: { userId: 'user123' } };
+
+      await controller.get(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('updateTraits', () => {
+    it('applies a valid trait update', async () => {
+      const body = { set: { plan: 'pro' }, increment: { logins: 1 } };
+      mockRequest = { params: { userId: 'user123' }, body };
+
+      await controller.updateTraits(mockRequest as Request, mockResponse as Response);
+
+      expect(mockProfiles.updateTraits).toHaveBeenCalledWith('user123', body);
+      expect(statusMock).toHaveBeenCalledWith(200);
+    });
+
+    it('rejects an invalid trait update', async () => {
+      mockRequest = { params: { userId: 'user123' }, body: { increment: { logins: 'one' } } };
+
+      await controller.updateTraits(mockRequest as Request, mockResponse as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(jsonMock).toHaveBeenCalledWith({ error: 'Bad Request', message: 'increment.logins must be a number' });
+      expect(mockProfiles.updateTraits).not.toHaveBeenCalled();
+    });
+  });
+});
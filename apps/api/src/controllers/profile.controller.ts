@@ -0,0 +1,116 @@
+import type { Request, Response } from 'express';
+import type { ITraitUpdate } from '@martech/types';
+import type { ProfileTracker } from '../services/profileTracker.service';
+import { checkTraitUpdate } from '../utils/traits';
+
+// Users flagged as bot or internal traffic are only listed with ?includeExcluded=true
+function includesExcluded(req: Request): boolean {
+  const value = req.query?.includeExcluded;
+  return value === 'true' || value === '1';
+}
+
+// User profiles materialized from stored events and identify calls (see ProfileTracker)
+export class ProfileController {
+  constructor(private profiles: ProfileTracker) {}
+
+  /**
+   * GET /users?page=&pageSize=&includeExcluded=
+   *
+   * Profiles, most recently active first. Each userId has its own profile; linked
+   * identities are merged by GET /users/:userId.
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, pageSize } = req.query;
+
+      const pageNum = page ? parseInt(page as string, 10) : 1;
+      const pageSizeNum = pageSize ? parseInt(pageSize as string, 10) : 10;
+
+      if (Number.isNaN(pageNum) || pageNum < 1) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid page parameter. Must be a positive integer',
+        });
+        return;
+      }
+
+      if (Number.isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid pageSize parameter. Must be between 1 and 100',
+        });
+        return;
+      }
+
+      const result = await this.profiles.list({
+        page: pageNum,
+        pageSize: pageSizeNum,
+        ...(includesExcluded(req) && { includeExcluded: true }),
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('[ProfileController] list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching users',
+      });
+    }
+  }
+
+  /**
+   * GET /users/:userId
+   *
+   * The profile of the user merged with those of every identity linked to it
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const profile = await this.profiles.getProfile(userId);
+
+      if (!profile) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No profile for user ${userId}`,
+        });
+        return;
+      }
+
+      res.status(200).json(profile);
+    } catch (error) {
+      console.error('[ProfileController] get error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching the user profile',
+      });
+    }
+  }
+
+  /**
+   * PATCH /users/:userId
+   *
+   * Body: { set?, set_once?, increment?, append? }, each an object of trait names
+   * to values. Applied to the canonical user's profile, which is created if needed.
+   */
+  async updateTraits(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+
+      const problem = checkTraitUpdate(req.body);
+      if (problem) {
+        res.status(400).json({ error: 'Bad Request', message: problem });
+        return;
+      }
+
+      const profile = await this.profiles.updateTraits(userId, req.body as ITraitUpdate);
+
+      res.status(200).json(profile);
+    } catch (error) {
+      console.error('[ProfileController] updateTraits error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while updating the user profile',
+      });
+    }
+  }
+}
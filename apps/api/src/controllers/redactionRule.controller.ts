@@ -0,0 +1,102 @@
+import type { Request, Response } from 'express';
+import type { IRedactionRule } from '../models/RedactionRuleSet';
+import { ALL_EVENT_TYPES, type PayloadRedactor } from '../services/payloadRedactor.service';
+import type { EventTypeCatalog } from '../services/eventTypeCatalog.service';
+import { checkRedactionRules } from '../utils/piiRedaction';
+
+// Authenticated management of the PII redaction rules applied at ingestion
+export class RedactionRuleController {
+  constructor(
+    private redactor: PayloadRedactor,
+    private eventTypes: EventTypeCatalog
+  ) {}
+
+  async list(_req: Request, res: Response): Promise<void> {
+    res.status(200).json({ ruleSets: this.redactor.list(), hashAvailable: this.redactor.canHash });
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    const entry = this.redactor.get(req.params.eventType);
+
+    if (!entry) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `No redaction rules registered for ${req.params.eventType}`,
+      });
+      return;
+    }
+
+    res.status(200).json(entry);
+  }
+
+  /**
+   * PUT /redaction-rules/:eventType
+   * Body: { rules: [{ path?, detect?: 'email' | 'phone' | 'credit_card' | 'ip', action: 'drop' | 'mask' | 'hash' }] }
+   *
+   * Replaces the rule set of the event type; "*" applies to every type. Rules only
+   * affect events ingested afterwards.
+   */
+  async put(req: Request, res: Response): Promise<void> {
+    try {
+      const eventType = req.params.eventType;
+      const { rules } = req.body ?? {};
+
+      if (eventType !== ALL_EVENT_TYPES && !this.eventTypes.get(eventType)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid event type: ${eventType}. Register it in the event-type catalog first, or use * for all types`,
+        });
+        return;
+      }
+
+      const problem = checkRedactionRules(rules);
+      if (problem) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid rules: ${problem}`,
+        });
+        return;
+      }
+
+      if (!this.redactor.canHash && rules.some((rule: IRedactionRule) => rule.action === 'hash')) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Hash rules need PII_HASH_SALT to be configured on the server; use mask or drop instead',
+        });
+        return;
+      }
+
+      const { entry, created } = await this.redactor.set(eventType, rules, req.user?.email);
+
+      res.status(created ? 201 : 200).json(entry);
+    } catch (error) {
+      console.error('[RedactionRuleController] put error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while saving the redaction rules',
+      });
+    }
+  }
+
+  async remove(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.redactor.remove(req.params.eventType);
+
+      if (!deleted) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No redaction rules registered for ${req.params.eventType}`,
+        });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error('[RedactionRuleController] remove error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while deleting the redaction rules',
+      });
+    }
+  }
+}
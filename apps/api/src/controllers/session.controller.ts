@@ -0,0 +1,187 @@
+import type { Request, Response } from 'express';
+import type { EventRepository } from '../repositories/event.repository';
+import type { SessionListOptions, SessionRepository } from '../repositories/session.repository';
+import type { IdentityResolver } from '../services/identityResolver.service';
+import { validateDate, validateLimit } from '../validators/event.validator';
+
+type ListQuery = Pick<SessionListOptions, 'from' | 'to' | 'page' | 'pageSize'>;
+
+// Reads page, pageSize, from and to; returns the problem with them as a string
+function parseListQuery(req: Request): ListQuery | string {
+  const { page, pageSize, from, to } = req.query;
+
+  const pageNum = page ? parseInt(page as string, 10) : 1;
+  const pageSizeNum = pageSize ? parseInt(pageSize as string, 10) : 20;
+
+  if (Number.isNaN(pageNum) || pageNum < 1) {
+    return 'Invalid page parameter. Must be a positive integer';
+  }
+  if (Number.isNaN(pageSizeNum) || pageSizeNum < 1 || pageSizeNum > 100) {
+    return 'Invalid pageSize parameter. Must be between 1 and 100';
+  }
+
+  const query: ListQuery = { page: pageNum, pageSize: pageSizeNum };
+
+  if (from) {
+    const fromDate = validateDate(from as string);
+    if (!fromDate) {
+      return 'Invalid "from" date format. Use ISO 8601 format (e.g., 2025-01-01T00:00:00Z)';
+    }
+    query.from = fromDate;
+  }
+  if (to) {
+    const toDate = validateDate(to as string);
+    if (!toDate) {
+      return 'Invalid "to" date format. Use ISO 8601 format (e.g., 2025-01-31T23:59:59Z)';
+    }
+    query.to = toDate;
+  }
+
+  return query;
+}
+
+function includesExcluded(req: Request): boolean {
+  const value = req.query?.includeExcluded;
+  return value === 'true' || value === '1';
+}
+
+// Sessions materialized from stored events (see SessionTracker)
+export class SessionController {
+  constructor(
+    private sessions: SessionRepository,
+    private events: EventRepository,
+    private identities?: IdentityResolver
+  ) {}
+
+  /**
+   * GET /sessions?userId=&from=&to=&page=&pageSize=&includeExcluded=
+   *
+   * Most recent first, filtered on startedAt. Sessions with bot or internal
+   * traffic are left out unless includeExcluded=true, as in /users.
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const query = parseListQuery(req);
+      if (typeof query === 'string') {
+        res.status(400).json({ error: 'Bad Request', message: query });
+        return;
+      }
+
+      const { userId } = req.query;
+      if (userId !== undefined && (typeof userId !== 'string' || userId === '')) {
+        res.status(400).json({ error: 'Bad Request', message: 'Invalid userId parameter' });
+        return;
+      }
+
+      const result = await this.sessions.list({
+        ...query,
+        ...(userId && { userId }),
+        ...(includesExcluded(req) && { includeExcluded: true }),
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      console.error('[SessionController] list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching sessions',
+      });
+    }
+  }
+
+  /**
+   * GET /sessions/:sessionId?userId=&sourceId=&limit=
+   *
+   * The session with its events in the order they occurred (up to limit, default 100).
+   * Clients may reuse sessionIds, so when several users or sources have one, userId
+   * and sourceId pick the session; without them the candidates are returned with 409.
+   */
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const { limit, userId, sourceId } = req.query;
+
+      for (const [name, value] of Object.entries({ userId, sourceId })) {
+        if (value !== undefined && (typeof value !== 'string' || value === '')) {
+          res.status(400).json({ error: 'Bad Request', message: `Invalid ${name} parameter` });
+          return;
+        }
+      }
+
+      const limitNum = limit ? validateLimit(limit as string) : 100;
+      if (limitNum === null) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid "limit" parameter. Must be a number between 1 and 1000',
+        });
+        return;
+      }
+
+      const sessions = await this.sessions.findBySessionId(sessionId, {
+        ...(userId && { userId: userId as string }),
+        ...(sourceId && { sourceId: sourceId as string }),
+      });
+      if (sessions.length === 0) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `No session with id ${sessionId}`,
+        });
+        return;
+      }
+      if (sessions.length > 1) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Several users or sources have a session with id ${sessionId}; pick one with userId and sourceId`,
+          sessions,
+        });
+        return;
+      }
+
+      const [session] = sessions;
+      const events = await this.events.getSessionEvents(session, limitNum);
+      res.status(200).json({ ...session, events });
+    } catch (error) {
+      console.error('[SessionController] get error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching the session',
+      });
+    }
+  }
+
+  /**
+   * GET /users/:userId/sessions?from=&to=&page=&pageSize=
+   *
+   * Sessions of every identity linked to the user, like the journey. Excluded
+   * traffic is included, as the journey shows it too.
+   */
+  async listForUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const query = parseListQuery(req);
+      if (typeof query === 'string') {
+        res.status(400).json({ error: 'Bad Request', message: query });
+        return;
+      }
+
+      const identity = this.identities ? await this.identities.resolve(userId) : null;
+      const result = await this.sessions.list({
+        ...query,
+        userId: identity ? identity.userIds : userId,
+        includeExcluded: true,
+      });
+
+      res.status(200).json({
+        userId,
+        ...(identity && { canonicalUserId: identity.canonicalUserId, identities: identity.userIds }),
+        ...result,
+      });
+    } catch (error) {
+      console.error('[SessionController] listForUser error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching user sessions',
+      });
+    }
+  }
+}
@@ -0,0 +1,280 @@
+import type { Request, Response } from 'express';
+import type { SourceChanges, SourceLimits, SourceRepository } from '../repositories/source.repository';
+import type { WriteKeyService } from '../services/writeKey.service';
+import type { IngestionRateLimiter } from '../services/rateLimiter.service';
+import type { Sessionizer } from '../services/sessionizer.service';
+import { DEFAULT_SESSIONIZATION, checkSessionizationSettings } from '../utils/sessionization';
+
+const DEFAULT_OVERLAP_HOURS = 24;
+const MAX_OVERLAP_HOURS = 720;
+const MAX_TEXT_LENGTH = 500;
+const LIMIT_FIELDS: (keyof SourceLimits)[] = ['eventsPerSecond', 'burst', 'dailyQuota'];
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_TEXT_LENGTH;
+}
+
+// Returns the first problem with the fields of a PATCH body, or null
+function checkChanges(body: Record<string, unknown>): string | null {
+  if (body.name !== undefined && !isText(body.name)) {
+    return `name must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (body.description !== undefined && body.description !== null && !isText(body.description)) {
+    return `description must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`;
+  }
+  if (body.sessionization !== undefined && body.sessionization !== null) {
+    const problem = checkSessionizationSettings(body.sessionization);
+    if (problem) {
+      return problem;
+    }
+  }
+  if (body.limits === undefined) {
+    return null;
+  }
+  if (typeof body.limits !== 'object' || body.limits === null || Array.isArray(body.limits)) {
+    return `limits must be an object with any of: ${LIMIT_FIELDS.join(', ')}`;
+  }
+
+  for (const [field, value] of Object.entries(body.limits)) {
+    if (!LIMIT_FIELDS.includes(field as keyof SourceLimits)) {
+      return `Unknown limit ${field}. Must be one of: ${LIMIT_FIELDS.join(', ')}`;
+    }
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `limits.${field} must be a non-negative number, or null to use the default`;
+    }
+  }
+  return null;
+}
+
+// Admin endpoints for event sources and their write keys. Plaintext keys are only
+// part of the response that creates them.
+export class SourceController {
+  constructor(
+    private writeKeys: WriteKeyService,
+    private sources: SourceRepository,
+    private rateLimiter?: IngestionRateLimiter,
+    private sessionizer?: Sessionizer
+  ) {}
+
+  async list(_req: Request, res: Response): Promise<void> {
+    try {
+      const sources = await this.sources.listSources();
+      const keys = await Promise.all(sources.map((source) => this.sources.listKeys(source.sourceId)));
+
+      res.status(200).json({
+        sources: sources.map((source, index) => ({ ...source, keys: keys[index] })),
+      });
+    } catch (error) {
+      console.error('[SourceController] list error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching sources',
+      });
+    }
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const source = await this.sources.findSource(req.params.sourceId);
+
+      if (!source) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Source ${req.params.sourceId} not found`,
+        });
+        return;
+      }
+
+      const keys = await this.sources.listKeys(source.sourceId);
+      res.status(200).json({
+        ...source,
+        keys,
+        ...(this.rateLimiter && {
+          effectiveLimits: this.rateLimiter.getSourceLimits(source.sourceId),
+          eventsToday: this.rateLimiter.getUsage(source.sourceId),
+        }),
+      });
+    } catch (error) {
+      console.error('[SourceController] get error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while fetching the source',
+      });
+    }
+  }
+
+  /**
+   * POST /admin/sources
+   * Body: { name: string, description?: string }
+   * Creates the source together with its first write key.
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description } = req.body ?? {};
+
+      if (!isText(name)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `name must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`,
+        });
+        return;
+      }
+
+      if (description !== undefined && !isText(description)) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `description must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`,
+        });
+        return;
+      }
+
+      const { source, key } = await this.writeKeys.createSource({
+        name,
+        description,
+        createdBy: req.user?.email,
+      });
+
+      res.status(201).json({ ...source, writeKey: key });
+    } catch (error) {
+      console.error('[SourceController] create error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while creating the source',
+      });
+    }
+  }
+
+  /**
+   * PATCH /admin/sources/:sourceId
+   * Body: any of { name, description, limits: { eventsPerSecond, burst, dailyQuota },
+   *   sessionization: { mode, inactivityTimeoutMinutes, splitAtMidnight, splitOnCampaignChange, timezone } }
+   * A null limit (or description) removes the override. sessionization replaces the
+   * source's settings, omitted fields taking their default; null turns it off.
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, limits, sessionization } = req.body ?? {};
+
+      if (name === undefined && description === undefined && limits === undefined && sessionization === undefined) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Provide at least one of: name, description, limits, sessionization',
+        });
+        return;
+      }
+
+      const problem = checkChanges(req.body);
+      if (problem) {
+        res.status(400).json({ error: 'Bad Request', message: problem });
+        return;
+      }
+
+      const source = await this.sources.updateSource(req.params.sourceId, {
+        name,
+        description,
+        limits,
+        sessionization: sessionization && { ...DEFAULT_SESSIONIZATION, ...sessionization },
+      } as SourceChanges);
+
+      if (!source) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Source ${req.params.sourceId} not found`,
+        });
+        return;
+      }
+
+      this.rateLimiter?.setSourceLimits(source.sourceId, source.limits);
+      this.sessionizer?.setSourceSettings(source.sourceId, source.sessionization);
+      res.status(200).json(source);
+    } catch (error) {
+      console.error('[SourceController] update error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while updating the source',
+      });
+    }
+  }
+
+  async issueKey(req: Request, res: Response): Promise<void> {
+    try {
+      if (!(await this.sources.findSource(req.params.sourceId))) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Source ${req.params.sourceId} not found`,
+        });
+        return;
+      }
+
+      const key = await this.writeKeys.issueKey(req.params.sourceId);
+      res.status(201).json(key);
+    } catch (error) {
+      console.error('[SourceController] issueKey error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while creating the write key',
+      });
+    }
+  }
+
+  /**
+   * POST /admin/sources/:sourceId/keys/rotate
+   * Body: { overlapHours?: number } - how long the previous keys keep working (default 24)
+   */
+  async rotateKey(req: Request, res: Response): Promise<void> {
+    try {
+      const overlapHours = req.body?.overlapHours ?? DEFAULT_OVERLAP_HOURS;
+
+      if (typeof overlapHours !== 'number' || overlapHours < 0 || overlapHours > MAX_OVERLAP_HOURS) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `overlapHours must be a number between 0 and ${MAX_OVERLAP_HOURS}`,
+        });
+        return;
+      }
+
+      if (!(await this.sources.findSource(req.params.sourceId))) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Source ${req.params.sourceId} not found`,
+        });
+        return;
+      }
+
+      const { key, previousKeysExpireAt } = await this.writeKeys.rotateKey(
+        req.params.sourceId,
+        overlapHours * 60 * 60 * 1000
+      );
+
+      res.status(201).json({ writeKey: key, previousKeysExpireAt });
+    } catch (error) {
+      console.error('[SourceController] rotateKey error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while rotating write keys',
+      });
+    }
+  }
+
+  async revokeKey(req: Request, res: Response): Promise<void> {
+    try {
+      const key = await this.writeKeys.revokeKey(req.params.sourceId, req.params.keyId);
+
+      if (!key) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Write key ${req.params.keyId} not found for source ${req.params.sourceId}`,
+        });
+        return;
+      }
+
+      res.status(200).json(key);
+    } catch (error) {
+      console.error('[SourceController] revokeKey error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while revoking the write key',
+      });
+    }
+  }
+}
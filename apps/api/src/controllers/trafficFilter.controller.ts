@@ -0,0 +1,42 @@
+import type { Request, Response } from 'express';
+import type { TrafficFilterService } from '../services/trafficFilter.service';
+import { checkTrafficFilterSettings } from '../utils/trafficFilter';
+
+// Authenticated management of the bot and internal-traffic filter applied at ingestion
+export class TrafficFilterController {
+  constructor(private trafficFilter: TrafficFilterService) {}
+
+  async get(_req: Request, res: Response): Promise<void> {
+    res.status(200).json(this.trafficFilter.get());
+  }
+
+  /**
+   * PUT /traffic-filter
+   * Body: { mode?, detectBots?, excludedIps?, internalUserIds?, maxEventsPerSession?, sessionWindowMs? }
+   *
+   * Replaces the settings; omitted fields are reset to their default. Only events
+   * ingested afterwards are filtered.
+   */
+  async put(req: Request, res: Response): Promise<void> {
+    try {
+      const problem = checkTrafficFilterSettings(req.body);
+      if (problem) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid settings: ${problem}`,
+        });
+        return;
+      }
+
+      const entry = await this.trafficFilter.save(req.body, req.user?.email);
+
+      res.status(200).json(entry);
+    } catch (error) {
+      console.error('[TrafficFilterController] put error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while saving the traffic filter',
+      });
+    }
+  }
+}
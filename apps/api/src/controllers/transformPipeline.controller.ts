@@ -0,0 +1,96 @@
+import type { Request, Response } from 'express';
+import type { EventTransformPipeline } from '../services/eventTransformPipeline.service';
+import type { EventTypeCatalog } from '../services/eventTypeCatalog.service';
+import { checkTransformStages } from '../utils/eventTransforms';
+import { normalizeEvent } from '../utils/eventNormalizer';
+import { inspectRawEvent } from '../validators/event.validator';
+
+// Authenticated management of the transformation pipeline run at ingestion
+export class TransformPipelineController {
+  constructor(
+    private pipeline: EventTransformPipeline,
+    private eventTypes: EventTypeCatalog
+  ) {}
+
+  async get(_req: Request, res: Response): Promise<void> {
+    res.status(200).json(this.pipeline.get());
+  }
+
+  /**
+   * PUT /pipeline
+   * Body: { stages: [{ name, action, when?: { eventType?, where? }, ...action fields }] }
+   *
+   * Replaces every stage. Stages only affect events ingested afterwards.
+   */
+  async put(req: Request, res: Response): Promise<void> {
+    try {
+      const { stages } = req.body ?? {};
+
+      const problem = checkTransformStages(stages);
+      if (problem) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `Invalid stages: ${problem}`,
+        });
+        return;
+      }
+
+      const entry = await this.pipeline.save(stages, req.user?.email);
+
+      res.status(200).json(entry);
+    } catch (error) {
+      console.error('[TransformPipelineController] put error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while saving the pipeline',
+      });
+    }
+  }
+
+  /**
+   * POST /pipeline/dry-run
+   * Body: { event, stages? }
+   *
+   * Validates and normalizes the event as POST /events would, then runs it through
+   * the given stages (the configured ones when omitted). Nothing is stored and no
+   * metrics are recorded; redaction and enrichment are not applied.
+   */
+  async dryRun(req: Request, res: Response): Promise<void> {
+    try {
+      const { event: rawEvent, stages } = req.body ?? {};
+
+      if (stages !== undefined) {
+        const problem = checkTransformStages(stages);
+        if (problem) {
+          res.status(400).json({
+            error: 'Bad Request',
+            message: `Invalid stages: ${problem}`,
+          });
+          return;
+        }
+      }
+
+      const issue = inspectRawEvent(rawEvent, (name) => this.eventTypes.getStatus(name));
+      if (issue) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: issue.message,
+          code: issue.code,
+          field: issue.field,
+        });
+        return;
+      }
+
+      const input = normalizeEvent(rawEvent);
+      const { trace, events } = this.pipeline.dryRun(structuredClone(input), stages);
+
+      res.status(200).json({ input, trace, events });
+    } catch (error) {
+      console.error('[TransformPipelineController] dryRun error:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'An error occurred while running the pipeline',
+      });
+    }
+  }
+}
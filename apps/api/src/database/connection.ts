@@ -1,18 +1,15 @@
 import mongoose from "mongoose";
 import { logger, dbConnectionGauge } from "../observability";
+import type { AppConfig } from "../config";
 
-export async function connectDatabase(mongoUri: string): Promise<void> {
-  if (!mongoUri) {
-    logger.error("FATAL: MONGODB_URI environment variable not set. Please set MONGODB_URI in your .env file");
-    process.exit(1);
-  }
-
+// The URI is checked by loadConfig()
+export async function connectDatabase(config: AppConfig["database"]): Promise<void> {
   try {
-    await mongoose.connect(mongoUri, {
-      maxPoolSize: 50,
-      minPoolSize: 10,
-      serverSelectionTimeoutMS: 5000,
-      socketTimeoutMS: 45000,
+    await mongoose.connect(config.uri, {
+      maxPoolSize: config.maxPoolSize,
+      minPoolSize: config.minPoolSize,
+      serverSelectionTimeoutMS: config.serverSelectionTimeoutMs,
+      socketTimeoutMS: config.socketTimeoutMs,
       retryWrites: true,
     });
 
@@ -4,33 +4,100 @@ import cors from "cors";
 import dotenv from "dotenv";
 import swaggerUi from "swagger-ui-express";
 import path from "path";
-import { registerRoutes } from "./routes";
+import { IMPORT_UPLOAD_PATH, registerRoutes } from "./routes";
 import { EventIngestionService } from "./services/eventIngestion.service";
-import { swaggerSpec } from "./swagger";
+import type { PayloadSchemaRegistry } from "./services/payloadSchemaRegistry.service";
+import type { EventTypeCatalog } from "./services/eventTypeCatalog.service";
+import type { WriteKeyService } from "./services/writeKey.service";
+import type { IngestionRateLimiter } from "./services/rateLimiter.service";
+import type { EventEnrichment } from "./services/eventEnrichment.service";
+import type { PayloadRedactor } from "./services/payloadRedactor.service";
+import type { EventTransformPipeline } from "./services/eventTransformPipeline.service";
+import type { TrafficFilterService } from "./services/trafficFilter.service";
+import type { Sessionizer } from "./services/sessionizer.service";
+import type { LiveEventStream } from "./services/liveEventStream.service";
+import type { EventImportService } from "./services/eventImport.service";
+import { swaggerSpec, withEventTypes, withPayloadSchemas } from "./swagger";
 import { initializeTelemetry, logger, startMetricsCollection, bufferSizeGauge } from "./observability";
 import { observabilityMiddleware } from "./middleware/observability.middleware";
 import { sessionMiddleware } from "./middleware/auth.middleware";
+import {
+  createNdjsonMiddleware,
+  createTextJsonMiddleware,
+  requestBodyErrorHandler,
+} from "./middleware/requestBody.middleware";
 import { connectDatabase } from "./database/connection";
 import { gracefulShutdown } from "./utils/shutdown";
 import { startDailyAnalyticsExportJob } from "./jobs/dailyAnalyticsExport.job";
+import { type AppConfig, ConfigError, initConfig } from "./config";
 
 dotenv.config({ path: path.resolve(__dirname, "../../../.env") });
 
-initializeTelemetry();
+// Fail fast: nothing starts with a missing, invalid or insecure setting
+function loadConfigOrExit(): AppConfig {
+  try {
+    return initConfig();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error(`FATAL: ${error.message}`, { problems: error.problems });
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+const config = loadConfigOrExit();
+
+initializeTelemetry(config.server.prometheusPort);
 startMetricsCollection();
 
 const app = express();
-const PORT = process.env.PORT || 3000;
+const PORT = config.server.port;
 
 let server: ReturnType<typeof app.listen>;
 let ingestionService: EventIngestionService;
+let payloadSchemas: PayloadSchemaRegistry;
+let eventTypes: EventTypeCatalog;
+let writeKeys: WriteKeyService;
+let rateLimiter: IngestionRateLimiter;
+let enrichment: EventEnrichment;
+let redactor: PayloadRedactor;
+let pipeline: EventTransformPipeline;
+let trafficFilter: TrafficFilterService;
+let sessionizer: Sessionizer;
+let imports: EventImportService;
+let liveStream: LiveEventStream;
+
+// "true", a hop count or a list of trusted proxy addresses (see Express "trust proxy")
+function parseTrustProxy(value: string): boolean | number | string {
+  if (!value || value === "false") {
+    return false;
+  }
+  if (value === "true") {
+    return true;
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// Called from customer sites and email clients rather than the dashboard.
+// Everything under /v1/ is the Segment-compatible tracking API.
+const BROWSER_INGESTION_PATHS = ["/events/beacon", "/p.gif"];
+const SEGMENT_API_PREFIX = "/v1/";
+
+function isBrowserIngestionPath(path: string): boolean {
+  return BROWSER_INGESTION_PATHS.includes(path) || path.startsWith(SEGMENT_API_PREFIX);
+}
+
+function isIngestionRequest(req: express.Request): boolean {
+  return (req.path === "/events" && req.method === "POST") || isBrowserIngestionPath(req.path);
+}
 
 function initializeApp(): void {
-  const isDevelopment = process.env.NODE_ENV !== "production";
+  const isDevelopment = config.server.environment !== "production";
 
   const allowedOrigins = isDevelopment
     ? ["http://localhost:5173", "http://localhost:3000"]
-    : process.env.ALLOWED_ORIGINS?.split(",").map(o => o.trim()) || [];
+    : config.server.allowedOrigins;
 
   console.log("[CORS] Configuration:", {
     isDevelopment,
@@ -38,26 +105,45 @@ function initializeApp(): void {
     credentials: true,
   });
 
-  app.use(
-    cors({
-      origin: allowedOrigins,
-      credentials: true,
-    })
-  );
+  const dashboardCors = cors({
+    origin: allowedOrigins,
+    credentials: true,
+  });
+  // Beacons and pixels come from any origin and authenticate with a write key, never cookies
+  const browserIngestionCors = cors({ origin: "*" });
+
+  app.use((req, res, next) => {
+    if (isBrowserIngestionPath(req.path)) {
+      return browserIngestionCors(req, res, next);
+    }
+    dashboardCors(req, res, next);
+  });
 
-  app.use(express.json({ limit: "10mb" }));
+  // Per-IP rate limits need the client address, not the load balancer's
+  app.set("trust proxy", parseTrustProxy(config.server.trustProxy));
 
-  // Apply observability and session middleware to all routes EXCEPT /events
-  // This optimizes the high-throughput event ingestion endpoint
+  // Both parsers accept gzip/deflate bodies; the limit applies to the decompressed size.
+  // Bulk senders can stream newline-delimited JSON to POST /events instead of one big array.
+  const { maxBodyBytes } = config.server;
+  const jsonParser = express.json({ limit: maxBodyBytes });
+  // Import uploads (JSON files included) are streamed to disk instead
+  app.use((req, res, next) => (req.path === IMPORT_UPLOAD_PATH ? next() : jsonParser(req, res, next)));
+  app.use("/events", createNdjsonMiddleware({ maxBytes: maxBodyBytes }));
+  app.use("/events/beacon", createTextJsonMiddleware({ maxBytes: maxBodyBytes }));
+  // analytics.js posts text/plain JSON to avoid CORS preflights
+  app.use("/v1", createTextJsonMiddleware({ maxBytes: maxBodyBytes }));
+
+  // Apply observability and session middleware to all routes EXCEPT event ingestion
+  // This optimizes the high-throughput event ingestion endpoints
   app.use((req, res, next) => {
-    if (req.path === "/events" && req.method === "POST") {
+    if (isIngestionRequest(req)) {
       return next();
     }
     observabilityMiddleware(req, res, next);
   });
 
   app.use((req, res, next) => {
-    if (req.path === "/events" && req.method === "POST") {
+    if (isIngestionRequest(req)) {
       return next();
     }
     sessionMiddleware(req, res, next);
@@ -66,7 +152,9 @@ function initializeApp(): void {
   app.use(
     "/api-docs",
     swaggerUi.serve,
-    swaggerUi.setup(swaggerSpec, {
+    // The UI loads the spec from /api-docs.json so event types and payload schemas are current
+    swaggerUi.setup(undefined, {
+      swaggerOptions: { url: "/api-docs.json" },
       customCss: ".swagger-ui .topbar { display: none }",
       customSiteTitle: "MarTech API Documentation",
     })
@@ -74,7 +162,12 @@ function initializeApp(): void {
 
   app.get("/api-docs.json", (_req, res) => {
     res.setHeader("Content-Type", "application/json");
-    res.send(swaggerSpec);
+    res.send(
+      withPayloadSchemas(
+        withEventTypes(swaggerSpec, eventTypes?.list() ?? []),
+        payloadSchemas?.list() ?? []
+      )
+    );
   });
 
   logger.info("Swagger documentation available at /api-docs");
@@ -88,6 +181,7 @@ function initializeApp(): void {
       memory: process.memoryUsage(),
       database: mongoose.connection.readyState === 1 ? "connected" : "disconnected",
       bufferSize,
+      backpressure: ingestionService?.getBackpressure() ?? null,
     };
 
     bufferSizeGauge.set(bufferSize);
@@ -96,7 +190,22 @@ function initializeApp(): void {
     res.status(statusCode).json(health);
   });
 
-  ingestionService = registerRoutes(app);
+  ({
+    ingestionService,
+    payloadSchemas,
+    eventTypes,
+    writeKeys,
+    rateLimiter,
+    enrichment,
+    redactor,
+    pipeline,
+    trafficFilter,
+    sessionizer,
+    imports,
+    liveStream,
+  } = registerRoutes(app, config));
+
+  app.use(requestBodyErrorHandler);
 
   logger.info("Express application initialized");
 }
@@ -104,42 +213,75 @@ function initializeApp(): void {
 async function bootstrap(): Promise<void> {
   logger.info("Starting application...", {
     nodeVersion: process.version,
-    environment: process.env.NODE_ENV || "development",
+    environment: config.server.environment,
   });
 
   try {
-    const mongoUri = process.env.MONGODB_URI || "";
-    await connectDatabase(mongoUri);
+    await connectDatabase(config.database);
 
     initializeApp();
 
+    // Replayed events of sessionized sources get their sessions on the way in
+    await sessionizer.load();
+    sessionizer.startRefresh();
+
+    // Replay events that were acknowledged but not flushed before the last exit
+    await ingestionService.recover();
+
+    // Ingestion validation must see the catalog and tracking plan before the first event arrives
+    await eventTypes.load();
+    eventTypes.startRefresh();
+    await payloadSchemas.load();
+    payloadSchemas.startRefresh();
+    await redactor.load();
+    redactor.startRefresh();
+    await pipeline.load();
+    pipeline.startRefresh();
+    await trafficFilter.load();
+    trafficFilter.startRefresh();
+    await writeKeys.load();
+    writeKeys.startRefresh();
+    await rateLimiter.load();
+    rateLimiter.startRefresh();
+    await enrichment.load();
+    // Resumes imports interrupted by the last exit once they are no longer heartbeating
+    imports.startPolling();
+
     server = app.listen(PORT, () => {
       logger.info(`Server listening on port ${PORT}`, {
         port: PORT,
         healthCheck: `http://localhost:${PORT}/health`,
-        metrics: `http://localhost:${process.env.PROMETHEUS_PORT || 9464}/metrics`,
+        metrics: `http://localhost:${config.server.prometheusPort}/metrics`,
         apiDocs: `http://localhost:${PORT}/api-docs`,
-        allowedOrigins: process.env.ALLOWED_ORIGINS || "Not set",
+        allowedOrigins: config.server.allowedOrigins.join(",") || "Not set",
       });
 
       // Start daily analytics export job after server is ready
-      startDailyAnalyticsExportJob();
+      startDailyAnalyticsExportJob(config.analyticsExport);
     });
 
-    process.on("SIGTERM", () => gracefulShutdown("SIGTERM", server, ingestionService));
-    process.on("SIGINT", () => gracefulShutdown("SIGINT", server, ingestionService));
+    const shutdown = (signal: string) =>
+      gracefulShutdown(signal, server, ingestionService, {
+        liveStream,
+        rateLimiter,
+        writeKeys,
+        timers: [imports, sessionizer, eventTypes, payloadSchemas, redactor, pipeline, trafficFilter],
+      });
+
+    process.on("SIGTERM", () => shutdown("SIGTERM"));
+    process.on("SIGINT", () => shutdown("SIGINT"));
 
     process.on("uncaughtException", (error) => {
       logger.error("FATAL: Uncaught exception", {
         error: error.message,
         stack: error.stack,
       });
-      gracefulShutdown("uncaughtException", server, ingestionService);
+      shutdown("uncaughtException");
     });
 
     process.on("unhandledRejection", (reason) => {
       logger.error("FATAL: Unhandled promise rejection", { reason });
-      gracefulShutdown("unhandledRejection", server, ingestionService);
+      shutdown("unhandledRejection");
     });
   } catch (error: any) {
     logger.error("FATAL: Application startup failed", {
@@ -3,16 +3,12 @@ import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { EventRepository } from '../repositories/event.repository';
 import { Event } from '../models/Event';
 import { logger } from '../observability';
+import type { AppConfig } from '../config';
 
-const S3_BUCKET = 'wbd-analytics-exports';
-const S3_REGION = 'ap-south-1';
+type ExportConfig = AppConfig['analyticsExport'];
 
 let isJobRunning = false;
 
-const s3Client = new S3Client({
-  region: S3_REGION
-});
-
 interface ExportPayload {
   generatedAt: string;
   date: string;
@@ -90,11 +86,11 @@ function buildS3Key(): string {
   return `exports/analytics-${year}-${month}-${day}-${hour}-${minute}-UTC.json`;
 }
 
-async function uploadToS3(payload: ExportPayload): Promise<void> {
+async function uploadToS3(s3Client: S3Client, bucket: string, payload: ExportPayload): Promise<void> {
   const key = buildS3Key();
 
   const command = new PutObjectCommand({
-    Bucket: S3_BUCKET,
+    Bucket: bucket,
     Key: key,
     Body: JSON.stringify(payload, null, 2),
     ContentType: 'application/json'
@@ -103,14 +99,14 @@ async function uploadToS3(payload: ExportPayload): Promise<void> {
   await s3Client.send(command);
 
   logger.info('[DailyAnalyticsExportJob] Upload successful', {
-    bucket: S3_BUCKET,
+    bucket,
     key,
     totalUsers: payload.summary.totalUsers,
     totalEvents: payload.summary.totalEvents
   });
 }
 
-async function runExportJob(): Promise<void> {
+async function runExportJob(s3Client: S3Client, bucket: string): Promise<void> {
   if (isJobRunning) {
     logger.warn('[DailyAnalyticsExportJob] Skipping execution - previous job still running');
     return;
@@ -121,7 +117,7 @@ async function runExportJob(): Promise<void> {
 
   try {
     const payload = await generateAnalyticsExport();
-    await uploadToS3(payload);
+    await uploadToS3(s3Client, bucket, payload);
 
     logger.info('[DailyAnalyticsExportJob] Job completed successfully', {
       totalUsers: payload.summary.totalUsers,
@@ -137,19 +133,27 @@ async function runExportJob(): Promise<void> {
   }
 }
 
-export function startDailyAnalyticsExportJob(): void {
-  const cronExpression = '0 10 * * *';
+export function startDailyAnalyticsExportJob(config: ExportConfig): void {
+  if (!config.enabled) {
+    logger.info('[DailyAnalyticsExportJob] Disabled by ANALYTICS_EXPORT_ENABLED');
+    return;
+  }
+
+  const s3Client = new S3Client({
+    region: config.s3Region
+  });
 
   cron.schedule(
-    cronExpression,
-    runExportJob,
+    config.cron,
+    () => runExportJob(s3Client, config.s3Bucket),
     {
-      timezone: 'UTC'
+      timezone: config.timezone
     }
   );
 
-  logger.info('[DailyAnalyticsExportJob] Scheduled daily export at 10:00 UTC', {
-    cronExpression,
-    timezone: 'UTC'
+  logger.info('[DailyAnalyticsExportJob] Scheduled daily export', {
+    cronExpression: config.cron,
+    timezone: config.timezone,
+    bucket: config.s3Bucket
   });
 }
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import { createRateLimitMiddleware } from './rateLimit.middleware';
+import { IngestionRateLimiter } from '../services/rateLimiter.service';
+import { SourceRepository } from '../repositories/source.repository';
+
+describe('createRateLimitMiddleware', () => {
+  let limiter: IngestionRateLimiter;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+  let statusMock: Mock<Response['status']>;
+  let jsonMock: Mock<Response['json']>;
+  let headers: Record<string, string>;
+
+  const request = (body: unknown) => ({ body, ip: '10.0.0.1', sourceId: 'src_web' }) as unknown as Request;
+
+  beforeEach(() => {
+    limiter = new IngestionRateLimiter(
+      new SourceRepository(),
+      {
+        source: { eventsPerSecond: 10, burst: 10 },
+        ip: { eventsPerSecond: 0, burst: 0 },
+        dailyQuota: 0,
+      },
+      0
+    );
+
+    headers = {};
+    jsonMock = vi.fn();
+    statusMock = vi.fn();
+    mockResponse = {
+      status: statusMock,
+      json: jsonMock,
+    };
+    mockResponse.setHeader = vi.fn((name: string, value: string | number | readonly string[]) => {
+      headers[name] = String(value);
+      return mockResponse as Response;
+    });
+    statusMock.mockReturnValue(mockResponse as Response);
+    mockNext = vi.fn();
+  });
+
+  it('passes allowed requests through with RateLimit headers', () => {
+    createRateLimitMiddleware(limiter)(request([{}, {}, {}]), mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(headers).toMatchObject({
+      'RateLimit-Policy': '10;w=1',
+      'RateLimit-Limit': '10',
+      'RateLimit-Remaining': '7',
+    });
+  });
+
+  it('returns 429 with Retry-After once the source is over its limit', () => {
+    const middleware = createRateLimitMiddleware(limiter);
+
+    middleware(request(new Array(10).fill({})), mockResponse as Response, mockNext);
+    middleware(request({}), mockResponse as Response, vi.fn());
+
+    expect(statusMock).toHaveBeenCalledWith(429);
+    expect(headers['Retry-After']).toBe('1');
+    expect(headers['RateLimit-Remaining']).toBe('0');
+    expect(jsonMock).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'Too Many Requests', code: 'SOURCE_RATE_LIMITED', retryAfter: 1 })
+    );
+  });
+
+  it('counts every message of a Segment batch', () => {
+    createRateLimitMiddleware(limiter)(request({ batch: [{}, {}, {}, {}] }), mockResponse as Response, mockNext);
+
+    expect(headers['RateLimit-Remaining']).toBe('6');
+  });
+});
@@ -0,0 +1,62 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { IngestionRateLimiter, RateLimitDecision, RateLimitScope } from "../services/rateLimiter.service";
+import { ingestionThrottledCounter } from "../observability/metrics";
+
+const REJECTION_MESSAGES: Record<RateLimitScope, { code: string; message: string }> = {
+  source: { code: "SOURCE_RATE_LIMITED", message: "Event rate limit exceeded for this source" },
+  ip: { code: "IP_RATE_LIMITED", message: "Event rate limit exceeded for this client" },
+  quota: { code: "DAILY_QUOTA_EXCEEDED", message: "Daily event quota exhausted for this source" },
+};
+
+// Standard RateLimit-* headers (IETF httpapi-ratelimit-headers draft) for the most constrained limit
+function setRateLimitHeaders(res: Response, decision: RateLimitDecision): void {
+  if (decision.policies.length > 0) {
+    res.setHeader("RateLimit-Policy", decision.policies.join(", "));
+  }
+  if (decision.status) {
+    res.setHeader("RateLimit-Limit", String(decision.status.limit));
+    res.setHeader("RateLimit-Remaining", String(decision.status.remaining));
+    res.setHeader("RateLimit-Reset", String(decision.status.resetSeconds));
+  }
+}
+
+// Events in a request body: a POST /events array, a /v1/batch envelope or a single event
+function eventCount(body: unknown): number {
+  if (Array.isArray(body)) {
+    return body.length;
+  }
+  const batch = typeof body === "object" && body !== null && "batch" in body ? body.batch : undefined;
+  return Array.isArray(batch) ? batch.length : 1;
+}
+
+/**
+ * Rate limits and quotas for POST /events. Runs after the write-key middleware so
+ * the source is known; every event in the body counts.
+ */
+export function createRateLimitMiddleware(limiter: IngestionRateLimiter): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const decision = limiter.consume({
+      sourceId: req.sourceId,
+      ip: req.ip,
+      events: eventCount(req.body),
+    });
+
+    setRateLimitHeaders(res, decision);
+
+    if (decision.allowed) {
+      next();
+      return;
+    }
+
+    const scope = decision.status.scope;
+    ingestionThrottledCounter.inc({ source: req.sourceId ?? "anonymous", limit: scope });
+
+    res.setHeader("Retry-After", String(decision.retryAfterSeconds));
+    res.status(429).json({
+      error: "Too Many Requests",
+      message: REJECTION_MESSAGES[scope].message,
+      code: REJECTION_MESSAGES[scope].code,
+      retryAfter: decision.retryAfterSeconds,
+    });
+  };
+}
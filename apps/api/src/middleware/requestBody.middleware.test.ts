@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express, { type Express } from 'express';
+import request from 'supertest';
+import zlib from 'node:zlib';
+import { createNdjsonMiddleware, createTextJsonMiddleware, requestBodyErrorHandler } from './requestBody.middleware';
+
+describe('request body parsing for POST /events', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    app = express();
+    app.use(express.json({ limit: 1024 }));
+    app.use('/events', createNdjsonMiddleware({ maxBytes: 1024 }));
+    app.use('/events/beacon', createTextJsonMiddleware({ maxBytes: 1024 }));
+    app.post(['/events', '/events/beacon'], (req, res) => {
+      res.status(200).json({ body: req.body, lineErrors: Object.fromEntries(req.lineErrors ?? []) });
+    });
+    app.use(requestBodyErrorHandler);
+  });
+
+  it('parses gzip-encoded NDJSON into an array body', async () => {
+    const response = await request(app)
+      .post('/events')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('Content-Encoding', 'gzip')
+      .send(zlib.gzipSync('{"n":1}\nnot json\n{"n":3}\n'));
+
+    expect(response.status).toBe(200);
+    expect(response.body.body).toEqual([{ n: 1 }, null, { n: 3 }]);
+    expect(response.body.lineErrors).toEqual({ 1: expect.stringMatching(/^Line 2 is not valid JSON/) });
+  });
+
+  it('accepts gzip-encoded JSON', async () => {
+    const response = await request(app)
+      .post('/events')
+      .set('Content-Type', 'application/json')
+      .set('Content-Encoding', 'gzip')
+      .serialize((body) => body)
+      .send(zlib.gzipSync('[{"n":1}]'));
+
+    expect(response.status).toBe(200);
+    expect(response.body.body).toEqual([{ n: 1 }]);
+  });
+
+  it('answers 413 in JSON when a compressed body expands past the limit', async () => {
+    for (const contentType of ['application/json', 'application/x-ndjson']) {
+      const response = await request(app)
+        .post('/events')
+        .set('Content-Type', contentType)
+        .set('Content-Encoding', 'gzip')
+        .serialize((body) => body)
+        .send(zlib.gzipSync(`[${'"x",'.repeat(1000)}"x"]`));
+
+      expect(response.status).toBe(413);
+      expect(response.body.error).toBe('Payload Too Large');
+    }
+  });
+
+  it('answers malformed JSON and bad encodings in JSON', async () => {
+    const malformed = await request(app).post('/events').set('Content-Type', 'application/json').send('{"n":');
+    expect(malformed.status).toBe(400);
+    expect(malformed.body).toEqual({ error: 'Bad Request', message: 'Malformed JSON body' });
+
+    const unsupported = await request(app)
+      .post('/events')
+      .set('Content-Type', 'application/x-ndjson')
+      .set('Content-Encoding', 'compress')
+      .send('{"n":1}');
+    expect(unsupported.status).toBe(415);
+
+    const corrupt = await request(app)
+      .post('/events')
+      .set('Content-Type', 'application/json')
+      .set('Content-Encoding', 'gzip')
+      .send('not gzip');
+    expect(corrupt.status).toBe(400);
+    expect(corrupt.body.message).toMatch(/^Invalid compressed body/);
+  });
+
+  it('parses text/plain beacon bodies as JSON', async () => {
+    const response = await request(app)
+      .post('/events/beacon')
+      .set('Content-Type', 'text/plain;charset=UTF-8')
+      .send('[{"n":1},{"n":2}]');
+
+    expect(response.status).toBe(200);
+    expect(response.body.body).toEqual([{ n: 1 }, { n: 2 }]);
+
+    const malformed = await request(app).post('/events/beacon').set('Content-Type', 'text/plain').send('{"n":');
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.message).toBe('Malformed JSON body');
+  });
+});
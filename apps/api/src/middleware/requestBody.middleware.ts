@@ -0,0 +1,109 @@
+import { STATUS_CODES } from "node:http";
+import express, {
+  type Request,
+  type Response,
+  type NextFunction,
+  type RequestHandler,
+  type ErrorRequestHandler,
+} from "express";
+import { RequestBodyError, decodeRequestBody, readNdjson } from "../utils/ndjsonReader";
+import { errorMessage } from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // NDJSON bodies: index in req.body -> why that line could not be parsed
+      lineErrors?: Map<number, string>;
+    }
+  }
+}
+
+export const NDJSON_CONTENT_TYPES = ["application/x-ndjson", "application/ndjson"];
+
+function sendBodyError(res: Response, status: number, message: string): void {
+  res.status(status).json({
+    error: STATUS_CODES[status] ?? "Bad Request",
+    message,
+  });
+}
+
+/**
+ * Parse application/x-ndjson bodies (optionally gzip/deflate encoded) into an array
+ * of events in req.body. JSON bodies are left to express.json, which handles the
+ * same encodings.
+ */
+export function createNdjsonMiddleware(options: { maxBytes: number }): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.is(NDJSON_CONTENT_TYPES)) {
+      return next();
+    }
+
+    try {
+      const stream = decodeRequestBody(req, req.headers["content-encoding"]);
+      const { events, lineErrors } = await readNdjson(stream, options.maxBytes);
+
+      req.body = events;
+      req.lineErrors = lineErrors;
+      next();
+    } catch (error) {
+      // Stop reading: the rest of an oversized or corrupt body is not needed
+      req.unpipe();
+      req.pause();
+
+      if (error instanceof RequestBodyError) {
+        sendBodyError(res, error.status, error.message);
+        return;
+      }
+
+      console.error("[RequestBody] Failed to read NDJSON body:", errorMessage(error));
+      sendBodyError(res, 400, "Unable to read request body");
+    }
+  };
+}
+
+/**
+ * Parse text/plain bodies as JSON. navigator.sendBeacon can only send text/plain
+ * without a CORS preflight, so browser SDKs post JSON with that content type.
+ */
+export function createTextJsonMiddleware(options: { maxBytes: number }): RequestHandler {
+  const textParser = express.text({ type: "text/plain", limit: options.maxBytes });
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    textParser(req, res, (error?: unknown) => {
+      if (error || typeof req.body !== "string") {
+        return next(error);
+      }
+
+      try {
+        req.body = JSON.parse(req.body);
+        next();
+      } catch {
+        sendBodyError(res, 400, "Malformed JSON body");
+      }
+    });
+  };
+}
+
+// Turn express.json failures (malformed JSON, too large, corrupt or unsupported
+// encoding) into the API's JSON error format instead of Express's default HTML page
+export const requestBodyErrorHandler: ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent || typeof error?.status !== "number" || !error.expose) {
+    return next(error);
+  }
+
+  if (typeof error.code === "string" && error.code.startsWith("Z_")) {
+    sendBodyError(res, error.status, `Invalid compressed body: ${error.message}`);
+    return;
+  }
+
+  switch (error.type) {
+    case "entity.parse.failed":
+      sendBodyError(res, error.status, "Malformed JSON body");
+      return;
+    case "entity.too.large":
+      sendBodyError(res, error.status, `Request body exceeds ${error.limit} bytes after decompression`);
+      return;
+    default:
+      sendBodyError(res, error.status, error.message);
+  }
+};
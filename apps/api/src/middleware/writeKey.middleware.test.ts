@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { Request, Response, NextFunction } from 'express';
+import { createWriteKeyMiddleware, extractWriteKey } from './writeKey.middleware';
+import { WriteKeyService } from '../services/writeKey.service';
+import { SourceRepository } from '../repositories/source.repository';
+
+describe('extractWriteKey', () => {
+  it('reads the X-Write-Key header', () => {
+    const req = { headers: { 'x-write-key': 'wk_header' } } as unknown as Request;
+
+    expect(extractWriteKey(req)).toBe('wk_header');
+  });
+
+  it('reads the basic auth username', () => {
+    const encoded = Buffer.from('wk_basic:').toString('base64');
+    const req = { headers: { authorization: `Basic ${encoded}` } } as unknown as Request;
+
+    expect(extractWriteKey(req)).toBe('wk_basic');
+  });
+
+  it('returns null without credentials', () => {
+    expect(extractWriteKey({ headers: {} } as Request)).toBeNull();
+  });
+
+  it('reads the writeKey query parameter only when allowed', () => {
+    const req = { headers: {}, query: { writeKey: 'wk_query' } } as unknown as Request;
+
+    expect(extractWriteKey(req)).toBeNull();
+    expect(extractWriteKey(req, true)).toBe('wk_query');
+  });
+
+  it('reads the writeKey body field only when allowed', () => {
+    const req = { headers: {}, body: { writeKey: 'wk_body', batch: [] } } as unknown as Request;
+
+    expect(extractWriteKey(req, true)).toBeNull();
+    expect(extractWriteKey(req, false, true)).toBe('wk_body');
+  });
+});
+
+describe('createWriteKeyMiddleware', () => {
+  let writeKeys: WriteKeyService;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+  let statusMock: Mock<Response['status']>;
+  let jsonMock: Mock<Response['json']>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    writeKeys = new WriteKeyService(new SourceRepository());
+    vi.spyOn(writeKeys, 'authenticate').mockImplementation(async (key) => (key === 'wk_valid' ? 'src_web' : null));
+
+    jsonMock = vi.fn();
+    statusMock = vi.fn();
+    mockResponse = {
+      status: statusMock,
+      json: jsonMock,
+      setHeader: vi.fn(),
+    };
+    statusMock.mockReturnValue(mockResponse as Response);
+    mockNext = vi.fn();
+  });
+
+  it('sets sourceId for a valid key', async () => {
+    const req = { headers: { 'x-write-key': 'wk_valid' } } as unknown as Request;
+
+    await createWriteKeyMiddleware(writeKeys, { required: true })(req, mockResponse as Response, mockNext);
+
+    expect(req.sourceId).toBe('src_web');
+    expect(mockNext).toHaveBeenCalled();
+  });
+
+  it('returns 401 for an invalid key', async () => {
+    const req = { headers: { 'x-write-key': 'wk_wrong' } } as unknown as Request;
+
+    await createWriteKeyMiddleware(writeKeys, { required: false })(req, mockResponse as Response, mockNext);
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 for a missing key when keys are required', async () => {
+    const req = { headers: {} } as Request;
+
+    await createWriteKeyMiddleware(writeKeys, { required: true })(req, mockResponse as Response, mockNext);
+
+    expect(statusMock).toHaveBeenCalledWith(401);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith('WWW-Authenticate', 'Basic realm="events"');
+  });
+
+  it('lets requests without a key through when keys are optional', async () => {
+    const req = { headers: {} } as Request;
+
+    await createWriteKeyMiddleware(writeKeys, { required: false })(req, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(req.sourceId).toBeUndefined();
+  });
+
+  it('returns 503 when the key cannot be verified', async () => {
+    vi.mocked(writeKeys.authenticate).mockRejectedValue(new Error('DB down'));
+    const req = { headers: { 'x-write-key': 'wk_valid' } } as unknown as Request;
+
+    await createWriteKeyMiddleware(writeKeys, { required: true })(req, mockResponse as Response, mockNext);
+
+    expect(statusMock).toHaveBeenCalledWith(503);
+  });
+});
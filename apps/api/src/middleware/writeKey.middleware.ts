@@ -0,0 +1,102 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { WriteKeyService } from "../services/writeKey.service";
+import { writeKeyAuthFailureCounter } from "../observability/metrics";
+import { errorMessage } from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      sourceId?: string;
+    }
+  }
+}
+
+export interface WriteKeyMiddlewareOptions {
+  // When false, requests without a key are let through (rollout mode); a key that
+  // is sent is still verified
+  required: boolean;
+  // Also accept ?writeKey= for beacons and pixels, which cannot set headers
+  allowQueryParam?: boolean;
+  // Also accept a writeKey field in the JSON body, where Segment's analytics.js sends it
+  allowBodyField?: boolean;
+}
+
+/**
+ * Read the write key from the X-Write-Key header or, for SDKs that only support
+ * basic auth, from the username of an Authorization: Basic header (password empty).
+ * With allowQueryParam the writeKey query parameter is accepted as well, with
+ * allowBodyField the writeKey field of the body.
+ */
+export function extractWriteKey(req: Request, allowQueryParam = false, allowBodyField = false): string | null {
+  const header = req.headers["x-write-key"];
+  if (typeof header === "string" && header.length > 0) {
+    return header;
+  }
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith("Basic ")) {
+    const decoded = Buffer.from(authorization.slice(6), "base64").toString("utf8");
+    const username = decoded.split(":")[0];
+    if (username) {
+      return username;
+    }
+  }
+
+  const query = allowQueryParam ? req.query?.writeKey : undefined;
+  if (typeof query === "string" && query.length > 0) {
+    return query;
+  }
+
+  const field = allowBodyField ? req.body?.writeKey : undefined;
+  if (typeof field === "string" && field.length > 0) {
+    return field;
+  }
+
+  return null;
+}
+
+function rejectWriteKey(res: Response, reason: "missing" | "invalid", message: string): void {
+  writeKeyAuthFailureCounter.inc({ reason });
+  res.setHeader("WWW-Authenticate", 'Basic realm="events"');
+  res.status(401).json({
+    error: "Unauthorized",
+    message,
+  });
+}
+
+export function createWriteKeyMiddleware(
+  writeKeys: WriteKeyService,
+  options: WriteKeyMiddlewareOptions
+): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = extractWriteKey(req, options.allowQueryParam, options.allowBodyField);
+
+    if (!key) {
+      if (!options.required) {
+        return next();
+      }
+      rejectWriteKey(res, "missing", "Write key required (X-Write-Key header or basic auth username)");
+      return;
+    }
+
+    try {
+      const sourceId = await writeKeys.authenticate(key);
+
+      if (!sourceId) {
+        rejectWriteKey(res, "invalid", "Invalid, expired or revoked write key");
+        return;
+      }
+
+      req.sourceId = sourceId;
+      next();
+    } catch (error) {
+      // Only reachable on a cache miss while MongoDB is unavailable
+      console.error("[WriteKey] Key lookup failed:", errorMessage(error));
+      res.status(503).json({
+        error: "Service Unavailable",
+        message: "Unable to verify write key, try again shortly",
+        retryAfter: 1,
+      });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { NormalizedEvent } from '../repositories/event.repository';
+
+// Events that could not be written to the events collection after retries and
+// batch bisection. Kept with the failure details so they can be inspected,
+// replayed through the ingestion buffer, or purged.
+export interface IDeadLetterEventDocument extends Omit<Document, '_id'> {
+  _id: string;  // eventId of the failed event
+  event: NormalizedEvent;  // Full normalized event as it was buffered
+  error: {
+    name: string;
+    message: string;
+    code?: number | string;
+  };
+  attempts: number;
+  eventType: string;
+  deadLetteredAt: Date;
+}
+
+const deadLetterEventSchema = new Schema<IDeadLetterEventDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    error: {
+      name: { type: String, required: true },
+      message: { type: String, required: true },
+      code: { type: Schema.Types.Mixed },
+    },
+    attempts: {
+      type: Number,
+      required: true,
+    },
+    eventType: {
+      type: String,
+      required: true,
+    },
+    deadLetteredAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'dead_letter_events',
+  }
+);
+
+// Admin listing: most recent failures first, optionally filtered by type
+deadLetterEventSchema.index({ deadLetteredAt: -1 });
+deadLetterEventSchema.index({ eventType: 1, deadLetteredAt: -1 });
+
+export const DeadLetterEvent = mongoose.model<IDeadLetterEventDocument>(
+  'DeadLetterEvent',
+  deadLetterEventSchema
+);
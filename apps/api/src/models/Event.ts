@@ -1,5 +1,21 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { EventType, IEvent } from '@martech/types';
+import { EXCLUSION_REASONS, type ExclusionReason } from './TrafficFilter';
+
+// Payload schema violations recorded on events accepted in "warn" mode
+export interface ISchemaViolations {
+  version: number;  // Schema version the payload was checked against
+  violations: { path: string; message: string }[];
+}
+
+// Client timestamps kept for auditing when occurredAt was corrected for clock skew,
+// or fell outside the accepted window
+export interface ITimestampCorrection {
+  clientOccurredAt: Date;          // occurredAt as sent by the client
+  sentAt?: Date;                   // Client clock when the event was sent
+  skewMs?: number;                 // receivedAt - sentAt, added to clientOccurredAt
+  outOfRange?: 'future' | 'past';  // Still outside the window after skew correction
+  clamped?: boolean;               // occurredAt was moved to the edge of the window
+}
 
 // Mongoose document interface
 // Note: We use a custom _id (string) instead of ObjectId for eventId
@@ -7,12 +23,41 @@ export interface IEventDocument extends Omit<Document, '_id'> {
   _id: string;  // Using eventId as _id (string instead of ObjectId)
   userId: string;
   sessionId: string;
-  type: EventType;
+  derivedSessionId?: string;
+  type: string;
   payload: Record<string, any>;
   occurredAt: Date;
   receivedAt: Date;
+  schemaViolations?: ISchemaViolations;
+  timestampCorrection?: ITimestampCorrection;
+  sourceId?: string;
+  anonymousId?: string;
+  context?: Record<string, unknown>;
+  tags?: string[];
+  excluded?: boolean;
+  exclusionReason?: ExclusionReason;
+  importId?: string;
 }
 
+const schemaViolationsSchema = new Schema<ISchemaViolations>(
+  {
+    version: { type: Number, required: true },
+    violations: [{ _id: false, path: String, message: String }],
+  },
+  { _id: false }
+);
+
+const timestampCorrectionSchema = new Schema<ITimestampCorrection>(
+  {
+    clientOccurredAt: { type: Date, required: true },
+    sentAt: Date,
+    skewMs: Number,
+    outOfRange: { type: String, enum: ['future', 'past'] },
+    clamped: Boolean,
+  },
+  { _id: false }
+);
+
 // Mongoose schema definition
 const eventSchema = new Schema<IEventDocument>(
   {
@@ -30,9 +75,15 @@ const eventSchema = new Schema<IEventDocument>(
       type: String,
       required: true,
     },
+    // Session derived by server-side sessionization, for sources that have it on
+    derivedSessionId: {
+      type: String,
+      required: false,
+    },
+    // Types live in the event_types catalog, not in code; they are checked against
+    // the cached catalog before events are stored
     type: {
       type: String,
-      enum: Object.values(EventType),
       required: true,
     },
     payload: {
@@ -49,6 +100,52 @@ const eventSchema = new Schema<IEventDocument>(
       required: true,
       default: () => new Date(),
     },
+    // Source whose write key sent the event (absent for events accepted without a key)
+    sourceId: {
+      type: String,
+      required: false,
+    },
+    // Device identifier sent by SDKs before the user is identified
+    anonymousId: {
+      type: String,
+      required: false,
+    },
+    // Client environment reported by the SDK (app, device, library, locale...)
+    context: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
+    // Only present on events whose payload failed validation in "warn" mode
+    schemaViolations: {
+      type: schemaViolationsSchema,
+      required: false,
+    },
+    // Only present when the client sent sentAt or occurredAt was out of range
+    timestampCorrection: {
+      type: timestampCorrectionSchema,
+      required: false,
+    },
+    // Added by "tag" stages of the transformation pipeline
+    tags: {
+      type: [String],
+      default: undefined,
+    },
+    // Bot or internal traffic kept by the traffic filter in flag mode; left out of
+    // /stats and /users unless asked for
+    excluded: {
+      type: Boolean,
+      required: false,
+    },
+    exclusionReason: {
+      type: String,
+      enum: EXCLUSION_REASONS,
+      required: false,
+    },
+    // Historical import that wrote the event; its rollback deletes by this field
+    importId: {
+      type: String,
+      required: false,
+    },
   },
   {
     // Disable __v field (not needed for append-only collection)
@@ -73,6 +170,16 @@ eventSchema.index({ userId: 1, occurredAt: -1 });
 // Uniqueness index: eventId is already the primary key (_id), so it's automatically unique
 // This prevents duplicate event ingestion and enables idempotent retries
 
+// Session timeline: GET /sessions/:sessionId returns a session's events in order
+eventSchema.index({ sessionId: 1, occurredAt: 1 });
+
+// Timeline of a derived session. Sparse because only sessionized sources set it.
+eventSchema.index({ derivedSessionId: 1, occurredAt: 1 }, { sparse: true });
+
+// Import rollback: deletes the events written by one import. Sparse because
+// events ingested live have no importId.
+eventSchema.index({ importId: 1 }, { sparse: true });
+
 // Optional: TTL index for data retention (90 days)
 // Uncomment if you want automatic deletion of old events
 // eventSchema.index({ receivedAt: 1 }, { expireAfterSeconds: 7776000 });
@@ -0,0 +1,56 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { EventTypeStatus } from '@martech/types';
+
+export const EVENT_TYPE_STATUSES: EventTypeStatus[] = ['active', 'deprecated', 'blocked'];
+
+// Lowercase snake_case, the same shape as the built-in types
+export const EVENT_TYPE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+// Event-type catalog: one document per type clients may send
+export interface IEventTypeDefinitionDocument extends Omit<Document, '_id'> {
+  _id: string;  // Event type name
+  description: string;
+  owner: string;
+  status: EventTypeStatus;
+  icon?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const eventTypeDefinitionSchema = new Schema<IEventTypeDefinitionDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+      match: EVENT_TYPE_NAME_PATTERN,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    owner: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: EVENT_TYPE_STATUSES,
+      required: true,
+      default: 'active',
+    },
+    icon: {
+      type: String,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+    strict: true,
+    collection: 'event_types',
+  }
+);
+
+export const EventTypeDefinition = mongoose.model<IEventTypeDefinitionDocument>(
+  'EventTypeDefinition',
+  eventTypeDefinitionSchema
+);
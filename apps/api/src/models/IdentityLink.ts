@@ -0,0 +1,58 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+export type IdentityKind = 'anonymous' | 'device' | 'user';
+export type IdentityLinkVia = 'identify' | 'alias';
+
+// Edge of the identity graph: an identifier (anonymous ID, device ID or former user
+// ID) that belongs to a canonical user. The graph is kept flat: every linked
+// identifier points straight at the canonical user, which has no document itself.
+export interface IIdentityLinkDocument extends Omit<Document, '_id'> {
+  _id: string;  // The linked identifier, as it appears in events.userId
+  canonicalUserId: string;
+  kind: IdentityKind;
+  via: IdentityLinkVia;
+  eventId: string;  // identify/alias event that created the link
+  linkedAt: Date;
+}
+
+const identityLinkSchema = new Schema<IIdentityLinkDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    canonicalUserId: {
+      type: String,
+      required: true,
+    },
+    kind: {
+      type: String,
+      required: true,
+      enum: ['anonymous', 'device', 'user'],
+    },
+    via: {
+      type: String,
+      required: true,
+      enum: ['identify', 'alias'],
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    linkedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'identity_links',
+  }
+);
+
+// Listing every identifier of a user, and re-pointing them when users are merged
+identityLinkSchema.index({ canonicalUserId: 1 });
+
+export const IdentityLink = mongoose.model<IIdentityLinkDocument>('IdentityLink', identityLinkSchema);
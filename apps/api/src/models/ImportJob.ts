@@ -0,0 +1,153 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+export type ImportFormat = 'csv' | 'ndjson' | 'json';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'ndjson', 'json'];
+
+// Lifecycle of an import:
+// - queued:       waiting for the runner (new, resumed, or interrupted by a restart)
+// - running:      being written in chunks by one instance
+// - paused:       stopped on request; resuming continues after the last written chunk
+// - completed:    every record was read
+// - failed:       stopped by an unreadable file or a database error; can be resumed
+// - rolling_back: the events it wrote are being deleted
+// - rolled_back:  the events it wrote were deleted
+export type ImportStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'rolling_back' | 'rolled_back';
+
+export const IMPORT_STATUSES: ImportStatus[] = [
+  'queued',
+  'running',
+  'paused',
+  'completed',
+  'failed',
+  'rolling_back',
+  'rolled_back',
+];
+
+export interface IImportProgress {
+  processed: number;   // Records read so far; a resumed import skips this many
+  imported: number;    // Events written
+  duplicates: number;  // Events skipped because their eventId was already stored
+  rejected: number;    // Records that failed validation
+  bytesRead: number;   // Position in the (possibly compressed) file
+}
+
+// A record that could not be imported; `record` is its 1-based position in the file
+export interface IImportRejection {
+  record: number;
+  code: string;
+  field?: string;
+  message: string;
+}
+
+export interface IImportJobDocument extends Omit<Document, '_id'> {
+  _id: string;  // importId, e.g. "imp_4f9c2a7d1b3e"; also written to every imported event
+  status: ImportStatus;
+  file: string;      // Path relative to IMPORT_DIR
+  fileSize: number;
+  format: ImportFormat;
+  mapping: Record<string, string>;    // Event field -> column or record path
+  defaults: Record<string, unknown>;  // Event field -> value used when the record has none
+  sourceId?: string;
+  progress: IImportProgress;
+  rejections: IImportRejection[];  // First MAX_IMPORT_REJECTIONS rejected records
+  failure?: string;                // Why the import failed
+  deletedCount?: number;           // Events deleted by the rollback
+  heartbeatAt?: Date;              // Last progress of a running import
+  createdBy?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  rolledBackAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const MAX_IMPORT_REJECTIONS = 100;
+
+const importJobSchema = new Schema<IImportJobDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: IMPORT_STATUSES,
+      required: true,
+    },
+    file: {
+      type: String,
+      required: true,
+    },
+    fileSize: {
+      type: Number,
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: IMPORT_FORMATS,
+      required: true,
+    },
+    // Validated by checkImportMapping before the job is created
+    mapping: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    defaults: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    sourceId: {
+      type: String,
+    },
+    progress: {
+      processed: { type: Number, default: 0 },
+      imported: { type: Number, default: 0 },
+      duplicates: { type: Number, default: 0 },
+      rejected: { type: Number, default: 0 },
+      bytesRead: { type: Number, default: 0 },
+    },
+    rejections: [
+      {
+        _id: false,
+        record: Number,
+        code: String,
+        field: String,
+        message: String,
+      },
+    ],
+    failure: {
+      type: String,
+    },
+    deletedCount: {
+      type: Number,
+    },
+    heartbeatAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    rolledBackAt: {
+      type: Date,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+    strict: true,
+    collection: 'import_jobs',
+  }
+);
+
+// The runner claims the oldest queued import; the admin listing shows the newest first
+importJobSchema.index({ status: 1, createdAt: 1 });
+importJobSchema.index({ createdAt: -1 });
+
+export const ImportJob = mongoose.model<IImportJobDocument>('ImportJob', importJobSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { JsonSchema } from '../validators/payloadSchema.validator';
+
+// How payloads of an event type are checked at ingestion:
+// - off:     not validated
+// - warn:    accepted, violations are recorded on the stored event
+// - enforce: events with violations are rejected
+export type PayloadSchemaMode = 'off' | 'warn' | 'enforce';
+
+export const PAYLOAD_SCHEMA_MODES: PayloadSchemaMode[] = ['off', 'warn', 'enforce'];
+
+export interface IPayloadSchemaVersion {
+  version: number;
+  schema: JsonSchema;  // JSON Schema for the event payload
+  createdAt: Date;
+  createdBy?: string;
+}
+
+// One document per event type in the tracking plan. Versions are append-only so
+// the schema a stored event was checked against can always be looked up.
+export interface IPayloadSchemaDocument extends Omit<Document, '_id'> {
+  _id: string;  // Event type
+  mode: PayloadSchemaMode;
+  currentVersion: number;
+  versions: IPayloadSchemaVersion[];
+  updatedAt: Date;
+}
+
+const payloadSchemaVersionSchema = new Schema<IPayloadSchemaVersion>(
+  {
+    version: { type: Number, required: true },
+    schema: { type: Schema.Types.Mixed, required: true },
+    createdAt: { type: Date, required: true, default: () => new Date() },
+    createdBy: { type: String },
+  },
+  { _id: false }
+);
+
+const payloadSchemaSchema = new Schema<IPayloadSchemaDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    mode: {
+      type: String,
+      enum: PAYLOAD_SCHEMA_MODES,
+      required: true,
+      default: 'warn',
+    },
+    currentVersion: {
+      type: Number,
+      required: true,
+    },
+    versions: {
+      type: [payloadSchemaVersionSchema],
+      required: true,
+    },
+    updatedAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'payload_schemas',
+  }
+);
+
+export const PayloadSchema = mongoose.model<IPayloadSchemaDocument>(
+  'PayloadSchema',
+  payloadSchemaSchema
+);
@@ -0,0 +1,76 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// Most items an append operation leaves in a list trait; the oldest are dropped
+export const MAX_TRAIT_LIST_LENGTH = 1000;
+
+// User profile kept up to date from stored events (see ProfileTracker): counts and
+// computed properties are folded in on every buffer flush, traits come from identify
+// calls and PATCH /users/:userId. One document per userId as sent by clients.
+export interface IProfileDocument extends Omit<Document, '_id'> {
+  _id: string;  // userId
+  traits?: Record<string, unknown>;
+  eventCount: number;  // Leaves out events flagged by the traffic filter
+  excludedEventCount?: number;  // Events flagged by the traffic filter
+  sessionCount: number;  // Sessions started by this user
+  firstSeenAt?: Date;  // Earliest occurredAt
+  lastEventAt?: Date;  // Latest occurredAt
+  computed?: {
+    eventTypeCounts?: Record<string, number>;
+    purchaseCount?: number;
+    totalRevenue?: number;
+    lastPurchaseAt?: Date;
+  };
+  excluded?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// No defaults: the documents are only written by pipeline upserts, which Mongoose
+// cannot add defaults to
+const profileSchema = new Schema<IProfileDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    traits: Schema.Types.Mixed,
+    eventCount: {
+      type: Number,
+      required: true,
+    },
+    sessionCount: {
+      type: Number,
+      required: true,
+    },
+    excludedEventCount: Number,
+    firstSeenAt: Date,
+    lastEventAt: Date,
+    computed: {
+      eventTypeCounts: Schema.Types.Mixed,
+      purchaseCount: Number,
+      totalRevenue: Number,
+      lastPurchaseAt: Date,
+    },
+    // Set when all events of the user were flagged by the traffic filter
+    excluded: Boolean,
+    createdAt: {
+      type: Date,
+      required: true,
+    },
+    updatedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'profiles',
+  }
+);
+
+// Most recently active users first (GET /users)
+profileSchema.index({ lastEventAt: -1 });
+
+export const Profile = mongoose.model<IProfileDocument>('Profile', profileSchema);
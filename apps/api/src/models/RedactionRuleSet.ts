@@ -0,0 +1,71 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// What happens to a matched value:
+// - drop: the field is removed from the payload
+// - mask: all but a few characters are replaced with "*"
+// - hash: replaced with a salted SHA-256 hash, so equal values stay joinable
+export type RedactionAction = 'drop' | 'mask' | 'hash';
+
+export const REDACTION_ACTIONS: RedactionAction[] = ['drop', 'mask', 'hash'];
+
+// Built-in PII detectors applied to string values
+export type PiiDetector = 'email' | 'phone' | 'credit_card' | 'ip';
+
+export const PII_DETECTORS: PiiDetector[] = ['email', 'phone', 'credit_card', 'ip'];
+
+// A rule matches a payload path ("customer.email", "items.*.card"), values that
+// look like PII, or PII found under a path when both are given
+export interface IRedactionRule {
+  path?: string;
+  detect?: PiiDetector;
+  action: RedactionAction;
+}
+
+// Rule set applied to the payloads of one event type; "*" applies to every type
+export interface IRedactionRuleSetDocument extends Omit<Document, '_id'> {
+  _id: string;  // Event type, or "*"
+  rules: IRedactionRule[];
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+const redactionRuleSchema = new Schema<IRedactionRule>(
+  {
+    path: { type: String },
+    detect: { type: String, enum: PII_DETECTORS },
+    action: { type: String, enum: REDACTION_ACTIONS, required: true },
+  },
+  { _id: false }
+);
+
+const redactionRuleSetSchema = new Schema<IRedactionRuleSetDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    rules: {
+      type: [redactionRuleSchema],
+      required: true,
+    },
+    updatedAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'redaction_rules',
+  }
+);
+
+export const RedactionRuleSet = mongoose.model<IRedactionRuleSetDocument>(
+  'RedactionRuleSet',
+  redactionRuleSetSchema
+);
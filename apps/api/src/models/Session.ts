@@ -0,0 +1,114 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// Most distinct pages kept per session; uniquePages stops counting there
+export const MAX_SESSION_PAGES = 500;
+
+// Session materialized from its stored events. Every buffer flush folds the new
+// events of each session into its document (see SessionRepository.applyDeltas),
+// so sessions never have to be grouped from raw events at query time.
+// A session is identified by its sessionId together with its user and source, since
+// clients may reuse sessionIds (e.g. "1" or an SDK default) across users.
+export interface ISessionDocument extends Document {
+  sessionId: string;  // As sent by the client, or derived (ANALYTICS_SESSION_ID=derived)
+  userId: string;
+  sourceId?: string | null;  // null for events accepted without a write key
+  startedAt: Date;  // Earliest occurredAt
+  endedAt: Date;  // Latest occurredAt
+  duration: number;  // endedAt - startedAt (ms)
+  eventCount: number;
+  pageViewCount: number;
+  pages: string[];  // Distinct pages viewed, up to MAX_SESSION_PAGES
+  uniquePages: number;
+  entryPage?: string;
+  entryPageAt?: Date;
+  exitPage?: string;
+  exitPageAt?: Date;
+  // Context of the first event that had it
+  device?: string;
+  browser?: string;
+  os?: string;
+  ipAddress?: string;  // Anonymized by enrichment
+  userAgent?: string;
+  country?: string;
+  channel?: string;
+  excluded?: boolean;
+  updatedAt: Date;
+}
+
+// No defaults: the documents are only written by pipeline upserts, which Mongoose
+// cannot add defaults to
+const sessionSchema = new Schema<ISessionDocument>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    sourceId: String,
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+      required: true,
+    },
+    duration: {
+      type: Number,
+      required: true,
+    },
+    eventCount: {
+      type: Number,
+      required: true,
+    },
+    pageViewCount: {
+      type: Number,
+      required: true,
+    },
+    pages: {
+      type: [String],
+      default: undefined,
+    },
+    uniquePages: {
+      type: Number,
+      required: true,
+    },
+    entryPage: String,
+    entryPageAt: Date,
+    exitPage: String,
+    exitPageAt: Date,
+    device: String,
+    browser: String,
+    os: String,
+    ipAddress: String,
+    userAgent: String,
+    country: String,
+    channel: String,
+    // Set when any event of the session was flagged by the traffic filter
+    excluded: Boolean,
+    updatedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'sessions',
+  }
+);
+
+// Identity of a session, the filter of every upsert (GET /sessions/:sessionId)
+sessionSchema.index({ sessionId: 1, userId: 1, sourceId: 1 }, { unique: true });
+
+// Sessions of a user, most recent first (GET /users/:userId/sessions)
+sessionSchema.index({ userId: 1, startedAt: -1 });
+
+// Recent sessions across all users (GET /sessions)
+sessionSchema.index({ startedAt: -1 });
+
+export const Session = mongoose.model<ISessionDocument>('Session', sessionSchema);
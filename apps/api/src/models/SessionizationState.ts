@@ -0,0 +1,55 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// The current server-side session of one user of one source, shared by all API
+// instances so every instance continues the same session. Written on each flush
+// that assigned sessions to the user's events.
+export interface ISessionizationStateDocument extends Omit<Document, '_id'> {
+  _id: string;  // "<sourceId>:<userId>"
+  sessionId: string;  // Derived session ID
+  startedAt: Date;  // occurredAt of the session's first event
+  lastEventAt: Date;  // occurredAt of its latest event
+  clientSessionId?: string;  // sessionId the client sent with the latest event
+  campaign?: string;  // Campaign the session came from, see campaignOf()
+  expiresAt: Date;
+}
+
+const sessionizationStateSchema = new Schema<ISessionizationStateDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    sessionId: {
+      type: String,
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    lastEventAt: {
+      type: Date,
+      required: true,
+    },
+    clientSessionId: String,
+    campaign: String,
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'sessionization_states',
+  }
+);
+
+// Users inactive for longer than any timeout start a new session anyway
+sessionizationStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SessionizationState = mongoose.model<ISessionizationStateDocument>(
+  'SessionizationState',
+  sessionizationStateSchema
+);
@@ -0,0 +1,86 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// How server-side sessionization treats the events of a source:
+// - assign: only events sent without a sessionId get a derived one
+// - split: every event gets a derived session, and a client sessionId change is a boundary
+export type SessionizationMode = 'assign' | 'split';
+
+export const SESSIONIZATION_MODES: SessionizationMode[] = ['assign', 'split'];
+
+export interface ISessionizationSettings {
+  mode: SessionizationMode;
+  inactivityTimeoutMinutes: number;
+  splitAtMidnight: boolean;         // Midnight in timezone ends the session
+  splitOnCampaignChange: boolean;   // A new UTM source/medium/campaign starts a session
+  timezone: string;                 // IANA name, e.g. "Europe/Berlin"
+}
+
+// A producer of events (web app, iOS app, a backend service). Every event written
+// through one of its write keys is stored with its sourceId.
+export interface ISourceDocument extends Omit<Document, '_id'> {
+  _id: string;  // sourceId, e.g. "src_4f9c2a7d1b3e"
+  name: string;
+  description?: string;
+  createdBy?: string;
+  // Overrides of the default ingestion limits; unset fields use the defaults
+  limits?: {
+    eventsPerSecond?: number;
+    burst?: number;
+    dailyQuota?: number;  // 0 = unlimited
+  };
+  // Unset: events keep the sessionId the client sent, which is then required
+  sessionization?: ISessionizationSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sourceSchema = new Schema<ISourceDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+    createdBy: {
+      type: String,
+    },
+    limits: {
+      eventsPerSecond: {
+        type: Number,
+      },
+      burst: {
+        type: Number,
+      },
+      dailyQuota: {
+        type: Number,
+      },
+    },
+    sessionization: {
+      type: new Schema<ISessionizationSettings>(
+        {
+          mode: { type: String, enum: SESSIONIZATION_MODES, required: true },
+          inactivityTimeoutMinutes: { type: Number, required: true, min: 1 },
+          splitAtMidnight: { type: Boolean, required: true },
+          splitOnCampaignChange: { type: Boolean, required: true },
+          timezone: { type: String, required: true },
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: true,
+    strict: true,
+    collection: 'sources',
+  }
+);
+
+export const Source = mongoose.model<ISourceDocument>('Source', sourceSchema);
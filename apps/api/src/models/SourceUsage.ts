@@ -0,0 +1,51 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// Number of events a source sent on one UTC day, summed over all API instances.
+// Backs the daily event quota.
+export interface ISourceUsageDocument extends Omit<Document, '_id'> {
+  _id: string;  // "<sourceId>:<YYYY-MM-DD>"
+  sourceId: string;
+  day: string;  // UTC day, YYYY-MM-DD
+  events: number;
+  expiresAt: Date;
+}
+
+const sourceUsageSchema = new Schema<ISourceUsageDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    sourceId: {
+      type: String,
+      required: true,
+    },
+    day: {
+      type: String,
+      required: true,
+    },
+    events: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'source_usage',
+  }
+);
+
+// Loading the usage of all sources for the current day
+sourceUsageSchema.index({ day: 1 });
+
+// Usage is only needed for the current day; keep a few weeks for inspection
+sourceUsageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SourceUsage = mongoose.model<ISourceUsageDocument>('SourceUsage', sourceUsageSchema);
@@ -0,0 +1,83 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// Why an event was recognized as non-user traffic, in the order the checks run
+export type ExclusionReason = 'internal_user' | 'excluded_ip' | 'bot' | 'abnormal_rate';
+
+export const EXCLUSION_REASONS: ExclusionReason[] = ['internal_user', 'excluded_ip', 'bot', 'abnormal_rate'];
+
+// What happens to filtered events:
+// - drop: not stored (still reported as accepted to the client)
+// - flag: stored with excluded: true, and left out of /stats and /users by default
+export type TrafficFilterMode = 'drop' | 'flag';
+
+export const TRAFFIC_FILTER_MODES: TrafficFilterMode[] = ['drop', 'flag'];
+
+export interface ITrafficFilterSettings {
+  mode: TrafficFilterMode;
+  detectBots: boolean;           // Match the User-Agent against the isbot crawler list
+  excludedIps: string[];         // IP addresses or CIDR ranges, e.g. office networks
+  internalUserIds: string[];     // Employees, QA accounts, uptime checkers...
+  maxEventsPerSession: number;   // Abnormal-rate threshold per session window; 0 disables it
+  sessionWindowMs: number;
+}
+
+// The ingestion filter is a single document
+export interface ITrafficFilterDocument extends ITrafficFilterSettings, Omit<Document, '_id'> {
+  _id: string;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+export const INGESTION_TRAFFIC_FILTER_ID = 'ingestion';
+
+const trafficFilterSchema = new Schema<ITrafficFilterDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    mode: {
+      type: String,
+      enum: TRAFFIC_FILTER_MODES,
+      required: true,
+    },
+    detectBots: {
+      type: Boolean,
+      required: true,
+    },
+    excludedIps: {
+      type: [String],
+      default: [],
+    },
+    internalUserIds: {
+      type: [String],
+      default: [],
+    },
+    maxEventsPerSession: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    sessionWindowMs: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    updatedAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'traffic_filters',
+  }
+);
+
+export const TrafficFilter = mongoose.model<ITrafficFilterDocument>('TrafficFilter', trafficFilterSchema);
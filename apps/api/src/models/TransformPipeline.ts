@@ -0,0 +1,78 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// What a stage does to the events it matches:
+// - drop:   discard the event (it is still reported as accepted to the client)
+// - rename: move the value at `from` to `to`
+// - set:    write a constant `value` at `path`
+// - copy:   copy the value at `from` to `to`, keeping the original
+// - remove: delete the value at `path`
+// - tag:    add `tags` to the event, e.g. for routing downstream
+// - split:  one event per element of the array at `path`, the element stored at `as`
+export type TransformAction = 'drop' | 'rename' | 'set' | 'copy' | 'remove' | 'tag' | 'split';
+
+export const TRANSFORM_ACTIONS: TransformAction[] = ['drop', 'rename', 'set', 'copy', 'remove', 'tag', 'split'];
+
+// Which events a stage applies to. Every given criterion must match; `where` maps
+// event paths ("payload.element", "context.geo.country") to the expected value, or
+// to an array of accepted values.
+export interface ITransformCondition {
+  eventType?: string | string[];
+  where?: Record<string, unknown>;
+}
+
+// Declarative stage definition; which of the optional fields are required depends
+// on the action (see checkTransformStages)
+export interface ITransformStage {
+  name: string;
+  action: TransformAction;
+  when?: ITransformCondition;
+  path?: string;
+  from?: string;
+  to?: string;
+  as?: string;
+  value?: unknown;
+  tags?: string[];
+}
+
+// The ingestion pipeline is a single document holding the ordered stages
+export interface ITransformPipelineDocument extends Omit<Document, '_id'> {
+  _id: string;
+  stages: ITransformStage[];
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+export const INGESTION_PIPELINE_ID = 'ingestion';
+
+const transformPipelineSchema = new Schema<ITransformPipelineDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    // Array of ITransformStage, validated by checkTransformStages before it is stored
+    stages: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    updatedAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+    updatedBy: {
+      type: String,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'transform_pipelines',
+  }
+);
+
+export const TransformPipeline = mongoose.model<ITransformPipelineDocument>(
+  'TransformPipeline',
+  transformPipelineSchema
+);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// Credential a source uses to call POST /events. Only the SHA-256 hash of the key
+// is stored; the plaintext is returned once, when the key is created.
+export interface IWriteKeyDocument extends Omit<Document, '_id'> {
+  _id: string;  // keyId, e.g. "key_9b1e4c0a7f2d" (safe to show and log)
+  sourceId: string;
+  keyHash: string;
+  prefix: string;  // First characters of the key so admins can recognise it
+  createdAt: Date;
+  expiresAt?: Date;  // Set when the key is rotated out; valid until then (overlap window)
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+}
+
+const writeKeySchema = new Schema<IWriteKeyDocument>(
+  {
+    _id: {
+      type: String,
+      required: true,
+    },
+    sourceId: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+      default: () => new Date(),
+    },
+    expiresAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    versionKey: false,
+    timestamps: false,
+    strict: true,
+    collection: 'write_keys',
+  }
+);
+
+// Authentication lookup by hash
+writeKeySchema.index({ keyHash: 1 }, { unique: true });
+
+// Listing the keys of a source
+writeKeySchema.index({ sourceId: 1, createdAt: -1 });
+
+export const WriteKey = mongoose.model<IWriteKeyDocument>('WriteKey', writeKeySchema);
@@ -30,6 +30,127 @@ export const bufferFlushCounter = new Counter({
   labelNames: ["status"],
 });
 
+export const deadLetteredEventsCounter = new Counter({
+  name: "martech_events_dead_lettered_total",
+  help: "Total number of events moved to the dead-letter collection after failed flushes",
+});
+
+export const payloadSchemaViolationCounter = new Counter({
+  name: "martech_payload_schema_violations_total",
+  help: "Total number of events whose payload failed its registered schema",
+  labelNames: ["event_type", "mode"],
+});
+
+export const writeKeyAuthFailureCounter = new Counter({
+  name: "martech_write_key_auth_failures_total",
+  help: "Total number of POST /events requests rejected for a missing or invalid write key",
+  labelNames: ["reason"],
+});
+
+export const ingestionThrottledCounter = new Counter({
+  name: "martech_ingestion_throttled_requests_total",
+  help: "Total number of POST /events requests rejected by rate limits or daily quotas",
+  labelNames: ["source", "limit"],
+});
+
+export const identityLinksCounter = new Counter({
+  name: "martech_identity_links_total",
+  help: "Total number of identity links created or moved by identify and alias events",
+  labelNames: ["via"],
+});
+
+export const timestampOutOfRangeCounter = new Counter({
+  name: "martech_event_timestamps_out_of_range_total",
+  help: "Total number of events whose occurredAt was outside the accepted window after clock-skew correction",
+  labelNames: ["bound", "policy"],
+});
+
+export const piiRedactionCounter = new Counter({
+  name: "martech_pii_redactions_total",
+  help: "Total number of payload values redacted by PII rules at ingestion",
+  labelNames: ["event_type", "match", "action"],
+});
+
+export const enrichmentFailureCounter = new Counter({
+  name: "martech_enrichment_failures_total",
+  help: "Total number of events an enricher failed on; the event is stored without that enrichment",
+  labelNames: ["enricher"],
+});
+
+export const filteredEventsCounter = new Counter({
+  name: "martech_filtered_events_total",
+  help: "Total number of events recognized as bot or internal traffic at ingestion",
+  labelNames: ["reason", "action"],
+});
+
+export const transformStageCounter = new Counter({
+  name: "martech_transform_stage_events_total",
+  help: "Total number of events matched by each transformation pipeline stage, by outcome",
+  labelNames: ["stage", "outcome"],
+});
+
+export const synchronousIngestionCounter = new Counter({
+  name: "martech_sync_ingestion_events_total",
+  help: "Total number of events in POST /events?waitForPersistence=true requests, by outcome",
+  labelNames: ["status"],
+});
+
+export const importedEventsCounter = new Counter({
+  name: "martech_import_events_total",
+  help: "Total number of records processed by historical imports, by outcome",
+  labelNames: ["status"],
+});
+
+export const derivedSessionsCounter = new Counter({
+  name: "martech_derived_sessions_total",
+  help: "Total number of sessions started by server-side sessionization, by boundary",
+  labelNames: ["boundary"],
+});
+
+// Live event stream (GET /events/live)
+export const liveStreamConnectionsGauge = new Gauge({
+  name: "martech_live_stream_connections",
+  help: "Current number of open live event stream connections",
+});
+
+export const liveStreamEventsCounter = new Counter({
+  name: "martech_live_stream_events_total",
+  help: "Total number of accepted events matching a live stream filter, by outcome (sent, rate_limited, slow_client)",
+  labelNames: ["status"],
+});
+
+// Adaptive backpressure: derived from recent flushes and the database connection
+export const backpressurePressureGauge = new Gauge({
+  name: "martech_backpressure_pressure",
+  help: "Database pressure seen by the ingestion buffer, from 0 (healthy) to 1 (overloaded or disconnected)",
+});
+
+export const backpressureLimitGauge = new Gauge({
+  name: "martech_backpressure_limit",
+  help: "Ingestion limits currently in effect after adapting to database pressure",
+  labelNames: ["limit"],
+});
+
+export const backpressureShedProbabilityGauge = new Gauge({
+  name: "martech_backpressure_shed_probability",
+  help: "Probability that a new ingestion request is rejected with 429 at the current buffer size",
+});
+
+export const flushLatencyGauge = new Gauge({
+  name: "martech_backpressure_flush_latency_seconds",
+  help: "Exponentially weighted average duration of recent buffer flushes",
+});
+
+export const flushErrorRateGauge = new Gauge({
+  name: "martech_backpressure_flush_error_rate",
+  help: "Exponentially weighted share of recent buffer flushes that failed",
+});
+
+export const shedRequestsCounter = new Counter({
+  name: "martech_ingestion_shed_requests_total",
+  help: "Total number of ingestion requests rejected with 429 to shed load",
+});
+
 // Database metrics
 export const dbConnectionGauge = new Gauge({
   name: "martech_db_connections",
@@ -10,17 +10,17 @@ import { PrometheusExporter } from "@opentelemetry/exporter-prometheus";
  * - DNS lookups
  * - Network calls
  */
-export function initializeTelemetry() {
+export function initializeTelemetry(prometheusPort: number) {
   // Prometheus exporter configuration
   // Exposes metrics on /metrics endpoint (default port 9464)
   const prometheusExporter = new PrometheusExporter(
     {
-      port: Number(process.env.PROMETHEUS_PORT) || 9464,
+      port: prometheusPort,
       endpoint: "/metrics",
     },
     () => {
       console.log("[Telemetry] Prometheus metrics available at http://localhost:" +
-                  (process.env.PROMETHEUS_PORT || 9464) + "/metrics");
+                  prometheusPort + "/metrics");
     }
   );
 
@@ -0,0 +1,180 @@
+import { DeadLetterEvent, type IDeadLetterEventDocument } from '../models/DeadLetterEvent';
+import type { NormalizedEvent } from './event.repository';
+import { errorCode, errorMessage } from '../utils/errors';
+
+export interface DeadLetterEntry {
+  eventId: string;
+  event: NormalizedEvent;
+  error: {
+    name: string;
+    message: string;
+    code?: number | string;
+  };
+  attempts: number;
+  deadLetteredAt: Date;
+}
+
+export interface DeadLetterListOptions {
+  page?: number;
+  pageSize?: number;
+  type?: string;
+}
+
+function toEntry(doc: IDeadLetterEventDocument): DeadLetterEntry {
+  return {
+    eventId: doc._id,
+    event: {
+      ...doc.event,
+      occurredAt: new Date(doc.event.occurredAt),
+      receivedAt: new Date(doc.event.receivedAt),
+    },
+    error: doc.error,
+    attempts: doc.attempts,
+    deadLetteredAt: doc.deadLetteredAt,
+  };
+}
+
+// Data access for the dead_letter_events collection
+export class DeadLetterRepository {
+  /**
+   * Store events that exhausted their flush retries
+   * Upserts by eventId so an event that fails again after a replay keeps a single entry
+   */
+  async insert(events: NormalizedEvent[], error: unknown, attempts: number): Promise<void> {
+    const failure = {
+      name: error instanceof Error ? error.name : 'Error',
+      message: errorMessage(error),
+      code: errorCode(error),
+    };
+    const deadLetteredAt = new Date();
+
+    await DeadLetterEvent.bulkWrite(
+      events.map((event) => ({
+        updateOne: {
+          filter: { _id: event.eventId },
+          update: {
+            $set: {
+              event,
+              error: failure,
+              attempts,
+              eventType: event.type,
+              deadLetteredAt,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+
+    console.error('[DeadLetterRepository] Dead-lettered events:', {
+      count: events.length,
+      attempts,
+      error: failure.message,
+    });
+  }
+
+  async list(options: DeadLetterListOptions = {}): Promise<{
+    items: DeadLetterEntry[];
+    totalCount: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  }> {
+    try {
+      const page = options.page || 1;
+      const pageSize = options.pageSize || 20;
+      const query = options.type ? { eventType: options.type } : {};
+
+      const [documents, totalCount] = await Promise.all([
+        DeadLetterEvent.find(query)
+          .sort({ deadLetteredAt: -1 })
+          .skip((page - 1) * pageSize)
+          .limit(pageSize)
+          .lean<IDeadLetterEventDocument[]>()
+          .exec(),
+        DeadLetterEvent.countDocuments(query),
+      ]);
+
+      return {
+        items: documents.map(toEntry),
+        totalCount,
+        page,
+        pageSize,
+        totalPages: Math.ceil(totalCount / pageSize),
+      };
+    } catch (error) {
+      console.error('[DeadLetterRepository] list failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  async findById(eventId: string): Promise<DeadLetterEntry | null> {
+    const doc = await DeadLetterEvent.findById(eventId).lean<IDeadLetterEventDocument>().exec();
+    return doc ? toEntry(doc) : null;
+  }
+
+  /**
+   * Take entries out of the store to replay them, either the given eventIds or the
+   * oldest `limit` entries. Entries are deleted before the replay, so an event that
+   * fails again and is dead-lettered anew keeps its new entry; an entry another
+   * replay claimed first is left out.
+   */
+  async claimForReplay(options: { eventIds?: string[]; limit: number }): Promise<DeadLetterEntry[]> {
+    const query = options.eventIds ? { _id: { $in: options.eventIds } } : {};
+
+    const candidates = await DeadLetterEvent.find(query)
+      .sort({ deadLetteredAt: 1 })
+      .limit(options.limit)
+      .select({ _id: 1 })
+      .lean<Pick<IDeadLetterEventDocument, '_id'>[]>()
+      .exec();
+    const claimed = await Promise.all(
+      candidates.map((candidate) =>
+        DeadLetterEvent.findOneAndDelete({ _id: candidate._id }).lean<IDeadLetterEventDocument>().exec()
+      )
+    );
+
+    return claimed.filter((doc): doc is IDeadLetterEventDocument => doc !== null).map(toEntry);
+  }
+
+  /**
+   * Put claimed entries back after their replay failed, unless the event was
+   * dead-lettered again meanwhile
+   */
+  async restore(entries: DeadLetterEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    await DeadLetterEvent.bulkWrite(
+      entries.map((entry) => ({
+        updateOne: {
+          filter: { _id: entry.eventId },
+          update: {
+            $setOnInsert: {
+              event: entry.event,
+              error: entry.error,
+              attempts: entry.attempts,
+              eventType: entry.event.type,
+              deadLetteredAt: entry.deadLetteredAt,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  /**
+   * Delete entries by eventId, or every entry when eventIds is omitted
+   *
+   * @returns number of deleted entries
+   */
+  async delete(eventIds?: string[]): Promise<number> {
+    const query = eventIds ? { _id: { $in: eventIds } } : {};
+    const result = await DeadLetterEvent.deleteMany(query);
+    return result.deletedCount;
+  }
+}
@@ -1,8 +1,30 @@
-import { IEvent } from '@martech/types';
-import { Event, IEventDocument } from '../models/Event';
+import type { IEvent, IEventContext } from '@martech/types';
+import { Event, type IEventDocument, type ISchemaViolations, type ITimestampCorrection } from '../models/Event';
+import type { ExclusionReason } from '../models/TrafficFilter';
+import type { AnalyticsSessionId } from '../config';
+import type { SessionKey } from './session.repository';
+import { errorCode, errorMessage } from '../utils/errors';
 
 // Normalized event shape (used internally by the service layer)
-export interface NormalizedEvent extends IEvent {}
+export interface NormalizedEvent extends IEvent {
+  // Set when the payload failed its registered schema in "warn" mode
+  schemaViolations?: ISchemaViolations;
+  // Set when occurredAt was corrected for clock skew or is out of range
+  timestampCorrection?: ITimestampCorrection;
+  // Source whose write key authenticated the request
+  sourceId?: string;
+  anonymousId?: string;
+  context?: IEventContext;
+  // Added by "tag" stages of the transformation pipeline
+  tags?: string[];
+  // Set by the traffic filter on bot and internal traffic
+  excluded?: boolean;
+  exclusionReason?: ExclusionReason;
+  // Set on events written by a historical import (see EventImportService)
+  importId?: string;
+  // Set by server-side sessionization when the batch is flushed (see Sessionizer)
+  derivedSessionId?: string;
+}
 
 // Query options for user journey retrieval
 export interface UserJourneyOptions {
@@ -11,13 +33,6 @@ export interface UserJourneyOptions {
   limit?: number; // Max number of events to return (default: 100)
 }
 
-export interface UserMetrics {
-  userId: string;
-  totalEvents: number;
-  totalSessions: number;
-  lastActive: Date;
-}
-
 export interface EventTypeCount {
   type: string;
   count: number;
@@ -35,15 +50,104 @@ export interface AnalyticsStats {
   eventsByDay: EventDayCount[];
 }
 
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface BulkInsertResult {
+  // Events skipped because an event with the same eventId is already stored
+  duplicateEventIds: string[];
+}
+
+// eventIds of the documents a duplicate-only insert error refers to
+function duplicateEventIds(error: unknown, events: NormalizedEvent[]): string[] {
+  const writeErrors = writeErrorsOf(error);
+  if (writeErrors.length === 0) {
+    return events.map((event) => event.eventId);
+  }
+  return writeErrors.map((writeError) => events[writeError.index]?.eventId).filter(Boolean);
+}
+
+// Analytics leave out bot and internal traffic stored by the traffic filter unless
+// includeExcluded is set
+export interface AnalyticsOptions {
+  includeExcluded?: boolean;
+}
+
+function analyticsFilter(options?: AnalyticsOptions) {
+  return options?.includeExcluded ? {} : { excluded: { $ne: true } };
+}
+
+// Replaces each distinct userId (the _id of a preceding $group by userId) with
+// the user it is linked to in the identity graph, or the userId itself. Grouping
+// first keeps it to one identity_links _id lookup per user rather than per event.
+const RESOLVE_CANONICAL_USERS = [
+  {
+    $lookup: {
+      from: 'identity_links',
+      localField: '_id',
+      foreignField: '_id',
+      as: 'identityLink',
+    },
+  },
+  {
+    $group: {
+      _id: { $ifNull: [{ $first: '$identityLink.canonicalUserId' }, '$_id'] },
+    },
+  },
+];
+
+// Stored document back to the event shape (_id back to eventId)
+function toEvent(doc: IEventDocument): NormalizedEvent {
+  return {
+    eventId: doc._id,
+    userId: doc.userId,
+    sessionId: doc.sessionId,
+    ...(doc.derivedSessionId && { derivedSessionId: doc.derivedSessionId }),
+    type: doc.type,
+    payload: doc.payload,
+    occurredAt: doc.occurredAt,
+    receivedAt: doc.receivedAt,
+    ...(doc.schemaViolations && { schemaViolations: doc.schemaViolations }),
+    ...(doc.timestampCorrection && { timestampCorrection: doc.timestampCorrection }),
+    ...(doc.sourceId && { sourceId: doc.sourceId }),
+    ...(doc.anonymousId && { anonymousId: doc.anonymousId }),
+    ...(doc.context && { context: doc.context }),
+    ...(doc.tags && { tags: doc.tags }),
+    ...(doc.excluded && { excluded: true, exclusionReason: doc.exclusionReason }),
+  };
+}
+
+// Per-document errors of an unordered bulk insert; empty for any other error
+function writeErrorsOf(error: unknown): Array<{ index: number; code: unknown }> {
+  const writeErrors = typeof error === 'object' && error !== null && 'writeErrors' in error ? error.writeErrors : [];
+  return Array.isArray(writeErrors) ? writeErrors : [];
+}
+
+// True when every write error of a bulk insert is a duplicate _id, i.e. the
+// batch was a (partial) retry and nothing was actually rejected
+function isDuplicateOnlyError(error: unknown): boolean {
+  const writeErrors = writeErrorsOf(error);
+
+  if (writeErrors.length > 0) {
+    return writeErrors.every((writeError) => writeError.code === DUPLICATE_KEY_ERROR);
+  }
+
+  return errorCode(error) === DUPLICATE_KEY_ERROR;
+}
+
 // Repository pattern: Abstracts MongoDB operations from business logic
 // This layer handles all database access, keeping service layer clean
 export class EventRepository {
+  // With 'derived', sessions are counted and looked up by derivedSessionId, and by
+  // sessionId for events of sources without server-side sessionization
+  constructor(private readonly analyticsSessionId: AnalyticsSessionId = 'client') {}
+
   /**
    * Bulk insert events into MongoDB
    * Uses insertMany with ordered: false for optimal performance
    *
    * @param events - Array of normalized events to insert
-   * @returns Promise<void> - Resolves when insert completes (or partially completes)
+   * @returns Promise<BulkInsertResult> - Resolves when insert completes (or partially
+   *   completes), listing the events that were already stored
    *
    * Key behaviors:
    * - ordered: false allows parallel inserts and continues on duplicate errors
@@ -51,17 +155,26 @@ export class EventRepository {
    * - Single network round trip for entire batch (500 events in ~10ms)
    * - Uses lean mode to skip Mongoose document hydration
    */
-  async bulkInsert(events: NormalizedEvent[]): Promise<void> {
+  async bulkInsert(events: NormalizedEvent[]): Promise<BulkInsertResult> {
     try {
       // Map events to use eventId as _id
       const documents = events.map((event) => ({
         _id: event.eventId,
         userId: event.userId,
         sessionId: event.sessionId,
+        ...(event.derivedSessionId && { derivedSessionId: event.derivedSessionId }),
         type: event.type,
         payload: event.payload,
         occurredAt: event.occurredAt,
         receivedAt: event.receivedAt,
+        ...(event.schemaViolations && { schemaViolations: event.schemaViolations }),
+        ...(event.timestampCorrection && { timestampCorrection: event.timestampCorrection }),
+        ...(event.sourceId && { sourceId: event.sourceId }),
+        ...(event.anonymousId && { anonymousId: event.anonymousId }),
+        ...(event.context && { context: event.context }),
+        ...(event.tags && { tags: event.tags }),
+        ...(event.excluded && { excluded: true, exclusionReason: event.exclusionReason }),
+        ...(event.importId && { importId: event.importId }),
       }));
 
       // insertMany with ordered: false for best performance
@@ -77,12 +190,14 @@ export class EventRepository {
         console.log(`[EventRepository] Bulk inserted ${events.length} events`);
       }
 
+      return { duplicateEventIds: [] };
+
     } catch (error: any) {
       // Handle duplicate key errors gracefully (E11000)
       // This is expected when clients retry requests or send duplicate events
-      if (error.code === 11000 || error.name === 'MongoBulkWriteError') {
+      if (isDuplicateOnlyError(error)) {
         // Some events were duplicates, but some may have succeeded
-        const insertedCount = error.result?.nInserted || 0;
+        const insertedCount = error.result?.insertedCount ?? error.result?.nInserted ?? 0;
         const duplicateCount = events.length - insertedCount;
 
         if (process.env.NODE_ENV !== 'production') {
@@ -92,13 +207,16 @@ export class EventRepository {
         }
 
         // Don't throw - duplicates are expected (idempotency)
-        return;
+        return { duplicateEventIds: duplicateEventIds(error, events) };
       }
 
-      // Other errors (e.g., connection lost, validation failed) should propagate
+      // Other errors (e.g., connection lost, document rejected by the server) should propagate.
+      // With ordered: false the valid documents are already written; retrying the batch
+      // turns them into ignored duplicates.
       console.error('[EventRepository] Bulk insert failed:', {
         error: error.message,
         eventCount: events.length,
+        writeErrors: error.writeErrors?.length,
       });
       throw error;
     }
@@ -108,7 +226,8 @@ export class EventRepository {
    * Retrieve a user's event journey with optional filtering
    * Uses compound index { userId: 1, occurredAt: -1 } for efficient queries
    *
-   * @param userId - User identifier to query
+   * @param userId - User identifier to query, or every identifier of a resolved
+   *   identity (merged into one timeline)
    * @param options - Optional filters (date range, limit)
    * @returns Promise<IEvent[]> - Array of events sorted by occurredAt descending
    *
@@ -118,12 +237,12 @@ export class EventRepository {
    * - .lean() returns plain JS objects (2-5x faster than Mongoose documents)
    */
   async getUserJourney(
-    userId: string,
+    userId: string | string[],
     options: UserJourneyOptions = {}
   ): Promise<IEvent[]> {
     try {
       // Build query object dynamically based on options
-      const query: any = { userId };
+      const query: any = { userId: Array.isArray(userId) ? { $in: userId } : userId };
 
       // Add date range filter if provided
       if (options.from || options.to) {
@@ -144,15 +263,7 @@ export class EventRepository {
         .exec();
 
       // Map documents back to IEvent interface (convert _id back to eventId)
-      const events: IEvent[] = documents.map((doc) => ({
-        eventId: doc._id,
-        userId: doc.userId,
-        sessionId: doc.sessionId,
-        type: doc.type,
-        payload: doc.payload,
-        occurredAt: doc.occurredAt,
-        receivedAt: doc.receivedAt,
-      }));
+      const events: IEvent[] = documents.map(toEvent);
 
       console.log(
         `[EventRepository] Retrieved ${events.length} events for user ${userId}`
@@ -170,6 +281,39 @@ export class EventRepository {
     }
   }
 
+  /**
+   * Get the events of one session of a user and source in the order they occurred
+   * Uses the { sessionId: 1, occurredAt: 1 } index, and the derivedSessionId one
+   * when analytics use derived sessions
+   *
+   * @param limit - Max number of events to return (default: 100)
+   */
+  async getSessionEvents(session: SessionKey, limit = 100): Promise<IEvent[]> {
+    const { sessionId } = session;
+    try {
+      const query = {
+        ...(this.analyticsSessionId === 'derived'
+          ? { $or: [{ derivedSessionId: sessionId }, { sessionId }] }
+          : { sessionId }),
+        userId: session.userId,
+        sourceId: session.sourceId ?? null,
+      };
+      const documents = await Event.find(query)
+        .sort({ occurredAt: 1 })
+        .limit(limit)
+        .lean<IEventDocument[]>()
+        .exec();
+
+      return documents.map(toEvent);
+    } catch (error) {
+      console.error('[EventRepository] getSessionEvents failed:', {
+        error: errorMessage(error),
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get total event count (useful for monitoring/debugging)
    * Note: This is an expensive operation on large collections, use sparingly
@@ -183,75 +327,50 @@ export class EventRepository {
     }
   }
 
-  async getUserMetrics(options?: { page?: number; pageSize?: number }): Promise<{
-    users: UserMetrics[];
-    totalCount: number;
-    page: number;
-    pageSize: number;
-    totalPages: number;
-  }> {
+  /**
+   * Some of the events still stored from one historical import, in no particular order
+   * Uses the sparse { importId: 1 } index
+   */
+  async findByImport(importId: string, limit: number): Promise<NormalizedEvent[]> {
     try {
-      const page = options?.page || 1;
-      const pageSize = options?.pageSize || 10;
-      const skip = (page - 1) * pageSize;
-
-      const metricsAggregation = [
-        {
-          $group: {
-            _id: '$userId',
-            totalEvents: { $sum: 1 },
-            totalSessions: { $addToSet: '$sessionId' },
-            lastActive: { $max: '$occurredAt' }
-          }
-        },
-        {
-          $project: {
-            userId: '$_id',
-            totalEvents: 1,
-            totalSessions: { $size: '$totalSessions' },
-            lastActive: 1,
-            _id: 0
-          }
-        },
-        {
-          $sort: { lastActive: -1 as -1 }
-        }
-      ];
-
-      const [metrics, countResult] = await Promise.all([
-        Event.aggregate([
-          ...metricsAggregation,
-          { $skip: skip },
-          { $limit: pageSize }
-        ]),
-        Event.aggregate([
-          ...metricsAggregation,
-          { $count: 'total' }
-        ])
-      ]);
-
-      const totalCount = countResult[0]?.total || 0;
-      const totalPages = Math.ceil(totalCount / pageSize);
+      const documents = await Event.find({ importId }).limit(limit).lean<IEventDocument[]>().exec();
+      return documents.map((doc) => ({ ...toEvent(doc), importId }));
+    } catch (error) {
+      console.error('[EventRepository] findByImport failed:', errorMessage(error));
+      throw error;
+    }
+  }
 
-      return {
-        users: metrics,
-        totalCount,
-        page,
-        pageSize,
-        totalPages
-      };
-    } catch (error: any) {
-      console.error('[EventRepository] getUserMetrics failed:', error.message);
+  /**
+   * Delete the events written by one historical import (its rollback), or only
+   * the given ones of them
+   * Uses the sparse { importId: 1 } index
+   *
+   * @returns number of deleted events
+   */
+  async deleteByImport(importId: string, eventIds?: string[]): Promise<number> {
+    try {
+      const result = await Event.deleteMany({ importId, ...(eventIds && { _id: { $in: eventIds } }) });
+      return result.deletedCount;
+    } catch (error) {
+      console.error('[EventRepository] deleteByImport failed:', errorMessage(error));
       throw error;
     }
   }
 
-  async getAnalyticsStats(): Promise<AnalyticsStats> {
+  async getAnalyticsStats(options?: AnalyticsOptions): Promise<AnalyticsStats> {
     try {
-      const totalUsers = await Event.distinct('userId').then(users => users.length);
-      const totalEvents = await Event.countDocuments();
+      const filter = analyticsFilter(options);
+      const totalUsers = await Event.aggregate([
+        { $match: filter },
+        { $group: { _id: '$userId' } },
+        ...RESOLVE_CANONICAL_USERS,
+        { $count: 'total' }
+      ]).then(result => result[0]?.total ?? 0);
+      const totalEvents = await Event.countDocuments(filter);
 
       const eventsByType = await Event.aggregate([
+        { $match: filter },
         {
           $group: {
             _id: '$type',
@@ -271,6 +390,7 @@ export class EventRepository {
       ]);
 
       const eventsByDay = await Event.aggregate([
+        { $match: filter },
         {
           $group: {
             _id: {
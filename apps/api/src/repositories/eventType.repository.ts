@@ -0,0 +1,104 @@
+import type { EventTypeStatus, IEventTypeDefinition } from '@martech/types';
+import { EventTypeDefinition, type IEventTypeDefinitionDocument } from '../models/EventTypeDefinition';
+import { errorCode, errorMessage } from '../utils/errors';
+
+export type EventTypeChanges = Partial<Pick<IEventTypeDefinition, 'description' | 'owner' | 'status' | 'icon'>>;
+
+export interface NewEventType {
+  name: string;
+  description: string;
+  owner: string;
+  status?: EventTypeStatus;
+  icon?: string;
+}
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+function toDefinition(doc: IEventTypeDefinitionDocument): IEventTypeDefinition {
+  return {
+    name: doc._id,
+    description: doc.description,
+    owner: doc.owner,
+    status: doc.status,
+    ...(doc.icon && { icon: doc.icon }),
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// Data access for the event_types collection (the event-type catalog)
+export class EventTypeRepository {
+  async findAll(): Promise<IEventTypeDefinition[]> {
+    try {
+      const documents = await EventTypeDefinition.find()
+        .sort({ _id: 1 })
+        .lean<IEventTypeDefinitionDocument[]>()
+        .exec();
+
+      return documents.map(toDefinition);
+    } catch (error) {
+      console.error('[EventTypeRepository] findAll failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Register a new event type
+   *
+   * @returns the stored definition, or null when the name is already taken
+   */
+  async create(eventType: NewEventType): Promise<IEventTypeDefinition | null> {
+    try {
+      const doc = await EventTypeDefinition.create({
+        _id: eventType.name,
+        description: eventType.description,
+        owner: eventType.owner,
+        status: eventType.status ?? 'active',
+        icon: eventType.icon,
+      });
+
+      return toDefinition(doc.toObject() as IEventTypeDefinitionDocument);
+    } catch (error) {
+      if (errorCode(error) === DUPLICATE_KEY_ERROR) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async update(name: string, changes: EventTypeChanges): Promise<IEventTypeDefinition | null> {
+    const doc = await EventTypeDefinition.findOneAndUpdate(
+      { _id: name },
+      { $set: changes },
+      { returnDocument: 'after', runValidators: true }
+    )
+      .lean<IEventTypeDefinitionDocument>()
+      .exec();
+
+    return doc ? toDefinition(doc) : null;
+  }
+
+  /**
+   * Insert definitions that do not exist yet; existing entries are never modified,
+   * so edits made through the API survive restarts
+   */
+  async seed(eventTypes: NewEventType[]): Promise<void> {
+    await EventTypeDefinition.bulkWrite(
+      eventTypes.map((eventType) => ({
+        updateOne: {
+          filter: { _id: eventType.name },
+          update: {
+            $setOnInsert: {
+              description: eventType.description,
+              owner: eventType.owner,
+              status: eventType.status ?? 'active',
+              icon: eventType.icon,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+}
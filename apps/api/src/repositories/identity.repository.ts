@@ -0,0 +1,88 @@
+import {
+  type IIdentityLinkDocument,
+  type IdentityKind,
+  IdentityLink,
+  type IdentityLinkVia,
+} from '../models/IdentityLink';
+
+export interface IdentityLinkInfo {
+  identifier: string;
+  canonicalUserId: string;
+  kind: IdentityKind;
+  via: IdentityLinkVia;
+  eventId: string;
+  linkedAt: Date;
+}
+
+function toLink(doc: IIdentityLinkDocument): IdentityLinkInfo {
+  return {
+    identifier: doc._id,
+    canonicalUserId: doc.canonicalUserId,
+    kind: doc.kind,
+    via: doc.via,
+    eventId: doc.eventId,
+    linkedAt: doc.linkedAt,
+  };
+}
+
+// Data access for the identity_links collection
+export class IdentityRepository {
+  async findLink(identifier: string): Promise<IdentityLinkInfo | null> {
+    const doc = await IdentityLink.findById(identifier).lean<IIdentityLinkDocument>().exec();
+    return doc ? toLink(doc) : null;
+  }
+
+  async findLinksOf(canonicalUserId: string): Promise<IdentityLinkInfo[]> {
+    const documents = await IdentityLink.find({ canonicalUserId })
+      .sort({ linkedAt: 1 })
+      .lean<IIdentityLinkDocument[]>()
+      .exec();
+
+    return documents.map(toLink);
+  }
+
+  /**
+   * Link an identifier to a canonical user
+   *
+   * @param replace - Move the identifier when it already belongs to another user;
+   *   otherwise the existing link is kept
+   * @returns true when the link was created or moved
+   */
+  async upsertLink(link: IdentityLinkInfo, replace: boolean): Promise<boolean> {
+    const fields = {
+      canonicalUserId: link.canonicalUserId,
+      kind: link.kind,
+      via: link.via,
+      eventId: link.eventId,
+      linkedAt: link.linkedAt,
+    };
+
+    const result = await IdentityLink.updateOne(
+      { _id: link.identifier },
+      replace ? { $set: fields } : { $setOnInsert: fields },
+      { upsert: true }
+    );
+
+    return result.upsertedCount > 0 || result.modifiedCount > 0;
+  }
+
+  /**
+   * Point every identifier of `fromUserId` at `toUserId`, when the former canonical
+   * user is itself linked to another user
+   *
+   * @returns number of links moved
+   */
+  async moveLinks(fromUserId: string, toUserId: string): Promise<number> {
+    const result = await IdentityLink.updateMany(
+      { canonicalUserId: fromUserId },
+      { $set: { canonicalUserId: toUserId } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  async deleteLink(identifier: string): Promise<IdentityLinkInfo | null> {
+    const doc = await IdentityLink.findByIdAndDelete(identifier).lean<IIdentityLinkDocument>().exec();
+    return doc ? toLink(doc) : null;
+  }
+}
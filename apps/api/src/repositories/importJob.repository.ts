@@ -0,0 +1,220 @@
+import {
+  type IImportJobDocument,
+  type IImportProgress,
+  type IImportRejection,
+  type ImportFormat,
+  ImportJob,
+  type ImportStatus,
+  MAX_IMPORT_REJECTIONS,
+} from '../models/ImportJob';
+import { errorMessage } from '../utils/errors';
+
+export interface ImportJobInfo {
+  importId: string;
+  status: ImportStatus;
+  file: string;
+  fileSize: number;
+  format: ImportFormat;
+  mapping: Record<string, string>;
+  defaults: Record<string, unknown>;
+  sourceId?: string;
+  progress: IImportProgress;
+  rejections: IImportRejection[];
+  failure?: string;
+  deletedCount?: number;
+  heartbeatAt?: Date;
+  createdBy?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  rolledBackAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewImportJob {
+  importId: string;
+  file: string;
+  fileSize: number;
+  format: ImportFormat;
+  mapping: Record<string, string>;
+  defaults: Record<string, unknown>;
+  sourceId?: string;
+  createdBy?: string;
+}
+
+// Fields a status change can set alongside the new status
+export type ImportJobChanges = Partial<
+  Pick<ImportJobInfo, 'failure' | 'deletedCount' | 'startedAt' | 'completedAt' | 'rolledBackAt'>
+>;
+
+const EMPTY_PROGRESS: IImportProgress = {
+  processed: 0,
+  imported: 0,
+  duplicates: 0,
+  rejected: 0,
+  bytesRead: 0,
+};
+
+function toJob(doc: IImportJobDocument): ImportJobInfo {
+  return {
+    importId: doc._id,
+    status: doc.status,
+    file: doc.file,
+    fileSize: doc.fileSize,
+    format: doc.format,
+    mapping: doc.mapping ?? {},
+    defaults: doc.defaults ?? {},
+    ...(doc.sourceId && { sourceId: doc.sourceId }),
+    progress: { ...EMPTY_PROGRESS, ...doc.progress },
+    rejections: doc.rejections ?? [],
+    ...(doc.failure && { failure: doc.failure }),
+    ...(doc.deletedCount !== undefined && { deletedCount: doc.deletedCount }),
+    ...(doc.heartbeatAt && { heartbeatAt: doc.heartbeatAt }),
+    ...(doc.createdBy && { createdBy: doc.createdBy }),
+    ...(doc.startedAt && { startedAt: doc.startedAt }),
+    ...(doc.completedAt && { completedAt: doc.completedAt }),
+    ...(doc.rolledBackAt && { rolledBackAt: doc.rolledBackAt }),
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// Data access for the import_jobs collection. Status changes are conditional on the
+// current status, so instances racing for the same import cannot both win.
+export class ImportJobRepository {
+  async create(job: NewImportJob): Promise<ImportJobInfo> {
+    const doc = await ImportJob.create({
+      _id: job.importId,
+      status: 'queued',
+      file: job.file,
+      fileSize: job.fileSize,
+      format: job.format,
+      mapping: job.mapping,
+      defaults: job.defaults,
+      sourceId: job.sourceId,
+      progress: EMPTY_PROGRESS,
+      rejections: [],
+      createdBy: job.createdBy,
+    });
+
+    return toJob(doc.toObject() as IImportJobDocument);
+  }
+
+  async findById(importId: string): Promise<ImportJobInfo | null> {
+    const doc = await ImportJob.findById(importId).lean<IImportJobDocument>().exec();
+    return doc ? toJob(doc) : null;
+  }
+
+  async list(options: { page?: number; pageSize?: number } = {}): Promise<{
+    items: ImportJobInfo[];
+    totalCount: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  }> {
+    try {
+      const page = options.page || 1;
+      const pageSize = options.pageSize || 20;
+
+      const [documents, totalCount] = await Promise.all([
+        ImportJob.find()
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * pageSize)
+          .limit(pageSize)
+          // Rejection samples can be long; they are part of GET /admin/imports/:importId
+          .select({ rejections: 0 })
+          .lean<IImportJobDocument[]>()
+          .exec(),
+        ImportJob.countDocuments(),
+      ]);
+
+      return {
+        items: documents.map(toJob),
+        totalCount,
+        page,
+        pageSize,
+        totalPages: Math.ceil(totalCount / pageSize),
+      };
+    } catch (error) {
+      console.error('[ImportJobRepository] list failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Move an import to a new status if it currently has one of the `from` statuses
+   *
+   * @returns the updated import, or null when it does not exist or has another status
+   */
+  async transition(
+    importId: string,
+    from: ImportStatus[],
+    status: ImportStatus,
+    changes: ImportJobChanges = {}
+  ): Promise<ImportJobInfo | null> {
+    // A resumed import no longer carries the failure that stopped it
+    const update = {
+      $set: { status, ...changes },
+      ...(status === 'queued' && { $unset: { failure: '' } }),
+    };
+
+    const doc = await ImportJob.findOneAndUpdate({ _id: importId, status: { $in: from } }, update, {
+      returnDocument: 'after',
+    })
+      .lean<IImportJobDocument>()
+      .exec();
+
+    return doc ? toJob(doc) : null;
+  }
+
+  // Claim the oldest queued import for this instance
+  async claimNext(): Promise<ImportJobInfo | null> {
+    const now = new Date();
+    const doc = await ImportJob.findOneAndUpdate(
+      { status: 'queued' },
+      { $set: { status: 'running', heartbeatAt: now }, $unset: { failure: '' }, $min: { startedAt: now } },
+      { sort: { createdAt: 1 }, returnDocument: 'after' }
+    )
+      .lean<IImportJobDocument>()
+      .exec();
+
+    return doc ? toJob(doc) : null;
+  }
+
+  /**
+   * Record the progress of a running import after a chunk was written
+   *
+   * @returns false when the import is no longer running (paused meanwhile), so the
+   *   runner stops
+   */
+  async saveProgress(
+    importId: string,
+    progress: IImportProgress,
+    rejections: IImportRejection[]
+  ): Promise<boolean> {
+    const result = await ImportJob.updateOne(
+      { _id: importId, status: 'running' },
+      {
+        $set: { progress, heartbeatAt: new Date() },
+        $push: { rejections: { $each: rejections, $slice: MAX_IMPORT_REJECTIONS } },
+      }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Queue running imports whose runner stopped reporting progress, e.g. because its
+   * instance was restarted
+   *
+   * @returns number of requeued imports
+   */
+  async requeueStale(staleBefore: Date): Promise<number> {
+    const result = await ImportJob.updateMany(
+      { status: 'running', heartbeatAt: { $lt: staleBefore } },
+      { $set: { status: 'queued' } }
+    );
+
+    return result.modifiedCount;
+  }
+}
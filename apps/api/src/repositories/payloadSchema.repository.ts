@@ -0,0 +1,117 @@
+import {
+  type IPayloadSchemaDocument,
+  type IPayloadSchemaVersion,
+  PayloadSchema,
+  type PayloadSchemaMode,
+} from '../models/PayloadSchema';
+import { errorMessage } from '../utils/errors';
+import type { JsonSchema } from '../validators/payloadSchema.validator';
+
+export interface PayloadSchemaEntry {
+  eventType: string;
+  mode: PayloadSchemaMode;
+  currentVersion: number;
+  versions: IPayloadSchemaVersion[];
+  updatedAt: Date;
+}
+
+function toEntry(doc: IPayloadSchemaDocument): PayloadSchemaEntry {
+  return {
+    eventType: doc._id,
+    mode: doc.mode,
+    currentVersion: doc.currentVersion,
+    versions: doc.versions,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// Data access for the payload_schemas collection (the tracking plan)
+export class PayloadSchemaRepository {
+  async findAll(): Promise<PayloadSchemaEntry[]> {
+    try {
+      const documents = await PayloadSchema.find()
+        .sort({ _id: 1 })
+        .lean<IPayloadSchemaDocument[]>()
+        .exec();
+
+      return documents.map(toEntry);
+    } catch (error) {
+      console.error('[PayloadSchemaRepository] findAll failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  async findByType(eventType: string): Promise<PayloadSchemaEntry | null> {
+    const doc = await PayloadSchema.findById(eventType).lean<IPayloadSchemaDocument>().exec();
+    return doc ? toEntry(doc) : null;
+  }
+
+  /**
+   * Append a new schema version for an event type, creating the entry on first use
+   *
+   * The version number is computed inside a single pipeline update so concurrent
+   * writers can never produce the same version twice.
+   */
+  async addVersion(
+    eventType: string,
+    schema: JsonSchema,
+    options: { mode?: PayloadSchemaMode; createdBy?: string } = {}
+  ): Promise<PayloadSchemaEntry> {
+    const now = new Date();
+    const nextVersion = { $add: [{ $ifNull: ['$currentVersion', 0] }, 1] };
+
+    const doc = await PayloadSchema.findOneAndUpdate(
+      { _id: eventType },
+      [
+        {
+          $set: {
+            mode: options.mode ?? { $ifNull: ['$mode', 'warn'] },
+            currentVersion: nextVersion,
+            versions: {
+              $concatArrays: [
+                { $ifNull: ['$versions', []] },
+                [
+                  {
+                    version: nextVersion,
+                    // $literal keeps keys such as "$schema" from being read as expressions
+                    schema: { $literal: schema },
+                    createdAt: now,
+                    createdBy: options.createdBy ?? null,
+                  },
+                ],
+              ],
+            },
+            updatedAt: now,
+          },
+        },
+      ],
+      { upsert: true, returnDocument: 'after', updatePipeline: true }
+    )
+      .lean<IPayloadSchemaDocument>()
+      .exec();
+
+    return toEntry(doc as IPayloadSchemaDocument);
+  }
+
+  async setMode(eventType: string, mode: PayloadSchemaMode): Promise<PayloadSchemaEntry | null> {
+    const doc = await PayloadSchema.findOneAndUpdate(
+      { _id: eventType },
+      { $set: { mode, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    )
+      .lean<IPayloadSchemaDocument>()
+      .exec();
+
+    return doc ? toEntry(doc) : null;
+  }
+
+  /**
+   * Remove an event type from the tracking plan, including its version history
+   *
+   * @returns true when an entry was deleted
+   */
+  async delete(eventType: string): Promise<boolean> {
+    const result = await PayloadSchema.deleteOne({ _id: eventType });
+    return result.deletedCount > 0;
+  }
+}
@@ -0,0 +1,272 @@
+import type { ITraitUpdate, IUserProfile } from '@martech/types';
+import type { UpdateWithAggregationPipeline } from 'mongoose';
+import { type IProfileDocument, MAX_TRAIT_LIST_LENGTH, Profile } from '../models/Profile';
+import { errorMessage } from '../utils/errors';
+
+// What one batch of stored events (or a trait update) adds to a profile
+export interface ProfileDelta {
+  userId: string;
+  eventCount: number;
+  sessionCount: number;
+  firstSeenAt?: Date;
+  lastEventAt?: Date;
+  eventTypeCounts: Record<string, number>;
+  purchaseCount: number;
+  revenue: number;
+  lastPurchaseAt?: Date;
+  traits?: ITraitUpdate;
+  excludedEventCount: number;
+}
+
+export interface ProfileListOptions {
+  page?: number;
+  pageSize?: number;
+  includeExcluded?: boolean;
+}
+
+export function emptyProfileDelta(userId: string): ProfileDelta {
+  return {
+    userId,
+    eventCount: 0,
+    sessionCount: 0,
+    eventTypeCounts: {},
+    purchaseCount: 0,
+    revenue: 0,
+    excludedEventCount: 0,
+  };
+}
+
+function nameOf(traits: Record<string, unknown>): string | undefined {
+  if (typeof traits.name === 'string' && traits.name !== '') {
+    return traits.name;
+  }
+  const parts = [traits.firstName, traits.lastName].filter((part) => typeof part === 'string' && part !== '');
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+export function toProfile(doc: IProfileDocument): IUserProfile {
+  const traits = doc.traits ?? {};
+  const name = nameOf(traits);
+  const purchaseCount = doc.computed?.purchaseCount ?? 0;
+  const totalRevenue = doc.computed?.totalRevenue ?? 0;
+
+  return {
+    userId: doc._id,
+    ...(typeof traits.email === 'string' && traits.email !== '' && { email: traits.email }),
+    ...(name && { name }),
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+    eventCount: doc.eventCount,
+    sessionCount: doc.sessionCount,
+    ...(doc.excludedEventCount && { excludedEventCount: doc.excludedEventCount }),
+    ...(doc.firstSeenAt && { firstSeenAt: doc.firstSeenAt }),
+    ...(doc.lastEventAt && { lastEventAt: doc.lastEventAt }),
+    traits,
+    computed: {
+      eventTypeCounts: doc.computed?.eventTypeCounts ?? {},
+      purchaseCount,
+      totalRevenue,
+      ...(purchaseCount > 0 && { averageOrderValue: totalRevenue / purchaseCount }),
+      ...(doc.computed?.lastPurchaseAt && { lastPurchaseAt: doc.computed.lastPurchaseAt }),
+    },
+    ...(doc.excluded && { excluded: true }),
+  };
+}
+
+// $literal keeps client values that start with "$" from being read as field paths
+function literal(value: unknown) {
+  return { $literal: value };
+}
+
+/**
+ * Expression for the traits after an update. $mergeObjects lets later objects win:
+ * set_once values only fill traits that are missing, then come the current traits,
+ * set, and the increment/append results computed from the current values. Trait
+ * names are checked against TRAIT_NAME_PATTERN, so they are safe in field paths.
+ */
+export function traitsExpression(update: ITraitUpdate): object {
+  const objects: unknown[] = [];
+
+  if (update.set_once) {
+    objects.push(literal(update.set_once));
+  }
+  objects.push({ $ifNull: ['$traits', {}] });
+  if (update.set) {
+    objects.push(literal(update.set));
+  }
+  if (update.increment) {
+    objects.push(
+      Object.fromEntries(
+        Object.entries(update.increment).map(([name, amount]) => {
+          const current = `$traits.${name}`;
+          // A trait that is not a number is replaced
+          return [name, { $add: [{ $cond: [{ $isNumber: current }, current, 0] }, amount] }];
+        })
+      )
+    );
+  }
+  if (update.append) {
+    objects.push(
+      Object.fromEntries(
+        Object.entries(update.append).map(([name, value]) => {
+          const current = `$traits.${name}`;
+          const items = Array.isArray(value) ? value : [value];
+          // A single value already stored becomes the first item of the list
+          const list = {
+            $cond: [
+              { $isArray: current },
+              current,
+              { $cond: [{ $in: [{ $type: current }, ['missing', 'null']] }, [], [current]] },
+            ],
+          };
+          return [name, { $slice: [{ $concatArrays: [list, literal(items)] }, -MAX_TRAIT_LIST_LENGTH] }];
+        })
+      )
+    );
+  }
+
+  return { $mergeObjects: objects };
+}
+
+// Update pipeline folding a delta into its profile; negative counts take events back out
+export function profileUpdate(delta: ProfileDelta): UpdateWithAggregationPipeline {
+  const fields: Record<string, unknown> = {
+    eventCount: { $add: [{ $ifNull: ['$eventCount', 0] }, delta.eventCount] },
+    sessionCount: { $add: [{ $ifNull: ['$sessionCount', 0] }, delta.sessionCount] },
+    createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
+    updatedAt: '$$NOW',
+  };
+
+  if (delta.firstSeenAt) {
+    fields.firstSeenAt = { $min: ['$firstSeenAt', delta.firstSeenAt] };
+  }
+  if (delta.lastEventAt) {
+    fields.lastEventAt = { $max: ['$lastEventAt', delta.lastEventAt] };
+  }
+  // Event type names match EVENT_TYPE_NAME_PATTERN, so they are safe in field paths
+  for (const [type, count] of Object.entries(delta.eventTypeCounts)) {
+    const path = `computed.eventTypeCounts.${type}`;
+    fields[path] = { $add: [{ $ifNull: [`$${path}`, 0] }, count] };
+  }
+  if (delta.purchaseCount !== 0) {
+    fields['computed.purchaseCount'] = { $add: [{ $ifNull: ['$computed.purchaseCount', 0] }, delta.purchaseCount] };
+    fields['computed.totalRevenue'] = { $add: [{ $ifNull: ['$computed.totalRevenue', 0] }, delta.revenue] };
+  }
+  if (delta.lastPurchaseAt) {
+    fields['computed.lastPurchaseAt'] = { $max: ['$computed.lastPurchaseAt', delta.lastPurchaseAt] };
+  }
+  if (delta.traits) {
+    fields.traits = traitsExpression(delta.traits);
+  }
+  if (delta.excludedEventCount !== 0) {
+    fields.excludedEventCount = { $add: [{ $ifNull: ['$excludedEventCount', 0] }, delta.excludedEventCount] };
+  }
+
+  return [
+    { $set: fields },
+    // Only users none of whose events count are left out of GET /users
+    {
+      $set: {
+        excluded: { $and: [{ $eq: ['$eventCount', 0] }, { $gt: [{ $ifNull: ['$excludedEventCount', 0] }, 0] }] },
+      },
+    },
+  ];
+}
+
+// Data access for the profiles collection
+export class ProfileRepository {
+  /**
+   * Fold the deltas of a flushed batch into their profiles, creating the profiles
+   * of users seen for the first time. One upsert per user, unordered.
+   */
+  async applyDeltas(deltas: ProfileDelta[]): Promise<void> {
+    if (deltas.length === 0) {
+      return;
+    }
+
+    await Profile.bulkWrite(
+      deltas.map((delta) => ({
+        updateOne: {
+          filter: { _id: delta.userId },
+          update: profileUpdate(delta),
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  /**
+   * Take the events of deleted deltas (a rolled-back import) back out of their
+   * profiles, given as deltas with negative counts, and delete the profiles left
+   * without events or traits. First/last seen times are not recomputed.
+   */
+  async removeDeltas(deltas: ProfileDelta[]): Promise<void> {
+    if (deltas.length === 0) {
+      return;
+    }
+
+    await Profile.bulkWrite(
+      deltas.map((delta) => ({
+        updateOne: {
+          filter: { _id: delta.userId },
+          update: profileUpdate(delta),
+        },
+      })),
+      { ordered: false }
+    );
+    await Profile.deleteMany({
+      _id: { $in: deltas.map((delta) => delta.userId) },
+      eventCount: { $lte: 0 },
+      excludedEventCount: { $not: { $gt: 0 } },
+      $or: [{ traits: { $exists: false } }, { traits: {} }],
+    });
+  }
+
+  // Profiles of the given users, in no particular order
+  async findByIds(userIds: string[]): Promise<IUserProfile[]> {
+    const documents = await Profile.find({ _id: { $in: userIds } })
+      .lean<IProfileDocument[]>()
+      .exec();
+    return documents.map(toProfile);
+  }
+
+  /**
+   * Profiles, most recently active first
+   * Uses { lastEventAt: -1 }
+   */
+  async list(options: ProfileListOptions = {}): Promise<{
+    users: IUserProfile[];
+    totalCount: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  }> {
+    try {
+      const page = options.page || 1;
+      const pageSize = options.pageSize || 10;
+      const query = options.includeExcluded ? {} : { excluded: { $ne: true } };
+
+      const [documents, totalCount] = await Promise.all([
+        Profile.find(query)
+          .sort({ lastEventAt: -1 })
+          .skip((page - 1) * pageSize)
+          .limit(pageSize)
+          .lean<IProfileDocument[]>()
+          .exec(),
+        Profile.countDocuments(query),
+      ]);
+
+      return {
+        users: documents.map(toProfile),
+        totalCount,
+        page,
+        pageSize,
+        totalPages: Math.ceil(totalCount / pageSize),
+      };
+    } catch (error) {
+      console.error('[ProfileRepository] list failed:', errorMessage(error));
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { type IRedactionRule, type IRedactionRuleSetDocument, RedactionRuleSet } from '../models/RedactionRuleSet';
+import { errorMessage } from '../utils/errors';
+
+export interface RedactionRuleSetEntry {
+  eventType: string;
+  rules: IRedactionRule[];
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+function toEntry(doc: IRedactionRuleSetDocument): RedactionRuleSetEntry {
+  return {
+    eventType: doc._id,
+    rules: doc.rules,
+    updatedAt: doc.updatedAt,
+    ...(doc.updatedBy && { updatedBy: doc.updatedBy }),
+  };
+}
+
+// Data access for the redaction_rules collection (PII rules per event type)
+export class RedactionRuleRepository {
+  async findAll(): Promise<RedactionRuleSetEntry[]> {
+    try {
+      const documents = await RedactionRuleSet.find()
+        .sort({ _id: 1 })
+        .lean<IRedactionRuleSetDocument[]>()
+        .exec();
+
+      return documents.map(toEntry);
+    } catch (error) {
+      console.error('[RedactionRuleRepository] findAll failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the rule set of an event type, creating it on first use
+   *
+   * @returns the stored rule set and whether it was created
+   */
+  async upsert(
+    eventType: string,
+    rules: IRedactionRule[],
+    updatedBy?: string
+  ): Promise<{ entry: RedactionRuleSetEntry; created: boolean }> {
+    const entry: RedactionRuleSetEntry = { eventType, rules, updatedAt: new Date(), ...(updatedBy && { updatedBy }) };
+    const result = await RedactionRuleSet.updateOne(
+      { _id: eventType },
+      { $set: { rules, updatedAt: entry.updatedAt, updatedBy: updatedBy ?? null } },
+      { upsert: true }
+    );
+
+    return { entry, created: result.upsertedCount > 0 };
+  }
+
+  /**
+   * @returns true when a rule set was deleted
+   */
+  async delete(eventType: string): Promise<boolean> {
+    const result = await RedactionRuleSet.deleteOne({ _id: eventType });
+    return result.deletedCount > 0;
+  }
+}
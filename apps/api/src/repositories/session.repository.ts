@@ -0,0 +1,305 @@
+import type { ISessionSummary } from '@martech/types';
+import type { QueryFilter, UpdateWithAggregationPipeline } from 'mongoose';
+import { type ISessionDocument, MAX_SESSION_PAGES, Session } from '../models/Session';
+import { errorMessage } from '../utils/errors';
+
+// A page view and when it happened, to decide the entry and exit pages
+export interface SessionPageView {
+  page: string;
+  at: Date;
+}
+
+// Identifies a session; sessionIds are only unique per user and source
+export interface SessionKey {
+  sessionId: string;
+  userId: string;
+  sourceId?: string;
+}
+
+// What one batch of stored events adds to a session
+export interface SessionDelta extends SessionKey {
+  startedAt: Date;
+  endedAt: Date;
+  eventCount: number;
+  pageViewCount: number;
+  pages: string[];
+  entry?: SessionPageView;
+  exit?: SessionPageView;
+  device?: string;
+  browser?: string;
+  os?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  country?: string;
+  channel?: string;
+  excluded: boolean;
+}
+
+export interface SessionListOptions {
+  userId?: string | string[];
+  from?: Date; // Sessions started at or after
+  to?: Date; // Sessions started at or before
+  includeExcluded?: boolean;
+  page?: number;
+  pageSize?: number;
+}
+
+// Most sessions GET /sessions/:sessionId lists when a sessionId is ambiguous
+const MAX_MATCHING_SESSIONS = 20;
+
+// Fields that keep the first value a session got
+export const FIRST_SEEN_FIELDS = [
+  'device',
+  'browser',
+  'os',
+  'ipAddress',
+  'userAgent',
+  'country',
+  'channel',
+] as const;
+
+export type FirstSeenField = (typeof FIRST_SEEN_FIELDS)[number];
+
+function toSession(doc: ISessionDocument): ISessionSummary {
+  return {
+    sessionId: doc.sessionId,
+    userId: doc.userId,
+    startedAt: doc.startedAt,
+    endedAt: doc.endedAt,
+    duration: doc.duration,
+    eventCount: doc.eventCount,
+    pageViewCount: doc.pageViewCount,
+    uniquePages: doc.uniquePages,
+    ...(doc.entryPage && { entryPage: doc.entryPage }),
+    ...(doc.exitPage && { exitPage: doc.exitPage }),
+    ...(doc.sourceId && { sourceId: doc.sourceId }),
+    ...(doc.device && { device: doc.device }),
+    ...(doc.browser && { browser: doc.browser }),
+    ...(doc.os && { os: doc.os }),
+    ...(doc.ipAddress && { ipAddress: doc.ipAddress }),
+    ...(doc.userAgent && { userAgent: doc.userAgent }),
+    ...(doc.country && { country: doc.country }),
+    ...(doc.channel && { channel: doc.channel }),
+    ...(doc.excluded && { excluded: true }),
+    updatedAt: doc.updatedAt,
+  };
+}
+
+// One string per session, for grouping and matching sessions in memory
+export function sessionKeyOf(key: { sessionId: string; userId: string; sourceId?: string | null }): string {
+  return JSON.stringify([key.sessionId, key.userId, key.sourceId ?? null]);
+}
+
+// Upsert filter of a session; a missing sourceId is stored as null
+function sessionFilter(key: SessionKey) {
+  return { sessionId: key.sessionId, userId: key.userId, sourceId: key.sourceId ?? null };
+}
+
+// $literal keeps client values that start with "$" from being read as field paths
+function literal(value: unknown) {
+  return { $literal: value };
+}
+
+/**
+ * Update pipeline folding a delta into its session. Every expression of a $set
+ * stage reads the document as it was before the stage, so the entry/exit pages
+ * are compared with the previous entry/exit times.
+ */
+export function sessionUpdate(delta: SessionDelta): UpdateWithAggregationPipeline {
+  const fields: Record<string, unknown> = {
+    sessionId: literal(delta.sessionId),
+    userId: literal(delta.userId),
+    sourceId: literal(delta.sourceId ?? null),
+    startedAt: { $min: ['$startedAt', delta.startedAt] },
+    endedAt: { $max: ['$endedAt', delta.endedAt] },
+    eventCount: { $add: [{ $ifNull: ['$eventCount', 0] }, delta.eventCount] },
+    pageViewCount: { $add: [{ $ifNull: ['$pageViewCount', 0] }, delta.pageViewCount] },
+    // New pages are appended so the pages already counted are never pushed out
+    pages: {
+      $slice: [
+        {
+          $concatArrays: [
+            { $ifNull: ['$pages', []] },
+            { $setDifference: [literal(delta.pages), { $ifNull: ['$pages', []] }] },
+          ],
+        },
+        MAX_SESSION_PAGES,
+      ],
+    },
+    updatedAt: '$$NOW',
+  };
+
+  if (delta.entry) {
+    fields.entryPage = {
+      $cond: [
+        { $or: [{ $eq: [{ $ifNull: ['$entryPageAt', null] }, null] }, { $lt: [delta.entry.at, '$entryPageAt'] }] },
+        literal(delta.entry.page),
+        '$entryPage',
+      ],
+    };
+    fields.entryPageAt = { $min: ['$entryPageAt', delta.entry.at] };
+  }
+  if (delta.exit) {
+    fields.exitPage = {
+      $cond: [
+        { $or: [{ $eq: [{ $ifNull: ['$exitPageAt', null] }, null] }, { $gte: [delta.exit.at, '$exitPageAt'] }] },
+        literal(delta.exit.page),
+        '$exitPage',
+      ],
+    };
+    fields.exitPageAt = { $max: ['$exitPageAt', delta.exit.at] };
+  }
+  for (const field of FIRST_SEEN_FIELDS) {
+    if (delta[field] !== undefined) {
+      fields[field] = { $ifNull: [`$${field}`, literal(delta[field])] };
+    }
+  }
+  if (delta.excluded) {
+    fields.excluded = true;
+  }
+
+  return [
+    { $set: fields },
+    {
+      $set: {
+        duration: { $subtract: ['$endedAt', '$startedAt'] },
+        uniquePages: { $size: '$pages' },
+      },
+    },
+  ];
+}
+
+// Data access for the sessions collection
+export class SessionRepository {
+  /**
+   * Fold the deltas of a flushed batch into their sessions, creating the sessions
+   * seen for the first time. One upsert per session, unordered.
+   *
+   * @returns deltas of the sessions created
+   */
+  async applyDeltas(deltas: SessionDelta[]): Promise<SessionDelta[]> {
+    if (deltas.length === 0) {
+      return [];
+    }
+
+    const result = await Session.bulkWrite(
+      deltas.map((delta) => ({
+        updateOne: {
+          filter: sessionFilter(delta),
+          update: sessionUpdate(delta),
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+    // upsertedIds is keyed by the index of the operation
+    return Object.keys(result.upsertedIds ?? {}).map((index) => deltas[Number(index)]);
+  }
+
+  /**
+   * Take the events of deleted deltas (a rolled-back import) back out of their
+   * sessions' counts, and delete the sessions left without events. Times, pages
+   * and device context are not recomputed.
+   *
+   * @returns deltas of the sessions deleted, flagged as the stored sessions were
+   */
+  async removeDeltas(deltas: SessionDelta[]): Promise<SessionDelta[]> {
+    if (deltas.length === 0) {
+      return [];
+    }
+
+    await Session.bulkWrite(
+      deltas.map((delta) => ({
+        updateOne: {
+          filter: sessionFilter(delta),
+          update: { $inc: { eventCount: -delta.eventCount, pageViewCount: -delta.pageViewCount } },
+        },
+      })),
+      { ordered: false }
+    );
+
+    const emptied = await Session.find({ $or: deltas.map(sessionFilter), eventCount: { $lte: 0 } })
+      .lean<ISessionDocument[]>()
+      .exec();
+    if (emptied.length === 0) {
+      return [];
+    }
+    await Session.deleteMany({ _id: { $in: emptied.map((doc) => doc._id) }, eventCount: { $lte: 0 } });
+
+    const excluded = new Map(emptied.map((doc) => [sessionKeyOf(doc), doc.excluded === true]));
+    return deltas.flatMap((delta) => {
+      const sessionExcluded = excluded.get(sessionKeyOf(delta));
+      return sessionExcluded === undefined ? [] : [{ ...delta, excluded: sessionExcluded }];
+    });
+  }
+
+  /**
+   * Sessions with a sessionId, narrowed down by user and source when given
+   * Uses the unique { sessionId: 1, userId: 1, sourceId: 1 } index
+   */
+  async findBySessionId(sessionId: string, scope: Partial<SessionKey> = {}): Promise<ISessionSummary[]> {
+    const query = {
+      sessionId,
+      ...(scope.userId && { userId: scope.userId }),
+      ...(scope.sourceId && { sourceId: scope.sourceId }),
+    };
+    const documents = await Session.find(query)
+      .sort({ startedAt: -1 })
+      .limit(MAX_MATCHING_SESSIONS)
+      .lean<ISessionDocument[]>()
+      .exec();
+    return documents.map(toSession);
+  }
+
+  /**
+   * Sessions, most recent first
+   * Uses { userId: 1, startedAt: -1 } when filtered by user, { startedAt: -1 } otherwise
+   */
+  async list(options: SessionListOptions = {}): Promise<{
+    sessions: ISessionSummary[];
+    totalCount: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  }> {
+    try {
+      const page = options.page || 1;
+      const pageSize = options.pageSize || 20;
+
+      const query: QueryFilter<ISessionDocument> = {};
+      if (options.userId) {
+        query.userId = Array.isArray(options.userId) ? { $in: options.userId } : options.userId;
+      }
+      if (options.from || options.to) {
+        query.startedAt = {
+          ...(options.from && { $gte: options.from }),
+          ...(options.to && { $lte: options.to }),
+        };
+      }
+      if (!options.includeExcluded) {
+        query.excluded = { $ne: true };
+      }
+
+      const [documents, totalCount] = await Promise.all([
+        Session.find(query)
+          .sort({ startedAt: -1 })
+          .skip((page - 1) * pageSize)
+          .limit(pageSize)
+          .lean<ISessionDocument[]>()
+          .exec(),
+        Session.countDocuments(query),
+      ]);
+
+      return {
+        sessions: documents.map(toSession),
+        totalCount,
+        page,
+        pageSize,
+        totalPages: Math.ceil(totalCount / pageSize),
+      };
+    } catch (error) {
+      console.error('[SessionRepository] list failed:', errorMessage(error));
+      throw error;
+    }
+  }
+}
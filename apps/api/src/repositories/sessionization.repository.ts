@@ -0,0 +1,60 @@
+import { type ISessionizationStateDocument, SessionizationState } from '../models/SessionizationState';
+
+// Longest a user's session state is kept after its last update
+const STATE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Server-side session a user is in, keyed by "<sourceId>:<userId>"
+export interface SessionState {
+  key: string;
+  sessionId: string;
+  startedAt: Date;
+  lastEventAt: Date;
+  clientSessionId?: string;
+  campaign?: string;
+}
+
+function toState(doc: ISessionizationStateDocument): SessionState {
+  return {
+    key: doc._id,
+    sessionId: doc.sessionId,
+    startedAt: doc.startedAt,
+    lastEventAt: doc.lastEventAt,
+    ...(doc.clientSessionId && { clientSessionId: doc.clientSessionId }),
+    ...(doc.campaign && { campaign: doc.campaign }),
+  };
+}
+
+// Data access for the sessionization_states collection
+export class SessionizationRepository {
+  async findStates(keys: string[]): Promise<Map<string, SessionState>> {
+    if (keys.length === 0) {
+      return new Map();
+    }
+
+    const documents = await SessionizationState.find({ _id: { $in: keys } })
+      .lean<ISessionizationStateDocument[]>()
+      .exec();
+
+    return new Map(documents.map((doc) => [doc._id, toState(doc)]));
+  }
+
+  // Last write wins: instances flushing events of the same user at the same time
+  // may each start a session
+  async saveStates(states: SessionState[]): Promise<void> {
+    if (states.length === 0) {
+      return;
+    }
+
+    const expiresAt = new Date(Date.now() + STATE_RETENTION_MS);
+    await SessionizationState.bulkWrite<Omit<SessionState, 'key'> & { _id: string; expiresAt: Date }>(
+      states.map(({ key, ...state }) => ({
+        replaceOne: {
+          filter: { _id: key },
+          replacement: { ...state, expiresAt },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+}
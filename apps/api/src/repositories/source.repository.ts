@@ -0,0 +1,270 @@
+import { type ISessionizationSettings, type ISourceDocument, Source } from '../models/Source';
+import { type IWriteKeyDocument, WriteKey } from '../models/WriteKey';
+import { SourceUsage } from '../models/SourceUsage';
+import { errorMessage } from '../utils/errors';
+
+// Per-source overrides of the default ingestion limits
+export interface SourceLimits {
+  eventsPerSecond?: number;
+  burst?: number;
+  dailyQuota?: number;
+}
+
+// null clears a field, undefined leaves it unchanged
+export interface SourceChanges {
+  name?: string;
+  description?: string | null;
+  limits?: { [K in keyof SourceLimits]?: number | null };
+  sessionization?: ISessionizationSettings | null;
+}
+
+// Events counted for one source on one UTC day, not yet written to MongoDB
+export interface SourceUsageIncrement {
+  sourceId: string;
+  day: string;
+  events: number;
+}
+
+const USAGE_RETENTION_MS = 35 * 24 * 60 * 60 * 1000;
+
+export interface SourceInfo {
+  sourceId: string;
+  name: string;
+  description?: string;
+  createdBy?: string;
+  limits?: SourceLimits;
+  sessionization?: ISessionizationSettings;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Key metadata safe to return from admin routes (never includes the hash)
+export interface WriteKeyInfo {
+  keyId: string;
+  sourceId: string;
+  prefix: string;
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+}
+
+export interface WriteKeyRecord extends WriteKeyInfo {
+  keyHash: string;
+}
+
+function toSource(doc: ISourceDocument): SourceInfo {
+  return {
+    sourceId: doc._id,
+    name: doc.name,
+    ...(doc.description && { description: doc.description }),
+    ...(doc.createdBy && { createdBy: doc.createdBy }),
+    ...(doc.limits && Object.keys(doc.limits).length > 0 && { limits: { ...doc.limits } }),
+    ...(doc.sessionization && { sessionization: { ...doc.sessionization } }),
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function toKeyInfo(doc: IWriteKeyDocument): WriteKeyInfo {
+  return {
+    keyId: doc._id,
+    sourceId: doc.sourceId,
+    prefix: doc.prefix,
+    createdAt: doc.createdAt,
+    ...(doc.expiresAt && { expiresAt: doc.expiresAt }),
+    ...(doc.revokedAt && { revokedAt: doc.revokedAt }),
+    ...(doc.lastUsedAt && { lastUsedAt: doc.lastUsedAt }),
+  };
+}
+
+function toKeyRecord(doc: IWriteKeyDocument): WriteKeyRecord {
+  return { ...toKeyInfo(doc), keyHash: doc.keyHash };
+}
+
+// Data access for the sources, write_keys and source_usage collections
+export class SourceRepository {
+  async createSource(source: {
+    sourceId: string;
+    name: string;
+    description?: string;
+    createdBy?: string;
+  }): Promise<SourceInfo> {
+    const doc = await Source.create({
+      _id: source.sourceId,
+      name: source.name,
+      description: source.description,
+      createdBy: source.createdBy,
+    });
+
+    return toSource(doc.toObject() as ISourceDocument);
+  }
+
+  async listSources(): Promise<SourceInfo[]> {
+    try {
+      const documents = await Source.find().sort({ createdAt: 1 }).lean<ISourceDocument[]>().exec();
+      return documents.map(toSource);
+    } catch (error) {
+      console.error('[SourceRepository] listSources failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  async findSource(sourceId: string): Promise<SourceInfo | null> {
+    const doc = await Source.findById(sourceId).lean<ISourceDocument>().exec();
+    return doc ? toSource(doc) : null;
+  }
+
+  async updateSource(sourceId: string, changes: SourceChanges): Promise<SourceInfo | null> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+
+    if (changes.name !== undefined) {
+      $set.name = changes.name;
+    }
+    if (changes.description === null) {
+      $unset.description = '';
+    } else if (changes.description !== undefined) {
+      $set.description = changes.description;
+    }
+    for (const [field, value] of Object.entries(changes.limits ?? {})) {
+      if (value === null) {
+        $unset[`limits.${field}`] = '';
+      } else if (value !== undefined) {
+        $set[`limits.${field}`] = value;
+      }
+    }
+    if (changes.sessionization === null) {
+      $unset.sessionization = '';
+    } else if (changes.sessionization !== undefined) {
+      $set.sessionization = changes.sessionization;
+    }
+
+    const doc = await Source.findByIdAndUpdate(
+      sourceId,
+      { $set, $unset },
+      { returnDocument: 'after' }
+    )
+      .lean<ISourceDocument>()
+      .exec();
+
+    return doc ? toSource(doc) : null;
+  }
+
+  async insertKey(key: { keyId: string; sourceId: string; keyHash: string; prefix: string }): Promise<WriteKeyInfo> {
+    const doc = await WriteKey.create({
+      _id: key.keyId,
+      sourceId: key.sourceId,
+      keyHash: key.keyHash,
+      prefix: key.prefix,
+    });
+
+    return toKeyInfo(doc.toObject() as IWriteKeyDocument);
+  }
+
+  async listKeys(sourceId: string): Promise<WriteKeyInfo[]> {
+    const documents = await WriteKey.find({ sourceId })
+      .sort({ createdAt: -1 })
+      .lean<IWriteKeyDocument[]>()
+      .exec();
+
+    return documents.map(toKeyInfo);
+  }
+
+  // Keys that currently authenticate: not revoked and not past their expiry
+  async findUsableKeys(now = new Date()): Promise<WriteKeyRecord[]> {
+    const documents = await WriteKey.find({
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }],
+    })
+      .lean<IWriteKeyDocument[]>()
+      .exec();
+
+    return documents.map(toKeyRecord);
+  }
+
+  async findKeyByHash(keyHash: string): Promise<WriteKeyRecord | null> {
+    const doc = await WriteKey.findOne({ keyHash }).lean<IWriteKeyDocument>().exec();
+    return doc ? toKeyRecord(doc) : null;
+  }
+
+  /**
+   * Schedule every other usable key of a source to expire at `expiresAt`
+   * Keys that already expire earlier keep their expiry.
+   *
+   * @returns number of keys updated
+   */
+  async expireOtherKeys(sourceId: string, exceptKeyId: string, expiresAt: Date): Promise<number> {
+    const result = await WriteKey.updateMany(
+      {
+        sourceId,
+        _id: { $ne: exceptKeyId },
+        revokedAt: { $exists: false },
+        $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: expiresAt } }],
+      },
+      { $set: { expiresAt } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  async revokeKey(sourceId: string, keyId: string): Promise<WriteKeyInfo | null> {
+    const doc = await WriteKey.findOneAndUpdate(
+      { _id: keyId, sourceId },
+      { $set: { revokedAt: new Date() } },
+      { returnDocument: 'after' }
+    )
+      .lean<IWriteKeyDocument>()
+      .exec();
+
+    return doc ? toKeyInfo(doc) : null;
+  }
+
+  // Persist last-used timestamps collected in memory; $max keeps concurrent instances from going backwards
+  async touchKeys(lastUsed: Map<string, Date>): Promise<void> {
+    if (lastUsed.size === 0) {
+      return;
+    }
+
+    await WriteKey.bulkWrite(
+      Array.from(lastUsed, ([keyId, usedAt]) => ({
+        updateOne: {
+          filter: { _id: keyId },
+          update: { $max: { lastUsedAt: usedAt } },
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  // Add locally counted events to the per-day totals shared by all instances
+  async incrementUsage(increments: SourceUsageIncrement[]): Promise<void> {
+    if (increments.length === 0) {
+      return;
+    }
+
+    await SourceUsage.bulkWrite(
+      increments.map(({ sourceId, day, events }) => ({
+        updateOne: {
+          filter: { _id: `${sourceId}:${day}` },
+          update: {
+            $inc: { events },
+            $setOnInsert: {
+              sourceId,
+              day,
+              expiresAt: new Date(Date.parse(day) + USAGE_RETENTION_MS),
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  // Events per source for one UTC day (YYYY-MM-DD)
+  async findUsage(day: string): Promise<Map<string, number>> {
+    const documents = await SourceUsage.find({ day }).lean().exec();
+    return new Map(documents.map((doc) => [doc.sourceId, doc.events]));
+  }
+}
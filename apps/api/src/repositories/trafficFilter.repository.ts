@@ -0,0 +1,44 @@
+import {
+  INGESTION_TRAFFIC_FILTER_ID,
+  type ITrafficFilterDocument,
+  type ITrafficFilterSettings,
+  TrafficFilter,
+} from '../models/TrafficFilter';
+import { errorMessage } from '../utils/errors';
+
+export interface TrafficFilterEntry extends ITrafficFilterSettings {
+  updatedAt: Date | null;  // null while the filter has never been configured
+  updatedBy?: string;
+}
+
+// Data access for the traffic_filters collection (the ingestion filter settings)
+export class TrafficFilterRepository {
+  async find(): Promise<TrafficFilterEntry | null> {
+    try {
+      const doc = await TrafficFilter.findById(INGESTION_TRAFFIC_FILTER_ID)
+        .lean<ITrafficFilterDocument>()
+        .exec();
+
+      if (!doc) {
+        return null;
+      }
+
+      const { _id, updatedBy, ...settings } = doc;
+      return { ...settings, ...(updatedBy && { updatedBy }) };
+    } catch (error) {
+      console.error('[TrafficFilterRepository] find failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  // Callers validate the settings with checkTrafficFilterSettings() first
+  async save(settings: ITrafficFilterSettings, updatedBy?: string): Promise<TrafficFilterEntry> {
+    const entry: TrafficFilterEntry = { ...settings, updatedAt: new Date(), ...(updatedBy && { updatedBy }) };
+    await TrafficFilter.updateOne(
+      { _id: INGESTION_TRAFFIC_FILTER_ID },
+      { $set: { ...settings, updatedAt: entry.updatedAt, updatedBy: updatedBy ?? null } },
+      { upsert: true }
+    );
+    return entry;
+  }
+}
@@ -0,0 +1,42 @@
+import {
+  INGESTION_PIPELINE_ID,
+  type ITransformPipelineDocument,
+  type ITransformStage,
+  TransformPipeline,
+} from '../models/TransformPipeline';
+import { errorMessage } from '../utils/errors';
+
+export interface TransformPipelineEntry {
+  stages: ITransformStage[];
+  updatedAt: Date | null;  // null while the pipeline has never been configured
+  updatedBy?: string;
+}
+
+// Data access for the transform_pipelines collection (the ingestion pipeline)
+export class TransformPipelineRepository {
+  async find(): Promise<TransformPipelineEntry> {
+    try {
+      const doc = await TransformPipeline.findById(INGESTION_PIPELINE_ID)
+        .lean<ITransformPipelineDocument>()
+        .exec();
+
+      return doc
+        ? { stages: doc.stages, updatedAt: doc.updatedAt, ...(doc.updatedBy && { updatedBy: doc.updatedBy }) }
+        : { stages: [], updatedAt: null };
+    } catch (error) {
+      console.error('[TransformPipelineRepository] find failed:', errorMessage(error));
+      throw error;
+    }
+  }
+
+  // Replaces all stages; callers validate them with checkTransformStages() first
+  async save(stages: ITransformStage[], updatedBy?: string): Promise<TransformPipelineEntry> {
+    const entry: TransformPipelineEntry = { stages, updatedAt: new Date(), ...(updatedBy && { updatedBy }) };
+    await TransformPipeline.updateOne(
+      { _id: INGESTION_PIPELINE_ID },
+      { $set: { stages, updatedAt: entry.updatedAt, updatedBy: updatedBy ?? null } },
+      { upsert: true }
+    );
+    return entry;
+  }
+}
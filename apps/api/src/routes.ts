@@ -1,15 +1,268 @@
 import { Express } from "express";
+import mongoose from "mongoose";
 import { EventRepository } from "./repositories/event.repository";
+import { DeadLetterRepository } from "./repositories/deadLetter.repository";
+import { PayloadSchemaRepository } from "./repositories/payloadSchema.repository";
+import { RedactionRuleRepository } from "./repositories/redactionRule.repository";
+import { TransformPipelineRepository } from "./repositories/transformPipeline.repository";
+import { TrafficFilterRepository } from "./repositories/trafficFilter.repository";
+import { EventTypeRepository } from "./repositories/eventType.repository";
+import { SourceRepository } from "./repositories/source.repository";
+import { IdentityRepository } from "./repositories/identity.repository";
+import { ImportJobRepository } from "./repositories/importJob.repository";
+import { SessionRepository } from "./repositories/session.repository";
+import { SessionizationRepository } from "./repositories/sessionization.repository";
+import { ProfileRepository } from "./repositories/profile.repository";
 import { EventIngestionService } from "./services/eventIngestion.service";
+import { PayloadSchemaRegistry } from "./services/payloadSchemaRegistry.service";
+import { PayloadRedactor } from "./services/payloadRedactor.service";
+import { EventTransformPipeline } from "./services/eventTransformPipeline.service";
+import { TrafficFilterService } from "./services/trafficFilter.service";
+import { EventTypeCatalog } from "./services/eventTypeCatalog.service";
+import { WriteKeyService } from "./services/writeKey.service";
+import { IngestionRateLimiter } from "./services/rateLimiter.service";
+import { IdentityResolver } from "./services/identityResolver.service";
+import { SessionTracker } from "./services/sessionTracker.service";
+import { Sessionizer } from "./services/sessionizer.service";
+import { ProfileTracker } from "./services/profileTracker.service";
+import { EventEnrichment } from "./services/eventEnrichment.service";
+import { AdaptiveBackpressure } from "./services/adaptiveBackpressure.service";
+import { WriteAheadLog } from "./services/writeAheadLog.service";
+import { EventImportService } from "./services/eventImport.service";
+import { LiveEventStream } from "./services/liveEventStream.service";
 import { EventsController } from "./controllers/events.controller";
 import { AuthController } from "./controllers/auth.controller";
+import { DeadLetterController } from "./controllers/deadLetter.controller";
+import { PayloadSchemaController } from "./controllers/payloadSchema.controller";
+import { RedactionRuleController } from "./controllers/redactionRule.controller";
+import { TransformPipelineController } from "./controllers/transformPipeline.controller";
+import { TrafficFilterController } from "./controllers/trafficFilter.controller";
+import { EventTypeController } from "./controllers/eventType.controller";
+import { SourceController } from "./controllers/source.controller";
+import { IdentityController } from "./controllers/identity.controller";
+import { ConfigController } from "./controllers/config.controller";
+import { ImportController } from "./controllers/import.controller";
+import { SessionController } from "./controllers/session.controller";
+import { ProfileController } from "./controllers/profile.controller";
+import { LiveStreamController } from "./controllers/liveStream.controller";
 import { authMiddleware } from "./middleware/auth.middleware";
+import { createWriteKeyMiddleware } from "./middleware/writeKey.middleware";
+import { createRateLimitMiddleware } from "./middleware/rateLimit.middleware";
+import { SEGMENT_MESSAGE_TYPES } from "./utils/segmentMapper";
+import type { AppConfig } from "./config";
 
-export function registerRoutes(app: Express): EventIngestionService {
-	const repository = new EventRepository();
-	const service = new EventIngestionService(repository);
-	const controller = new EventsController(service, repository);
+// Long-lived services the bootstrap needs for startup and shutdown
+export interface AppServices {
+	ingestionService: EventIngestionService;
+	payloadSchemas: PayloadSchemaRegistry;
+	eventTypes: EventTypeCatalog;
+	writeKeys: WriteKeyService;
+	rateLimiter: IngestionRateLimiter;
+	enrichment: EventEnrichment;
+	redactor: PayloadRedactor;
+	pipeline: EventTransformPipeline;
+	trafficFilter: TrafficFilterService;
+	sessionizer: Sessionizer;
+	imports: EventImportService;
+	liveStream: LiveEventStream;
+}
+
+// Uploads are streamed to disk as they arrive, so no body parser may read them first
+export const IMPORT_UPLOAD_PATH = "/admin/imports/files";
+
+function createWriteAheadLog(
+	config: AppConfig["writeAheadLog"],
+): WriteAheadLog | undefined {
+	if (!config.enabled) {
+		console.warn(
+			"[Routes] Write-ahead log disabled - buffered events are lost on crash",
+		);
+		return undefined;
+	}
+
+	const { enabled, ...options } = config;
+	return new WriteAheadLog(options);
+}
+
+function createBackpressure(
+	config: AppConfig["backpressure"],
+): AdaptiveBackpressure | undefined {
+	if (!config.adaptive) {
+		return undefined;
+	}
+
+	const { adaptive, ...options } = config;
+	return new AdaptiveBackpressure(
+		options,
+		() => mongoose.connection.readyState === 1,
+	);
+}
+
+function createRateLimiter(
+	repository: SourceRepository,
+	config: AppConfig["rateLimits"],
+	refreshIntervalMs: number,
+): IngestionRateLimiter {
+	const { enabled } = config;
+	if (!enabled) {
+		console.warn(
+			"[Routes] RATE_LIMIT_ENABLED=false - POST /events is only protected by the buffer capacity",
+		);
+	}
+
+	return new IngestionRateLimiter(
+		repository,
+		{
+			source: {
+				eventsPerSecond: enabled ? config.sourceEventsPerSecond : 0,
+				burst: config.sourceBurst,
+			},
+			ip: {
+				eventsPerSecond: enabled ? config.ipEventsPerSecond : 0,
+				burst: config.ipBurst,
+			},
+			dailyQuota: enabled ? config.dailyQuota : 0,
+		},
+		refreshIntervalMs,
+	);
+}
+
+export function registerRoutes(app: Express, config: AppConfig): AppServices {
+	const { refreshIntervals } = config;
+	const repository = new EventRepository(config.sessions.analyticsSessionId);
+	const deadLetterRepository = new DeadLetterRepository();
+	const identities = new IdentityResolver(new IdentityRepository());
+	const sessionRepository = new SessionRepository();
+	const profiles = new ProfileTracker(new ProfileRepository(), identities);
+	const sessionTracker = new SessionTracker(
+		sessionRepository,
+		config.sessions.analyticsSessionId,
+	);
+	const sourceRepository = new SourceRepository();
+	// Only sources with sessionization settings are affected
+	const sessionizer = new Sessionizer(
+		sourceRepository,
+		new SessionizationRepository(),
+		refreshIntervals.sessionizationMs,
+	);
+	// Every enricher is on unless switched off with ENRICHMENT_<NAME>=false
+	const enrichment = new EventEnrichment(config.enrichment);
+	const liveStream = new LiveEventStream(config.liveStream);
+	const service = new EventIngestionService(repository, {
+		wal: createWriteAheadLog(config.writeAheadLog),
+		deadLetters: deadLetterRepository,
+		identities,
+		sessions: sessionTracker,
+		profiles,
+		sessionizer,
+		settings: config.ingestion,
+		backpressure: createBackpressure(config.backpressure),
+		liveStream,
+	});
+	const payloadSchemas = new PayloadSchemaRegistry(
+		new PayloadSchemaRepository(),
+		refreshIntervals.payloadSchemasMs,
+	);
+	const eventTypes = new EventTypeCatalog(
+		new EventTypeRepository(),
+		refreshIntervals.eventTypesMs,
+	);
+	const redactor = new PayloadRedactor(
+		new RedactionRuleRepository(),
+		config.privacy.piiHashSalt || undefined,
+		refreshIntervals.redactionRulesMs,
+	);
+	if (!redactor.canHash) {
+		console.warn(
+			"[Routes] PII_HASH_SALT not set - redaction rules cannot hash values",
+		);
+	}
+	const pipeline = new EventTransformPipeline(
+		new TransformPipelineRepository(),
+		refreshIntervals.pipelineMs,
+	);
+	const trafficFilter = new TrafficFilterService(
+		new TrafficFilterRepository(),
+		refreshIntervals.trafficFilterMs,
+	);
+	const controller = new EventsController(service, repository, {
+		payloadSchemas,
+		eventTypes,
+		identities,
+		enrichment,
+		timestampPolicy: config.timestamps,
+		redactor,
+		pipeline,
+		trafficFilter,
+		synchronousIngestion: config.synchronousIngestion,
+		sessionizer,
+	});
+	const payloadSchemaController = new PayloadSchemaController(
+		payloadSchemas,
+		eventTypes,
+	);
+	const eventTypeController = new EventTypeController(eventTypes);
+	const redactionRuleController = new RedactionRuleController(
+		redactor,
+		eventTypes,
+	);
+	const transformPipelineController = new TransformPipelineController(
+		pipeline,
+		eventTypes,
+	);
+	const trafficFilterController = new TrafficFilterController(trafficFilter);
+	const writeKeys = new WriteKeyService(
+		sourceRepository,
+		refreshIntervals.writeKeysMs,
+	);
+	const rateLimiter = createRateLimiter(
+		sourceRepository,
+		config.rateLimits,
+		refreshIntervals.rateLimitsMs,
+	);
+	const sourceController = new SourceController(
+		writeKeys,
+		sourceRepository,
+		rateLimiter,
+		sessionizer,
+	);
+	const writeKeyRequired = config.writeKeys.required;
+	if (!writeKeyRequired) {
+		console.warn(
+			"[Routes] WRITE_KEYS_REQUIRED=false - POST /events accepts requests without a write key",
+		);
+	}
+	const identityController = new IdentityController(identities);
+	const sessionController = new SessionController(
+		sessionRepository,
+		repository,
+		identities,
+	);
+	const profileController = new ProfileController(profiles);
 	const authController = new AuthController();
+	const deadLetterController = new DeadLetterController(
+		deadLetterRepository,
+		service,
+	);
+	const configController = new ConfigController(config, service);
+	// Historical imports write straight to the events collection, bypassing the buffer
+	const imports = new EventImportService(
+		new ImportJobRepository(),
+		repository,
+		config.imports,
+		{
+			eventTypes,
+			redactor,
+			identities,
+			sessions: sessionTracker,
+			profiles,
+		},
+	);
+	const importController = new ImportController(imports);
+	const liveStreamController = new LiveStreamController(
+		liveStream,
+		config.liveStream,
+	);
 
 	console.log("[Routes] Registering application routes...");
 
@@ -18,30 +271,304 @@ export function registerRoutes(app: Express): EventIngestionService {
 	);
 	app.get("/session", (req, res) => authController.getSession(req, res));
 
-	// Public event ingestion endpoint - no auth required for maximum performance
-	// Note: This route is registered BEFORE sessionMiddleware is applied in index.ts
-	app.post("/events", (req, res) => controller.ingestEvent(req, res));
+	// Event ingestion is authenticated with per-source write keys instead of sessions,
+	// then rate limited per source and client IP. Keys and limits are checked in memory
+	// to keep the endpoint fast.
+	// Note: sessionMiddleware in index.ts is skipped for this route
+	app.post(
+		"/events",
+		createWriteKeyMiddleware(writeKeys, { required: writeKeyRequired }),
+		createRateLimitMiddleware(rateLimiter),
+		(req, res) => controller.ingestEvent(req, res),
+	);
+
+	// Browser ingestion: navigator.sendBeacon (text/plain JSON) and a tracking pixel for
+	// email opens. Neither can set headers, so the write key may be passed as ?writeKey=
+	app.post(
+		"/events/beacon",
+		createWriteKeyMiddleware(writeKeys, {
+			required: writeKeyRequired,
+			allowQueryParam: true,
+		}),
+		createRateLimitMiddleware(rateLimiter),
+		(req, res) => controller.ingestEvent(req, res),
+	);
+	app.get(
+		"/p.gif",
+		createWriteKeyMiddleware(writeKeys, {
+			required: writeKeyRequired,
+			allowQueryParam: true,
+		}),
+		createRateLimitMiddleware(rateLimiter),
+		(req, res) => controller.trackPixel(req, res),
+	);
+
+	// Segment-compatible tracking API, so existing Segment/RudderStack SDKs only need a
+	// new host. Server libraries send the write key with basic auth, analytics.js in the
+	// body; analytics.js also uses one-letter paths (/v1/t, /v1/p...).
+	const segmentAuth = [
+		createWriteKeyMiddleware(writeKeys, {
+			required: writeKeyRequired,
+			allowBodyField: true,
+		}),
+		createRateLimitMiddleware(rateLimiter),
+	];
+	for (const type of SEGMENT_MESSAGE_TYPES) {
+		app.post([`/v1/${type}`, `/v1/${type[0]}`], ...segmentAuth, (req, res) =>
+			controller.ingestSegment(req, res, type),
+		);
+	}
+	app.post(["/v1/batch", "/v1/b"], ...segmentAuth, (req, res) =>
+		controller.ingestSegment(req, res),
+	);
 
 	// Protected routes requiring authentication
+	// Server-Sent Events; the connection stays open until the client disconnects
+	app.get("/events/live", authMiddleware, (req, res) =>
+		liveStreamController.stream(req, res),
+	);
 	app.get("/users/:userId/journey", authMiddleware, (req, res) =>
 		controller.getUserJourney(req, res),
 	);
 	app.get("/users", authMiddleware, (req, res) =>
-		controller.getUsers(req, res),
+		profileController.list(req, res),
+	);
+	app.get("/users/:userId", authMiddleware, (req, res) =>
+		profileController.get(req, res),
+	);
+	app.patch("/users/:userId", authMiddleware, (req, res) =>
+		profileController.updateTraits(req, res),
+	);
+	app.get("/users/:userId/identities", authMiddleware, (req, res) =>
+		identityController.get(req, res),
+	);
+	app.delete(
+		"/users/:userId/identities/:identifier",
+		authMiddleware,
+		(req, res) => identityController.unlink(req, res),
+	);
+	app.get("/users/:userId/sessions", authMiddleware, (req, res) =>
+		sessionController.listForUser(req, res),
+	);
+	app.get("/sessions", authMiddleware, (req, res) =>
+		sessionController.list(req, res),
+	);
+	app.get("/sessions/:sessionId", authMiddleware, (req, res) =>
+		sessionController.get(req, res),
 	);
 	app.get("/stats", authMiddleware, (req, res) =>
 		controller.getStats(req, res),
 	);
 
+	// Dead-letter administration (events that failed to flush after retries)
+	app.get("/admin/dead-letters", authMiddleware, (req, res) =>
+		deadLetterController.list(req, res),
+	);
+	app.post("/admin/dead-letters/replay", authMiddleware, (req, res) =>
+		deadLetterController.replay(req, res),
+	);
+	app.delete("/admin/dead-letters", authMiddleware, (req, res) =>
+		deadLetterController.purge(req, res),
+	);
+	app.get("/admin/dead-letters/:eventId", authMiddleware, (req, res) =>
+		deadLetterController.get(req, res),
+	);
+	app.delete("/admin/dead-letters/:eventId", authMiddleware, (req, res) =>
+		deadLetterController.purge(req, res),
+	);
+
+	// Sources and write keys for POST /events
+	app.get("/admin/sources", authMiddleware, (req, res) =>
+		sourceController.list(req, res),
+	);
+	app.post("/admin/sources", authMiddleware, (req, res) =>
+		sourceController.create(req, res),
+	);
+	app.get("/admin/sources/:sourceId", authMiddleware, (req, res) =>
+		sourceController.get(req, res),
+	);
+	app.patch("/admin/sources/:sourceId", authMiddleware, (req, res) =>
+		sourceController.update(req, res),
+	);
+	app.post("/admin/sources/:sourceId/keys", authMiddleware, (req, res) =>
+		sourceController.issueKey(req, res),
+	);
+	app.post(
+		"/admin/sources/:sourceId/keys/rotate",
+		authMiddleware,
+		(req, res) => sourceController.rotateKey(req, res),
+	);
+	app.delete(
+		"/admin/sources/:sourceId/keys/:keyId",
+		authMiddleware,
+		(req, res) => sourceController.revokeKey(req, res),
+	);
+
+	// Event-type catalog
+	app.get("/event-types", authMiddleware, (req, res) =>
+		eventTypeController.list(req, res),
+	);
+	app.get("/event-types/:name", authMiddleware, (req, res) =>
+		eventTypeController.get(req, res),
+	);
+	app.post("/event-types", authMiddleware, (req, res) =>
+		eventTypeController.create(req, res),
+	);
+	app.patch("/event-types/:name", authMiddleware, (req, res) =>
+		eventTypeController.update(req, res),
+	);
+
+	// Tracking plan: per-event-type payload schemas
+	app.get("/schemas", authMiddleware, (req, res) =>
+		payloadSchemaController.list(req, res),
+	);
+	app.get("/schemas/:eventType", authMiddleware, (req, res) =>
+		payloadSchemaController.get(req, res),
+	);
+	app.get("/schemas/:eventType/versions/:version", authMiddleware, (req, res) =>
+		payloadSchemaController.getVersion(req, res),
+	);
+	app.put("/schemas/:eventType", authMiddleware, (req, res) =>
+		payloadSchemaController.register(req, res),
+	);
+	app.patch("/schemas/:eventType", authMiddleware, (req, res) =>
+		payloadSchemaController.updateMode(req, res),
+	);
+	app.delete("/schemas/:eventType", authMiddleware, (req, res) =>
+		payloadSchemaController.remove(req, res),
+	);
+
+	// PII redaction rules applied to payloads at ingestion
+	app.get("/redaction-rules", authMiddleware, (req, res) =>
+		redactionRuleController.list(req, res),
+	);
+	app.get("/redaction-rules/:eventType", authMiddleware, (req, res) =>
+		redactionRuleController.get(req, res),
+	);
+	app.put("/redaction-rules/:eventType", authMiddleware, (req, res) =>
+		redactionRuleController.put(req, res),
+	);
+	app.delete("/redaction-rules/:eventType", authMiddleware, (req, res) =>
+		redactionRuleController.remove(req, res),
+	);
+
+	// Transformation pipeline run between normalization and buffering
+	app.get("/pipeline", authMiddleware, (req, res) =>
+		transformPipelineController.get(req, res),
+	);
+	app.put("/pipeline", authMiddleware, (req, res) =>
+		transformPipelineController.put(req, res),
+	);
+	app.post("/pipeline/dry-run", authMiddleware, (req, res) =>
+		transformPipelineController.dryRun(req, res),
+	);
+
+	// Bot and internal-traffic filter applied at ingestion
+	app.get("/traffic-filter", authMiddleware, (req, res) =>
+		trafficFilterController.get(req, res),
+	);
+	app.put("/traffic-filter", authMiddleware, (req, res) =>
+		trafficFilterController.put(req, res),
+	);
+
+	// Effective configuration; ingestion buffering can be tuned without a restart
+	app.get("/admin/config", authMiddleware, (req, res) =>
+		configController.get(req, res),
+	);
+	app.patch("/admin/config/ingestion", authMiddleware, (req, res) =>
+		configController.updateIngestion(req, res),
+	);
+
+	// Historical imports: upload a file, then import it as a resumable background job
+	app.post(IMPORT_UPLOAD_PATH, authMiddleware, (req, res) =>
+		importController.upload(req, res),
+	);
+	app.get("/admin/imports", authMiddleware, (req, res) =>
+		importController.list(req, res),
+	);
+	app.post("/admin/imports", authMiddleware, (req, res) =>
+		importController.create(req, res),
+	);
+	app.get("/admin/imports/:importId", authMiddleware, (req, res) =>
+		importController.get(req, res),
+	);
+	app.post("/admin/imports/:importId/pause", authMiddleware, (req, res) =>
+		importController.pause(req, res),
+	);
+	app.post("/admin/imports/:importId/resume", authMiddleware, (req, res) =>
+		importController.resume(req, res),
+	);
+	app.post("/admin/imports/:importId/rollback", authMiddleware, (req, res) =>
+		importController.rollback(req, res),
+	);
+
 	console.log("[Routes] Routes registered:");
-	console.log("  POST /events - Ingest events (public, high-performance)");
+	console.log("  POST /events - Ingest events (write key, high-performance)");
+	console.log(
+		"  POST /events/beacon, GET /p.gif - Browser beacon and tracking pixel (write key)",
+	);
+	console.log(
+		"  POST /v1/{track,identify,page,screen,alias,batch} - Segment-compatible tracking API (write key)",
+	);
+	console.log(
+		"  GET /events/live - Live stream of accepted events (protected, Server-Sent Events)",
+	);
 	console.log("  GET /users/:userId/journey - Get user journey (protected)");
-	console.log("  GET /users - List all users with metrics (protected)");
+	console.log("  GET /users - List user profiles (protected)");
+	console.log(
+		"  GET|PATCH /users/:userId - User profile and trait updates (protected)",
+	);
+	console.log(
+		"  GET|DELETE /users/:userId/identities[/:identifier] - Inspect and unlink identities (protected)",
+	);
+	console.log(
+		"  GET /sessions[/:sessionId], GET /users/:userId/sessions - Materialized sessions (protected)",
+	);
 	console.log("  GET /stats - Get analytics statistics (protected)");
+	console.log(
+		"  GET|DELETE /admin/dead-letters[/:eventId], POST /admin/dead-letters/replay - Dead-letter admin (protected)",
+	);
+	console.log(
+		"  GET|POST|PATCH /admin/sources[/:sourceId[/keys[/rotate]]], DELETE /admin/sources/:sourceId/keys/:keyId - Sources and write keys (protected)",
+	);
+	console.log(
+		"  GET|POST|PATCH /event-types[/:name] - Event-type catalog (protected)",
+	);
+	console.log(
+		"  GET|PUT|PATCH|DELETE /schemas[/:eventType] - Payload schema registry (protected)",
+	);
+	console.log(
+		"  GET|PUT|DELETE /redaction-rules[/:eventType] - PII redaction rules (protected)",
+	);
+	console.log(
+		"  GET|PUT /pipeline, POST /pipeline/dry-run - Event transformation pipeline (protected)",
+	);
+	console.log(
+		"  GET|PUT /traffic-filter - Bot and internal-traffic filter (protected)",
+	);
+	console.log(
+		"  GET /admin/config, PATCH /admin/config/ingestion - Runtime configuration (protected)",
+	);
+	console.log(
+		"  POST /admin/imports/files, GET|POST /admin/imports[/:importId], POST /admin/imports/:importId/{pause,resume,rollback} - Historical imports (protected)",
+	);
 	console.log(
 		"  ALL /api/auth/* - Better Auth endpoints (sign-up, sign-in, sign-out, etc.)",
 	);
 	console.log("  GET /session - Get current session");
 
-	return service;
+	return {
+		ingestionService: service,
+		payloadSchemas,
+		eventTypes,
+		writeKeys,
+		rateLimiter,
+		enrichment,
+		redactor,
+		pipeline,
+		trafficFilter,
+		sessionizer,
+		imports,
+		liveStream,
+	};
 }
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { AdaptiveBackpressure, type AdaptiveBackpressureOptions } from './adaptiveBackpressure.service';
+import { DEFAULT_INGESTION_SETTINGS } from '../config';
+
+const OPTIONS: AdaptiveBackpressureOptions = {
+  targetFlushLatencyMs: 200,
+  maxFlushLatencyMs: 1200,
+  maxErrorRatePercent: 50,
+  maxRetryAfterSeconds: 30,
+};
+
+const SETTINGS = { ...DEFAULT_INGESTION_SETTINGS, maxBufferSize: 1000, maxConcurrentFlushes: 4, backpressureThreshold: 10000 };
+
+describe('AdaptiveBackpressure', () => {
+  it('keeps the configured limits while flushes are fast', () => {
+    const backpressure = new AdaptiveBackpressure(OPTIONS);
+    backpressure.recordFlush(1000, 100, true);
+
+    expect(backpressure.pressure()).toBe(0);
+    expect(backpressure.limits(SETTINGS)).toEqual({
+      batchSize: 1000,
+      maxConcurrentFlushes: 4,
+      acceptanceThreshold: 10000,
+    });
+  });
+
+  it('scales limits down as flush latency rises', () => {
+    const backpressure = new AdaptiveBackpressure(OPTIONS);
+    backpressure.recordFlush(1000, 700, true);
+
+    expect(backpressure.pressure()).toBeCloseTo(0.5);
+    expect(backpressure.limits(SETTINGS)).toEqual({
+      batchSize: 750,
+      maxConcurrentFlushes: 2,
+      acceptanceThreshold: 7500,
+    });
+  });
+
+  it('treats failing flushes and a lost connection as full pressure', () => {
+    const failing = new AdaptiveBackpressure(OPTIONS);
+    failing.recordFlush(1000, 50, false);
+    expect(failing.pressure()).toBe(1);
+
+    const disconnected = new AdaptiveBackpressure(OPTIONS, () => false);
+    expect(disconnected.limits(SETTINGS)).toEqual({
+      batchSize: 500,
+      maxConcurrentFlushes: 1,
+      acceptanceThreshold: 5000,
+    });
+  });
+
+  it('recovers as successful flushes are averaged in', () => {
+    const backpressure = new AdaptiveBackpressure(OPTIONS);
+    backpressure.recordFlush(1000, 50, false);
+
+    for (let i = 0; i < 20; i++) {
+      backpressure.recordFlush(1000, 50, true);
+    }
+
+    expect(backpressure.pressure()).toBeLessThan(0.1);
+  });
+
+  it('sheds requests with a probability rising from half the threshold', () => {
+    let draw = 0.5;
+    const backpressure = new AdaptiveBackpressure(OPTIONS, () => true, () => draw);
+    backpressure.recordFlush(1000, 100, true);
+
+    expect(backpressure.state(4000, SETTINGS).shedProbability).toBe(0);
+    expect(backpressure.state(7500, SETTINGS).shedProbability).toBe(0.5);
+    expect(backpressure.state(12000, SETTINGS).shedProbability).toBe(1);
+
+    expect(backpressure.admit(7500, SETTINGS)).toEqual({ accepted: true });
+    draw = 0.4;
+    // 2500 events above the shedding start, drained at 10000 events/s by each of 4 flushes
+    expect(backpressure.admit(7500, SETTINGS)).toEqual({ accepted: false, retryAfterSeconds: 1 });
+  });
+
+  it('asks clients to wait longest while the database is down', () => {
+    const backpressure = new AdaptiveBackpressure(OPTIONS, () => false, () => 0);
+
+    expect(backpressure.admit(2500, SETTINGS)).toEqual({ accepted: true });
+    expect(backpressure.admit(5000, SETTINGS)).toEqual({ accepted: false, retryAfterSeconds: 30 });
+  });
+});
@@ -0,0 +1,150 @@
+import type { AppConfig, IngestionSettings } from '../config';
+import {
+  backpressureLimitGauge,
+  backpressurePressureGauge,
+  backpressureShedProbabilityGauge,
+  flushErrorRateGauge,
+  flushLatencyGauge,
+  shedRequestsCounter,
+} from '../observability/metrics';
+
+export type AdaptiveBackpressureOptions = Omit<AppConfig['backpressure'], 'adaptive'>;
+
+// Limits the ingestion buffer works with after adapting to database pressure
+export interface IngestionLimits {
+  batchSize: number;
+  maxConcurrentFlushes: number;
+  acceptanceThreshold: number;
+}
+
+export interface BackpressureState extends IngestionLimits {
+  // 0 while flushes are fast and succeed, 1 when MongoDB is overloaded or disconnected
+  pressure: number;
+  databaseConnected: boolean;
+  flushLatencyMs: number;
+  flushErrorRate: number;
+  // Events per second a single flush writes, from recent successful flushes
+  drainRate: number;
+  shedProbability: number;
+}
+
+export type AdmissionDecision = { accepted: true } | { accepted: false; retryAfterSeconds: number };
+
+// Weight of the newest flush in the moving averages
+const SMOOTHING = 0.2;
+// Share of the acceptance threshold at which requests start being shed
+const SHED_START = 0.5;
+
+function clamp(value: number, min = 0, max = 1): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Adapts the ingestion buffer to the health of MongoDB. Flush durations and
+ * failures are averaged into a pressure between 0 and 1 (1 whenever the connection
+ * is down). Under pressure batches get smaller, fewer flushes run at once and
+ * the buffer accepts fewer events, so a slow database is not handed more work.
+ *
+ * Instead of one hard cut-off, requests are rejected with a probability that
+ * rises from 0 at half the acceptance threshold to 1 at the threshold, with a
+ * Retry-After estimated from how fast the buffer currently drains.
+ */
+export class AdaptiveBackpressure {
+  private flushLatencyMs = 0;
+  private flushErrorRate = 0;
+  private drainRate = 0;
+  private flushes = 0;
+
+  constructor(
+    private readonly options: AdaptiveBackpressureOptions,
+    private readonly isDatabaseConnected: () => boolean = () => true,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  recordFlush(events: number, durationMs: number, succeeded: boolean): void {
+    // The first flush sets the averages instead of being diluted by the initial zeros
+    const weight = this.flushes === 0 ? 1 : SMOOTHING;
+    this.flushes++;
+
+    this.flushLatencyMs += weight * (durationMs - this.flushLatencyMs);
+    this.flushErrorRate += weight * ((succeeded ? 0 : 1) - this.flushErrorRate);
+    if (succeeded) {
+      const rate = (events * 1000) / Math.max(durationMs, 1);
+      this.drainRate = this.drainRate === 0 ? rate : this.drainRate + SMOOTHING * (rate - this.drainRate);
+    }
+
+    flushLatencyGauge.set(this.flushLatencyMs / 1000);
+    flushErrorRateGauge.set(this.flushErrorRate);
+  }
+
+  pressure(): number {
+    if (!this.isDatabaseConnected()) {
+      return 1;
+    }
+
+    const { targetFlushLatencyMs, maxFlushLatencyMs, maxErrorRatePercent } = this.options;
+    const latency = clamp((this.flushLatencyMs - targetFlushLatencyMs) / (maxFlushLatencyMs - targetFlushLatencyMs));
+    const errors = clamp(this.flushErrorRate / (maxErrorRatePercent / 100));
+    return Math.max(latency, errors);
+  }
+
+  /**
+   * Scale the configured limits down with the pressure: at full pressure batches
+   * are half as big, one flush runs at a time and half as many events are accepted.
+   */
+  limits(settings: IngestionSettings, pressure = this.pressure()): IngestionLimits {
+    const batchSize = Math.max(1, Math.round(settings.maxBufferSize * (1 - pressure / 2)));
+    return {
+      batchSize,
+      maxConcurrentFlushes: Math.max(1, Math.round(settings.maxConcurrentFlushes * (1 - pressure))),
+      acceptanceThreshold: Math.max(batchSize, Math.round(settings.backpressureThreshold * (1 - pressure / 2))),
+    };
+  }
+
+  state(bufferSize: number, settings: IngestionSettings): BackpressureState {
+    const databaseConnected = this.isDatabaseConnected();
+    const pressure = this.pressure();
+    const limits = this.limits(settings, pressure);
+    const shedProbability = clamp(
+      (bufferSize / limits.acceptanceThreshold - SHED_START) / (1 - SHED_START)
+    );
+
+    backpressurePressureGauge.set(pressure);
+    backpressureLimitGauge.set({ limit: 'batch_size' }, limits.batchSize);
+    backpressureLimitGauge.set({ limit: 'max_concurrent_flushes' }, limits.maxConcurrentFlushes);
+    backpressureLimitGauge.set({ limit: 'acceptance_threshold' }, limits.acceptanceThreshold);
+    backpressureShedProbabilityGauge.set(shedProbability);
+
+    return {
+      pressure,
+      databaseConnected,
+      flushLatencyMs: Math.round(this.flushLatencyMs),
+      flushErrorRate: this.flushErrorRate,
+      drainRate: Math.round(this.drainRate),
+      shedProbability,
+      ...limits,
+    };
+  }
+
+  admit(bufferSize: number, settings: IngestionSettings): AdmissionDecision {
+    const state = this.state(bufferSize, settings);
+    if (state.shedProbability === 0 || this.random() >= state.shedProbability) {
+      return { accepted: true };
+    }
+
+    shedRequestsCounter.inc();
+    return { accepted: false, retryAfterSeconds: this.retryAfterSeconds(bufferSize, state) };
+  }
+
+  // Time until the buffer is expected to be back below the level where shedding starts
+  private retryAfterSeconds(bufferSize: number, state: BackpressureState): number {
+    const { maxRetryAfterSeconds } = this.options;
+    const drainRate = state.drainRate * state.maxConcurrentFlushes;
+    if (!state.databaseConnected || drainRate === 0) {
+      return maxRetryAfterSeconds;
+    }
+
+    const excess = bufferSize - state.acceptanceThreshold * SHED_START;
+    return clamp(Math.ceil(excess / drainRate), 1, maxRetryAfterSeconds);
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventType } from '@martech/types';
+import { type EnrichmentConfig, EventEnrichment, type GeoLookup } from './eventEnrichment.service';
+import type { NormalizedEvent } from '../repositories/event.repository';
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1';
+
+const allEnabled: EnrichmentConfig = { userAgent: true, geoip: true, ip: true, traffic: true };
+
+function event(fields: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    eventId: 'evt-1',
+    userId: 'user123',
+    sessionId: 'sess',
+    type: EventType.PAGE_VIEW,
+    payload: {},
+    occurredAt: new Date('2025-01-15T12:00:00Z'),
+    receivedAt: new Date('2025-01-15T12:00:01Z'),
+    ...fields,
+  };
+}
+
+async function createEnrichment(config: EnrichmentConfig = allEnabled, lookup?: GeoLookup) {
+  const geoLookup = lookup ?? vi.fn<GeoLookup>().mockReturnValue({ country: 'DE', region: 'BE', timezone: 'Europe/Berlin' });
+  const enrichment = new EventEnrichment(config, async () => geoLookup);
+  await enrichment.load();
+  return { enrichment, geoLookup };
+}
+
+describe('EventEnrichment', () => {
+  it('adds browser, geo, anonymized IP and traffic channel to the context', async () => {
+    const { enrichment, geoLookup } = await createEnrichment();
+    const enriched = event({
+      payload: { url: 'https://shop.example.com/?utm_source=google&utm_medium=cpc', referrer: 'https://www.google.com/' },
+    });
+
+    enrichment.enrich(enriched, { ip: '::ffff:203.0.113.7', userAgent: CHROME_MAC });
+
+    expect(geoLookup).toHaveBeenCalledWith('203.0.113.7');
+    expect(enriched.context).toEqual({
+      userAgent: CHROME_MAC,
+      browser: { name: 'Chrome', version: '120.0.0.0' },
+      os: { name: 'macOS', version: '10.15.7' },
+      device: { type: 'desktop', vendor: 'Apple' },
+      ip: '203.0.113.0',
+      geo: { country: 'DE', region: 'BE', timezone: 'Europe/Berlin' },
+      traffic: { channel: 'paid_search', source: 'google', medium: 'cpc', referrerDomain: 'google.com' },
+    });
+  });
+
+  it('prefers the client IP and user agent forwarded in the context over the request', async () => {
+    const { enrichment, geoLookup } = await createEnrichment();
+    const enriched = event({
+      context: { ip: '198.51.100.23', userAgent: SAFARI_IPHONE, device: { id: 'device-9' } },
+    });
+
+    enrichment.enrich(enriched, { ip: '10.0.0.5', userAgent: 'node-fetch/1.0' });
+
+    expect(geoLookup).toHaveBeenCalledWith('198.51.100.23');
+    expect(enriched.context).toMatchObject({
+      ip: '198.51.100.0',
+      userAgent: SAFARI_IPHONE,
+      browser: { name: 'Safari' },
+      device: { id: 'device-9', type: 'mobile', vendor: 'Apple', model: 'iPhone' },
+    });
+  });
+
+  it('only runs the enabled enrichers', async () => {
+    const { enrichment, geoLookup } = await createEnrichment({ userAgent: false, geoip: false, ip: true, traffic: false });
+    const enriched = event({ payload: { referrer: 'https://t.co/xyz' } });
+
+    enrichment.enrich(enriched, { ip: '203.0.113.7', userAgent: CHROME_MAC });
+
+    expect(geoLookup).not.toHaveBeenCalled();
+    expect(enriched.context).toEqual({ ip: '203.0.113.0' });
+    expect(enrichment.enabledEnrichers).toEqual(['ip']);
+  });
+
+  it('keeps the event when an enricher fails', async () => {
+    const { enrichment } = await createEnrichment(allEnabled, () => {
+      throw new Error('corrupt database');
+    });
+    const enriched = event();
+
+    enrichment.enrich(enriched, { ip: '203.0.113.7' });
+
+    expect(enriched.context).toEqual({ ip: '203.0.113.0' });
+  });
+
+  it('enriches without geo data when the database cannot be loaded', async () => {
+    const enrichment = new EventEnrichment(allEnabled, async () => {
+      throw new Error('ENOENT');
+    });
+    await enrichment.load();
+    const enriched = event();
+
+    enrichment.enrich(enriched, { ip: '203.0.113.7' });
+
+    expect(enriched.context).toEqual({ ip: '203.0.113.0' });
+  });
+
+  it('leaves events without any client signal untouched', async () => {
+    const { enrichment } = await createEnrichment();
+    const enriched = event();
+
+    enrichment.enrich(enriched, {});
+
+    expect(enriched.context).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+import Bowser from 'bowser';
+import type { IEventContext } from '@martech/types';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import { anonymizeIp, normalizeIp } from '../utils/ipAddress';
+import { classifyTraffic } from '../utils/trafficChannel';
+import { enrichmentFailureCounter } from '../observability/metrics';
+import { errorMessage } from '../utils/errors';
+
+export type EnricherName = 'userAgent' | 'geoip' | 'ip' | 'traffic';
+
+export type EnrichmentConfig = Record<EnricherName, boolean>;
+
+// What the HTTP request says about the client. Server-side SDKs forward the end
+// user's values in context.userAgent / context.ip, which take precedence.
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export type GeoLookup = (ip: string) => IEventContext['geo'] | null;
+
+// Values an enricher derives from the event and the client; `ip` is the full,
+// not yet anonymized address
+export interface ClientSignals {
+  ip: string | null;
+  userAgent: string | undefined;
+}
+
+type Enricher = (event: NormalizedEvent, client: ClientSignals) => Partial<IEventContext>;
+
+const MAX_CACHED_USER_AGENTS = 1000;
+
+// The SDK knows better what device it runs on; only the fields it did not send are filled in
+const CLIENT_FIRST_FIELDS = ['browser', 'os', 'device'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+// The end user's IP and User-Agent: forwarded by the SDK in the context, or the request's
+export function resolveClient(event: NormalizedEvent, request: RequestContext): ClientSignals {
+  const sent: IEventContext = event.context ?? {};
+  return {
+    ip: normalizeIp(stringField(sent.ip) ?? request.ip ?? ''),
+    userAgent: stringField(sent.userAgent) ?? request.userAgent,
+  };
+}
+
+// Drops undefined fields, and the whole object when nothing is left
+function compact<T extends Record<string, unknown>>(fields: T): Partial<T> | undefined {
+  const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as Partial<T>) : undefined;
+}
+
+// Built-in geo lookup on the offline GeoLite database bundled with geoip-lite. The
+// module reads the whole database when it is first required, so it is only loaded
+// when the geoip enricher is enabled.
+async function loadGeoIpLite(): Promise<GeoLookup> {
+  const geoip = await import('geoip-lite');
+  return (ip) => {
+    const result = geoip.lookup(ip);
+    return result ? compact({ country: result.country, region: result.region, timezone: result.timezone }) ?? null : null;
+  };
+}
+
+/**
+ * Server-side enrichment applied between normalizeEvent and the ingestion buffer.
+ * Adds browser/OS/device from the User-Agent, country/region from the IP, the
+ * anonymized IP and the traffic channel to event.context. Each enricher can be
+ * switched off; a failing enricher is skipped and never rejects the event.
+ */
+export class EventEnrichment {
+  private geoLookup: GeoLookup | null = null;
+  private readonly userAgents = new Map<string, Partial<IEventContext>>();
+
+  constructor(
+    private readonly config: EnrichmentConfig,
+    private readonly loadGeoLookup: () => Promise<GeoLookup> = loadGeoIpLite
+  ) {}
+
+  /**
+   * Load the GeoIP database when the geoip enricher is enabled. Without it, events
+   * are still enriched with everything else.
+   */
+  async load(): Promise<void> {
+    if (!this.config.geoip || this.geoLookup) {
+      return;
+    }
+
+    try {
+      this.geoLookup = await this.loadGeoLookup();
+    } catch (error) {
+      console.error('[EventEnrichment] GeoIP database unavailable, geo enrichment disabled:', errorMessage(error));
+    }
+  }
+
+  get enabledEnrichers(): EnricherName[] {
+    return (Object.keys(this.config) as EnricherName[]).filter((name) => this.config[name]);
+  }
+
+  enrich(event: NormalizedEvent, request: RequestContext): void {
+    const sent: IEventContext = event.context ?? {};
+    const client = resolveClient(event, request);
+
+    const additions: Partial<IEventContext> = {};
+    for (const [name, enricher] of this.enrichers()) {
+      try {
+        Object.assign(additions, compact(enricher(event, client)));
+      } catch (error) {
+        enrichmentFailureCounter.inc({ enricher: name });
+        if (process.env.NODE_ENV !== 'production') {
+          console.error(`[EventEnrichment] ${name} enricher failed:`, errorMessage(error));
+        }
+      }
+    }
+
+    if (Object.keys(additions).length === 0) {
+      return;
+    }
+
+    const context: IEventContext = { ...sent, ...additions };
+    for (const field of CLIENT_FIRST_FIELDS) {
+      if (additions[field] && isObject(sent[field])) {
+        context[field] = { ...additions[field], ...sent[field] };
+      }
+    }
+    event.context = context;
+  }
+
+  // Geo runs before the IP is anonymized, on the full address
+  private *enrichers(): Generator<[EnricherName, Enricher]> {
+    if (this.config.userAgent) {
+      yield ['userAgent', (_event, client) => this.parseUserAgent(client.userAgent)];
+    }
+    if (this.config.geoip && this.geoLookup) {
+      const lookup = this.geoLookup;
+      yield ['geoip', (_event, client) => (client.ip ? { geo: lookup(client.ip) ?? undefined } : {})];
+    }
+    if (this.config.ip) {
+      yield ['ip', (_event, client) => ({ ip: client.ip ? (anonymizeIp(client.ip) ?? undefined) : undefined })];
+    }
+    if (this.config.traffic) {
+      yield ['traffic', (event) => ({ traffic: this.classify(event) ?? undefined })];
+    }
+  }
+
+  private parseUserAgent(userAgent: string | undefined): Partial<IEventContext> {
+    if (!userAgent) {
+      return {};
+    }
+
+    const cached = this.userAgents.get(userAgent);
+    if (cached) {
+      return cached;
+    }
+
+    const { browser, os, platform } = Bowser.parse(userAgent);
+    const parsed: Partial<IEventContext> = {
+      userAgent,
+      browser: compact({ name: browser.name, version: browser.version }),
+      os: compact({ name: os.name, version: os.version }),
+      device: compact({ type: platform.type, vendor: platform.vendor, model: platform.model }),
+    };
+
+    // Most traffic comes from a small set of user agents
+    if (this.userAgents.size >= MAX_CACHED_USER_AGENTS) {
+      this.userAgents.clear();
+    }
+    this.userAgents.set(userAgent, parsed);
+    return parsed;
+  }
+
+  // Page and campaign as sent by Segment SDKs (context.page, context.campaign), or
+  // the url/referrer payload fields of our own page_view events
+  private classify(event: NormalizedEvent) {
+    const page = isObject(event.context?.page) ? event.context.page : {};
+    const campaign = isObject(event.context?.campaign) ? event.context.campaign : undefined;
+
+    return classifyTraffic({
+      pageUrl: stringField(page.url) ?? stringField(event.payload?.url),
+      referrer: stringField(page.referrer) ?? stringField(event.payload?.referrer),
+      campaign: campaign && {
+        source: stringField(campaign.source),
+        medium: stringField(campaign.medium),
+        name: stringField(campaign.name),
+      },
+    });
+  }
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { EventImportService, type EventImportOptions } from './eventImport.service';
+import type { SessionTracker } from './sessionTracker.service';
+import type { ProfileTracker } from './profileTracker.service';
+import { EventRepository, type NormalizedEvent } from '../repositories/event.repository';
+import { type ImportJobInfo, ImportJobRepository } from '../repositories/importJob.repository';
+
+const CSV = [
+  'eventId,userId,sessionId,type,occurredAt,plan',
+  'legacy:1,u1,s1,page_view,2024-03-01T10:00:00Z,free',
+  ',u2,s2,page_view,2024-03-02T10:00:00Z,pro',
+  ',u3,s3,not_a_type,2024-03-03T10:00:00Z,pro',
+  'legacy:1,u1,s1,page_view,2024-03-01T10:00:00Z,free',
+].join('\n');
+
+// In-memory stand-in for the import_jobs collection
+function createJobRepository(): ImportJobRepository & { jobs: Map<string, ImportJobInfo> } {
+  const jobs = new Map<string, ImportJobInfo>();
+  const repository = Object.assign(new ImportJobRepository(), { jobs });
+
+  vi.spyOn(repository, 'create').mockImplementation(async (job) => {
+    const { importId, ...fields } = job;
+    const info: ImportJobInfo = {
+      importId,
+      ...fields,
+      status: 'queued',
+      progress: { processed: 0, imported: 0, duplicates: 0, rejected: 0, bytesRead: 0 },
+      rejections: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    jobs.set(importId, info);
+    return { ...info };
+  });
+  vi.spyOn(repository, 'findById').mockImplementation(async (importId) => {
+    const job = jobs.get(importId);
+    return job ? { ...job } : null;
+  });
+  vi.spyOn(repository, 'transition').mockImplementation(async (importId, from, status, changes = {}) => {
+    const job = jobs.get(importId);
+    if (!job || !from.includes(job.status)) {
+      return null;
+    }
+    Object.assign(job, { status, ...changes });
+    return { ...job };
+  });
+  vi.spyOn(repository, 'claimNext').mockImplementation(async () => {
+    const job = Array.from(jobs.values()).find((candidate) => candidate.status === 'queued');
+    if (!job) {
+      return null;
+    }
+    job.status = 'running';
+    return { ...job, progress: { ...job.progress } };
+  });
+  vi.spyOn(repository, 'saveProgress').mockImplementation(async (importId, progress, rejections) => {
+    const job = jobs.get(importId);
+    if (!job || job.status !== 'running') {
+      return false;
+    }
+    job.progress = { ...progress };
+    job.rejections.push(...rejections);
+    return true;
+  });
+  vi.spyOn(repository, 'requeueStale').mockResolvedValue(0);
+
+  return repository;
+}
+
+describe('EventImportService', () => {
+  let directory: string;
+  let jobs: ReturnType<typeof createJobRepository>;
+  let events: EventRepository;
+  let inserted: NormalizedEvent[][];
+  let sessions: SessionTracker;
+  let profiles: ProfileTracker;
+
+  const createService = (overrides: Partial<EventImportOptions> = {}) =>
+    new EventImportService(
+      jobs,
+      events,
+      {
+        directory,
+        chunkSize: 2,
+        maxUploadBytes: 1024,
+        maxJsonBytes: 1024,
+        pollIntervalMs: 0,
+        ...overrides,
+      },
+      { sessions, profiles }
+    );
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    directory = mkdtempSync(path.join(tmpdir(), 'martech-imports-'));
+    writeFileSync(path.join(directory, 'history.csv'), CSV);
+    jobs = createJobRepository();
+    inserted = [];
+    const stored = new Map<string, NormalizedEvent>();
+    events = new EventRepository();
+    vi.spyOn(events, 'bulkInsert').mockImplementation(async (batch) => {
+      inserted.push(batch);
+      const duplicateEventIds = batch.filter((event) => stored.has(event.eventId)).map((event) => event.eventId);
+      for (const event of batch) {
+        if (!stored.has(event.eventId)) {
+          stored.set(event.eventId, event);
+        }
+      }
+      return { duplicateEventIds };
+    });
+    vi.spyOn(events, 'findByImport').mockImplementation(async (importId, limit) =>
+      Array.from(stored.values())
+        .filter((event) => event.importId === importId)
+        .slice(0, limit)
+    );
+    vi.spyOn(events, 'deleteByImport').mockImplementation(async (importId, eventIds) => {
+      const deleted = eventIds ?? [...stored.values()].filter((e) => e.importId === importId).map((e) => e.eventId);
+      for (const eventId of deleted) {
+        stored.delete(eventId);
+      }
+      return deleted.length;
+    });
+    sessions = {
+      recordEvents: vi.fn(async () => ({ updated: 1, started: [] })),
+      removeEvents: vi.fn(async () => ({ updated: 1, ended: [] })),
+    } as unknown as SessionTracker;
+    profiles = {
+      recordEvents: vi.fn().mockResolvedValue(1),
+      removeEvents: vi.fn().mockResolvedValue(1),
+    } as unknown as ProfileTracker;
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('imports a file in chunks, keeping original IDs and timestamps', async () => {
+    const service = createService();
+
+    const result = await service.create({ file: 'history.csv' });
+    if (!('job' in result)) {
+      throw new Error(result.problem);
+    }
+    await service.drain();
+
+    const { importId } = result.job;
+    expect(inserted.map((batch) => batch.map((event) => event.eventId))).toEqual([
+      ['legacy:1', `${importId}:2`],
+      ['legacy:1'],
+    ]);
+    expect(inserted[0][0]).toMatchObject({
+      userId: 'u1',
+      occurredAt: new Date('2024-03-01T10:00:00Z'),
+      payload: { plan: 'free' },
+      importId,
+    });
+    expect(jobs.jobs.get(importId)).toMatchObject({
+      status: 'completed',
+      progress: { processed: 4, imported: 2, duplicates: 1, rejected: 1 },
+      rejections: [{ record: 3, code: 'UNKNOWN_EVENT_TYPE', field: 'type' }],
+    });
+    // The duplicate of the last chunk was already counted
+    expect(sessions.recordEvents).toHaveBeenCalledTimes(1);
+    expect(profiles.recordEvents).toHaveBeenCalledWith(inserted[0], []);
+  });
+
+  it('resumes after the last saved chunk', async () => {
+    const service = createService();
+    const result = await service.create({ file: 'history.csv' });
+    if (!('job' in result)) {
+      throw new Error(result.problem);
+    }
+    await service.drain();
+    inserted = [];
+
+    const job = result.job;
+    Object.assign(jobs.jobs.get(job.importId) as ImportJobInfo, {
+      status: 'paused',
+      progress: { processed: 2, imported: 2, duplicates: 0, rejected: 0, bytesRead: 0 },
+    });
+    await service.resume(job.importId);
+    await service.drain();
+
+    expect(inserted.flat().map((event) => event.eventId)).toEqual(['legacy:1']);
+    expect(jobs.jobs.get(job.importId)?.progress).toMatchObject({ processed: 4, rejected: 1 });
+  });
+
+  it('stops a paused import after the chunk being written', async () => {
+    const service = createService();
+    events.bulkInsert = vi.fn(async (batch: NormalizedEvent[]) => {
+      inserted.push(batch);
+      await service.pause(batch[0].importId as string);
+      return { duplicateEventIds: [] };
+    });
+
+    const result = await service.create({ file: 'history.csv' });
+    await service.drain();
+
+    expect(inserted).toHaveLength(1);
+    expect('job' in result && jobs.jobs.get(result.job.importId)?.status).toBe('paused');
+  });
+
+  it('rolls back the events an import wrote', async () => {
+    const service = createService();
+    const result = await service.create({ file: 'history.csv' });
+    if (!('job' in result)) {
+      throw new Error(result.problem);
+    }
+    await service.drain();
+
+    const { importId } = result.job;
+    const rolledBack = await service.rollback(importId);
+
+    expect(events.deleteByImport).toHaveBeenCalledWith(importId, ['legacy:1', `${importId}:2`]);
+    expect(sessions.removeEvents).toHaveBeenCalledWith(inserted[0]);
+    expect(profiles.removeEvents).toHaveBeenCalledWith(inserted[0], []);
+    expect(rolledBack).toMatchObject({ status: 'rolled_back', deletedCount: 2 });
+    expect(await service.rollback(result.job.importId)).toBeNull();
+  });
+
+  it('rejects files outside the import directory and mappings to missing columns', async () => {
+    const service = createService();
+
+    expect(await service.create({ file: '../etc/passwd' })).toEqual({
+      problem: 'file must be a path inside the import directory',
+    });
+    expect(await service.create({ file: 'history.csv', mapping: { userId: 'user_id' } })).toEqual({
+      problem: expect.stringMatching(/^mapping\.userId: column user_id is not in the CSV header/),
+    });
+
+    writeFileSync(path.join(directory, 'partial.csv'), 'user,type\nu1,page_view\n');
+    expect(await service.create({ file: 'partial.csv', mapping: { userId: 'user' } })).toEqual({
+      problem: 'No column, mapping or default for sessionId, occurredAt',
+    });
+    expect(jobs.create).not.toHaveBeenCalled();
+  });
+
+  it('stores uploads up to the size limit', async () => {
+    mkdirSync(path.join(directory, 'uploads'));
+    const service = createService({ maxUploadBytes: 10 });
+
+    const upload = await service.saveUpload(Readable.from([Buffer.from('a,b\n1,2\n')]), 'csv');
+    expect(upload).toEqual({ file: expect.stringMatching(/^uploads\/upl_[0-9a-f]{12}\.csv$/), size: 8 });
+
+    await expect(service.saveUpload(Readable.from([Buffer.from('x'.repeat(11))]))).rejects.toMatchObject({
+      status: 413,
+    });
+  });
+});
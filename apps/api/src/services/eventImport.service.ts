@@ -0,0 +1,507 @@
+import { randomBytes } from 'node:crypto';
+import { createWriteStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Transform, type Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { AppConfig } from '../config';
+import type { IImportRejection, ImportFormat } from '../models/ImportJob';
+import type { EventRepository, NormalizedEvent } from '../repositories/event.repository';
+import type { ImportJobInfo, ImportJobRepository } from '../repositories/importJob.repository';
+import type { EventTypeCatalog } from './eventTypeCatalog.service';
+import type { PayloadRedactor } from './payloadRedactor.service';
+import type { IdentityResolver } from './identityResolver.service';
+import type { SessionTracker } from './sessionTracker.service';
+import type { ProfileTracker } from './profileTracker.service';
+import { importedEventsCounter } from '../observability/metrics';
+import { ImportFileError, type ImportFileReader, importFormatOf, readImportFile } from '../utils/importReader';
+import { type ImportedEvent, mapImportRecord } from '../utils/importMapping';
+import { RequestBodyError } from '../utils/ndjsonReader';
+import {
+  type EventTypeLookup,
+  type EventValidationIssue,
+  builtInEventTypeStatus,
+  inspectRawEvent,
+  validateDate,
+} from '../validators/event.validator';
+import { errorMessage } from '../utils/errors';
+
+export type EventImportOptions = AppConfig['imports'];
+
+export interface EventImportServices {
+  // Event types imported events are checked against; built-in types only without it
+  eventTypes?: EventTypeCatalog;
+  redactor?: PayloadRedactor;
+  // Kept up to date with imported events, like with live ones, and on rollback
+  identities?: IdentityResolver;
+  sessions?: SessionTracker;
+  profiles?: ProfileTracker;
+}
+
+export interface ImportRequest {
+  file: string;  // Relative to the import directory, e.g. "uploads/upl_4f9c2a7d1b3e.csv"
+  format?: ImportFormat;
+  mapping?: Record<string, string>;
+  defaults?: Record<string, unknown>;
+  sourceId?: string;
+  createdBy?: string;
+}
+
+// A running import that stopped saving progress this long ago is taken over
+const STALE_AFTER_MS = 2 * 60 * 1000;
+const UPLOAD_DIRECTORY = 'uploads';
+const FORMAT_EXTENSIONS: Record<ImportFormat, string> = { csv: '.csv', ndjson: '.ndjson', json: '.json' };
+// Fields every imported event needs, from a column, the mapping or a default
+const REQUIRED_FIELDS = ['userId', 'sessionId', 'type', 'occurredAt'];
+
+function generateId(prefix: string): string {
+  return `${prefix}_${randomBytes(6).toString('hex')}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Checks imports need on top of live-ingestion validation: history keeps its timestamps
+function importIssue(event: ImportedEvent): EventValidationIssue | null {
+  if (!event.occurredAt) {
+    return { code: 'MISSING_FIELD', field: 'occurredAt', message: 'Missing required field: occurredAt' };
+  }
+  if (event.receivedAt !== undefined && !validateDate(event.receivedAt as string)) {
+    return { code: 'INVALID_TIMESTAMP', field: 'receivedAt', message: 'Invalid receivedAt timestamp format' };
+  }
+  if (event.payload !== undefined && !isPlainObject(event.payload)) {
+    return { code: 'INVALID_FIELD_TYPE', field: 'payload', message: 'payload must be a JSON object' };
+  }
+  return null;
+}
+
+/**
+ * Imports historical events from CSV, NDJSON and JSON files. Unlike POST /events,
+ * records bypass the ingestion buffer and are validated and written in chunks with
+ * EventRepository.bulkInsert, keeping their eventIds and timestamps. Records without
+ * an eventId get "<importId>:<record number>", so re-reading a chunk after a restart
+ * only produces duplicates. The events of a chunk that were not already stored then
+ * update identity links, sessions and profiles.
+ *
+ * Imports run one at a time per instance. Progress is saved after every chunk;
+ * a paused, failed or interrupted import resumes after the last saved chunk, and
+ * every event carries its importId so the whole import can be rolled back, taking
+ * its events back out of session and profile counts.
+ * PII redaction rules are applied; enrichment, the traffic filter, the
+ * transformation pipeline and payload schemas are live-traffic concerns and are not.
+ */
+export class EventImportService {
+  private pollTimer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private drainRequested = false;
+
+  constructor(
+    private jobs: ImportJobRepository,
+    private events: EventRepository,
+    private readonly options: EventImportOptions,
+    private services: EventImportServices = {}
+  ) {}
+
+  // Look for work now and then every IMPORT_POLL_INTERVAL_MS
+  startPolling(): void {
+    if (this.pollTimer || this.options.pollIntervalMs <= 0) {
+      return;
+    }
+
+    const poll = () =>
+      this.poll().catch((error) => {
+        console.error('[EventImport] Poll failed:', error.message);
+      });
+
+    poll();
+    this.pollTimer = setInterval(poll, this.options.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // Take over imports whose instance stopped, then run everything queued
+  async poll(): Promise<void> {
+    const requeued = await this.jobs.requeueStale(new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0) {
+      console.warn(`[EventImport] Requeued ${requeued} import(s) left running by a stopped instance`);
+    }
+    await this.drain();
+  }
+
+  // Run queued imports one at a time until none is left; concurrent calls share the run
+  drain(): Promise<void> {
+    this.drainRequested = true;
+    if (!this.draining) {
+      this.draining = this.runQueued().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  async find(importId: string): Promise<ImportJobInfo | null> {
+    return this.jobs.findById(importId);
+  }
+
+  async list(options: { page?: number; pageSize?: number }): ReturnType<ImportJobRepository['list']> {
+    return this.jobs.list(options);
+  }
+
+  /**
+   * Store an uploaded file in the uploads directory
+   *
+   * @returns its path for POST /admin/imports
+   * @throws RequestBodyError (413) when it exceeds IMPORT_MAX_UPLOAD_BYTES
+   */
+  async saveUpload(content: Readable, format?: ImportFormat): Promise<{ file: string; size: number }> {
+    const directory = path.join(this.options.directory, UPLOAD_DIRECTORY);
+    await mkdir(directory, { recursive: true });
+
+    const name = `${generateId('upl')}${format ? FORMAT_EXTENSIONS[format] : ''}`;
+    const target = path.join(directory, name);
+    const { maxUploadBytes } = this.options;
+    let size = 0;
+
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        size += chunk.length;
+        if (size > maxUploadBytes) {
+          callback(new RequestBodyError(413, `Upload exceeds ${maxUploadBytes} bytes`));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(content, limit, createWriteStream(target));
+    } catch (error) {
+      await rm(target, { force: true });
+      throw error;
+    }
+
+    return { file: path.join(UPLOAD_DIRECTORY, name), size };
+  }
+
+  /**
+   * Queue an import of a file in the import directory
+   *
+   * @returns the queued import, or the problem with the file or its mapping
+   */
+  async create(request: ImportRequest): Promise<{ job: ImportJobInfo } | { problem: string }> {
+    const file = this.resolve(request.file);
+    if (!file) {
+      return { problem: 'file must be a path inside the import directory' };
+    }
+
+    let fileSize: number;
+    try {
+      const stats = await stat(file);
+      if (!stats.isFile()) {
+        return { problem: `${request.file} is not a file` };
+      }
+      fileSize = stats.size;
+    } catch {
+      return { problem: `File ${request.file} not found in the import directory` };
+    }
+
+    const format = request.format ?? importFormatOf(file);
+    if (!format) {
+      return { problem: 'format is required for files not ending in .csv, .ndjson, .jsonl or .json (optionally .gz)' };
+    }
+
+    const mapping = request.mapping ?? {};
+    const defaults = request.defaults ?? {};
+    if (format === 'csv') {
+      const problem = await this.checkCsvColumns(file, mapping, defaults);
+      if (problem) {
+        return { problem };
+      }
+    }
+
+    const job = await this.jobs.create({
+      importId: generateId('imp'),
+      file: path.relative(path.resolve(this.options.directory), file),
+      fileSize,
+      format,
+      mapping,
+      defaults,
+      sourceId: request.sourceId,
+      createdBy: request.createdBy,
+    });
+
+    this.drain().catch((error) => {
+      console.error('[EventImport] Failed to run queued imports:', error.message);
+    });
+
+    return { job };
+  }
+
+  // Stops after the chunk being written; null when the import is not queued or running
+  async pause(importId: string): Promise<ImportJobInfo | null> {
+    return this.jobs.transition(importId, ['queued', 'running'], 'paused');
+  }
+
+  // Continues after the last saved chunk; null when the import is not paused or failed
+  async resume(importId: string): Promise<ImportJobInfo | null> {
+    const job = await this.jobs.transition(importId, ['paused', 'failed'], 'queued');
+    if (job) {
+      this.drain().catch((error) => {
+        console.error('[EventImport] Failed to run queued imports:', error.message);
+      });
+    }
+    return job;
+  }
+
+  /**
+   * Delete every event the import wrote, taking them back out of sessions and
+   * profiles. Events that were skipped as duplicates belong to whoever stored them
+   * first and are kept. Identity links made by imported events are kept.
+   *
+   * @returns the rolled-back import, or null when it is queued, running or already
+   *   rolled back
+   */
+  async rollback(importId: string): Promise<ImportJobInfo | null> {
+    const job = await this.jobs.transition(importId, ['paused', 'completed', 'failed'], 'rolling_back');
+    if (!job) {
+      return null;
+    }
+
+    try {
+      const deletedCount = await this.removeEvents(importId);
+      importedEventsCounter.inc({ status: 'rolled_back' }, deletedCount);
+      console.log(`[EventImport] Rolled back import ${importId}: ${deletedCount} events deleted`);
+
+      return await this.jobs.transition(importId, ['rolling_back'], 'rolled_back', {
+        deletedCount,
+        rolledBackAt: new Date(),
+      });
+    } catch (error) {
+      // Leave it failed so the rollback can be retried
+      await this.jobs.transition(importId, ['rolling_back'], 'failed', {
+        failure: `Rollback failed: ${errorMessage(error)}`,
+      });
+      throw error;
+    }
+  }
+
+  // Delete the events of an import chunk by chunk, each chunk before its counts are
+  // taken out: a failure in between leaves counts too high rather than negative
+  private async removeEvents(importId: string): Promise<number> {
+    let deletedCount = 0;
+
+    for (
+      let events = await this.events.findByImport(importId, this.options.chunkSize);
+      events.length > 0;
+      events = await this.events.findByImport(importId, this.options.chunkSize)
+    ) {
+      deletedCount += await this.events.deleteByImport(importId, events.map((event) => event.eventId));
+      const ended = this.services.sessions ? (await this.services.sessions.removeEvents(events)).ended : [];
+      await this.services.profiles?.removeEvents(events, ended);
+    }
+
+    return deletedCount;
+  }
+
+  // Like live ingestion, a failure here leaves the stored chunk out of identity links,
+  // sessions and profiles and is logged rather than failing the import
+  private async recordEvents(importId: string, events: NormalizedEvent[]): Promise<void> {
+    const { identities, sessions, profiles } = this.services;
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      await identities?.recordLinks(events);
+      const started = sessions ? (await sessions.recordEvents(events)).started : [];
+      await profiles?.recordEvents(events, started);
+    } catch (error) {
+      console.error(
+        `[EventImport] Updating identities, sessions and profiles failed for import ${importId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  // Absolute path of a file in the import directory, or null for paths outside it
+  private resolve(file: string): string | null {
+    const root = path.resolve(this.options.directory);
+    const resolved = path.resolve(root, file);
+    return resolved.startsWith(root + path.sep) ? resolved : null;
+  }
+
+  // Catch mapping mistakes before the import starts rather than as one rejection per row
+  private async checkCsvColumns(
+    file: string,
+    mapping: Record<string, string>,
+    defaults: Record<string, unknown>
+  ): Promise<string | null> {
+    let columns: string[] = [];
+    try {
+      for await (const item of readImportFile(file, 'csv', this.options).records) {
+        if ('record' in item) {
+          columns = Object.keys(item.record);
+        }
+        break;
+      }
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return error.message;
+      }
+      throw error;
+    }
+
+    if (columns.length === 0) {
+      return null;
+    }
+
+    for (const [field, column] of Object.entries(mapping)) {
+      if (!columns.includes(column)) {
+        return `mapping.${field}: column ${column} is not in the CSV header (${columns.join(', ')})`;
+      }
+    }
+
+    const provided = new Set([...columns, ...Object.keys(mapping), ...Object.keys(defaults)]);
+    const missing = REQUIRED_FIELDS.filter((field) => !provided.has(field));
+    if (missing.length > 0) {
+      return `No column, mapping or default for ${missing.join(', ')}`;
+    }
+    return null;
+  }
+
+  private async runQueued(): Promise<void> {
+    while (this.drainRequested) {
+      this.drainRequested = false;
+      for (let job = await this.jobs.claimNext(); job; job = await this.jobs.claimNext()) {
+        await this.run(job);
+      }
+    }
+  }
+
+  private async run(job: ImportJobInfo): Promise<void> {
+    const reader = readImportFile(path.resolve(this.options.directory, job.file), job.format, this.options);
+    const progress = { ...job.progress };
+    const { eventTypes } = this.services;
+    const lookupEventType: EventTypeLookup = eventTypes
+      ? (name) => eventTypes.getStatus(name) ?? null
+      : builtInEventTypeStatus;
+    let events: NormalizedEvent[] = [];
+    let rejections: IImportRejection[] = [];
+    let record = 0;
+
+    console.log(
+      `[EventImport] ${progress.processed > 0 ? 'Resuming' : 'Starting'} import ${job.importId} of ${job.file}`,
+      { processed: progress.processed }
+    );
+
+    try {
+      for await (const item of reader.records) {
+        record++;
+        // Already written before the import was paused or interrupted
+        if (record <= job.progress.processed) {
+          continue;
+        }
+
+        const result = 'issue' in item ? item : this.toEvent(job, item.record, record, lookupEventType);
+        if ('issue' in result) {
+          rejections.push({ record, ...result.issue });
+        } else {
+          events.push(result.event);
+        }
+        progress.processed = record;
+
+        if (events.length + rejections.length >= this.options.chunkSize) {
+          if (!(await this.commit(job, progress, events, rejections, reader))) {
+            return;
+          }
+          events = [];
+          rejections = [];
+        }
+      }
+
+      if (!(await this.commit(job, progress, events, rejections, reader))) {
+        return;
+      }
+      await this.jobs.transition(job.importId, ['running'], 'completed', { completedAt: new Date() });
+      console.log(`[EventImport] Completed import ${job.importId}`, progress);
+    } catch (error) {
+      console.error(`[EventImport] Import ${job.importId} failed:`, errorMessage(error));
+      await this.jobs.transition(job.importId, ['running'], 'failed', { failure: errorMessage(error) });
+    }
+  }
+
+  private toEvent(
+    job: ImportJobInfo,
+    record: Record<string, unknown>,
+    index: number,
+    lookupEventType: EventTypeLookup
+  ): { event: NormalizedEvent } | { issue: EventValidationIssue } {
+    const raw = mapImportRecord(record, job.mapping, job.defaults);
+    const issue = inspectRawEvent(raw, lookupEventType) ?? importIssue(raw);
+    if (issue) {
+      return { issue };
+    }
+
+    const event: NormalizedEvent = {
+      eventId: raw.eventId ?? `${job.importId}:${index}`,
+      userId: raw.userId,
+      sessionId: raw.sessionId,
+      type: raw.type,
+      payload: raw.payload ?? {},
+      occurredAt: new Date(raw.occurredAt as string),
+      receivedAt: raw.receivedAt === undefined ? new Date() : new Date(raw.receivedAt as string),
+      ...(raw.anonymousId && { anonymousId: raw.anonymousId }),
+      ...(raw.context && { context: raw.context }),
+      ...(job.sourceId && { sourceId: job.sourceId }),
+      importId: job.importId,
+    };
+    this.services.redactor?.redact(event);
+    return { event };
+  }
+
+  /**
+   * Write a chunk and save the progress
+   *
+   * @returns false when the import was paused or rolled back meanwhile and must stop
+   */
+  private async commit(
+    job: ImportJobInfo,
+    progress: ImportJobInfo['progress'],
+    events: NormalizedEvent[],
+    rejections: IImportRejection[],
+    reader: ImportFileReader
+  ): Promise<boolean> {
+    if (events.length > 0) {
+      const { duplicateEventIds } = await this.events.bulkInsert(events);
+      // Duplicates are already part of their sessions and profiles
+      const duplicates = new Set(duplicateEventIds);
+      await this.recordEvents(job.importId, events.filter((event) => !duplicates.has(event.eventId)));
+      progress.imported += events.length - duplicateEventIds.length;
+      progress.duplicates += duplicateEventIds.length;
+      importedEventsCounter.inc({ status: 'imported' }, events.length - duplicateEventIds.length);
+      importedEventsCounter.inc({ status: 'duplicate' }, duplicateEventIds.length);
+    }
+    progress.rejected += rejections.length;
+    progress.bytesRead = reader.bytesRead();
+    importedEventsCounter.inc({ status: 'rejected' }, rejections.length);
+
+    if (await this.jobs.saveProgress(job.importId, progress, rejections)) {
+      return true;
+    }
+
+    const current = await this.jobs.findById(job.importId);
+    if (current?.status === 'rolling_back' || current?.status === 'rolled_back') {
+      // Rolled back while this chunk was being written
+      await this.removeEvents(job.importId);
+    }
+    console.log(`[EventImport] Stopped import ${job.importId} (${current?.status ?? 'deleted'})`);
+    return false;
+  }
+}
@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { EventIngestionService } from './eventIngestion.service';
 import { EventRepository, NormalizedEvent } from '../repositories/event.repository';
+import { DeadLetterRepository } from '../repositories/deadLetter.repository';
 import { EventType } from '@martech/types';
+import type { IdentityResolver } from './identityResolver.service';
+import type { SessionTracker } from './sessionTracker.service';
+import type { Sessionizer } from './sessionizer.service';
+import type { ProfileTracker } from './profileTracker.service';
+import type { LiveEventStream } from './liveEventStream.service';
 
 describe('EventIngestionService', () => {
   let service: EventIngestionService;
@@ -26,7 +32,6 @@ describe('EventIngestionService', () => {
       bulkInsert: vi.fn().mockResolvedValue(undefined),
       getUserJourney: vi.fn(),
       getAnalyticsStats: vi.fn(),
-      getUserMetrics: vi.fn(),
     } as any;
 
     service = new EventIngestionService(mockRepository);
@@ -74,6 +79,24 @@ describe('EventIngestionService', () => {
     expect(mockRepository.bulkInsert).toHaveBeenCalled();
   });
 
+  it('applies configured and updated buffer settings', async () => {
+    service = new EventIngestionService(mockRepository, { settings: { maxBufferSize: 10, backpressureThreshold: 20 } });
+
+    for (let i = 0; i < 10; i++) {
+      await service.addEvent(createMockEvent());
+    }
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(1);
+
+    service.updateSettings({ ...service.getSettings(), maxBufferSize: 5 });
+    for (let i = 0; i < 5; i++) {
+      await service.addEvent(createMockEvent());
+    }
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(2);
+    expect(service.getStats()).toMatchObject({ maxBufferSize: 5, backpressureThreshold: 20 });
+  });
+
   it('flushes on timer interval', async () => {
     const event = createMockEvent();
     await service.addEvent(event);
@@ -95,6 +118,74 @@ describe('EventIngestionService', () => {
     expect(service.getBufferSize()).toBeGreaterThan(0);
   });
 
+  it('retries a failed batch with exponential backoff', async () => {
+    mockRepository.bulkInsert = vi.fn().mockRejectedValue(new Error('DB error'));
+
+    await service.addEvent(createMockEvent());
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(1);
+
+    // First retry after 200ms, second one 400ms after that
+    await vi.advanceTimersByTimeAsync(200);
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(3);
+  });
+
+  it('bisects a poison batch and dead-letters only the bad event', async () => {
+    const deadLetters = new DeadLetterRepository();
+    vi.spyOn(deadLetters, 'insert').mockResolvedValue(undefined);
+    const rejected = new Error('Document failed validation');
+    mockRepository.bulkInsert = vi.fn().mockImplementation(async (events: NormalizedEvent[]) => {
+      if (events.some((e) => e.eventId === 'bad')) {
+        throw rejected;
+      }
+    });
+    service = new EventIngestionService(mockRepository, { deadLetters });
+
+    for (const eventId of ['good-1', 'good-2', 'bad', 'good-3']) {
+      await service.addEvent(createMockEvent({ eventId }));
+    }
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(deadLetters.insert).toHaveBeenCalledTimes(1);
+    const [deadLettered, error, attempts] = vi.mocked(deadLetters.insert).mock.calls[0];
+    expect(deadLettered.map((e) => e.eventId)).toEqual(['bad']);
+    expect(error).toBe(rejected);
+    expect(attempts).toBe(5);
+
+    const written = vi
+      .mocked(mockRepository.bulkInsert)
+      .mock.calls.filter(([events]) => !events.some((e) => e.eventId === 'bad'))
+      .flatMap(([events]) => events.map((e) => e.eventId));
+    expect(written.sort()).toEqual(['good-1', 'good-2', 'good-3']);
+    expect(service.getBufferSize()).toBe(0);
+    expect(service.getStats().deadLetteredEvents).toBe(1);
+  });
+
+  it('keeps retrying without bisecting on connection errors', async () => {
+    const deadLetters = new DeadLetterRepository();
+    vi.spyOn(deadLetters, 'insert').mockResolvedValue(undefined);
+    const networkError = Object.assign(new Error('connection refused'), { name: 'MongoNetworkError' });
+    mockRepository.bulkInsert = vi.fn().mockRejectedValue(networkError);
+    service = new EventIngestionService(mockRepository, { deadLetters });
+
+    await service.addEvent(createMockEvent({ eventId: 'a' }));
+    await service.addEvent(createMockEvent({ eventId: 'b' }));
+
+    await vi.advanceTimersByTimeAsync(120000);
+
+    expect(vi.mocked(mockRepository.bulkInsert).mock.calls.length).toBeGreaterThan(5);
+    expect(deadLetters.insert).not.toHaveBeenCalled();
+    expect(service.getBufferSize()).toBe(2);
+  });
+
   it('force flush empties entire buffer', async () => {
     const events = Array.from({ length: 50 }, () => createMockEvent());
 
@@ -108,6 +199,117 @@ describe('EventIngestionService', () => {
     expect(mockRepository.bulkInsert).toHaveBeenCalled();
   });
 
+  it('resolves synchronous requests once their batch is stored', async () => {
+    mockRepository.bulkInsert = vi.fn().mockResolvedValue({ duplicateEventIds: ['seen'] });
+
+    const pending = service.addEventsAndWait(
+      [createMockEvent({ eventId: 'new' }), createMockEvent({ eventId: 'seen' })],
+      5000
+    );
+    await vi.advanceTimersByTimeAsync(200);
+
+    await expect(pending).resolves.toEqual([
+      { eventId: 'new', status: 'persisted' },
+      { eventId: 'seen', status: 'duplicate' },
+    ]);
+  });
+
+  it('reports retried events as pending at the timeout and dead-lettered ones as failed', async () => {
+    const deadLetters = new DeadLetterRepository();
+    vi.spyOn(deadLetters, 'insert').mockResolvedValue(undefined);
+    mockRepository.bulkInsert = vi.fn().mockRejectedValue(new Error('Document failed validation'));
+    service = new EventIngestionService(mockRepository, { deadLetters });
+
+    const timedOut = service.addEventsAndWait([createMockEvent({ eventId: 'slow' })], 1000);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(timedOut).resolves.toEqual([expect.objectContaining({ eventId: 'slow', status: 'pending' })]);
+
+    const failed = service.addEventsAndWait([createMockEvent({ eventId: 'bad' })], 60000);
+    await vi.advanceTimersByTimeAsync(60000);
+    await expect(failed).resolves.toEqual([
+      { eventId: 'bad', status: 'failed', error: 'Dead-lettered: Document failed validation' },
+    ]);
+    expect(service.getBufferSize()).toBe(0);
+  });
+
+  it('records identity links once a batch is stored, even when linking fails', async () => {
+    const identities = { recordLinks: vi.fn().mockRejectedValue(new Error('mongo down')) } as unknown as IdentityResolver;
+    service = new EventIngestionService(mockRepository, { identities });
+    const event = createMockEvent({ type: EventType.IDENTIFY, anonymousId: 'anon-1' });
+
+    await service.addEvent(event);
+    await service.forceFlush();
+
+    expect(identities.recordLinks).toHaveBeenCalledWith([event]);
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(1);
+    expect(service.getStats().retryingEvents).toBe(0);
+  });
+
+  it('folds only newly stored events into sessions', async () => {
+    const sessions = { recordEvents: vi.fn().mockResolvedValue({ updated: 1, started: [] }) } as unknown as SessionTracker;
+    mockRepository.bulkInsert = vi.fn().mockResolvedValue({ duplicateEventIds: ['resent'] });
+    service = new EventIngestionService(mockRepository, { sessions });
+    const event = createMockEvent({ eventId: 'new' });
+
+    await service.addEvent(createMockEvent({ eventId: 'resent' }));
+    await service.addEvent(event);
+    await service.forceFlush();
+
+    expect(sessions.recordEvents).toHaveBeenCalledWith([event]);
+  });
+
+  it('updates profiles with the sessions a batch started, even when sessions fail', async () => {
+    const started = [{ sessionId: 'session456', userId: 'user123' }];
+    const sessions = {
+      recordEvents: vi
+        .fn()
+        .mockResolvedValueOnce({ updated: 1, started })
+        .mockRejectedValueOnce(new Error('mongo down')),
+    } as unknown as SessionTracker;
+    const profiles = { recordEvents: vi.fn().mockResolvedValue(1) } as unknown as ProfileTracker;
+    service = new EventIngestionService(mockRepository, { sessions, profiles });
+    const first = createMockEvent({ eventId: 'first' });
+    const second = createMockEvent({ eventId: 'second' });
+
+    await service.addEvent(first);
+    await service.forceFlush();
+    await service.addEvent(second);
+    await service.forceFlush();
+
+    expect(profiles.recordEvents).toHaveBeenNthCalledWith(1, [first], started);
+    expect(profiles.recordEvents).toHaveBeenNthCalledWith(2, [second], []);
+  });
+
+  it('publishes accepted events to the live stream before they are flushed', async () => {
+    const liveStream = { publish: vi.fn() } as unknown as LiveEventStream;
+    service = new EventIngestionService(mockRepository, { liveStream });
+    const event = createMockEvent();
+
+    await service.addEvent(event);
+
+    expect(liveStream.publish).toHaveBeenCalledWith(event);
+    expect(mockRepository.bulkInsert).not.toHaveBeenCalled();
+  });
+
+  it('derives sessions before writing a batch and retries when that fails', async () => {
+    const sessionizer = {
+      assign: vi
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('not connected'), { name: 'MongoNotConnectedError' }))
+        .mockImplementation(async (events: NormalizedEvent[]) => {
+          events[0].sessionId = 'ds_1';
+          return 1;
+        }),
+    } as unknown as Sessionizer;
+    service = new EventIngestionService(mockRepository, { sessionizer, settings: { retryBaseDelayMs: 0 } });
+
+    await service.addEvent(createMockEvent({ sessionId: '' }));
+    await service.forceFlush();
+
+    expect(mockRepository.bulkInsert).toHaveBeenCalledTimes(1);
+    expect(mockRepository.bulkInsert).toHaveBeenCalledWith([expect.objectContaining({ sessionId: 'ds_1' })]);
+  });
+
   it('limits concurrent flushes', async () => {
     mockRepository.bulkInsert = vi.fn().mockImplementation(
       () => new Promise((resolve) => setTimeout(resolve, 1000))
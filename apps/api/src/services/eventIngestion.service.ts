@@ -1,37 +1,221 @@
-import { EventRepository, NormalizedEvent } from '../repositories/event.repository';
+import type { BulkInsertResult, EventRepository, NormalizedEvent } from '../repositories/event.repository';
+import type { DeadLetterRepository } from '../repositories/deadLetter.repository';
+import type { SessionDelta } from '../repositories/session.repository';
+import type { WriteAheadLog } from './writeAheadLog.service';
+import type { IdentityResolver } from './identityResolver.service';
+import type { SessionTracker } from './sessionTracker.service';
+import type { Sessionizer } from './sessionizer.service';
+import type { ProfileTracker } from './profileTracker.service';
+import type { LiveEventStream } from './liveEventStream.service';
+import type {
+  AdaptiveBackpressure,
+  AdmissionDecision,
+  BackpressureState,
+  IngestionLimits,
+} from './adaptiveBackpressure.service';
+import { DEFAULT_INGESTION_SETTINGS, type IngestionSettings } from '../config';
+import { bufferFlushCounter, deadLetteredEventsCounter } from '../observability/metrics';
+import { errorMessage } from '../utils/errors';
+
+export interface EventIngestionOptions {
+  // When set, events are appended to the log before they are acknowledged and
+  // checkpointed after they are flushed, so a crash cannot lose accepted events
+  wal?: WriteAheadLog;
+  // Destination for events that still fail after retries and bisection
+  deadLetters?: DeadLetterRepository;
+  // Receives every stored batch so identify/alias events update the identity graph
+  identities?: IdentityResolver;
+  // Receives the newly stored events of every batch to keep the sessions collection up to date
+  sessions?: SessionTracker;
+  // Receives the same events, and the sessions they started, to keep user profiles up to date
+  profiles?: ProfileTracker;
+  // Derives sessions for the events of sessionized sources before each batch is written
+  sessionizer?: Sessionizer;
+  // Sees every accepted event, for the dashboard's live view
+  liveStream?: LiveEventStream;
+  // Buffering and retry settings; omitted values use DEFAULT_INGESTION_SETTINGS
+  settings?: Partial<IngestionSettings>;
+  // Scales those settings down while the database is slow or failing
+  backpressure?: AdaptiveBackpressure;
+}
+
+export type PersistenceStatus = 'persisted' | 'duplicate' | 'failed' | 'pending';
+
+// What happened to one event a synchronous request waited for
+export interface PersistenceResult {
+  eventId: string;
+  status: PersistenceStatus;
+  error?: string;
+}
+
+type PersistenceWaiter = (result: PersistenceResult) => void;
+
+// A batch that failed to flush and is waiting for its next attempt
+interface RetryBatch {
+  events: NormalizedEvent[];
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+// Connection-level failures say nothing about the documents themselves, so they
+// never count towards bisection/dead-lettering; the batch just backs off.
+const TRANSIENT_ERROR_NAMES = new Set([
+  'MongoNetworkError',
+  'MongoNetworkTimeoutError',
+  'MongoServerSelectionError',
+  'MongoNotConnectedError',
+  'MongoTopologyClosedError',
+  'MongoWriteConcernError',
+]);
+
+function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (TRANSIENT_ERROR_NAMES.has(error.name)) {
+    return true;
+  }
+  return (
+    'hasErrorLabel' in error && typeof error.hasErrorLabel === 'function' && error.hasErrorLabel('RetryableWriteError')
+  );
+}
 
 export class EventIngestionService {
   private buffer: NormalizedEvent[] = [];
+  private retryQueue: RetryBatch[] = [];
+  private retryingEvents = 0;
+  private deadLetteredEvents = 0;
   private flushTimer: NodeJS.Timeout | null = null;
   private activeFlushes = 0;
+  private readonly persistenceWaiters = new Map<string, PersistenceWaiter[]>();
+
+  private settings: IngestionSettings;
 
-  private readonly maxBufferSize = 2000;
-  private readonly flushIntervalMs = 200;
-  private readonly backpressureThreshold = 10000;
-  private readonly maxConcurrentFlushes = 5;
+  private readonly wal: WriteAheadLog | null;
+  private readonly deadLetters: DeadLetterRepository | null;
+  private readonly identities: IdentityResolver | null;
+  private readonly sessions: SessionTracker | null;
+  private readonly profiles: ProfileTracker | null;
+  private readonly sessionizer: Sessionizer | null;
+  private readonly liveStream: LiveEventStream | null;
+  private readonly backpressure: AdaptiveBackpressure | null;
+
+  constructor(private repository: EventRepository, options: EventIngestionOptions = {}) {
+    this.wal = options.wal ?? null;
+    this.deadLetters = options.deadLetters ?? null;
+    this.identities = options.identities ?? null;
+    this.sessions = options.sessions ?? null;
+    this.profiles = options.profiles ?? null;
+    this.sessionizer = options.sessionizer ?? null;
+    this.liveStream = options.liveStream ?? null;
+    this.backpressure = options.backpressure ?? null;
+    this.settings = { ...DEFAULT_INGESTION_SETTINGS, ...options.settings };
 
-  constructor(private repository: EventRepository) {
     console.log('[EventIngestionService] Initialized with config:', {
-      maxBufferSize: this.maxBufferSize,
-      flushIntervalMs: this.flushIntervalMs,
-      backpressureThreshold: this.backpressureThreshold,
-      maxConcurrentFlushes: this.maxConcurrentFlushes,
+      ...this.settings,
+      writeAheadLog: this.wal ? 'enabled' : 'disabled',
+      adaptiveBackpressure: this.backpressure ? 'enabled' : 'disabled',
     });
   }
 
+  getSettings(): IngestionSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Replace the buffering and retry settings without a restart. Buffered events
+   * and pending retries are kept; the new values apply from the next flush.
+   * Callers validate the settings with mergeIngestionSettings() first.
+   */
+  updateSettings(settings: IngestionSettings): void {
+    const flushIntervalChanged = settings.flushIntervalMs !== this.settings.flushIntervalMs;
+    this.settings = { ...settings };
+
+    if (flushIntervalChanged && this.flushTimer) {
+      this.resetFlushTimer();
+    }
+  }
+
+  /**
+   * Open the write-ahead log and replay events from a previous run that were
+   * acknowledged but never flushed. Must complete before the server accepts traffic.
+   *
+   * @returns number of events replayed
+   */
+  async recover(): Promise<number> {
+    if (!this.wal) {
+      return 0;
+    }
+
+    const events = await this.wal.open();
+
+    for (let offset = 0; offset < events.length; offset += this.settings.maxBufferSize) {
+      const batch = events.slice(offset, offset + this.settings.maxBufferSize);
+
+      try {
+        await this.sessionizer?.assign(batch);
+        await this.repository.bulkInsert(batch);
+        await this.wal.commit(batch);
+        await this.recordIdentityLinks(batch);
+        // Logged events were never folded into their sessions and profiles, even
+        // those an interrupted flush had already stored
+        await this.recordProfiles(batch, await this.recordSessions(batch));
+      } catch (error) {
+        // Leave the rest to the regular flush/retry path instead of failing startup
+        console.error('[EventIngestionService] Replay insert failed, buffering remaining events:', {
+          error: errorMessage(error),
+          remaining: events.length - offset,
+        });
+        this.buffer.push(...events.slice(offset));
+        this.resetFlushTimer();
+        break;
+      }
+    }
+
+    if (events.length > 0) {
+      console.log('[EventIngestionService] Replayed events from write-ahead log:', events.length);
+    }
+
+    return events.length;
+  }
+
+  // Hard limit; admit() starts shedding requests before it is reached
   canAcceptEvent(): boolean {
-    return this.buffer.length < this.backpressureThreshold;
+    return this.getBufferSize() < this.limits().acceptanceThreshold;
+  }
+
+  /**
+   * Decide whether to take a new ingestion request. With adaptive backpressure,
+   * requests are shed with a rising probability as the buffer fills; otherwise
+   * they are accepted until backpressureThreshold.
+   */
+  admit(): AdmissionDecision {
+    if (this.backpressure) {
+      return this.backpressure.admit(this.getBufferSize(), this.settings);
+    }
+    return this.canAcceptEvent() ? { accepted: true } : { accepted: false, retryAfterSeconds: 1 };
+  }
+
+  getBackpressure(): BackpressureState | null {
+    return this.backpressure ? this.backpressure.state(this.getBufferSize(), this.settings) : null;
   }
 
   async addEvent(event: NormalizedEvent): Promise<void> {
+    // Durable before acknowledged: the caller only answers 202 after this resolves
+    if (this.wal) {
+      await this.wal.append([event]);
+    }
+
     this.buffer.push(event);
+    this.liveStream?.publish(event);
 
     // Reduce logging frequency for better performance
     if (this.buffer.length % 2000 === 0 && process.env.NODE_ENV !== 'production') {
       console.log('[EventIngestionService] Buffer size:', this.buffer.length);
     }
 
-    if (this.buffer.length >= this.maxBufferSize && this.activeFlushes < this.maxConcurrentFlushes) {
+    const limits = this.limits();
+    if (this.buffer.length >= limits.batchSize && this.activeFlushes < limits.maxConcurrentFlushes) {
       if (process.env.NODE_ENV !== 'production') {
         console.log('[EventIngestionService] Size threshold reached, triggering flush');
       }
@@ -43,31 +227,75 @@ export class EventIngestionService {
     this.resetFlushTimer();
   }
 
-  private async flush(): Promise<void> {
-    if (this.buffer.length === 0) {
-      return;
+  /**
+   * Buffer events like addEvent() and wait until MongoDB has stored them. Events
+   * not written within timeoutMs are reported as pending: they stay buffered (and
+   * in the write-ahead log) and are still retried.
+   */
+  async addEventsAndWait(events: NormalizedEvent[], timeoutMs: number): Promise<PersistenceResult[]> {
+    // Registered first so a flush triggered by the last addEvent() cannot be missed
+    const results = events.map((event) => this.waitForPersistence(event.eventId, timeoutMs));
+
+    try {
+      await Promise.all(events.map((event) => this.addEvent(event)));
+    } catch (error) {
+      this.settle(events, (event) => ({ eventId: event.eventId, status: 'failed', error: errorMessage(error) }));
+      throw error;
     }
 
-    if (this.activeFlushes >= this.maxConcurrentFlushes) {
+    return Promise.all(results);
+  }
+
+  /**
+   * Write one batch to MongoDB: a specific retry batch, a retry batch whose backoff
+   * has expired, or the next slice of the buffer (in that order).
+   */
+  private async flush(retry?: RetryBatch): Promise<void> {
+    if (this.activeFlushes >= this.limits().maxConcurrentFlushes) {
+      if (retry) {
+        this.enqueueRetry(retry);
+      }
       if (process.env.NODE_ENV !== 'production') {
         console.log('[EventIngestionService] Max concurrent flushes reached, skipping');
       }
       return;
     }
 
+    const batch = retry ?? this.takeDueRetry() ?? this.takeFromBuffer();
+    if (!batch) {
+      return;
+    }
+
     this.activeFlushes++;
 
-    const batch = this.buffer.splice(0, this.maxBufferSize);
     const flushStartTime = Date.now();
 
     try {
-      await this.repository.bulkInsert(batch);
+      // Failing here sends the batch down the retry path: events sent without a
+      // sessionId cannot be stored before they get one
+      await this.sessionizer?.assign(batch.events);
+      const result = await this.repository.bulkInsert(batch.events);
+      this.backpressure?.recordFlush(batch.events.length, Date.now() - flushStartTime, true);
+      this.settleStored(batch, result);
+
+      if (this.wal) {
+        await this.wal.commit(batch.events);
+      }
+
+      await this.recordIdentityLinks(batch.events);
+      if (this.sessions || this.profiles) {
+        const stored = this.newlyStored(batch, result);
+        await this.recordProfiles(stored, await this.recordSessions(stored));
+      }
+
+      bufferFlushCounter.inc({ status: 'success' });
 
       const flushDuration = Date.now() - flushStartTime;
 
       if (process.env.NODE_ENV !== 'production') {
         console.log('[EventIngestionService] Flush successful:', {
-          batchSize: batch.length,
+          batchSize: batch.events.length,
+          attempts: batch.attempts + 1,
           durationMs: flushDuration,
           remainingInBuffer: this.buffer.length,
           activeFlushes: this.activeFlushes,
@@ -75,12 +303,9 @@ export class EventIngestionService {
       }
 
     } catch (error: any) {
-      console.error('[EventIngestionService] Flush failed, re-queuing batch:', {
-        error: error.message,
-        batchSize: batch.length,
-      });
-
-      this.buffer.unshift(...batch);
+      bufferFlushCounter.inc({ status: 'failure' });
+      this.backpressure?.recordFlush(batch.events.length, Date.now() - flushStartTime, false);
+      await this.handleFlushFailure(batch, error);
 
     } finally {
       this.activeFlushes--;
@@ -88,25 +313,269 @@ export class EventIngestionService {
     }
   }
 
+  /**
+   * Failed batches back off exponentially. After maxFlushAttempts non-transient
+   * failures a batch is split in half so the documents MongoDB rejects are isolated;
+   * each half gets one more attempt before being split again. A single event that
+   * still fails is moved to the dead-letter collection.
+   */
+  private async handleFlushFailure(batch: RetryBatch, error: unknown): Promise<void> {
+    batch.attempts++;
+
+    const transient = isTransientError(error);
+
+    if (transient || batch.attempts < this.settings.maxFlushAttempts) {
+      const delay = Math.min(this.settings.retryBaseDelayMs * 2 ** (batch.attempts - 1), this.settings.retryMaxDelayMs);
+      batch.nextAttemptAt = Date.now() + delay;
+      this.enqueueRetry(batch);
+
+      console.error('[EventIngestionService] Flush failed, retrying batch with backoff:', {
+        error: errorMessage(error),
+        batchSize: batch.events.length,
+        attempts: batch.attempts,
+        transient,
+        retryInMs: delay,
+      });
+      return;
+    }
+
+    if (batch.events.length > 1) {
+      const middle = Math.ceil(batch.events.length / 2);
+
+      console.error('[EventIngestionService] Batch keeps failing, bisecting to isolate bad events:', {
+        error: errorMessage(error),
+        batchSize: batch.events.length,
+        attempts: batch.attempts,
+      });
+
+      for (const half of [batch.events.slice(0, middle), batch.events.slice(middle)]) {
+        this.enqueueRetry({
+          events: half,
+          attempts: this.settings.maxFlushAttempts - 1,
+          nextAttemptAt: Date.now(),
+        });
+      }
+      return;
+    }
+
+    await this.deadLetter(batch, error);
+  }
+
+  private waitForPersistence(eventId: string, timeoutMs: number): Promise<PersistenceResult> {
+    return new Promise((resolve) => {
+      const waiter: PersistenceWaiter = (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      };
+      const timer = setTimeout(() => {
+        const remaining = (this.persistenceWaiters.get(eventId) ?? []).filter((other) => other !== waiter);
+        if (remaining.length > 0) {
+          this.persistenceWaiters.set(eventId, remaining);
+        } else {
+          this.persistenceWaiters.delete(eventId);
+        }
+        resolve({ eventId, status: 'pending', error: `Not stored within ${timeoutMs}ms; still queued for retry` });
+      }, timeoutMs);
+
+      this.persistenceWaiters.set(eventId, [...(this.persistenceWaiters.get(eventId) ?? []), waiter]);
+    });
+  }
+
+  // Resolves the requests waiting for any of these events
+  private settle(events: NormalizedEvent[], outcome: (event: NormalizedEvent) => PersistenceResult): void {
+    if (this.persistenceWaiters.size === 0) {
+      return;
+    }
+
+    for (const event of events) {
+      const waiters = this.persistenceWaiters.get(event.eventId);
+      if (waiters) {
+        this.persistenceWaiters.delete(event.eventId);
+        const result = outcome(event);
+        for (const waiter of waiters) {
+          waiter(result);
+        }
+      }
+    }
+  }
+
+  // After a failed attempt, documents written by that attempt come back as duplicates,
+  // so duplicates are only reported for a batch's first attempt
+  private settleStored(batch: RetryBatch, result: BulkInsertResult): void {
+    this.settle(batch.events, (event) => ({
+      eventId: event.eventId,
+      status: batch.attempts === 0 && result.duplicateEventIds.includes(event.eventId) ? 'duplicate' : 'persisted',
+    }));
+  }
+
+  // The events are already stored, so a failure here must not send the batch back
+  // to the retry path; the links of that batch are lost and logged instead.
+  private async recordIdentityLinks(events: NormalizedEvent[]): Promise<void> {
+    if (!this.identities) {
+      return;
+    }
+
+    try {
+      await this.identities.recordLinks(events);
+    } catch (error) {
+      console.error('[EventIngestionService] Recording identity links failed:', {
+        error: errorMessage(error),
+        batchSize: events.length,
+      });
+    }
+  }
+
+  // On a first attempt a duplicate was stored by an earlier request and is already part
+  // of its session and profile; on a retry it was stored by a failed attempt of this
+  // batch, which never reached the session and profile updates
+  private newlyStored(batch: RetryBatch, result: BulkInsertResult): NormalizedEvent[] {
+    if (batch.attempts > 0 || result.duplicateEventIds.length === 0) {
+      return batch.events;
+    }
+    const duplicates = new Set(result.duplicateEventIds);
+    return batch.events.filter((event) => !duplicates.has(event.eventId));
+  }
+
+  // Like identity links, a failure here must not send the stored batch back to the
+  // retry path; the sessions miss these events and the failure is logged
+  //
+  // Returns the sessions these events started, for the profiles' session counts
+  private async recordSessions(events: NormalizedEvent[]): Promise<SessionDelta[]> {
+    if (!this.sessions || events.length === 0) {
+      return [];
+    }
+
+    try {
+      const { started } = await this.sessions.recordEvents(events);
+      return started;
+    } catch (error) {
+      console.error('[EventIngestionService] Updating sessions failed:', {
+        error: errorMessage(error),
+        batchSize: events.length,
+      });
+      return [];
+    }
+  }
+
+  // Same as sessions: the profiles miss these events and the failure is logged
+  private async recordProfiles(events: NormalizedEvent[], startedSessions: SessionDelta[]): Promise<void> {
+    if (!this.profiles || events.length === 0) {
+      return;
+    }
+
+    try {
+      await this.profiles.recordEvents(events, startedSessions);
+    } catch (error) {
+      console.error('[EventIngestionService] Updating profiles failed:', {
+        error: errorMessage(error),
+        batchSize: events.length,
+      });
+    }
+  }
+
+  private async deadLetter(batch: RetryBatch, error: unknown): Promise<void> {
+    if (!this.deadLetters) {
+      // Without a dead-letter store the event stays in the write-ahead log (if any)
+      console.error('[EventIngestionService] Dropping event that cannot be written:', {
+        eventId: batch.events[0]?.eventId,
+        error: errorMessage(error),
+      });
+      this.settle(batch.events, (event) => ({ eventId: event.eventId, status: 'failed', error: errorMessage(error) }));
+      return;
+    }
+
+    try {
+      await this.deadLetters.insert(batch.events, error, batch.attempts);
+
+      // The dead-letter collection now owns the event, so the log can forget it
+      if (this.wal) {
+        await this.wal.commit(batch.events);
+      }
+
+      this.deadLetteredEvents += batch.events.length;
+      deadLetteredEventsCounter.inc(batch.events.length);
+      this.settle(batch.events, (event) => ({
+        eventId: event.eventId,
+        status: 'failed',
+        error: `Dead-lettered: ${errorMessage(error)}`,
+      }));
+    } catch (dlqError) {
+      console.error('[EventIngestionService] Dead-letter write failed, retrying later:', {
+        error: errorMessage(dlqError),
+        eventId: batch.events[0]?.eventId,
+      });
+      batch.nextAttemptAt = Date.now() + this.settings.retryMaxDelayMs;
+      this.enqueueRetry(batch);
+    }
+  }
+
+  private enqueueRetry(batch: RetryBatch): void {
+    this.retryQueue.push(batch);
+    this.retryingEvents += batch.events.length;
+  }
+
+  private takeDueRetry(): RetryBatch | null {
+    const now = Date.now();
+    const index = this.retryQueue.findIndex((batch) => batch.nextAttemptAt <= now);
+    if (index === -1) {
+      return null;
+    }
+
+    const [batch] = this.retryQueue.splice(index, 1);
+    this.retryingEvents -= batch.events.length;
+    return batch;
+  }
+
+  private takeFromBuffer(): RetryBatch | null {
+    if (this.buffer.length === 0) {
+      return null;
+    }
+
+    return {
+      events: this.buffer.splice(0, this.limits().batchSize),
+      attempts: 0,
+      nextAttemptAt: 0,
+    };
+  }
+
+  private limits(): IngestionLimits {
+    if (this.backpressure) {
+      return this.backpressure.limits(this.settings);
+    }
+    return {
+      batchSize: this.settings.maxBufferSize,
+      maxConcurrentFlushes: this.settings.maxConcurrentFlushes,
+      acceptanceThreshold: this.settings.backpressureThreshold,
+    };
+  }
+
+  private hasDueWork(): boolean {
+    const now = Date.now();
+    return this.buffer.length > 0 || this.retryQueue.some((batch) => batch.nextAttemptAt <= now);
+  }
+
   private resetFlushTimer(): void {
     if (this.flushTimer) {
       clearTimeout(this.flushTimer);
     }
 
     this.flushTimer = setTimeout(() => {
-      if (this.buffer.length > 0 && this.activeFlushes < this.maxConcurrentFlushes) {
+      if (this.hasDueWork() && this.activeFlushes < this.limits().maxConcurrentFlushes) {
         if (process.env.NODE_ENV !== 'production') {
           console.log('[EventIngestionService] Timer expired, triggering flush');
         }
         this.flush().catch((error) => {
           console.error('[EventIngestionService] Timer-triggered flush failed:', error);
         });
+      } else if (this.retryQueue.length > 0) {
+        // Keep polling until backed-off batches become due
+        this.resetFlushTimer();
       }
-    }, this.flushIntervalMs);
+    }, this.settings.flushIntervalMs);
   }
 
   async forceFlush(): Promise<void> {
-    console.log('[EventIngestionService] Force flush initiated, buffer size:', this.buffer.length);
+    console.log('[EventIngestionService] Force flush initiated, buffer size:', this.getBufferSize());
 
     if (this.flushTimer) {
       clearTimeout(this.flushTimer);
@@ -114,28 +583,59 @@ export class EventIngestionService {
     }
 
     while (this.buffer.length > 0) {
-      while (this.activeFlushes >= this.maxConcurrentFlushes) {
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
-
+      await this.waitForFlushSlot();
       await this.flush();
     }
 
-    console.log('[EventIngestionService] Force flush completed, buffer empty');
+    // One final attempt for batches waiting on backoff. Whatever still fails stays
+    // in the write-ahead log and is replayed on the next start.
+    for (const batch of this.retryQueue.splice(0)) {
+      this.retryingEvents -= batch.events.length;
+      await this.waitForFlushSlot();
+      await this.flush(batch);
+    }
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    console.log('[EventIngestionService] Force flush completed', {
+      unflushedEvents: this.getBufferSize(),
+    });
+  }
+
+  private async waitForFlushSlot(): Promise<void> {
+    while (this.activeFlushes >= this.limits().maxConcurrentFlushes) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  // Release the write-ahead log; call after forceFlush() during shutdown
+  async close(): Promise<void> {
+    if (this.wal) {
+      await this.wal.close();
+    }
   }
 
+  // Events accepted but not yet written: the buffer plus batches waiting to be retried
   getBufferSize(): number {
-    return this.buffer.length;
+    return this.buffer.length + this.retryingEvents;
   }
 
   getStats() {
     return {
       bufferSize: this.buffer.length,
+      retryingBatches: this.retryQueue.length,
+      retryingEvents: this.retryingEvents,
+      deadLetteredEvents: this.deadLetteredEvents,
       activeFlushes: this.activeFlushes,
-      maxBufferSize: this.maxBufferSize,
-      backpressureThreshold: this.backpressureThreshold,
-      maxConcurrentFlushes: this.maxConcurrentFlushes,
-      bufferUtilization: (this.buffer.length / this.backpressureThreshold) * 100,
+      maxBufferSize: this.settings.maxBufferSize,
+      backpressureThreshold: this.settings.backpressureThreshold,
+      maxConcurrentFlushes: this.settings.maxConcurrentFlushes,
+      bufferUtilization: (this.getBufferSize() / this.settings.backpressureThreshold) * 100,
+      writeAheadLog: this.wal ? this.wal.getStats() : null,
+      backpressure: this.getBackpressure(),
     };
   }
 }
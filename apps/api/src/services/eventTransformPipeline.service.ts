@@ -0,0 +1,95 @@
+import type { ITransformStage } from '../models/TransformPipeline';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { TransformPipelineEntry, TransformPipelineRepository } from '../repositories/transformPipeline.repository';
+import { type EventTransform, type StageResult, createTransform, runTransforms } from '../utils/eventTransforms';
+import { transformStageCounter } from '../observability/metrics';
+
+// Transformation pipeline run between normalization and buffering.
+//
+// Like the payload schema registry, the stages are loaded at startup, replaced on
+// every write made through this instance and reloaded on an interval so changes
+// made through other API instances are picked up.
+export class EventTransformPipeline {
+  private entry: TransformPipelineEntry = { stages: [], updatedAt: null };
+  private transforms: EventTransform[] = [];
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private repository: TransformPipelineRepository,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  async load(): Promise<void> {
+    this.use(await this.repository.find());
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.load().catch((error) => {
+        // Keep running the last known stages until the database is reachable again
+        console.error('[EventTransformPipeline] Refresh failed:', error.message);
+      });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Run a normalized event through the configured stages
+   *
+   * @returns the events to buffer: none when a stage dropped it, several when split
+   */
+  run(event: NormalizedEvent): NormalizedEvent[] {
+    if (this.transforms.length === 0) {
+      return [event];
+    }
+
+    return runTransforms(this.transforms, event, ({ stage, outcomes }) => {
+      for (const [outcome, count] of Object.entries(outcomes)) {
+        transformStageCounter.inc({ stage, outcome }, count);
+      }
+    });
+  }
+
+  /**
+   * Run an event through the configured stages, or through the given ones, without
+   * recording metrics
+   *
+   * @returns the events after every stage, and the events that would be buffered
+   */
+  dryRun(event: NormalizedEvent, stages?: ITransformStage[]): { trace: StageResult[]; events: NormalizedEvent[] } {
+    const transforms = stages ? stages.map(createTransform) : this.transforms;
+    const trace: StageResult[] = [];
+    // Later stages modify events in place, so each step keeps its own copy
+    const events = runTransforms(transforms, event, (result) =>
+      trace.push({ ...result, events: structuredClone(result.events) })
+    );
+    return { trace, events };
+  }
+
+  get(): TransformPipelineEntry {
+    return this.entry;
+  }
+
+  // Callers validate the stages with checkTransformStages() first
+  async save(stages: ITransformStage[], updatedBy?: string): Promise<TransformPipelineEntry> {
+    const entry = await this.repository.save(stages, updatedBy);
+    this.use(entry);
+    return entry;
+  }
+
+  private use(entry: TransformPipelineEntry): void {
+    this.entry = entry;
+    this.transforms = entry.stages.map(createTransform);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventType } from '@martech/types';
+import { BUILT_IN_EVENT_TYPES, EventTypeCatalog } from './eventTypeCatalog.service';
+import { EventTypeRepository } from '../repositories/eventType.repository';
+
+describe('EventTypeCatalog', () => {
+  let repository: EventTypeRepository;
+
+  const definition = (name: string, status: 'active' | 'deprecated' | 'blocked' = 'active') => ({
+    name,
+    description: `${name} event`,
+    owner: 'growth',
+    status,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    repository = new EventTypeRepository();
+    vi.spyOn(repository, 'findAll').mockResolvedValue([
+      definition('page_view'),
+      definition('legacy_click', 'deprecated'),
+    ]);
+    vi.spyOn(repository, 'create');
+    vi.spyOn(repository, 'update');
+    vi.spyOn(repository, 'seed').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('knows only the built-in types before the first load', () => {
+    const catalog = new EventTypeCatalog(repository);
+
+    expect(catalog.getStatus(EventType.PURCHASE)).toBe('active');
+    expect(catalog.getStatus('newsletter_signup')).toBeNull();
+  });
+
+  it('seeds the built-in types once and serves lookups from the cache', async () => {
+    const catalog = new EventTypeCatalog(repository);
+
+    await catalog.load();
+    await catalog.load();
+
+    expect(repository.seed).toHaveBeenCalledTimes(1);
+    expect(repository.seed).toHaveBeenCalledWith(BUILT_IN_EVENT_TYPES);
+    expect(catalog.getStatus('legacy_click')).toBe('deprecated');
+    expect(catalog.getStatus(EventType.PURCHASE)).toBeNull();
+  });
+
+  it('updates the cache on writes through this instance', async () => {
+    const catalog = new EventTypeCatalog(repository);
+    await catalog.load();
+
+    vi.mocked(repository.create).mockResolvedValue(definition('newsletter_signup'));
+    await catalog.create({ name: 'newsletter_signup', description: 'Signed up', owner: 'growth' });
+
+    vi.mocked(repository.update).mockResolvedValue(definition('page_view', 'blocked'));
+    await catalog.update('page_view', { status: 'blocked' });
+
+    expect(catalog.getStatus('newsletter_signup')).toBe('active');
+    expect(catalog.getStatus('page_view')).toBe('blocked');
+  });
+
+  it('picks up changes from other instances on refresh and keeps the cache on failure', async () => {
+    const catalog = new EventTypeCatalog(repository, 1000);
+    await catalog.load();
+    catalog.startRefresh();
+
+    vi.mocked(repository.findAll).mockResolvedValue([definition('page_view'), definition('newsletter_signup')]);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(catalog.getStatus('newsletter_signup')).toBe('active');
+
+    vi.mocked(repository.findAll).mockRejectedValue(new Error('DB down'));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(catalog.getStatus('newsletter_signup')).toBe('active');
+    catalog.stop();
+  });
+});
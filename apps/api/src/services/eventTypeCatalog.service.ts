@@ -0,0 +1,108 @@
+import { EventType, type EventTypeStatus, type IEventTypeDefinition } from '@martech/types';
+import type { EventTypeChanges, EventTypeRepository, NewEventType } from '../repositories/eventType.repository';
+
+// Seeded on first start so existing clients keep working unchanged
+export const BUILT_IN_EVENT_TYPES: NewEventType[] = [
+  { name: EventType.SESSION_START, description: 'A new session started', icon: '🚀' },
+  { name: EventType.PAGE_VIEW, description: 'A page was viewed', icon: '👁️' },
+  { name: EventType.SEARCH, description: 'A search was performed', icon: '🔍' },
+  { name: EventType.PURCHASE, description: 'An order was completed', icon: '💰' },
+  { name: EventType.ADD_TO_CART, description: 'A product was added to the cart', icon: '🛒' },
+  { name: EventType.REMOVE_FROM_CART, description: 'A product was removed from the cart', icon: '❌' },
+  { name: EventType.BUTTON_CLICK, description: 'A button was clicked', icon: '👆' },
+  { name: EventType.FORM_SUBMIT, description: 'A form was submitted', icon: '📝' },
+  { name: EventType.VIDEO_PLAY, description: 'A video started playing', icon: '▶️' },
+  { name: EventType.VIDEO_PAUSE, description: 'A video was paused', icon: '⏸️' },
+  { name: EventType.SCREEN_VIEW, description: 'A mobile app screen was viewed', icon: '📱' },
+  { name: EventType.IDENTIFY, description: 'A user was identified, with their traits', icon: '🪪' },
+  { name: EventType.ALIAS, description: 'A previous identity was linked to the user', icon: '🔗' },
+].map((eventType) => ({ ...eventType, owner: 'platform' }));
+
+// In-memory view of the event-type catalog used on the ingestion hot path.
+//
+// Writes through this instance update the cache immediately; other API instances
+// pick them up on their next refresh.
+export class EventTypeCatalog {
+  private entries = new Map<string, IEventTypeDefinition>();
+  private loaded = false;
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private repository: EventTypeRepository,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  /**
+   * Seed the built-in types and load the catalog. Must complete before the server
+   * accepts traffic.
+   */
+  async load(): Promise<void> {
+    if (!this.loaded) {
+      await this.repository.seed(BUILT_IN_EVENT_TYPES);
+    }
+    await this.invalidate();
+  }
+
+  // Drop the cache and reload every definition from MongoDB
+  async invalidate(): Promise<void> {
+    const definitions = await this.repository.findAll();
+    this.entries = new Map(definitions.map((definition) => [definition.name, definition]));
+    this.loaded = true;
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.invalidate().catch((error) => {
+        // Keep serving the last known catalog until the database is reachable again
+        console.error('[EventTypeCatalog] Refresh failed:', error.message);
+      });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Status of an event type, or null when it is not in the catalog
+   * Until the first load only the built-in types are known.
+   */
+  getStatus(name: string): EventTypeStatus | null {
+    if (!this.loaded) {
+      return Object.values(EventType).includes(name as EventType) ? 'active' : null;
+    }
+    return this.entries.get(name)?.status ?? null;
+  }
+
+  get(name: string): IEventTypeDefinition | null {
+    return this.entries.get(name) ?? null;
+  }
+
+  list(): IEventTypeDefinition[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async create(eventType: NewEventType): Promise<IEventTypeDefinition | null> {
+    const definition = await this.repository.create(eventType);
+    if (definition) {
+      this.entries.set(definition.name, definition);
+    }
+    return definition;
+  }
+
+  async update(name: string, changes: EventTypeChanges): Promise<IEventTypeDefinition | null> {
+    const definition = await this.repository.update(name, changes);
+    if (definition) {
+      this.entries.set(definition.name, definition);
+    }
+    return definition;
+  }
+}
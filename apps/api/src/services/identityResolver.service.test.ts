@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventType } from '@martech/types';
+import { IdentityResolver } from './identityResolver.service';
+import type { IdentityLinkInfo, IdentityRepository } from '../repositories/identity.repository';
+import type { NormalizedEvent } from '../repositories/event.repository';
+
+// In-memory stand-in for the identity_links collection
+function createRepository(): IdentityRepository {
+  const links = new Map<string, IdentityLinkInfo>();
+
+  return {
+    findLink: vi.fn(async (identifier: string) => links.get(identifier) ?? null),
+    findLinksOf: vi.fn(async (canonicalUserId: string) =>
+      Array.from(links.values()).filter((link) => link.canonicalUserId === canonicalUserId)
+    ),
+    upsertLink: vi.fn(async (link: IdentityLinkInfo, replace: boolean) => {
+      if (links.has(link.identifier) && !replace) {
+        return false;
+      }
+      links.set(link.identifier, link);
+      return true;
+    }),
+    moveLinks: vi.fn(async (fromUserId: string, toUserId: string) => {
+      let moved = 0;
+      for (const link of links.values()) {
+        if (link.canonicalUserId === fromUserId) {
+          link.canonicalUserId = toUserId;
+          moved++;
+        }
+      }
+      return moved;
+    }),
+    deleteLink: vi.fn(async (identifier: string) => {
+      const link = links.get(identifier) ?? null;
+      links.delete(identifier);
+      return link;
+    }),
+  } as unknown as IdentityRepository;
+}
+
+let sequence = 0;
+function event(fields: Partial<NormalizedEvent>): NormalizedEvent {
+  return {
+    eventId: `evt-${++sequence}`,
+    userId: 'user123',
+    sessionId: 'sess',
+    type: EventType.PAGE_VIEW,
+    payload: {},
+    occurredAt: new Date('2025-01-15T12:00:00Z'),
+    receivedAt: new Date('2025-01-15T12:00:01Z'),
+    ...fields,
+  };
+}
+
+describe('IdentityResolver', () => {
+  let repository: IdentityRepository;
+  let resolver: IdentityResolver;
+
+  beforeEach(() => {
+    repository = createRepository();
+    resolver = new IdentityResolver(repository);
+  });
+
+  it('links the anonymous and device IDs of an identify call to the user', async () => {
+    const linked = await resolver.recordLinks([
+      event({ type: EventType.PAGE_VIEW, userId: 'anon-1', anonymousId: 'anon-1' }),
+      event({ type: EventType.IDENTIFY, anonymousId: 'anon-1', context: { device: { id: 'device-9' } } }),
+    ]);
+
+    expect(linked).toBe(2);
+    const identity = await resolver.resolve('anon-1');
+    expect(identity.canonicalUserId).toBe('user123');
+    expect(identity.userIds).toEqual(['user123', 'anon-1', 'device-9']);
+    expect(identity.links[0]).toMatchObject({ identifier: 'anon-1', kind: 'anonymous', via: 'identify' });
+  });
+
+  it('ignores identify calls that were not made anonymously first', async () => {
+    expect(await resolver.recordLinks([event({ type: EventType.IDENTIFY, anonymousId: 'user123' })])).toBe(0);
+    expect(repository.upsertLink).not.toHaveBeenCalled();
+  });
+
+  it('keeps an anonymous ID with the first user that identified on it', async () => {
+    await resolver.recordLinks([
+      event({ type: EventType.IDENTIFY, userId: 'alice', anonymousId: 'shared-tablet' }),
+      event({ type: EventType.IDENTIFY, userId: 'bob', anonymousId: 'shared-tablet' }),
+    ]);
+
+    expect((await resolver.resolve('shared-tablet')).canonicalUserId).toBe('alice');
+  });
+
+  it('merges everything linked to the previous ID on alias', async () => {
+    await resolver.recordLinks([
+      event({ type: EventType.IDENTIFY, userId: 'legacy-42', anonymousId: 'anon-1' }),
+      event({ type: EventType.ALIAS, userId: 'user123', payload: { previousId: 'legacy-42' } }),
+    ]);
+
+    const identity = await resolver.resolve('anon-1');
+    expect(identity.canonicalUserId).toBe('user123');
+    expect(identity.userIds.sort()).toEqual(['anon-1', 'legacy-42', 'user123']);
+  });
+
+  it('does not create a cycle when an alias points back at the canonical user', async () => {
+    await resolver.recordLinks([
+      event({ type: EventType.ALIAS, userId: 'user123', payload: { previousId: 'legacy-42' } }),
+      event({ type: EventType.ALIAS, userId: 'legacy-42', payload: { previousId: 'user123' } }),
+    ]);
+
+    expect((await resolver.resolve('legacy-42')).canonicalUserId).toBe('user123');
+    expect(await repository.findLink('user123')).toBeNull();
+  });
+
+  it('resolves unknown users to themselves', async () => {
+    expect(await resolver.resolve('nobody')).toEqual({ canonicalUserId: 'nobody', userIds: ['nobody'], links: [] });
+  });
+});
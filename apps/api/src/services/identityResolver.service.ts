@@ -0,0 +1,110 @@
+import { EventType } from '@martech/types';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { IdentityLinkInfo, IdentityRepository } from '../repositories/identity.repository';
+import { identityLinksCounter } from '../observability/metrics';
+
+// Every identifier of one person, as resolved at query time
+export interface ResolvedIdentity {
+  canonicalUserId: string;
+  // canonicalUserId followed by every linked identifier
+  userIds: string[];
+  links: IdentityLinkInfo[];
+}
+
+// identifier should belong to userId, according to an identify or alias event
+type LinkCandidate = Omit<IdentityLinkInfo, 'canonicalUserId'> & { userId: string };
+
+function linkCandidates(event: NormalizedEvent): LinkCandidate[] {
+  const base = { userId: event.userId, eventId: event.eventId, linkedAt: event.occurredAt };
+  const candidates: LinkCandidate[] = [];
+
+  if (event.type === EventType.IDENTIFY) {
+    if (event.anonymousId) {
+      candidates.push({ ...base, identifier: event.anonymousId, kind: 'anonymous', via: 'identify' });
+    }
+    const deviceId = event.context?.device?.id;
+    if (typeof deviceId === 'string' && deviceId !== '') {
+      candidates.push({ ...base, identifier: deviceId, kind: 'device', via: 'identify' });
+    }
+  } else if (event.type === EventType.ALIAS) {
+    const previousId = event.payload?.previousId;
+    if (typeof previousId === 'string' && previousId !== '') {
+      candidates.push({ ...base, identifier: previousId, kind: 'user', via: 'alias' });
+    }
+  }
+
+  return candidates.filter((candidate) => candidate.identifier !== candidate.userId);
+}
+
+// Identity graph: links anonymous IDs, device IDs and earlier user IDs to a canonical
+// user from identify and alias events, so queries can merge everything one person did.
+//
+// An identify keeps an identifier with the first user it was linked to (shared
+// devices do not merge users); an alias moves it, together with everything already
+// linked to it.
+export class IdentityResolver {
+  constructor(private repository: IdentityRepository) {}
+
+  /**
+   * Record the links carried by a batch of stored events. Events are processed in
+   * order because a later alias can merge users linked earlier in the batch.
+   *
+   * @returns number of links created or moved
+   */
+  async recordLinks(events: NormalizedEvent[]): Promise<number> {
+    let linked = 0;
+
+    for (const event of events) {
+      for (const candidate of linkCandidates(event)) {
+        if (await this.link(candidate)) {
+          linked++;
+        }
+      }
+    }
+
+    return linked;
+  }
+
+  async resolve(userId: string): Promise<ResolvedIdentity> {
+    const link = await this.repository.findLink(userId);
+    const canonicalUserId = link?.canonicalUserId ?? userId;
+    const links = await this.repository.findLinksOf(canonicalUserId);
+
+    return {
+      canonicalUserId,
+      userIds: [canonicalUserId, ...links.map((l) => l.identifier)],
+      links,
+    };
+  }
+
+  /**
+   * Detach an identifier from its canonical user. Its events are reported as a
+   * separate user again until a new identify or alias links it.
+   *
+   * @returns the removed link, or null when the identifier was not linked
+   */
+  async unlink(identifier: string): Promise<IdentityLinkInfo | null> {
+    return this.repository.deleteLink(identifier);
+  }
+
+  private async link(candidate: LinkCandidate): Promise<boolean> {
+    const { userId, ...link } = candidate;
+    const target = await this.repository.findLink(userId);
+    const canonicalUserId = target?.canonicalUserId ?? userId;
+
+    // Already the same person (e.g. an alias pointing back at the canonical user)
+    if (canonicalUserId === link.identifier) {
+      return false;
+    }
+
+    const changed = await this.repository.upsertLink({ ...link, canonicalUserId }, link.via === 'alias');
+    if (!changed) {
+      return false;
+    }
+
+    // Keep the graph flat when the identifier was itself a canonical user
+    await this.repository.moveLinks(link.identifier, canonicalUserId);
+    identityLinksCounter.inc({ via: link.via });
+    return true;
+  }
+}
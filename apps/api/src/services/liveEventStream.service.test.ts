@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventType } from '@martech/types';
+import { LiveEventStream, type LiveSubscription } from './liveEventStream.service';
+import type { NormalizedEvent } from '../repositories/event.repository';
+
+const settings = { maxConnections: 2, maxEventsPerSecond: 5, heartbeatMs: 15000 };
+
+let counter = 0;
+const createEvent = (overrides: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  eventId: `e${++counter}`,
+  userId: 'u1',
+  sessionId: 's1',
+  type: EventType.PAGE_VIEW,
+  payload: {},
+  occurredAt: new Date(0),
+  receivedAt: new Date(0),
+  ...overrides,
+});
+
+const subscription = (overrides: Partial<LiveSubscription> = {}): LiveSubscription => ({
+  filter: {},
+  sampleRate: 1,
+  maxEventsPerSecond: 5,
+  ...overrides,
+});
+
+const createSubscriber = (accepts = true) => ({ send: vi.fn().mockReturnValue(accepts), close: vi.fn() });
+
+describe('LiveEventStream', () => {
+  it('sends only events matching every criterion of the filter', () => {
+    const stream = new LiveEventStream(settings);
+    const subscriber = createSubscriber();
+    stream.subscribe(
+      subscription({
+        filter: { userId: 'u1', types: ['purchase'], sourceId: 'web', where: { 'payload.plan': ['pro', 'team'] } },
+      }),
+      subscriber,
+      0
+    );
+
+    const match = createEvent({ type: EventType.PURCHASE, sourceId: 'web', payload: { plan: 'team' } });
+    stream.publish(match, 0);
+    stream.publish(createEvent({ type: EventType.PURCHASE, sourceId: 'web', payload: { plan: 'free' } }), 0);
+    stream.publish(createEvent({ type: EventType.PAGE_VIEW, sourceId: 'web', payload: { plan: 'pro' } }), 0);
+    stream.publish(createEvent({ type: EventType.PURCHASE, sourceId: 'ios', payload: { plan: 'pro' } }), 0);
+    stream.publish(
+      createEvent({ userId: 'u2', type: EventType.PURCHASE, sourceId: 'web', payload: { plan: 'pro' } }),
+      0
+    );
+
+    expect(subscriber.send).toHaveBeenCalledTimes(1);
+    expect(subscriber.send).toHaveBeenCalledWith(match);
+  });
+
+  it('samples matching events', () => {
+    const random = vi.fn().mockReturnValueOnce(0.1).mockReturnValueOnce(0.9);
+    const stream = new LiveEventStream(settings, random);
+    const subscriber = createSubscriber();
+    stream.subscribe(subscription({ sampleRate: 0.5 }), subscriber, 0);
+
+    stream.publish(createEvent(), 0);
+    stream.publish(createEvent(), 0);
+
+    expect(subscriber.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps the rate of a connection and refills it over time', () => {
+    const stream = new LiveEventStream(settings);
+    const subscriber = createSubscriber();
+    // Asking for more than the configured maximum gets the maximum
+    const connection = stream.subscribe(subscription({ maxEventsPerSecond: 100 }), subscriber, 0);
+
+    for (let i = 0; i < 8; i++) {
+      stream.publish(createEvent(), 0);
+    }
+    expect(connection?.stats()).toEqual({ sent: 5, rateLimited: 3, slowClient: 0 });
+
+    stream.publish(createEvent(), 200);
+    expect(connection?.stats()).toEqual({ sent: 6, rateLimited: 3, slowClient: 0 });
+  });
+
+  it('counts events a slow client could not take without using up its rate', () => {
+    const stream = new LiveEventStream(settings);
+    const subscriber = createSubscriber(false);
+    const connection = stream.subscribe(subscription({ maxEventsPerSecond: 1 }), subscriber, 0);
+
+    stream.publish(createEvent(), 0);
+    stream.publish(createEvent(), 0);
+
+    expect(connection?.stats()).toEqual({ sent: 0, rateLimited: 0, slowClient: 2 });
+  });
+
+  it('keeps publishing to other connections when one fails', () => {
+    const stream = new LiveEventStream(settings);
+    const failing = { send: vi.fn().mockImplementation(() => { throw new Error('socket closed'); }), close: vi.fn() };
+    const subscriber = createSubscriber();
+    stream.subscribe(subscription(), failing, 0);
+    stream.subscribe(subscription(), subscriber, 0);
+    const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => stream.publish(createEvent(), 0)).not.toThrow();
+    expect(subscriber.send).toHaveBeenCalledTimes(1);
+
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('refuses connections over the limit until one unsubscribes, and closes the rest', () => {
+    const stream = new LiveEventStream(settings);
+    const first = createSubscriber();
+    const second = createSubscriber();
+    const connection = stream.subscribe(subscription(), first);
+    stream.subscribe(subscription(), second);
+
+    expect(stream.subscribe(subscription(), createSubscriber())).toBeNull();
+
+    connection?.unsubscribe();
+    expect(stream.connectionCount).toBe(1);
+    expect(stream.subscribe(subscription(), createSubscriber())).not.toBeNull();
+
+    stream.close();
+    expect(second.close).toHaveBeenCalled();
+    expect(first.close).not.toHaveBeenCalled();
+    expect(stream.connectionCount).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import type { NormalizedEvent } from '../repositories/event.repository';
+import { conditionMatcher } from '../utils/eventTransforms';
+import { liveStreamConnectionsGauge, liveStreamEventsCounter } from '../observability/metrics';
+import { errorMessage } from '../utils/errors';
+
+export interface LiveStreamSettings {
+  maxConnections: number;  // 0 turns the stream off
+  maxEventsPerSecond: number;  // Highest rate a connection may ask for
+  heartbeatMs: number;
+}
+
+// Events a connection wants; every given criterion must match
+export interface LiveStreamFilter {
+  userId?: string;
+  types?: string[];
+  sourceId?: string;
+  // Paths such as "payload.plan" to a value or an array of accepted values, as in
+  // the conditions of the transformation pipeline
+  where?: Record<string, unknown>;
+}
+
+export interface LiveSubscription {
+  filter: LiveStreamFilter;
+  sampleRate: number;  // Share of matching events sent, 0 < rate <= 1
+  maxEventsPerSecond: number;
+}
+
+// Receives the events of one connection
+export interface LiveSubscriber {
+  // Returns false when the client is not reading fast enough and the event was skipped
+  send(event: NormalizedEvent): boolean;
+  close(): void;
+}
+
+// Matching events of a connection so far, by outcome
+export interface LiveConnectionStats {
+  sent: number;
+  rateLimited: number;
+  slowClient: number;
+}
+
+interface Connection {
+  subscriber: LiveSubscriber;
+  matches: (event: NormalizedEvent) => boolean;
+  sampleRate: number;
+  eventsPerSecond: number;
+  tokens: number;
+  updatedAt: number;
+  stats: LiveConnectionStats;
+}
+
+export interface LiveConnection {
+  stats(): LiveConnectionStats;
+  unsubscribe(): void;
+}
+
+/**
+ * Fans accepted events out to the dashboard's live view (GET /events/live). publish()
+ * runs on the ingestion path for every event, so with no connection it returns at
+ * once, and each connection is protected by sampling and a token bucket rather than
+ * buffering: events over the rate, or sent while the client is still reading earlier
+ * ones, are skipped and counted.
+ *
+ * Connections are per instance; behind a load balancer a client sees the events
+ * accepted by the instance it is connected to.
+ */
+export class LiveEventStream {
+  private connections = new Set<Connection>();
+
+  constructor(
+    private readonly settings: LiveStreamSettings,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  get enabled(): boolean {
+    return this.settings.maxConnections > 0;
+  }
+
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Start sending matching events to a subscriber
+   *
+   * @returns the connection, or null when maxConnections are already open
+   */
+  subscribe(subscription: LiveSubscription, subscriber: LiveSubscriber, now = Date.now()): LiveConnection | null {
+    if (this.connections.size >= this.settings.maxConnections) {
+      return null;
+    }
+
+    const { userId, types, sourceId, where } = subscription.filter;
+    const eventsPerSecond = Math.min(subscription.maxEventsPerSecond, this.settings.maxEventsPerSecond);
+    const connection: Connection = {
+      subscriber,
+      matches: conditionMatcher({
+        ...(types && { eventType: types }),
+        where: { ...where, ...(userId && { userId }), ...(sourceId && { sourceId }) },
+      }),
+      sampleRate: subscription.sampleRate,
+      eventsPerSecond,
+      tokens: eventsPerSecond,
+      updatedAt: now,
+      stats: { sent: 0, rateLimited: 0, slowClient: 0 },
+    };
+
+    this.connections.add(connection);
+    liveStreamConnectionsGauge.set(this.connections.size);
+
+    return {
+      stats: () => ({ ...connection.stats }),
+      unsubscribe: () => {
+        this.connections.delete(connection);
+        liveStreamConnectionsGauge.set(this.connections.size);
+      },
+    };
+  }
+
+  // Called for every accepted event; must never throw into the ingestion path
+  publish(event: NormalizedEvent, now = Date.now()): void {
+    if (this.connections.size === 0) {
+      return;
+    }
+
+    for (const connection of this.connections) {
+      try {
+        if (!connection.matches(event) || (connection.sampleRate < 1 && this.random() >= connection.sampleRate)) {
+          continue;
+        }
+
+        const elapsedSeconds = Math.max(0, now - connection.updatedAt) / 1000;
+        connection.tokens = Math.min(
+          connection.eventsPerSecond,
+          connection.tokens + elapsedSeconds * connection.eventsPerSecond
+        );
+        connection.updatedAt = now;
+        if (connection.tokens < 1) {
+          connection.stats.rateLimited++;
+          liveStreamEventsCounter.inc({ status: 'rate_limited' });
+          continue;
+        }
+
+        if (connection.subscriber.send(event)) {
+          connection.tokens--;
+          connection.stats.sent++;
+          liveStreamEventsCounter.inc({ status: 'sent' });
+        } else {
+          connection.stats.slowClient++;
+          liveStreamEventsCounter.inc({ status: 'slow_client' });
+        }
+      } catch (error) {
+        console.error('[LiveEventStream] Sending event failed:', errorMessage(error));
+      }
+    }
+  }
+
+  // End every connection, at shutdown
+  close(): void {
+    for (const connection of this.connections) {
+      connection.subscriber.close();
+    }
+    this.connections.clear();
+    liveStreamConnectionsGauge.set(0);
+  }
+}
@@ -0,0 +1,102 @@
+import type { IRedactionRule } from '../models/RedactionRuleSet';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { RedactionRuleRepository, RedactionRuleSetEntry } from '../repositories/redactionRule.repository';
+import { type RedactionCount, redactPayload } from '../utils/piiRedaction';
+import { piiRedactionCounter } from '../observability/metrics';
+
+// Rule set applied to every event type, before the type's own rules
+export const ALL_EVENT_TYPES = '*';
+
+// In-memory view of the PII redaction rules used on the ingestion hot path.
+//
+// Like the payload schema registry, the cache is loaded at startup, updated on
+// every write made through this instance and reloaded on an interval so changes
+// made through other API instances are picked up.
+export class PayloadRedactor {
+  private entries = new Map<string, RedactionRuleSetEntry>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private repository: RedactionRuleRepository,
+    private readonly hashSalt?: string,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  async load(): Promise<void> {
+    const entries = await this.repository.findAll();
+    this.entries = new Map(entries.map((entry) => [entry.eventType, entry]));
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.load().catch((error) => {
+        // Keep applying the last known rules until the database is reachable again
+        console.error('[PayloadRedactor] Refresh failed:', error.message);
+      });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Hash rules need PII_HASH_SALT; without it they would mask instead
+  get canHash(): boolean {
+    return Boolean(this.hashSalt);
+  }
+
+  /**
+   * Redact the payload of a normalized event in place with the "*" rules and the
+   * rules of its event type
+   *
+   * @returns what was redacted, empty when nothing matched
+   */
+  redact(event: NormalizedEvent): RedactionCount[] {
+    const rules = [
+      ...(this.entries.get(ALL_EVENT_TYPES)?.rules ?? []),
+      ...(this.entries.get(event.type)?.rules ?? []),
+    ];
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const counts = redactPayload(event.payload, rules, this.hashSalt);
+    for (const { match, action, count } of counts) {
+      piiRedactionCounter.inc({ event_type: event.type, match, action }, count);
+    }
+    return counts;
+  }
+
+  list(): RedactionRuleSetEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.eventType.localeCompare(b.eventType));
+  }
+
+  get(eventType: string): RedactionRuleSetEntry | null {
+    return this.entries.get(eventType) ?? null;
+  }
+
+  // Callers validate the rules with checkRedactionRules() first
+  async set(
+    eventType: string,
+    rules: IRedactionRule[],
+    updatedBy?: string
+  ): Promise<{ entry: RedactionRuleSetEntry; created: boolean }> {
+    const result = await this.repository.upsert(eventType, rules, updatedBy);
+    this.entries.set(eventType, result.entry);
+    return result;
+  }
+
+  async remove(eventType: string): Promise<boolean> {
+    const deleted = await this.repository.delete(eventType);
+    this.entries.delete(eventType);
+    return deleted;
+  }
+}
@@ -0,0 +1,126 @@
+import type { PayloadSchemaMode } from '../models/PayloadSchema';
+import type { PayloadSchemaEntry, PayloadSchemaRepository } from '../repositories/payloadSchema.repository';
+import {
+  type PayloadViolation,
+  compilePatterns,
+  validatePayload,
+  type JsonSchema,
+} from '../validators/payloadSchema.validator';
+
+// Result of checking one payload against the current schema of its event type
+export interface PayloadSchemaCheck {
+  mode: Exclude<PayloadSchemaMode, 'off'>;
+  version: number;
+  violations: PayloadViolation[];
+}
+
+// In-memory view of the tracking plan used on the ingestion hot path.
+//
+// Lookups never touch MongoDB: the cache is loaded at startup, updated on every
+// write made through this instance, and reloaded on an interval so changes made
+// through other API instances are picked up.
+export class PayloadSchemaRegistry {
+  private entries = new Map<string, PayloadSchemaEntry>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private repository: PayloadSchemaRepository,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  async load(): Promise<void> {
+    const entries = await this.repository.findAll();
+    for (const entry of entries) {
+      this.compile(entry);
+    }
+    this.entries = new Map(entries.map((entry) => [entry.eventType, entry]));
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.load().catch((error) => {
+        // Keep serving the last known schemas until the database is reachable again
+        console.error('[PayloadSchemaRegistry] Refresh failed:', error.message);
+      });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Validate a payload against the current schema version of its event type
+   *
+   * @returns null when the type has no schema, validation is off, or the payload is valid
+   */
+  check(eventType: string, payload: unknown): PayloadSchemaCheck | null {
+    const entry = this.entries.get(eventType);
+    if (!entry || entry.mode === 'off') {
+      return null;
+    }
+
+    const current = entry.versions.find((version) => version.version === entry.currentVersion);
+    if (!current) {
+      return null;
+    }
+
+    const violations = validatePayload(current.schema, payload);
+    if (violations.length === 0) {
+      return null;
+    }
+
+    return { mode: entry.mode, version: current.version, violations };
+  }
+
+  list(): PayloadSchemaEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.eventType.localeCompare(b.eventType));
+  }
+
+  get(eventType: string): PayloadSchemaEntry | null {
+    return this.entries.get(eventType) ?? null;
+  }
+
+  // Callers validate the schema with checkSchemaDefinition() first
+  async register(
+    eventType: string,
+    schema: JsonSchema,
+    options: { mode?: PayloadSchemaMode; createdBy?: string } = {}
+  ): Promise<PayloadSchemaEntry> {
+    const entry = await this.repository.addVersion(eventType, schema, options);
+    this.compile(entry);
+    this.entries.set(eventType, entry);
+    return entry;
+  }
+
+  async setMode(eventType: string, mode: PayloadSchemaMode): Promise<PayloadSchemaEntry | null> {
+    const entry = await this.repository.setMode(eventType, mode);
+    if (entry) {
+      this.compile(entry);
+      this.entries.set(eventType, entry);
+    }
+    return entry;
+  }
+
+  async remove(eventType: string): Promise<boolean> {
+    const deleted = await this.repository.delete(eventType);
+    this.entries.delete(eventType);
+    return deleted;
+  }
+
+  // Only the current version is validated against
+  private compile(entry: PayloadSchemaEntry): void {
+    const current = entry.versions.find((version) => version.version === entry.currentVersion);
+    if (current) {
+      compilePatterns(current.schema);
+    }
+  }
+}
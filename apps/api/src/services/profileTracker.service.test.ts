@@ -0,0 +1,234 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventType, type IUserProfile } from '@martech/types';
+import { ProfileTracker, mergeProfiles, summarizeProfiles } from './profileTracker.service';
+import type { IdentityResolver } from './identityResolver.service';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { SessionDelta } from '../repositories/session.repository';
+import {
+  type ProfileRepository,
+  emptyProfileDelta,
+  profileUpdate,
+  traitsExpression,
+} from '../repositories/profile.repository';
+
+let counter = 0;
+const at = (minute: number) => new Date(Date.UTC(2024, 2, 1, 10, minute));
+const createEvent = (overrides: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  eventId: `e${++counter}`,
+  userId: 'u1',
+  sessionId: 's1',
+  type: EventType.BUTTON_CLICK,
+  payload: {},
+  occurredAt: at(0),
+  receivedAt: at(1),
+  ...overrides,
+});
+
+const createProfile = (overrides: Partial<IUserProfile> = {}): IUserProfile => ({
+  userId: 'u1',
+  createdAt: at(0),
+  updatedAt: at(0),
+  eventCount: 1,
+  sessionCount: 1,
+  traits: {},
+  computed: { eventTypeCounts: { button_click: 1 }, purchaseCount: 0, totalRevenue: 0 },
+  ...overrides,
+});
+
+describe('summarizeProfiles', () => {
+  it('counts events, purchases and started sessions per user', () => {
+    const [u1, u2] = summarizeProfiles(
+      [
+        createEvent({ occurredAt: at(5) }),
+        createEvent({ type: EventType.PURCHASE, payload: { revenue: 20 }, occurredAt: at(3) }),
+        createEvent({ type: EventType.PURCHASE, payload: { total: '12' }, occurredAt: at(4) }),
+        createEvent({ userId: 'u2', excluded: true, occurredAt: at(6) }),
+      ],
+      [
+        { sessionId: 's1', userId: 'u1' } as SessionDelta,
+        { sessionId: 's2', userId: 'u2', excluded: true } as SessionDelta,
+      ]
+    );
+
+    expect(u1).toMatchObject({
+      userId: 'u1',
+      eventCount: 3,
+      sessionCount: 1,
+      firstSeenAt: at(3),
+      lastEventAt: at(5),
+      eventTypeCounts: { purchase: 2, button_click: 1 },
+      purchaseCount: 2,
+      revenue: 20,
+      lastPurchaseAt: at(4),
+      excludedEventCount: 0,
+    });
+    expect(u2).toMatchObject({ userId: 'u2', eventCount: 0, sessionCount: 0, eventTypeCounts: {}, excludedEventCount: 1 });
+    expect(u2).not.toHaveProperty('lastEventAt');
+  });
+
+  it('keeps the latest value of each identify trait in the batch', () => {
+    const [delta] = summarizeProfiles([
+      createEvent({ type: EventType.IDENTIFY, payload: { plan: 'pro', email: 'a@example.com' }, occurredAt: at(2) }),
+      createEvent({ type: EventType.IDENTIFY, payload: { plan: 'free' }, occurredAt: at(1) }),
+    ]);
+
+    expect(delta.traits).toEqual({ set: { plan: 'pro', email: 'a@example.com' } });
+  });
+});
+
+describe('traitsExpression', () => {
+  it('lets set_once fill missing traits only and computes increments from the stored value', () => {
+    const expression = traitsExpression({
+      set_once: { source: '$ads' },
+      set: { plan: 'pro' },
+      increment: { logins: 2 },
+      append: { tags: 'beta' },
+    }) as { $mergeObjects: unknown[] };
+
+    const [setOnce, current, set, increment, append] = expression.$mergeObjects;
+    expect(setOnce).toEqual({ $literal: { source: '$ads' } });
+    expect(current).toEqual({ $ifNull: ['$traits', {}] });
+    expect(set).toEqual({ $literal: { plan: 'pro' } });
+    expect(increment).toEqual({
+      logins: { $add: [{ $cond: [{ $isNumber: '$traits.logins' }, '$traits.logins', 0] }, 2] },
+    });
+    expect(append).toMatchObject({
+      tags: { $slice: [{ $concatArrays: [expect.anything(), { $literal: ['beta'] }] }, expect.any(Number)] },
+    });
+  });
+});
+
+describe('profileUpdate', () => {
+  it('only touches the counters a delta has', () => {
+    const [stage] = profileUpdate({
+      ...emptyProfileDelta('u1'),
+      eventCount: 2,
+      eventTypeCounts: { page_view: 2 },
+      lastEventAt: at(5),
+    });
+    const { $set: fields } = stage as { $set: Record<string, unknown> };
+
+    expect(fields.eventCount).toEqual({ $add: [{ $ifNull: ['$eventCount', 0] }, 2] });
+    expect(fields['computed.eventTypeCounts.page_view']).toEqual({
+      $add: [{ $ifNull: ['$computed.eventTypeCounts.page_view', 0] }, 2],
+    });
+    expect(fields.lastEventAt).toEqual({ $max: ['$lastEventAt', at(5)] });
+    expect(fields).not.toHaveProperty('firstSeenAt');
+    expect(fields).not.toHaveProperty('traits');
+    expect(fields).not.toHaveProperty(['computed.purchaseCount']);
+    expect(fields).not.toHaveProperty('excludedEventCount');
+  });
+
+  it('only excludes a profile none of whose events count', () => {
+    const [, { $set: fields }] = profileUpdate({ ...emptyProfileDelta('u1'), excludedEventCount: 1 }) as {
+      $set: Record<string, unknown>;
+    }[];
+
+    expect(fields.excluded).toEqual({
+      $and: [{ $eq: ['$eventCount', 0] }, { $gt: [{ $ifNull: ['$excludedEventCount', 0] }, 0] }],
+    });
+  });
+});
+
+describe('mergeProfiles', () => {
+  it('adds up linked profiles and keeps the traits of the first', () => {
+    const merged = mergeProfiles([
+      createProfile({ traits: { plan: 'pro' }, lastEventAt: at(10) }),
+      createProfile({
+        userId: 'anon-1',
+        firstSeenAt: at(0),
+        lastEventAt: at(5),
+        traits: { plan: 'free', referrer: 'ads' },
+        computed: { eventTypeCounts: { button_click: 1, purchase: 1 }, purchaseCount: 1, totalRevenue: 30 },
+      }),
+    ]);
+
+    expect(merged).toMatchObject({
+      userId: 'u1',
+      eventCount: 2,
+      sessionCount: 2,
+      firstSeenAt: at(0),
+      lastEventAt: at(10),
+      traits: { plan: 'pro', referrer: 'ads' },
+      computed: {
+        eventTypeCounts: { button_click: 2, purchase: 1 },
+        purchaseCount: 1,
+        totalRevenue: 30,
+        averageOrderValue: 30,
+      },
+    });
+  });
+
+  it('only excludes the person when all linked profiles are', () => {
+    const excluded = createProfile({ eventCount: 0, excludedEventCount: 2, excluded: true });
+
+    expect(mergeProfiles([excluded, createProfile({ userId: 'anon-1' })])).not.toHaveProperty('excluded');
+    expect(mergeProfiles([excluded, { ...excluded, userId: 'anon-1' }])).toMatchObject({
+      excludedEventCount: 4,
+      excluded: true,
+    });
+  });
+});
+
+describe('ProfileTracker', () => {
+  function createTracker(profiles: IUserProfile[]) {
+    const repository = {
+      applyDeltas: vi.fn().mockResolvedValue(undefined),
+      removeDeltas: vi.fn().mockResolvedValue(undefined),
+      findByIds: vi.fn().mockResolvedValue(profiles),
+    };
+    const identities = {
+      resolve: vi.fn().mockResolvedValue({ canonicalUserId: 'u1', userIds: ['u1', 'anon-1'], links: [] }),
+    } as unknown as IdentityResolver;
+    return { tracker: new ProfileTracker(repository as unknown as ProfileRepository, identities), repository };
+  }
+
+  it('merges the profiles of linked identities, canonical user first', async () => {
+    const { tracker, repository } = createTracker([
+      createProfile({ userId: 'anon-1', traits: { plan: 'free' } }),
+      createProfile({ traits: { plan: 'pro' } }),
+    ]);
+
+    const profile = await tracker.getProfile('anon-1');
+
+    expect(repository.findByIds).toHaveBeenCalledWith(['u1', 'anon-1']);
+    expect(profile).toMatchObject({
+      userId: 'anon-1',
+      canonicalUserId: 'u1',
+      identities: ['u1', 'anon-1'],
+      eventCount: 2,
+      traits: { plan: 'pro' },
+    });
+  });
+
+  it('takes removed events and the sessions they ended back out of the counts', async () => {
+    const { tracker, repository } = createTracker([]);
+
+    await tracker.removeEvents(
+      [createEvent(), createEvent({ type: EventType.PURCHASE, payload: { revenue: 20 }, occurredAt: at(3) })],
+      [{ sessionId: 's1', userId: 'u1', excluded: false } as SessionDelta]
+    );
+
+    expect(repository.removeDeltas).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: 'u1',
+        eventCount: -2,
+        sessionCount: -1,
+        eventTypeCounts: { button_click: -1, purchase: -1 },
+        purchaseCount: -1,
+        revenue: -20,
+      }),
+    ]);
+    expect(repository.removeDeltas.mock.calls[0][0][0]).not.toHaveProperty('lastEventAt');
+  });
+
+  it('applies trait updates to the canonical user', async () => {
+    const { tracker, repository } = createTracker([createProfile()]);
+
+    await tracker.updateTraits('anon-1', { increment: { logins: 1 } });
+
+    expect(repository.applyDeltas).toHaveBeenCalledWith([
+      expect.objectContaining({ userId: 'u1', eventCount: 0, traits: { increment: { logins: 1 } } }),
+    ]);
+  });
+});
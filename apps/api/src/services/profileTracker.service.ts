@@ -0,0 +1,228 @@
+import { EventType, type ITraitUpdate, type IUserProfile } from '@martech/types';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { SessionDelta } from '../repositories/session.repository';
+import {
+  type ProfileDelta,
+  type ProfileListOptions,
+  type ProfileRepository,
+  emptyProfileDelta,
+} from '../repositories/profile.repository';
+import type { IdentityResolver } from './identityResolver.service';
+import { identifyTraits } from '../utils/traits';
+
+// Payload fields read as the revenue of a purchase, first match wins
+const REVENUE_FIELDS = ['revenue', 'total', 'value', 'amount'];
+
+export type UserProfileView = IUserProfile & { canonicalUserId?: string; identities?: string[] };
+
+// Revenue of a purchase event, when its payload has a numeric one
+export function revenueOf(event: NormalizedEvent): number | undefined {
+  const payload = event.payload ?? {};
+  for (const field of REVENUE_FIELDS) {
+    const value = payload[field];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Group a batch of stored events into one delta per user. Identify traits are
+ * folded in occurredAt order, so the latest value of a trait in the batch wins.
+ * Sessions count for the user of the event that started them. Events flagged by
+ * the traffic filter, and the sessions they are in, are only counted as excluded.
+ */
+export function summarizeProfiles(events: NormalizedEvent[], startedSessions: SessionDelta[] = []): ProfileDelta[] {
+  const deltas = new Map<string, ProfileDelta>();
+  const deltaOf = (userId: string): ProfileDelta => {
+    let delta = deltas.get(userId);
+    if (!delta) {
+      delta = emptyProfileDelta(userId);
+      deltas.set(userId, delta);
+    }
+    return delta;
+  };
+  const ordered = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  for (const event of ordered) {
+    const delta = deltaOf(event.userId);
+    if (event.excluded) {
+      delta.excludedEventCount++;
+      continue;
+    }
+
+    delta.eventCount++;
+    delta.firstSeenAt = delta.firstSeenAt ?? event.occurredAt;
+    delta.lastEventAt = event.occurredAt;
+    delta.eventTypeCounts[event.type] = (delta.eventTypeCounts[event.type] ?? 0) + 1;
+
+    if (event.type === EventType.PURCHASE) {
+      delta.purchaseCount++;
+      delta.revenue += revenueOf(event) ?? 0;
+      delta.lastPurchaseAt = event.occurredAt;
+    }
+    if (event.type === EventType.IDENTIFY) {
+      const traits = identifyTraits(event.payload);
+      if (traits) {
+        delta.traits = { set: { ...delta.traits?.set, ...traits.set } };
+      }
+    }
+  }
+
+  for (const session of startedSessions) {
+    if (!session.excluded) {
+      deltaOf(session.userId).sessionCount++;
+    }
+  }
+
+  return Array.from(deltas.values());
+}
+
+// Delta taking a batch's counts back out of a profile; times and traits stay
+function negated(delta: ProfileDelta): ProfileDelta {
+  return {
+    ...emptyProfileDelta(delta.userId),
+    eventCount: -delta.eventCount,
+    sessionCount: -delta.sessionCount,
+    eventTypeCounts: Object.fromEntries(Object.entries(delta.eventTypeCounts).map(([type, count]) => [type, -count])),
+    purchaseCount: -delta.purchaseCount,
+    revenue: -delta.revenue,
+    excludedEventCount: -delta.excludedEventCount,
+  };
+}
+
+/**
+ * One profile for a person whose identifiers each have their own. Counts add up,
+ * the earliest/latest times are kept and, for traits, the first profile wins.
+ * The person is excluded only when all of the profiles are.
+ */
+export function mergeProfiles(profiles: IUserProfile[]): IUserProfile {
+  const [first, ...others] = profiles;
+  const merged: IUserProfile = {
+    ...first,
+    traits: { ...first.traits },
+    computed: { ...first.computed, eventTypeCounts: { ...first.computed.eventTypeCounts } },
+  };
+
+  for (const profile of others) {
+    merged.eventCount += profile.eventCount;
+    merged.sessionCount += profile.sessionCount;
+    if (profile.excludedEventCount) {
+      merged.excludedEventCount = (merged.excludedEventCount ?? 0) + profile.excludedEventCount;
+    }
+    merged.traits = { ...profile.traits, ...merged.traits };
+    merged.email = merged.email ?? profile.email;
+    merged.name = merged.name ?? profile.name;
+    if (profile.createdAt < merged.createdAt) {
+      merged.createdAt = profile.createdAt;
+    }
+    if (profile.updatedAt > merged.updatedAt) {
+      merged.updatedAt = profile.updatedAt;
+    }
+    if (profile.firstSeenAt && (!merged.firstSeenAt || profile.firstSeenAt < merged.firstSeenAt)) {
+      merged.firstSeenAt = profile.firstSeenAt;
+    }
+    if (profile.lastEventAt && (!merged.lastEventAt || profile.lastEventAt > merged.lastEventAt)) {
+      merged.lastEventAt = profile.lastEventAt;
+    }
+    if (!profile.excluded) {
+      delete merged.excluded;
+    }
+
+    const computed = merged.computed;
+    for (const [type, count] of Object.entries(profile.computed.eventTypeCounts)) {
+      computed.eventTypeCounts[type] = (computed.eventTypeCounts[type] ?? 0) + count;
+    }
+    computed.purchaseCount += profile.computed.purchaseCount;
+    computed.totalRevenue += profile.computed.totalRevenue;
+    const lastPurchaseAt = profile.computed.lastPurchaseAt;
+    if (lastPurchaseAt && (!computed.lastPurchaseAt || lastPurchaseAt > computed.lastPurchaseAt)) {
+      computed.lastPurchaseAt = lastPurchaseAt;
+    }
+  }
+
+  if (merged.computed.purchaseCount > 0) {
+    merged.computed.averageOrderValue = merged.computed.totalRevenue / merged.computed.purchaseCount;
+  }
+
+  return merged;
+}
+
+// Keeps the profiles collection up to date from the batches the ingestion buffer
+// stores, and applies trait updates made through the API. Profiles are kept per
+// userId; reads merge those of identities linked through identify and alias calls.
+export class ProfileTracker {
+  constructor(
+    private repository: ProfileRepository,
+    private identities?: IdentityResolver
+  ) {}
+
+  /**
+   * Fold a batch of newly stored events into their users' profiles. Events that
+   * were already stored must be left out, or they would be counted twice.
+   *
+   * @param startedSessions sessions created by this batch, as reported by SessionTracker
+   * @returns number of profiles updated
+   */
+  async recordEvents(events: NormalizedEvent[], startedSessions: SessionDelta[] = []): Promise<number> {
+    const deltas = summarizeProfiles(events, startedSessions);
+    await this.repository.applyDeltas(deltas);
+    return deltas.length;
+  }
+
+  /**
+   * Take deleted events (a rolled-back import) back out of their users' profiles
+   *
+   * @param endedSessions sessions these events were all of, as reported by SessionTracker
+   * @returns number of profiles updated
+   */
+  async removeEvents(events: NormalizedEvent[], endedSessions: SessionDelta[] = []): Promise<number> {
+    const deltas = summarizeProfiles(events, endedSessions).map(negated);
+    await this.repository.removeDeltas(deltas);
+    return deltas.length;
+  }
+
+  /**
+   * Profile of a user merged with those of its linked identities
+   *
+   * @returns null when none of them has a profile
+   */
+  async getProfile(userId: string): Promise<UserProfileView | null> {
+    const identity = this.identities ? await this.identities.resolve(userId) : null;
+    const userIds = identity ? identity.userIds : [userId];
+    const profiles = await this.repository.findByIds(userIds);
+    if (profiles.length === 0) {
+      return null;
+    }
+
+    // The canonical user's profile comes first, so its traits win
+    profiles.sort((a, b) => userIds.indexOf(a.userId) - userIds.indexOf(b.userId));
+    return {
+      ...mergeProfiles(profiles),
+      userId,
+      ...(identity && { canonicalUserId: identity.canonicalUserId, identities: identity.userIds }),
+    };
+  }
+
+  /**
+   * Apply a checked trait update (see checkTraitUpdate) to the profile of the
+   * canonical user, creating it when the user has none yet
+   */
+  async updateTraits(userId: string, update: ITraitUpdate): Promise<UserProfileView> {
+    const identity = this.identities ? await this.identities.resolve(userId) : null;
+    await this.repository.applyDeltas([
+      { ...emptyProfileDelta(identity?.canonicalUserId ?? userId), traits: update },
+    ]);
+
+    const profile = await this.getProfile(userId);
+    if (!profile) {
+      throw new Error(`Profile of ${userId} missing after update`);
+    }
+    return profile;
+  }
+
+  async list(options: ProfileListOptions = {}) {
+    return this.repository.list(options);
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IngestionRateLimiter, type RateLimitConfig } from './rateLimiter.service';
+import { SourceRepository } from '../repositories/source.repository';
+
+describe('IngestionRateLimiter', () => {
+  let repository: SourceRepository;
+  let limiter: IngestionRateLimiter;
+
+  const config: RateLimitConfig = {
+    source: { eventsPerSecond: 10, burst: 20 },
+    ip: { eventsPerSecond: 100, burst: 100 },
+    dailyQuota: 0,
+  };
+  const now = Date.parse('2025-01-15T12:00:00Z');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    repository = new SourceRepository();
+    vi.spyOn(repository, 'listSources').mockResolvedValue([]);
+    vi.spyOn(repository, 'findUsage').mockResolvedValue(new Map());
+    vi.spyOn(repository, 'incrementUsage').mockResolvedValue(undefined);
+
+    limiter = new IngestionRateLimiter(repository, config, 0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('allows a burst and then throttles the source', () => {
+    expect(limiter.consume({ sourceId: 'src_web', events: 20 }, now).allowed).toBe(true);
+
+    const decision = limiter.consume({ sourceId: 'src_web', events: 1 }, now);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.status?.scope).toBe('source');
+    expect(decision.retryAfterSeconds).toBe(1);
+  });
+
+  it('refills at the sustained rate', () => {
+    limiter.consume({ sourceId: 'src_web', events: 20 }, now);
+
+    expect(limiter.consume({ sourceId: 'src_web', events: 5 }, now + 500).allowed).toBe(true);
+    expect(limiter.consume({ sourceId: 'src_web', events: 1 }, now + 500).allowed).toBe(false);
+  });
+
+  it('keeps sources and IPs independent', () => {
+    limiter.consume({ sourceId: 'src_web', ip: '10.0.0.1', events: 20 }, now);
+
+    expect(limiter.consume({ sourceId: 'src_ios', ip: '10.0.0.2', events: 20 }, now).allowed).toBe(true);
+  });
+
+  it('throttles a client IP across sources', () => {
+    limiter.consume({ sourceId: 'src_a', ip: '10.0.0.1', events: 20 }, now);
+    limiter.consume({ sourceId: 'src_b', ip: '10.0.0.1', events: 20 }, now);
+    limiter.consume({ sourceId: 'src_c', ip: '10.0.0.1', events: 20 }, now);
+    limiter.consume({ sourceId: 'src_d', ip: '10.0.0.1', events: 20 }, now);
+    limiter.consume({ sourceId: 'src_e', ip: '10.0.0.1', events: 20 }, now);
+
+    const decision = limiter.consume({ sourceId: 'src_f', ip: '10.0.0.1', events: 1 }, now);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.status?.scope).toBe('ip');
+  });
+
+  it('does not consume tokens for a rejected request', () => {
+    limiter.consume({ sourceId: 'src_a', ip: '10.0.0.1', events: 100 }, now);
+
+    // Rejected by the IP bucket: the source bucket of src_b stays full
+    expect(limiter.consume({ sourceId: 'src_b', ip: '10.0.0.1', events: 20 }, now).allowed).toBe(false);
+    expect(limiter.consume({ sourceId: 'src_b', ip: '10.0.0.2', events: 20 }, now).allowed).toBe(true);
+  });
+
+  it('lets a batch larger than the burst through from a full bucket', () => {
+    expect(limiter.consume({ sourceId: 'src_web', events: 50 }, now).allowed).toBe(true);
+
+    // 30 events of debt take 5 seconds to pay back before 20 tokens are available again
+    expect(limiter.consume({ sourceId: 'src_web', events: 1 }, now + 3000).allowed).toBe(false);
+    expect(limiter.consume({ sourceId: 'src_web', events: 20 }, now + 5000).allowed).toBe(true);
+  });
+
+  it('reports the most constrained limit', () => {
+    const decision = limiter.consume({ sourceId: 'src_web', ip: '10.0.0.1', events: 15 }, now);
+
+    expect(decision.status).toEqual({ scope: 'source', limit: 20, remaining: 5, resetSeconds: 2 });
+    expect(decision.policies).toEqual(['20;w=2', '100;w=1']);
+  });
+
+  it('applies per-source overrides on top of the defaults', async () => {
+    vi.mocked(repository.listSources).mockResolvedValue([
+      { sourceId: 'src_big', name: 'Backend', limits: { burst: 100 }, createdAt: new Date(), updatedAt: new Date() },
+    ]);
+    await limiter.load(now);
+
+    expect(limiter.getSourceLimits('src_big')).toEqual({ eventsPerSecond: 10, burst: 100, dailyQuota: 0 });
+    expect(limiter.consume({ sourceId: 'src_big', events: 100 }, now).allowed).toBe(true);
+  });
+
+  it('does not limit sources when the rate is 0', () => {
+    limiter.setSourceLimits('src_unlimited', { eventsPerSecond: 0 });
+
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.consume({ sourceId: 'src_unlimited', events: 1000 }, now).allowed).toBe(true);
+    }
+  });
+
+  describe('daily quota', () => {
+    beforeEach(() => {
+      vi.mocked(repository.listSources).mockResolvedValue([
+        {
+          sourceId: 'src_web',
+          name: 'Website',
+          limits: { eventsPerSecond: 0, dailyQuota: 100 },
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ]);
+    });
+
+    it('rejects requests that would exceed the quota until the next UTC day', async () => {
+      vi.mocked(repository.findUsage).mockResolvedValue(new Map([['src_web', 90]]));
+      await limiter.load(now);
+
+      expect(limiter.consume({ sourceId: 'src_web', events: 10 }, now).allowed).toBe(true);
+
+      const decision = limiter.consume({ sourceId: 'src_web', events: 1 }, now);
+      expect(decision.allowed).toBe(false);
+      expect(decision.status?.scope).toBe('quota');
+      expect(decision.retryAfterSeconds).toBe(12 * 60 * 60);
+
+      expect(limiter.consume({ sourceId: 'src_web', events: 1 }, Date.parse('2025-01-16T00:00:01Z')).allowed).toBe(
+        true
+      );
+    });
+
+    it('adds local usage to the shared totals on refresh', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      limiter = new IngestionRateLimiter(repository, config, 1000);
+      await limiter.load();
+
+      limiter.consume({ sourceId: 'src_web', events: 7 });
+      limiter.startRefresh();
+      await vi.advanceTimersByTimeAsync(1000);
+      await limiter.stop();
+      vi.useRealTimers();
+
+      expect(repository.incrementUsage).toHaveBeenCalledWith([{ sourceId: 'src_web', day: '2025-01-15', events: 7 }]);
+    });
+
+    it('keeps counting usage when the flush fails', async () => {
+      vi.mocked(repository.incrementUsage).mockRejectedValueOnce(new Error('mongo down'));
+      await limiter.load(now);
+      limiter.consume({ sourceId: 'src_web', events: 60 }, now);
+
+      await expect(limiter.stop()).rejects.toThrow('mongo down');
+
+      expect(limiter.getUsage('src_web')).toBe(60);
+      expect(limiter.consume({ sourceId: 'src_web', events: 50 }, now).allowed).toBe(false);
+    });
+  });
+});
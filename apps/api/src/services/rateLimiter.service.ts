@@ -0,0 +1,324 @@
+import type { SourceLimits, SourceRepository, SourceUsageIncrement } from '../repositories/source.repository';
+
+export interface TokenBucketLimit {
+  eventsPerSecond: number;  // Sustained rate; 0 disables the limit
+  burst: number;  // Bucket capacity
+}
+
+export interface RateLimitConfig {
+  source: TokenBucketLimit;
+  ip: TokenBucketLimit;
+  dailyQuota: number;  // Events per source per UTC day; 0 = unlimited
+}
+
+export type RateLimitScope = 'source' | 'ip' | 'quota';
+
+// State of the most constrained limit that applied to a request, for the RateLimit-* headers
+export interface RateLimitStatus {
+  scope: RateLimitScope;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+// policies holds the RateLimit-Policy entries of every limit that applied
+export type RateLimitDecision =
+  | { allowed: true; status: RateLimitStatus | null; retryAfterSeconds?: undefined; policies: string[] }
+  | { allowed: false; status: RateLimitStatus; retryAfterSeconds: number; policies: string[] };
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface BucketCheck {
+  scope: RateLimitScope;
+  buckets: Map<string, Bucket>;
+  key: string;
+  limit: TokenBucketLimit;
+  bucket: Bucket;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function refill(bucket: Bucket | undefined, limit: TokenBucketLimit, now: number): Bucket {
+  if (!bucket) {
+    return { tokens: limit.burst, updatedAt: now };
+  }
+  const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+  return {
+    tokens: Math.min(limit.burst, bucket.tokens + elapsedSeconds * limit.eventsPerSecond),
+    updatedAt: now,
+  };
+}
+
+function policy(limit: TokenBucketLimit): string {
+  return `${limit.burst};w=${Math.max(1, Math.ceil(limit.burst / limit.eventsPerSecond))}`;
+}
+
+// Token-bucket rate limits per source and per client IP plus a daily event quota
+// per source, checked before POST /events touches the buffer.
+//
+// Buckets live in memory, so rates are enforced per API instance. Quota usage is
+// counted locally and added to per-day totals in MongoDB on each refresh, which
+// makes the quota cluster-wide with up to one refresh interval of overshoot.
+// A request costs one token per event, so batches are not a way around the limits.
+export class IngestionRateLimiter {
+  private sourceBuckets = new Map<string, Bucket>();
+  private ipBuckets = new Map<string, Bucket>();
+  private sourceLimits = new Map<string, SourceLimits>();
+  private usageDay = '';
+  private usage = new Map<string, number>();
+  private pending = new Map<string, SourceUsageIncrement>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  private readonly maxBuckets = 100000;
+
+  constructor(
+    private repository: SourceRepository,
+    private readonly config: RateLimitConfig,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  // Load per-source overrides and today's quota usage
+  async load(now = Date.now()): Promise<void> {
+    const day = utcDay(now);
+    const [sources, usage] = await Promise.all([
+      this.repository.listSources(),
+      this.repository.findUsage(day),
+    ]);
+
+    this.sourceLimits = new Map();
+    for (const { sourceId, limits } of sources) {
+      if (limits) {
+        this.sourceLimits.set(sourceId, limits);
+      }
+    }
+    this.usageDay = day;
+    this.usage = usage;
+    this.sweep(now);
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.flushUsage()
+        .then(() => this.load())
+        .catch((error) => {
+          // Keep limiting with the last known overrides and usage
+          console.error('[IngestionRateLimiter] Refresh failed:', error.message);
+        });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    await this.flushUsage();
+  }
+
+  // Apply an override change made through this instance without waiting for the refresh
+  setSourceLimits(sourceId: string, limits: SourceLimits | undefined): void {
+    if (limits) {
+      this.sourceLimits.set(sourceId, limits);
+    } else {
+      this.sourceLimits.delete(sourceId);
+    }
+    this.sourceBuckets.delete(sourceId);
+  }
+
+  // Limits in effect for a source: its overrides on top of the defaults
+  getSourceLimits(sourceId: string): TokenBucketLimit & { dailyQuota: number } {
+    const overrides = this.sourceLimits.get(sourceId);
+    return {
+      eventsPerSecond: overrides?.eventsPerSecond ?? this.config.source.eventsPerSecond,
+      burst: overrides?.burst ?? this.config.source.burst,
+      dailyQuota: overrides?.dailyQuota ?? this.config.dailyQuota,
+    };
+  }
+
+  /**
+   * Check a request of `events` events and consume tokens and quota if it is allowed
+   * Nothing is consumed when any limit rejects the request.
+   */
+  consume(request: { sourceId?: string; ip?: string; events: number }, now = Date.now()): RateLimitDecision {
+    const cost = Math.max(1, request.events);
+    const checks: BucketCheck[] = [];
+    const policies: string[] = [];
+
+    if (request.sourceId) {
+      const { eventsPerSecond, burst } = this.getSourceLimits(request.sourceId);
+      if (eventsPerSecond > 0) {
+        checks.push(this.prepare('source', this.sourceBuckets, request.sourceId, { eventsPerSecond, burst }, now));
+      }
+    }
+    if (request.ip && this.config.ip.eventsPerSecond > 0) {
+      checks.push(this.prepare('ip', this.ipBuckets, request.ip, this.config.ip, now));
+    }
+
+    let status: RateLimitStatus | null = null;
+    let rejection: { status: RateLimitStatus; retryAfterSeconds: number } | null = null;
+
+    for (const check of checks) {
+      const { limit, bucket } = check;
+      policies.push(policy(limit));
+
+      // A batch larger than the bucket is let through from a full bucket and leaves it in debt
+      const needed = Math.min(cost, limit.burst);
+      const checkStatus: RateLimitStatus = {
+        scope: check.scope,
+        limit: limit.burst,
+        remaining: Math.max(0, Math.floor(bucket.tokens - cost)),
+        resetSeconds: Math.ceil((limit.burst - bucket.tokens + cost) / limit.eventsPerSecond),
+      };
+
+      if (bucket.tokens < needed) {
+        rejection ??= {
+          status: {
+            ...checkStatus,
+            remaining: Math.max(0, Math.floor(bucket.tokens)),
+            resetSeconds: Math.ceil((limit.burst - bucket.tokens) / limit.eventsPerSecond),
+          },
+          retryAfterSeconds: Math.max(1, Math.ceil((needed - bucket.tokens) / limit.eventsPerSecond)),
+        };
+      } else if (!status || checkStatus.remaining / checkStatus.limit < status.remaining / status.limit) {
+        status = checkStatus;
+      }
+    }
+
+    const quota = request.sourceId ? this.getSourceLimits(request.sourceId).dailyQuota : 0;
+    // Only requests with a source count against a quota
+    const quotaSourceId = quota > 0 ? request.sourceId : undefined;
+    if (quotaSourceId) {
+      policies.push(`${quota};w=${DAY_MS / 1000}`);
+      this.rollOver(now);
+
+      const used = this.getUsage(quotaSourceId);
+      const resetSeconds = Math.max(1, Math.ceil((Date.parse(this.usageDay) + DAY_MS - now) / 1000));
+      const quotaStatus: RateLimitStatus = {
+        scope: 'quota',
+        limit: quota,
+        remaining: Math.max(0, quota - used - cost),
+        resetSeconds,
+      };
+
+      if (used + cost > quota) {
+        rejection ??= {
+          status: { ...quotaStatus, remaining: Math.max(0, quota - used) },
+          retryAfterSeconds: resetSeconds,
+        };
+      } else if (!status || quotaStatus.remaining / quotaStatus.limit < status.remaining / status.limit) {
+        status = quotaStatus;
+      }
+    }
+
+    if (rejection) {
+      // Time already refilled is kept, the request itself costs nothing
+      for (const check of checks) {
+        check.buckets.set(check.key, check.bucket);
+      }
+      return { allowed: false, status: rejection.status, retryAfterSeconds: rejection.retryAfterSeconds, policies };
+    }
+
+    for (const check of checks) {
+      check.bucket.tokens -= cost;
+      check.buckets.set(check.key, check.bucket);
+    }
+    if (quotaSourceId) {
+      this.addUsage(quotaSourceId, cost);
+    }
+
+    return { allowed: true, status, policies };
+  }
+
+  // Events counted against a source's quota today, including those not yet flushed
+  getUsage(sourceId: string): number {
+    return (this.usage.get(sourceId) ?? 0) + (this.pending.get(`${sourceId}:${this.usageDay}`)?.events ?? 0);
+  }
+
+  private prepare(
+    scope: RateLimitScope,
+    buckets: Map<string, Bucket>,
+    key: string,
+    limit: TokenBucketLimit,
+    now: number
+  ): BucketCheck {
+    if (buckets.size >= this.maxBuckets && !buckets.has(key)) {
+      this.sweep(now);
+    }
+    return { scope, buckets, key, limit, bucket: refill(buckets.get(key), limit, now) };
+  }
+
+  private addUsage(sourceId: string, events: number): void {
+    const key = `${sourceId}:${this.usageDay}`;
+    const entry = this.pending.get(key);
+    if (entry) {
+      entry.events += events;
+    } else {
+      this.pending.set(key, { sourceId, day: this.usageDay, events });
+    }
+  }
+
+  // Pending increments keep their day, so the previous day's counts are still flushed
+  private rollOver(now: number): void {
+    const day = utcDay(now);
+    if (day !== this.usageDay) {
+      this.usageDay = day;
+      this.usage = new Map();
+    }
+  }
+
+  // Drop buckets that have refilled completely: they behave exactly like missing ones
+  private sweep(now: number): void {
+    for (const [key, bucket] of this.sourceBuckets) {
+      const limit = this.getSourceLimits(key);
+      if (refill(bucket, limit, now).tokens >= limit.burst) {
+        this.sourceBuckets.delete(key);
+      }
+    }
+    for (const [key, bucket] of this.ipBuckets) {
+      if (refill(bucket, this.config.ip, now).tokens >= this.config.ip.burst) {
+        this.ipBuckets.delete(key);
+      }
+    }
+    // Still full of active clients: start over rather than grow without bound
+    if (this.ipBuckets.size >= this.maxBuckets) {
+      this.ipBuckets.clear();
+    }
+  }
+
+  private async flushUsage(): Promise<void> {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const batch = Array.from(this.pending.values());
+    this.pending = new Map();
+
+    try {
+      await this.repository.incrementUsage(batch);
+    } catch (error) {
+      // Merge back so the events still count towards the quota and are written next time
+      for (const increment of batch) {
+        const key = `${increment.sourceId}:${increment.day}`;
+        const entry = this.pending.get(key);
+        if (entry) {
+          entry.events += increment.events;
+        } else {
+          this.pending.set(key, increment);
+        }
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventType } from '@martech/types';
+import { SessionTracker, pageOf, summarizeSessions } from './sessionTracker.service';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import { type SessionRepository, sessionUpdate } from '../repositories/session.repository';
+
+let counter = 0;
+const createEvent = (overrides: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  eventId: `e${++counter}`,
+  userId: 'u1',
+  sessionId: 's1',
+  type: EventType.BUTTON_CLICK,
+  payload: {},
+  occurredAt: new Date('2024-03-01T10:00:00Z'),
+  receivedAt: new Date('2024-03-01T10:00:01Z'),
+  ...overrides,
+});
+
+const at = (minute: number) => new Date(Date.UTC(2024, 2, 1, 10, minute));
+
+describe('summarizeSessions', () => {
+  it('folds each session into times, counts and entry/exit pages in occurredAt order', () => {
+    const deltas = summarizeSessions([
+      createEvent({ type: EventType.PAGE_VIEW, payload: { url: '/cart' }, occurredAt: at(5) }),
+      createEvent({ type: EventType.PAGE_VIEW, payload: { url: '/home' }, occurredAt: at(0) }),
+      createEvent({ occurredAt: at(2) }),
+      createEvent({ type: EventType.PAGE_VIEW, payload: { url: '/home' }, occurredAt: at(3) }),
+      createEvent({ sessionId: 's2', userId: 'u2', type: EventType.SCREEN_VIEW, payload: { name: 'Settings' }, occurredAt: at(1) }),
+    ]);
+
+    expect(deltas).toEqual([
+      {
+        sessionId: 's1',
+        userId: 'u1',
+        startedAt: at(0),
+        endedAt: at(5),
+        eventCount: 4,
+        pageViewCount: 3,
+        pages: ['/home', '/cart'],
+        entry: { page: '/home', at: at(0) },
+        exit: { page: '/cart', at: at(5) },
+        excluded: false,
+      },
+      expect.objectContaining({ sessionId: 's2', userId: 'u2', pageViewCount: 1, pages: ['Settings'] }),
+    ]);
+  });
+
+  it('keeps the sessions of different users and sources that share a sessionId apart', () => {
+    const deltas = summarizeSessions([
+      createEvent({ sessionId: '1', occurredAt: at(0) }),
+      createEvent({ sessionId: '1', userId: 'u2', occurredAt: at(1) }),
+      createEvent({ sessionId: '1', sourceId: 'ios', occurredAt: at(2) }),
+      createEvent({ sessionId: '1', occurredAt: at(3) }),
+    ]);
+
+    expect(deltas).toEqual([
+      expect.objectContaining({ sessionId: '1', userId: 'u1', eventCount: 2 }),
+      expect.objectContaining({ sessionId: '1', userId: 'u2', eventCount: 1 }),
+      expect.objectContaining({ sessionId: '1', userId: 'u1', sourceId: 'ios', eventCount: 1 }),
+    ]);
+    expect(deltas[0]).not.toHaveProperty('sourceId');
+  });
+
+  it('takes the device context of the first event that has it and flags excluded traffic', () => {
+    const [delta] = summarizeSessions([
+      createEvent({ occurredAt: at(0), sourceId: 'web', context: { traffic: { channel: 'internal' } } }),
+      createEvent({
+        occurredAt: at(1),
+        sourceId: 'web',
+        context: {
+          userAgent: 'Mozilla/5.0',
+          ip: '203.0.113.0',
+          device: { type: 'mobile' },
+          browser: { name: 'Safari' },
+          os: { name: 'iOS' },
+          geo: { country: 'DE' },
+          traffic: { channel: 'paid_search' },
+        },
+      }),
+      createEvent({ occurredAt: at(2), sourceId: 'web', excluded: true, context: { device: { type: 'desktop' } } }),
+    ]);
+
+    expect(delta).toMatchObject({
+      sourceId: 'web',
+      device: 'mobile',
+      browser: 'Safari',
+      os: 'iOS',
+      ipAddress: '203.0.113.0',
+      userAgent: 'Mozilla/5.0',
+      country: 'DE',
+      channel: 'paid_search',
+      excluded: true,
+    });
+  });
+});
+
+describe('pageOf', () => {
+  it('reads the payload, then the Segment page context, then the screen name', () => {
+    expect(pageOf(createEvent({ payload: { url: '/a', name: 'A' } }))).toBe('/a');
+    expect(pageOf(createEvent({ payload: { path: '/b' } }))).toBe('/b');
+    expect(pageOf(createEvent({ payload: {}, context: { page: { path: '/c' } } }))).toBe('/c');
+    expect(pageOf(createEvent({ payload: { name: 'Checkout' } }))).toBe('Checkout');
+    expect(pageOf(createEvent({ payload: { url: '' } }))).toBeUndefined();
+  });
+});
+
+describe('sessionUpdate', () => {
+  it('keeps client values literal and only sets the fields a delta has', () => {
+    const [stage] = sessionUpdate({
+      sessionId: 's1',
+      userId: '$injected',
+      startedAt: at(0),
+      endedAt: at(1),
+      eventCount: 2,
+      pageViewCount: 0,
+      pages: [],
+      device: 'mobile',
+      excluded: false,
+    });
+    const { $set: fields } = stage as { $set: Record<string, unknown> };
+
+    expect(fields.userId).toEqual({ $literal: '$injected' });
+    expect(fields.sourceId).toEqual({ $literal: null });
+    expect(fields.device).toEqual({ $ifNull: ['$device', { $literal: 'mobile' }] });
+    expect(fields).not.toHaveProperty('entryPage');
+    expect(fields).not.toHaveProperty('browser');
+    expect(fields).not.toHaveProperty('excluded');
+  });
+});
+
+describe('SessionTracker', () => {
+  it('writes one delta per session of the batch', async () => {
+    const repository = {
+      applyDeltas: vi.fn().mockImplementation(async (deltas) => deltas.slice(1)),
+    } as unknown as SessionRepository;
+    const tracker = new SessionTracker(repository);
+
+    const { updated, started } = await tracker.recordEvents([
+      createEvent(),
+      createEvent(),
+      createEvent({ sessionId: 's2' }),
+    ]);
+
+    expect(updated).toBe(2);
+    expect(started).toEqual([expect.objectContaining({ sessionId: 's2' })]);
+    expect(repository.applyDeltas).toHaveBeenCalledWith([
+      expect.objectContaining({ sessionId: 's1', eventCount: 2 }),
+      expect.objectContaining({ sessionId: 's2', eventCount: 1 }),
+    ]);
+  });
+});
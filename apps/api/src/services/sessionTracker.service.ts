@@ -0,0 +1,154 @@
+import { EventType } from '@martech/types';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import {
+  FIRST_SEEN_FIELDS,
+  type FirstSeenField,
+  type SessionDelta,
+  type SessionRepository,
+  sessionKeyOf,
+} from '../repositories/session.repository';
+import type { AnalyticsSessionId } from '../config';
+
+// Longer values (data URLs, query strings full of tracking IDs) are cut here
+const MAX_PAGE_LENGTH = 1000;
+
+const PAGE_VIEW_TYPES = new Set<string>([EventType.PAGE_VIEW, EventType.SCREEN_VIEW]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringField(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Page a page_view or screen_view event is about: the url/path/page of our own
+ * payloads, the context.page Segment SDKs send, or the name of a screen
+ */
+export function pageOf(event: NormalizedEvent): string | undefined {
+  const payload = isObject(event.payload) ? event.payload : {};
+  const contextPage = isObject(event.context?.page) ? event.context.page : {};
+
+  const page =
+    stringField(payload.url) ??
+    stringField(payload.path) ??
+    stringField(payload.page) ??
+    stringField(contextPage.url) ??
+    stringField(contextPage.path) ??
+    stringField(payload.name);
+
+  return page?.slice(0, MAX_PAGE_LENGTH);
+}
+
+// Device context as added by enrichment; fields stay unset until an event has them
+function contextFields(event: NormalizedEvent): Pick<SessionDelta, FirstSeenField> {
+  const context = isObject(event.context) ? event.context : {};
+  const channel = stringField(context.traffic?.channel);
+
+  return {
+    device: stringField(context.device?.type),
+    browser: stringField(context.browser?.name),
+    os: stringField(context.os?.name),
+    ipAddress: stringField(context.ip),
+    userAgent: stringField(context.userAgent),
+    country: stringField(context.geo?.country),
+    // Same-site navigation says nothing about where the session came from
+    channel: channel === 'internal' ? undefined : channel,
+  };
+}
+
+/**
+ * Group a batch of stored events into one delta per session of a user and source,
+ * as clients may reuse sessionIds. Events are folded in occurredAt order, so the
+ * first event with a context field gives the session's.
+ * With 'derived', events are grouped by the session server-side sessionization
+ * gave them, when their source has it on.
+ */
+export function summarizeSessions(
+  events: NormalizedEvent[],
+  analyticsSessionId: AnalyticsSessionId = 'client'
+): SessionDelta[] {
+  const deltas = new Map<string, SessionDelta>();
+  const ordered = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  for (const event of ordered) {
+    const sessionId =
+      analyticsSessionId === 'derived' ? event.derivedSessionId ?? event.sessionId : event.sessionId;
+    const key = sessionKeyOf({ sessionId, userId: event.userId, sourceId: event.sourceId });
+    let delta = deltas.get(key);
+    if (!delta) {
+      delta = {
+        sessionId,
+        userId: event.userId,
+        ...(event.sourceId && { sourceId: event.sourceId }),
+        startedAt: event.occurredAt,
+        endedAt: event.occurredAt,
+        eventCount: 0,
+        pageViewCount: 0,
+        pages: [],
+        excluded: false,
+      };
+      deltas.set(key, delta);
+    }
+
+    delta.endedAt = event.occurredAt;
+    delta.eventCount++;
+    if (event.excluded) {
+      delta.excluded = true;
+    }
+
+    const fields = contextFields(event);
+    for (const field of FIRST_SEEN_FIELDS) {
+      if (delta[field] === undefined && fields[field] !== undefined) {
+        delta[field] = fields[field];
+      }
+    }
+
+    if (PAGE_VIEW_TYPES.has(event.type)) {
+      delta.pageViewCount++;
+      const page = pageOf(event);
+      if (page !== undefined) {
+        if (!delta.pages.includes(page)) {
+          delta.pages.push(page);
+        }
+        delta.entry = delta.entry ?? { page, at: event.occurredAt };
+        delta.exit = { page, at: event.occurredAt };
+      }
+    }
+  }
+
+  return Array.from(deltas.values());
+}
+
+// Keeps the sessions collection up to date from the batches the ingestion buffer
+// stores, so sessions can be queried whole instead of grouped from raw events
+export class SessionTracker {
+  constructor(
+    private repository: SessionRepository,
+    private readonly analyticsSessionId: AnalyticsSessionId = 'client'
+  ) {}
+
+  /**
+   * Fold a batch of newly stored events into their sessions. Events that were
+   * already stored must be left out, or they would be counted twice.
+   *
+   * @returns number of sessions updated, and the deltas of the sessions these events started
+   */
+  async recordEvents(events: NormalizedEvent[]): Promise<{ updated: number; started: SessionDelta[] }> {
+    const deltas = summarizeSessions(events, this.analyticsSessionId);
+    const started = await this.repository.applyDeltas(deltas);
+    return { updated: deltas.length, started };
+  }
+
+  /**
+   * Take deleted events (a rolled-back import) back out of their sessions
+   *
+   * @returns number of sessions updated, and the deltas of the sessions left without events
+   */
+  async removeEvents(events: NormalizedEvent[]): Promise<{ updated: number; ended: SessionDelta[] }> {
+    const deltas = summarizeSessions(events, this.analyticsSessionId);
+    const ended = await this.repository.removeDeltas(deltas);
+    return { updated: deltas.length, ended };
+  }
+}
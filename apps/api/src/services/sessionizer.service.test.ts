@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventType } from '@martech/types';
+import { Sessionizer } from './sessionizer.service';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { SessionState, SessionizationRepository } from '../repositories/sessionization.repository';
+import type { SourceRepository } from '../repositories/source.repository';
+import { DEFAULT_SESSIONIZATION } from '../utils/sessionization';
+
+let counter = 0;
+const createEvent = (overrides: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  eventId: `e${++counter}`,
+  userId: 'u1',
+  sessionId: '',
+  type: EventType.BUTTON_CLICK,
+  payload: {},
+  occurredAt: new Date('2024-03-01T10:00:00Z'),
+  receivedAt: new Date('2024-03-01T10:00:01Z'),
+  sourceId: 'billing',
+  ...overrides,
+});
+
+function createSessionizer(stored: SessionState[] = []) {
+  const sources = {
+    listSources: vi.fn().mockResolvedValue([
+      { sourceId: 'billing', name: 'Billing', sessionization: DEFAULT_SESSIONIZATION },
+      { sourceId: 'ios', name: 'iOS', sessionization: { ...DEFAULT_SESSIONIZATION, mode: 'split' } },
+      { sourceId: 'web', name: 'Web' },
+    ]),
+  } as unknown as SourceRepository;
+  const states = {
+    findStates: vi.fn().mockResolvedValue(new Map(stored.map((state) => [state.key, state]))),
+    saveStates: vi.fn().mockResolvedValue(undefined),
+  };
+  return { sessionizer: new Sessionizer(sources, states as unknown as SessionizationRepository), states };
+}
+
+describe('Sessionizer', () => {
+  it('loads the settings of sessionized sources only', async () => {
+    const { sessionizer } = createSessionizer();
+    await sessionizer.load();
+
+    expect(sessionizer.settingsFor('billing')).toEqual(DEFAULT_SESSIONIZATION);
+    expect(sessionizer.settingsFor('web')).toBeNull();
+    expect(sessionizer.settingsFor(undefined)).toBeNull();
+
+    sessionizer.setSourceSettings('billing', undefined);
+    expect(sessionizer.settingsFor('billing')).toBeNull();
+  });
+
+  it('assigns sessions in assign mode only to events sent without one', async () => {
+    const { sessionizer, states } = createSessionizer();
+    await sessionizer.load();
+    const events = [
+      createEvent(),
+      createEvent({ sessionId: 'client-1' }),
+      createEvent({ sourceId: 'web', sessionId: 'web-1' }),
+    ];
+
+    const assigned = await sessionizer.assign(events);
+
+    expect(assigned).toBe(1);
+    expect(events[0].sessionId).toMatch(/^ds_[0-9a-f]{24}$/);
+    expect(events[0].derivedSessionId).toBe(events[0].sessionId);
+    expect(events[1].sessionId).toBe('client-1');
+    expect(events[1].derivedSessionId).toBeUndefined();
+    expect(events[2].derivedSessionId).toBeUndefined();
+    expect(states.findStates).toHaveBeenCalledWith(['billing:u1']);
+    expect(states.saveStates).toHaveBeenCalledWith([
+      expect.objectContaining({ key: 'billing:u1', sessionId: events[0].sessionId }),
+    ]);
+  });
+
+  it('derives a session for every event in split mode and keeps the client one', async () => {
+    const { sessionizer } = createSessionizer();
+    await sessionizer.load();
+    const events = [
+      createEvent({ sourceId: 'ios', sessionId: 'device-1' }),
+      createEvent({ sourceId: 'ios', sessionId: 'device-1', occurredAt: new Date('2024-03-01T12:00:00Z') }),
+    ];
+
+    await sessionizer.assign(events);
+
+    expect(events.map((event) => event.sessionId)).toEqual(['device-1', 'device-1']);
+    expect(events[0].derivedSessionId).toMatch(/^ds_/);
+    expect(events[1].derivedSessionId).not.toBe(events[0].derivedSessionId);
+  });
+
+  it('continues the stored session of a user and leaves assigned events alone', async () => {
+    const current: SessionState = {
+      key: 'billing:u1',
+      sessionId: 'ds_current',
+      startedAt: new Date('2024-03-01T09:50:00Z'),
+      lastEventAt: new Date('2024-03-01T09:55:00Z'),
+    };
+    const { sessionizer, states } = createSessionizer([current]);
+    await sessionizer.load();
+    const retried = createEvent({ sessionId: 'ds_earlier', derivedSessionId: 'ds_earlier' });
+    const event = createEvent();
+
+    await sessionizer.assign([retried, event]);
+
+    expect(event.sessionId).toBe('ds_current');
+    expect(retried.sessionId).toBe('ds_earlier');
+    expect(states.saveStates).toHaveBeenCalledWith([
+      { ...current, lastEventAt: new Date('2024-03-01T10:00:00Z') },
+    ]);
+  });
+
+  it('still gives a session to events without one after sessionization was turned off', async () => {
+    const { sessionizer } = createSessionizer();
+    const event = createEvent({ sourceId: 'web' });
+
+    await sessionizer.assign([event]);
+
+    expect(event.sessionId).toMatch(/^ds_/);
+  });
+});
@@ -0,0 +1,131 @@
+import type { ISessionizationSettings } from '../models/Source';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { SessionState, SessionizationRepository } from '../repositories/sessionization.repository';
+import type { SourceRepository } from '../repositories/source.repository';
+import { DEFAULT_SESSIONIZATION, sessionizeUser } from '../utils/sessionization';
+import { derivedSessionsCounter } from '../observability/metrics';
+
+/**
+ * Server-side sessionization for sources whose clients have no reliable sessionId
+ * (backend services, email, SDKs that keep one sessionId for days). Sessions are
+ * derived when a batch is flushed, from the events' occurredAt, and stored in
+ * derivedSessionId; events sent without a sessionId also get it as their sessionId.
+ *
+ * Per-source settings are loaded at startup, replaced on every change made through
+ * this instance and reloaded on an interval. The session each user is in lives in
+ * MongoDB, so all instances continue the same sessions.
+ */
+export class Sessionizer {
+  private settings = new Map<string, ISessionizationSettings>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  // Flushes run concurrently; the state of a user must be read after the previous
+  // batch wrote it
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private sources: SourceRepository,
+    private states: SessionizationRepository,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  async load(): Promise<void> {
+    const sources = await this.sources.listSources();
+    this.settings = new Map(
+      sources.flatMap((source) => (source.sessionization ? [[source.sourceId, source.sessionization] as const] : []))
+    );
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.load().catch((error) => {
+        // Keep sessionizing with the last known settings
+        console.error('[Sessionizer] Refresh failed:', error.message);
+      });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Apply a settings change made through this instance without waiting for the refresh
+  setSourceSettings(sourceId: string, settings: ISessionizationSettings | undefined): void {
+    if (settings) {
+      this.settings.set(sourceId, settings);
+    } else {
+      this.settings.delete(sourceId);
+    }
+  }
+
+  settingsFor(sourceId: string | undefined): ISessionizationSettings | null {
+    return sourceId ? this.settings.get(sourceId) ?? null : null;
+  }
+
+  /**
+   * Set derivedSessionId (and sessionId when the client sent none) on the events
+   * of sessionized sources. Events that already have one, from an earlier attempt
+   * at the same batch, keep it.
+   *
+   * @returns number of events assigned a session
+   */
+  assign(events: NormalizedEvent[]): Promise<number> {
+    const result = this.queue.then(() => this.assignNow(events));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async assignNow(events: NormalizedEvent[]): Promise<number> {
+    const users = new Map<string, { settings: ISessionizationSettings; events: NormalizedEvent[] }>();
+
+    for (const event of events) {
+      // Sessionization may have been turned off since an event without a sessionId
+      // was accepted; it still needs a session
+      const settings = this.settingsFor(event.sourceId) ?? (event.sessionId ? null : DEFAULT_SESSIONIZATION);
+      if (!settings || event.derivedSessionId || (settings.mode === 'assign' && event.sessionId)) {
+        continue;
+      }
+      const key = `${event.sourceId}:${event.userId}`;
+      const user = users.get(key) ?? { settings, events: [] };
+      user.events.push(event);
+      users.set(key, user);
+    }
+
+    if (users.size === 0) {
+      return 0;
+    }
+
+    const previous = await this.states.findStates(Array.from(users.keys()));
+    const updated: SessionState[] = [];
+    let assigned = 0;
+
+    for (const [key, user] of users) {
+      const ordered = user.events.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+      const { sessionIds, boundaries, state } = sessionizeUser(key, ordered, previous.get(key) ?? null, user.settings);
+
+      ordered.forEach((event, index) => {
+        event.derivedSessionId = sessionIds[index];
+        if (!event.sessionId) {
+          event.sessionId = sessionIds[index];
+        }
+      });
+      for (const boundary of boundaries) {
+        derivedSessionsCounter.inc({ boundary });
+      }
+      if (state) {
+        updated.push(state);
+      }
+      assigned += ordered.length;
+    }
+
+    await this.states.saveStates(updated);
+    return assigned;
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TrafficFilterService } from './trafficFilter.service';
+import { TrafficFilterRepository } from '../repositories/trafficFilter.repository';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { ITrafficFilterSettings } from '../models/TrafficFilter';
+import { DEFAULT_TRAFFIC_FILTER, checkTrafficFilterSettings } from '../utils/trafficFilter';
+
+const BROWSER_UA = 'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0';
+const CRAWLER_UA = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+
+function event(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    eventId: crypto.randomUUID(),
+    userId: 'user123',
+    sessionId: 'session456',
+    type: 'page_view',
+    payload: {},
+    occurredAt: new Date('2026-03-01T10:00:00Z'),
+    receivedAt: new Date('2026-03-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('TrafficFilterService', () => {
+  let repository: TrafficFilterRepository;
+
+  async function createFilter(settings: Partial<ITrafficFilterSettings> = {}): Promise<TrafficFilterService> {
+    repository.find = vi.fn().mockResolvedValue({ ...DEFAULT_TRAFFIC_FILTER, ...settings, updatedAt: new Date() });
+    const filter = new TrafficFilterService(repository);
+    await filter.load();
+    return filter;
+  }
+
+  beforeEach(() => {
+    repository = new TrafficFilterRepository();
+    vi.spyOn(repository, 'find').mockResolvedValue(null);
+    vi.spyOn(repository, 'save');
+  });
+
+  it('flags crawlers by User-Agent with the default settings', async () => {
+    const filter = new TrafficFilterService(repository);
+    await filter.load();
+    const crawled = event();
+
+    expect(filter.apply(crawled, { ip: '203.0.113.7', userAgent: CRAWLER_UA })).toBe('bot');
+    expect(crawled).toMatchObject({ excluded: true, exclusionReason: 'bot' });
+    expect(filter.drops(crawled)).toBe(false);
+    expect(filter.apply(event(), { ip: '203.0.113.7', userAgent: BROWSER_UA })).toBeNull();
+  });
+
+  it('uses the User-Agent forwarded by server-side SDKs', async () => {
+    const filter = await createFilter();
+
+    expect(filter.apply(event({ context: { userAgent: CRAWLER_UA } }), { userAgent: 'node-fetch' })).toBe('bot');
+  });
+
+  it('excludes internal users and IP ranges', async () => {
+    const filter = await createFilter({ internalUserIds: ['qa-1'], excludedIps: ['10.0.0.0/8'], mode: 'drop' });
+    const internal = event({ userId: 'qa-1' });
+
+    expect(filter.apply(internal, { ip: '203.0.113.7' })).toBe('internal_user');
+    expect(filter.drops(internal)).toBe(true);
+    expect(filter.apply(event(), { ip: '::ffff:10.1.2.3' })).toBe('excluded_ip');
+    expect(filter.apply(event(), { ip: '203.0.113.7' })).toBeNull();
+  });
+
+  it('flags sessions exceeding the event rate until their window ends', async () => {
+    const filter = await createFilter({ maxEventsPerSession: 2, sessionWindowMs: 60000 });
+    const at = (seconds: number) => event({ receivedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, seconds)) });
+
+    expect(filter.apply(at(0), {})).toBeNull();
+    expect(filter.apply(at(1), {})).toBeNull();
+    expect(filter.apply(at(2), {})).toBe('abnormal_rate');
+    expect(filter.apply(event({ sessionId: 'other', receivedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, 3)) }), {})).toBeNull();
+    expect(filter.apply(at(61), {})).toBeNull();
+  });
+
+  it('stores settings merged with the defaults', async () => {
+    repository.save = vi.fn().mockImplementation(async (settings) => ({ ...settings, updatedAt: new Date() }));
+    const filter = new TrafficFilterService(repository);
+
+    await filter.save({ internalUserIds: ['qa-1'] }, 'admin@example.com');
+
+    expect(repository.save).toHaveBeenCalledWith({ ...DEFAULT_TRAFFIC_FILTER, internalUserIds: ['qa-1'] }, 'admin@example.com');
+    expect(filter.apply(event({ userId: 'qa-1' }), {})).toBe('internal_user');
+  });
+});
+
+describe('checkTrafficFilterSettings', () => {
+  it('accepts partial settings', () => {
+    expect(checkTrafficFilterSettings({})).toBeNull();
+    expect(checkTrafficFilterSettings({ mode: 'drop', excludedIps: ['198.51.100.0/24', '2001:db8::1'] })).toBeNull();
+  });
+
+  it('rejects malformed settings', () => {
+    expect(checkTrafficFilterSettings([])).toBe('settings must be an object');
+    expect(checkTrafficFilterSettings({ mode: 'hide' })).toMatch(/mode/);
+    expect(checkTrafficFilterSettings({ excludedIps: ['office-network'] })).toMatch(/office-network/);
+    expect(checkTrafficFilterSettings({ internalUserIds: [''] })).toMatch(/internalUserIds/);
+    expect(checkTrafficFilterSettings({ maxEventsPerSession: -1 })).toMatch(/maxEventsPerSession/);
+    expect(checkTrafficFilterSettings({ botList: [] })).toBe('unknown field "botList"');
+  });
+});
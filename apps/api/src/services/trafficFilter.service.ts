@@ -0,0 +1,152 @@
+import { isbot } from 'isbot';
+import type { ExclusionReason, ITrafficFilterSettings } from '../models/TrafficFilter';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { TrafficFilterEntry, TrafficFilterRepository } from '../repositories/trafficFilter.repository';
+import { type RequestContext, resolveClient } from './eventEnrichment.service';
+import { createIpMatcher } from '../utils/ipAddress';
+import { DEFAULT_TRAFFIC_FILTER } from '../utils/trafficFilter';
+import { filteredEventsCounter } from '../observability/metrics';
+
+// Sessions tracked by the session-rate heuristic before expired windows are swept
+const MAX_TRACKED_SESSIONS = 100000;
+
+interface SessionWindow {
+  startedAt: number;
+  count: number;
+}
+
+/**
+ * Recognizes bot and internal traffic at ingestion: crawler User-Agents, excluded
+ * IPs and CIDR ranges, internal user IDs and sessions sending an abnormal number of
+ * events. Filtered events are marked excluded and, in drop mode, not buffered.
+ *
+ * Like the payload schema registry, the settings are loaded at startup, replaced on
+ * every write made through this instance and reloaded on an interval. Session rates
+ * are counted per instance.
+ */
+export class TrafficFilterService {
+  private entry: TrafficFilterEntry = { ...DEFAULT_TRAFFIC_FILTER, updatedAt: null };
+  private matchesExcludedIp: (ip: string) => boolean = () => false;
+  private internalUserIds = new Set<string>();
+  private readonly sessions = new Map<string, SessionWindow>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private repository: TrafficFilterRepository,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  async load(): Promise<void> {
+    this.use((await this.repository.find()) ?? { ...DEFAULT_TRAFFIC_FILTER, updatedAt: null });
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.load().catch((error) => {
+        // Keep filtering with the last known settings until the database is reachable again
+        console.error('[TrafficFilterService] Refresh failed:', error.message);
+      });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * Mark the event as excluded when it comes from a bot or internal traffic
+   *
+   * @returns why the event was excluded, or null for regular traffic
+   */
+  apply(event: NormalizedEvent, request: RequestContext): ExclusionReason | null {
+    const reason = this.classify(event, request);
+    if (reason) {
+      event.excluded = true;
+      event.exclusionReason = reason;
+      filteredEventsCounter.inc({ reason, action: this.entry.mode });
+    }
+    return reason;
+  }
+
+  // Excluded events are only stored in flag mode
+  drops(event: NormalizedEvent): boolean {
+    return event.excluded === true && this.entry.mode === 'drop';
+  }
+
+  get(): TrafficFilterEntry {
+    return this.entry;
+  }
+
+  // Callers validate the settings with checkTrafficFilterSettings() first
+  async save(settings: Partial<ITrafficFilterSettings>, updatedBy?: string): Promise<TrafficFilterEntry> {
+    const entry = await this.repository.save({ ...DEFAULT_TRAFFIC_FILTER, ...settings }, updatedBy);
+    this.use(entry);
+    return entry;
+  }
+
+  private use(entry: TrafficFilterEntry): void {
+    this.entry = entry;
+    this.matchesExcludedIp = createIpMatcher(entry.excludedIps) ?? (() => false);
+    this.internalUserIds = new Set(entry.internalUserIds);
+  }
+
+  private classify(event: NormalizedEvent, request: RequestContext): ExclusionReason | null {
+    // Counted first so excluded events still add to their session's rate
+    const abnormalRate = this.exceedsSessionRate(event);
+    const client = resolveClient(event, request);
+
+    if (this.internalUserIds.has(event.userId)) {
+      return 'internal_user';
+    }
+    if (client.ip && this.matchesExcludedIp(client.ip)) {
+      return 'excluded_ip';
+    }
+    if (this.entry.detectBots && client.userAgent && isbot(client.userAgent)) {
+      return 'bot';
+    }
+    return abnormalRate ? 'abnormal_rate' : null;
+  }
+
+  // Fixed window per session, on server time so client clocks cannot spread a burst
+  private exceedsSessionRate(event: NormalizedEvent): boolean {
+    const { maxEventsPerSession, sessionWindowMs } = this.entry;
+    if (maxEventsPerSession <= 0) {
+      return false;
+    }
+
+    const now = event.receivedAt.getTime();
+    // Events waiting for a server-side session are counted per user
+    const sessionId = event.sessionId || `user:${event.userId}`;
+    let window = this.sessions.get(sessionId);
+    if (!window || now - window.startedAt >= sessionWindowMs) {
+      if (!window && this.sessions.size >= MAX_TRACKED_SESSIONS) {
+        this.sweepSessions(now);
+      }
+      window = { startedAt: now, count: 0 };
+      this.sessions.set(sessionId, window);
+    }
+
+    window.count++;
+    return window.count > maxEventsPerSession;
+  }
+
+  private sweepSessions(now: number): void {
+    for (const [sessionId, window] of this.sessions) {
+      if (now - window.startedAt >= this.entry.sessionWindowMs) {
+        this.sessions.delete(sessionId);
+      }
+    }
+    // Every window is still open: forget them rather than grow without bound
+    if (this.sessions.size >= MAX_TRACKED_SESSIONS) {
+      this.sessions.clear();
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { EventType } from '@martech/types';
+import { WriteAheadLog, type WriteAheadLogConfig } from './writeAheadLog.service';
+import { EventIngestionService } from './eventIngestion.service';
+import { EventRepository, type NormalizedEvent } from '../repositories/event.repository';
+
+describe('WriteAheadLog', () => {
+  let directory: string;
+
+  const createConfig = (overrides?: Partial<WriteAheadLogConfig>): WriteAheadLogConfig => ({
+    directory,
+    segmentSizeBytes: 1024 * 1024,
+    fsyncPolicy: 'always',
+    fsyncIntervalMs: 100,
+    retainCompletedSegments: 0,
+    ...overrides,
+  });
+
+  const createEvent = (eventId: string): NormalizedEvent => ({
+    eventId,
+    userId: 'user123',
+    sessionId: 'session456',
+    type: EventType.PAGE_VIEW,
+    payload: { url: '/home' },
+    occurredAt: new Date('2025-01-15T11:00:00Z'),
+    receivedAt: new Date('2025-01-15T11:00:01Z'),
+  });
+
+  const createRepository = (): EventRepository => {
+    const repository = new EventRepository();
+    vi.spyOn(repository, 'bulkInsert').mockResolvedValue({ duplicateEventIds: [] });
+    return repository;
+  };
+
+  const listFiles = async () => (await fs.readdir(directory)).sort();
+
+  beforeEach(async () => {
+    // Only timers are faked so the flush timer never fires; file I/O stays real
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'wal-test-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('replays events acknowledged before a crash that were never flushed', async () => {
+    const firstRun = new EventIngestionService(createRepository(), {
+      wal: new WriteAheadLog(createConfig()),
+    });
+    await firstRun.recover();
+
+    await Promise.all(['a', 'b', 'c'].map((id) => firstRun.addEvent(createEvent(`test:${id}`))));
+
+    // Crash: the process dies after answering 202 but before the flush timer fires.
+    // Nothing is closed or flushed; a new process starts on the same directory.
+    const repository = createRepository();
+    const secondRun = new EventIngestionService(repository, {
+      wal: new WriteAheadLog(createConfig()),
+    });
+
+    const replayed = await secondRun.recover();
+
+    expect(replayed).toBe(3);
+    expect(repository.bulkInsert).toHaveBeenCalledTimes(1);
+
+    const inserted = vi.mocked(repository.bulkInsert).mock.calls[0][0];
+    expect(inserted.map((e) => e.eventId)).toEqual(['test:a', 'test:b', 'test:c']);
+    expect(inserted[0].occurredAt).toEqual(new Date('2025-01-15T11:00:00Z'));
+  });
+
+  it('replays the client timestamps of corrected events as dates', async () => {
+    const firstRun = new EventIngestionService(createRepository(), {
+      wal: new WriteAheadLog(createConfig()),
+    });
+    await firstRun.recover();
+    await firstRun.addEvent({
+      ...createEvent('test:a'),
+      timestampCorrection: {
+        clientOccurredAt: new Date('2025-01-15T10:00:00Z'),
+        sentAt: new Date('2025-01-15T10:00:01Z'),
+        skewMs: 3600000,
+      },
+    });
+
+    const repository = createRepository();
+    await new EventIngestionService(repository, { wal: new WriteAheadLog(createConfig()) }).recover();
+
+    const [replayed] = vi.mocked(repository.bulkInsert).mock.calls[0][0];
+    expect(replayed.timestampCorrection).toEqual({
+      clientOccurredAt: new Date('2025-01-15T10:00:00Z'),
+      sentAt: new Date('2025-01-15T10:00:01Z'),
+      skewMs: 3600000,
+    });
+    expect(replayed.timestampCorrection?.clientOccurredAt).toBeInstanceOf(Date);
+    expect(replayed.timestampCorrection?.sentAt).toBeInstanceOf(Date);
+  });
+
+  it('does not replay events that were checkpointed after a flush', async () => {
+    const firstRun = new EventIngestionService(createRepository(), {
+      wal: new WriteAheadLog(createConfig()),
+    });
+    await firstRun.recover();
+
+    await firstRun.addEvent(createEvent('test:flushed'));
+    await firstRun.forceFlush();
+    await firstRun.addEvent(createEvent('test:pending'));
+
+    const repository = createRepository();
+    const secondRun = new EventIngestionService(repository, {
+      wal: new WriteAheadLog(createConfig()),
+    });
+    await secondRun.recover();
+
+    const inserted = vi.mocked(repository.bulkInsert).mock.calls[0][0];
+    expect(inserted.map((e) => e.eventId)).toEqual(['test:pending']);
+  });
+
+  it('buffers replayed events when the database is unavailable at startup', async () => {
+    const firstRun = new EventIngestionService(createRepository(), {
+      wal: new WriteAheadLog(createConfig()),
+    });
+    await firstRun.recover();
+    await firstRun.addEvent(createEvent('test:a'));
+
+    const repository = createRepository();
+    repository.bulkInsert = vi.fn().mockRejectedValue(new Error('DB down'));
+    const secondRun = new EventIngestionService(repository, {
+      wal: new WriteAheadLog(createConfig()),
+    });
+
+    await secondRun.recover();
+
+    expect(secondRun.getBufferSize()).toBe(1);
+  });
+
+  it('skips a torn final record', async () => {
+    const wal = new WriteAheadLog(createConfig());
+    await wal.open();
+    await wal.append([createEvent('test:a')]);
+
+    const [segment] = await listFiles();
+    await fs.appendFile(path.join(directory, segment), '{"eventId":"test:torn","userId');
+
+    const recovered = await new WriteAheadLog(createConfig()).open();
+
+    expect(recovered.map((e) => e.eventId)).toEqual(['test:a']);
+  });
+
+  it('rotates segments and deletes them once fully checkpointed', async () => {
+    const wal = new WriteAheadLog(createConfig({ segmentSizeBytes: 100 }));
+    await wal.open();
+
+    const events = ['a', 'b', 'c'].map((id) => createEvent(`test:${id}`));
+    for (const event of events) {
+      await wal.append([event]);
+    }
+
+    expect((await listFiles()).filter((f) => f.endsWith('.wal'))).toHaveLength(3);
+
+    await wal.commit(events);
+
+    expect(await listFiles()).toEqual(['segment-000000000003.ckpt', 'segment-000000000003.wal']);
+    expect(wal.getStats().outstandingEvents).toBe(0);
+  });
+
+  it('keeps completed segments up to the retention limit', async () => {
+    const wal = new WriteAheadLog(createConfig({ segmentSizeBytes: 100, retainCompletedSegments: 1 }));
+    await wal.open();
+
+    const events = ['a', 'b', 'c'].map((id) => createEvent(`test:${id}`));
+    for (const event of events) {
+      await wal.append([event]);
+    }
+    await wal.commit(events);
+
+    const done = (await listFiles()).filter((f) => f.endsWith('.done'));
+    expect(done).toEqual(['segment-000000000002.wal.done']);
+  });
+
+  it('counts segments completed by earlier runs towards the retention limit', async () => {
+    const config = createConfig({ segmentSizeBytes: 100, retainCompletedSegments: 2 });
+    for (const id of ['a', 'b']) {
+      const wal = new WriteAheadLog(config);
+      await wal.open();
+      const event = createEvent(`test:${id}`);
+      await wal.append([event]);
+      await wal.commit([event]);
+      await wal.close();
+    }
+
+    await new WriteAheadLog({ ...config, retainCompletedSegments: 1 }).open();
+
+    const done = (await listFiles()).filter((f) => f.endsWith('.done'));
+    expect(done).toHaveLength(1);
+  });
+
+  it('rejects appends before open', async () => {
+    const wal = new WriteAheadLog(createConfig());
+
+    await expect(wal.append([createEvent('test:a')])).rejects.toThrow('before open');
+  });
+});
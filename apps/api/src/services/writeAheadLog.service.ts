@@ -0,0 +1,421 @@
+import { promises as fs } from 'node:fs';
+import type { FileHandle } from 'node:fs/promises';
+import path from 'node:path';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { ITimestampCorrection } from '../models/Event';
+import { errorMessage } from '../utils/errors';
+
+/**
+ * fsync policy for appended records:
+ * - always:   fsync before acknowledging each append (safest, slowest)
+ * - interval: fsync on a timer; a power loss can drop the last interval
+ * - never:    leave it to the OS page cache (survives process crashes, not power loss)
+ */
+export type WalFsyncPolicy = 'always' | 'interval' | 'never';
+
+export interface WriteAheadLogConfig {
+  directory: string;
+  segmentSizeBytes: number;
+  fsyncPolicy: WalFsyncPolicy;
+  fsyncIntervalMs: number;
+  // Fully checkpointed segments kept on disk (renamed *.done) for inspection
+  retainCompletedSegments: number;
+}
+
+interface Segment {
+  seq: number;
+  sizeBytes: number;
+  outstanding: number;
+  sealed: boolean;
+}
+
+interface PendingAppend {
+  events: NormalizedEvent[];
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+const SEGMENT_PATTERN = /^segment-(\d{12})\.wal$/;
+const DONE_SEGMENT_PATTERN = /^segment-(\d{12})\.wal\.done$/;
+
+// Append-only on-disk log that sits in front of the in-memory ingestion buffer.
+//
+// Layout: every segment is an NDJSON file of serialized events
+// (segment-000000000001.wal) with a sidecar checkpoint file (.ckpt) listing the
+// eventIds that were flushed to MongoDB. Once a sealed segment has no outstanding
+// events it is deleted (or kept as *.done up to the retention limit). On startup
+// every event that is in a segment but not in its checkpoint is replayed.
+export class WriteAheadLog {
+  private segments = new Map<number, Segment>();
+  private active: Segment | null = null;
+  private activeHandle: FileHandle | null = null;
+  private eventSegments = new WeakMap<NormalizedEvent, number>();
+  private completedSegments: number[] = [];
+
+  private pending: PendingAppend[] = [];
+  private writing: Promise<void> | null = null;
+  private checkpointChain: Promise<void> = Promise.resolve();
+  private fsyncTimer: NodeJS.Timeout | null = null;
+  private dirty = false;
+  private opened = false;
+
+  constructor(private readonly config: WriteAheadLogConfig) {}
+
+  /**
+   * Open the log directory and return every event that was written by a previous
+   * process but never checkpointed. Must be called before append().
+   */
+  async open(): Promise<NormalizedEvent[]> {
+    if (this.opened) {
+      return [];
+    }
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+
+    const entries = await fs.readdir(this.config.directory);
+    const seqs = segmentSeqs(entries, SEGMENT_PATTERN);
+
+    // Segments completed by earlier runs count towards the retention limit too
+    this.completedSegments = segmentSeqs(entries, DONE_SEGMENT_PATTERN);
+    await this.pruneCompletedSegments();
+
+    const recovered: NormalizedEvent[] = [];
+
+    for (const seq of seqs) {
+      const events = await this.readUncheckpointed(seq);
+      const stat = await fs.stat(this.walPath(seq));
+      const segment: Segment = { seq, sizeBytes: stat.size, outstanding: events.length, sealed: true };
+      this.segments.set(seq, segment);
+
+      for (const event of events) {
+        this.eventSegments.set(event, seq);
+        recovered.push(event);
+      }
+
+      if (segment.outstanding === 0) {
+        await this.completeSegment(segment);
+      }
+    }
+
+    await this.openSegment((seqs[seqs.length - 1] ?? 0) + 1);
+
+    if (this.config.fsyncPolicy === 'interval') {
+      this.fsyncTimer = setInterval(() => {
+        this.syncActive().catch((error) => {
+          console.error('[WriteAheadLog] Interval fsync failed:', error.message);
+        });
+      }, this.config.fsyncIntervalMs);
+      this.fsyncTimer.unref();
+    }
+
+    this.opened = true;
+
+    if (recovered.length > 0) {
+      console.log('[WriteAheadLog] Found un-checkpointed events from previous run:', {
+        segments: seqs.length,
+        events: recovered.length,
+      });
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Durably append events. Resolves once the records are written (and fsynced when
+   * the policy is "always"). Appends that arrive while a write is in flight are
+   * grouped into the next write, so concurrent requests share one syscall/fsync.
+   */
+  append(events: NormalizedEvent[]): Promise<void> {
+    if (!this.opened) {
+      return Promise.reject(new Error('WriteAheadLog.append called before open()'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.pending.push({ events, resolve, reject });
+      this.scheduleDrain();
+    });
+  }
+
+  /**
+   * Record that events were persisted to MongoDB. Segments whose events are all
+   * committed are removed once they are no longer the active segment.
+   */
+  commit(events: NormalizedEvent[]): Promise<void> {
+    const idsBySegment = new Map<number, string[]>();
+
+    for (const event of events) {
+      const seq = this.eventSegments.get(event);
+      if (seq === undefined) {
+        continue;
+      }
+      this.eventSegments.delete(event);
+      const ids = idsBySegment.get(seq) || [];
+      ids.push(event.eventId);
+      idsBySegment.set(seq, ids);
+    }
+
+    if (idsBySegment.size === 0) {
+      return this.checkpointChain;
+    }
+
+    this.checkpointChain = this.checkpointChain.then(async () => {
+      for (const [seq, ids] of idsBySegment) {
+        const segment = this.segments.get(seq);
+        if (!segment) {
+          continue;
+        }
+
+        segment.outstanding -= ids.length;
+
+        if (segment.sealed && segment.outstanding <= 0) {
+          await this.completeSegment(segment);
+        } else {
+          await fs.appendFile(this.checkpointPath(seq), `${JSON.stringify(ids)}\n`);
+        }
+      }
+    }).catch((error) => {
+      // A lost checkpoint only means these events are replayed again on startup,
+      // which bulkInsert tolerates because eventId is the _id
+      console.error('[WriteAheadLog] Checkpoint failed:', error.message);
+    });
+
+    return this.checkpointChain;
+  }
+
+  async close(): Promise<void> {
+    if (this.fsyncTimer) {
+      clearInterval(this.fsyncTimer);
+      this.fsyncTimer = null;
+    }
+
+    while (this.writing) {
+      await this.writing;
+    }
+    await this.checkpointChain;
+
+    if (this.activeHandle) {
+      await this.activeHandle.sync();
+      await this.activeHandle.close();
+      this.activeHandle = null;
+    }
+
+    this.opened = false;
+  }
+
+  getStats() {
+    let outstanding = 0;
+    for (const segment of this.segments.values()) {
+      outstanding += segment.outstanding;
+    }
+
+    return {
+      directory: this.config.directory,
+      activeSegment: this.active?.seq ?? null,
+      openSegments: this.segments.size,
+      outstandingEvents: outstanding,
+      fsyncPolicy: this.config.fsyncPolicy,
+    };
+  }
+
+  private scheduleDrain(): void {
+    if (this.writing) {
+      return;
+    }
+
+    this.writing = this.drain().finally(() => {
+      this.writing = null;
+      // Appends can land after the drain loop exits but before this callback runs
+      if (this.pending.length > 0) {
+        this.scheduleDrain();
+      }
+    });
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.length > 0) {
+      const group = this.pending.splice(0);
+
+      try {
+        if (this.active && this.active.sizeBytes >= this.config.segmentSizeBytes) {
+          await this.rotate();
+        }
+
+        const segment = this.active as Segment;
+        const handle = this.activeHandle as FileHandle;
+
+        let data = '';
+        let count = 0;
+        for (const { events } of group) {
+          for (const event of events) {
+            data += `${JSON.stringify(event)}\n`;
+            count++;
+          }
+        }
+
+        const buffer = Buffer.from(data, 'utf8');
+        await handle.write(buffer);
+
+        if (this.config.fsyncPolicy === 'always') {
+          await handle.sync();
+        } else {
+          this.dirty = true;
+        }
+
+        segment.sizeBytes += buffer.length;
+        segment.outstanding += count;
+        for (const { events } of group) {
+          for (const event of events) {
+            this.eventSegments.set(event, segment.seq);
+          }
+        }
+
+        for (const item of group) {
+          item.resolve();
+        }
+      } catch (error) {
+        console.error('[WriteAheadLog] Append failed:', errorMessage(error));
+        for (const item of group) {
+          item.reject(error);
+        }
+      }
+    }
+  }
+
+  private async rotate(): Promise<void> {
+    const previous = this.active as Segment;
+
+    if (this.activeHandle) {
+      await this.activeHandle.sync();
+      await this.activeHandle.close();
+      this.activeHandle = null;
+    }
+
+    previous.sealed = true;
+    await this.openSegment(previous.seq + 1);
+
+    if (previous.outstanding <= 0) {
+      this.checkpointChain = this.checkpointChain.then(() => this.completeSegment(previous));
+    }
+  }
+
+  private async openSegment(seq: number): Promise<void> {
+    this.activeHandle = await fs.open(this.walPath(seq), 'a');
+    this.active = { seq, sizeBytes: 0, outstanding: 0, sealed: false };
+    this.segments.set(seq, this.active);
+  }
+
+  private async syncActive(): Promise<void> {
+    if (this.dirty && this.activeHandle) {
+      this.dirty = false;
+      await this.activeHandle.sync();
+    }
+  }
+
+  private async completeSegment(segment: Segment): Promise<void> {
+    this.segments.delete(segment.seq);
+
+    if (this.config.retainCompletedSegments > 0) {
+      await fs.rename(this.walPath(segment.seq), `${this.walPath(segment.seq)}.done`);
+      await fs.rm(this.checkpointPath(segment.seq), { force: true });
+      this.completedSegments.push(segment.seq);
+      await this.pruneCompletedSegments();
+      return;
+    }
+
+    await fs.rm(this.walPath(segment.seq), { force: true });
+    await fs.rm(this.checkpointPath(segment.seq), { force: true });
+  }
+
+  // Delete the oldest completed segments beyond the retention limit
+  private async pruneCompletedSegments(): Promise<void> {
+    while (this.completedSegments.length > this.config.retainCompletedSegments) {
+      const expired = this.completedSegments.shift() as number;
+      await fs.rm(`${this.walPath(expired)}.done`, { force: true });
+    }
+  }
+
+  private async readUncheckpointed(seq: number): Promise<NormalizedEvent[]> {
+    const committed = new Set<string>();
+
+    const checkpoint = await fs.readFile(this.checkpointPath(seq), 'utf8').catch(() => '');
+    for (const line of checkpoint.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      try {
+        for (const id of JSON.parse(line) as string[]) {
+          committed.add(id);
+        }
+      } catch {
+        // Torn checkpoint line from a crash mid-write: replaying is safe
+      }
+    }
+
+    const contents = await fs.readFile(this.walPath(seq), 'utf8');
+    const events: NormalizedEvent[] = [];
+
+    for (const line of contents.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      try {
+        const event = deserializeEvent(JSON.parse(line));
+        if (!committed.has(event.eventId)) {
+          events.push(event);
+        }
+      } catch {
+        // A torn final record was never acknowledged to the client, so it is skipped
+        console.warn('[WriteAheadLog] Skipping unreadable record in segment', seq);
+      }
+    }
+
+    return events;
+  }
+
+  private walPath(seq: number): string {
+    return path.join(this.config.directory, `segment-${String(seq).padStart(12, '0')}.wal`);
+  }
+
+  private checkpointPath(seq: number): string {
+    return path.join(this.config.directory, `segment-${String(seq).padStart(12, '0')}.ckpt`);
+  }
+}
+
+function segmentSeqs(entries: string[], pattern: RegExp): number[] {
+  return entries
+    .map((name) => pattern.exec(name))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]))
+    .sort((a, b) => a - b);
+}
+
+// A NormalizedEvent as read back from its JSON record, with every date as an ISO string
+type SerializedEvent = Omit<NormalizedEvent, 'occurredAt' | 'receivedAt' | 'timestampCorrection'> & {
+  occurredAt: string;
+  receivedAt: string;
+  timestampCorrection?: Omit<ITimestampCorrection, 'clientOccurredAt' | 'sentAt'> & {
+    clientOccurredAt: string;
+    sentAt?: string;
+  };
+};
+
+// bulkInsert skips casting, so every date must be revived here or it is stored as a string
+function deserializeEvent(record: SerializedEvent): NormalizedEvent {
+  const { timestampCorrection, ...event } = record;
+  const revived: NormalizedEvent = {
+    ...event,
+    occurredAt: new Date(event.occurredAt),
+    receivedAt: new Date(event.receivedAt),
+  };
+
+  if (timestampCorrection) {
+    const { clientOccurredAt, sentAt, ...correction } = timestampCorrection;
+    revived.timestampCorrection = {
+      ...correction,
+      clientOccurredAt: new Date(clientOccurredAt),
+      ...(sentAt && { sentAt: new Date(sentAt) }),
+    };
+  }
+
+  return revived;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WriteKeyService, hashWriteKey } from './writeKey.service';
+import { SourceRepository, type WriteKeyRecord } from '../repositories/source.repository';
+
+describe('WriteKeyService', () => {
+  let repository: SourceRepository;
+  let service: WriteKeyService;
+
+  const record = (key: string, overrides?: Partial<WriteKeyRecord>): WriteKeyRecord => ({
+    keyId: `key_${key}`,
+    sourceId: 'src_web',
+    prefix: key.slice(0, 10),
+    keyHash: hashWriteKey(key),
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    repository = new SourceRepository();
+    vi.spyOn(repository, 'findUsableKeys').mockResolvedValue([record('wk_cached')]);
+    vi.spyOn(repository, 'findKeyByHash').mockResolvedValue(null);
+    vi.spyOn(repository, 'insertKey').mockImplementation(async (key) => ({
+      keyId: key.keyId,
+      sourceId: key.sourceId,
+      prefix: key.prefix,
+      createdAt: new Date(),
+    }));
+    vi.spyOn(repository, 'expireOtherKeys').mockResolvedValue(1);
+    vi.spyOn(repository, 'revokeKey');
+    vi.spyOn(repository, 'touchKeys').mockResolvedValue(undefined);
+
+    service = new WriteKeyService(repository, 1000);
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('authenticates cached keys without a database lookup', async () => {
+    await service.load();
+
+    expect(await service.authenticate('wk_cached')).toBe('src_web');
+    expect(repository.findKeyByHash).not.toHaveBeenCalled();
+  });
+
+  it('looks up unknown keys once and remembers misses', async () => {
+    await service.load();
+
+    expect(await service.authenticate('wk_bogus')).toBeNull();
+    expect(await service.authenticate('wk_bogus')).toBeNull();
+
+    expect(repository.findKeyByHash).toHaveBeenCalledTimes(1);
+  });
+
+  it('accepts keys created on another instance since the last refresh', async () => {
+    await service.load();
+    vi.mocked(repository.findKeyByHash).mockResolvedValue(record('wk_new', { sourceId: 'src_ios' }));
+
+    expect(await service.authenticate('wk_new')).toBe('src_ios');
+    expect(await service.authenticate('wk_new')).toBe('src_ios');
+    expect(repository.findKeyByHash).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects revoked and expired keys found in the database', async () => {
+    await service.load();
+    vi.mocked(repository.findKeyByHash)
+      .mockResolvedValueOnce(record('wk_revoked', { revokedAt: new Date() }))
+      .mockResolvedValueOnce(record('wk_expired', { expiresAt: new Date('2025-01-15T11:00:00Z') }));
+
+    expect(await service.authenticate('wk_revoked')).toBeNull();
+    expect(await service.authenticate('wk_expired')).toBeNull();
+  });
+
+  it('keeps previous keys valid for the overlap window after a rotation', async () => {
+    await service.load();
+
+    const { key, previousKeysExpireAt } = await service.rotateKey('src_web', 60 * 60 * 1000);
+
+    expect(key.key).toMatch(/^wk_/);
+    expect(previousKeysExpireAt).toEqual(new Date('2025-01-15T13:00:00Z'));
+    expect(repository.expireOtherKeys).toHaveBeenCalledWith('src_web', key.keyId, previousKeysExpireAt);
+    expect(await service.authenticate(key.key)).toBe('src_web');
+    expect(await service.authenticate('wk_cached')).toBe('src_web');
+
+    vi.setSystemTime(new Date('2025-01-15T13:00:01Z'));
+
+    expect(await service.authenticate('wk_cached')).toBeNull();
+    expect(await service.authenticate(key.key)).toBe('src_web');
+  });
+
+  it('stops accepting a key as soon as it is revoked', async () => {
+    await service.load();
+    vi.mocked(repository.revokeKey).mockResolvedValue({
+      keyId: 'key_wk_cached',
+      sourceId: 'src_web',
+      prefix: 'wk_cached',
+      createdAt: new Date(),
+      revokedAt: new Date(),
+    });
+
+    await service.revokeKey('src_web', 'key_wk_cached');
+
+    expect(await service.authenticate('wk_cached')).toBeNull();
+  });
+
+  it('writes last-used timestamps on refresh', async () => {
+    await service.load();
+    service.startRefresh();
+
+    await service.authenticate('wk_cached');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(repository.touchKeys).toHaveBeenCalledWith(
+      new Map([['key_wk_cached', new Date('2025-01-15T12:00:00Z')]])
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { SourceInfo, SourceRepository, WriteKeyInfo, WriteKeyRecord } from '../repositories/source.repository';
+
+// A newly created key. `key` is the plaintext and is only ever returned here.
+export interface IssuedWriteKey extends WriteKeyInfo {
+  key: string;
+}
+
+interface CachedKey {
+  keyId: string;
+  sourceId: string;
+  expiresAt: number | null;
+}
+
+const WRITE_KEY_PREFIX = 'wk_';
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export function hashWriteKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${randomBytes(6).toString('hex')}`;
+}
+
+function isUsable(record: WriteKeyRecord, now: number): boolean {
+  return !record.revokedAt && (!record.expiresAt || record.expiresAt.getTime() > now);
+}
+
+// Issues write keys and authenticates POST /events.
+//
+// Authentication is served from an in-memory map of usable key hashes so the hot
+// path normally never touches MongoDB. A key the cache does not know (e.g. created
+// on another instance since the last refresh) costs one lookup, and unknown keys are
+// remembered for a minute so a client with a bad key cannot hammer the database.
+// Last-used timestamps are collected in memory and written on each refresh.
+export class WriteKeyService {
+  private keys = new Map<string, CachedKey>();
+  private misses = new Map<string, number>();
+  private lastUsed = new Map<string, Date>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  private readonly missTtlMs = 60000;
+  private readonly maxMisses = 10000;
+
+  constructor(
+    private repository: SourceRepository,
+    private readonly refreshIntervalMs = 30000
+  ) {}
+
+  async load(): Promise<void> {
+    const records = await this.repository.findUsableKeys();
+    this.keys = new Map(
+      records.map((record) => [
+        record.keyHash,
+        { keyId: record.keyId, sourceId: record.sourceId, expiresAt: record.expiresAt?.getTime() ?? null },
+      ])
+    );
+    this.misses.clear();
+  }
+
+  startRefresh(): void {
+    if (this.refreshTimer || this.refreshIntervalMs <= 0) {
+      return;
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.flushLastUsed()
+        .then(() => this.load())
+        .catch((error) => {
+          // Keep authenticating against the last known keys until the database is back
+          console.error('[WriteKeyService] Refresh failed:', error.message);
+        });
+    }, this.refreshIntervalMs);
+    this.refreshTimer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    await this.flushLastUsed();
+  }
+
+  /**
+   * Resolve a write key to the sourceId it belongs to
+   *
+   * @returns sourceId, or null when the key is unknown, revoked or expired
+   */
+  async authenticate(key: string): Promise<string | null> {
+    const hash = hashWriteKey(key);
+    const now = Date.now();
+
+    const cached = this.keys.get(hash);
+    if (cached) {
+      if (cached.expiresAt !== null && cached.expiresAt <= now) {
+        this.keys.delete(hash);
+        return null;
+      }
+      this.lastUsed.set(cached.keyId, new Date(now));
+      return cached.sourceId;
+    }
+
+    const missUntil = this.misses.get(hash);
+    if (missUntil !== undefined && missUntil > now) {
+      return null;
+    }
+
+    const record = await this.repository.findKeyByHash(hash);
+    if (!record || !isUsable(record, now)) {
+      if (this.misses.size >= this.maxMisses) {
+        this.misses.clear();
+      }
+      this.misses.set(hash, now + this.missTtlMs);
+      return null;
+    }
+
+    this.keys.set(hash, {
+      keyId: record.keyId,
+      sourceId: record.sourceId,
+      expiresAt: record.expiresAt?.getTime() ?? null,
+    });
+    this.lastUsed.set(record.keyId, new Date(now));
+    return record.sourceId;
+  }
+
+  async createSource(source: {
+    name: string;
+    description?: string;
+    createdBy?: string;
+  }): Promise<{ source: SourceInfo; key: IssuedWriteKey }> {
+    const created = await this.repository.createSource({ sourceId: generateId('src'), ...source });
+    const key = await this.issueKey(created.sourceId);
+    return { source: created, key };
+  }
+
+  // Add a key without touching the source's existing keys
+  async issueKey(sourceId: string): Promise<IssuedWriteKey> {
+    const key = `${WRITE_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const keyHash = hashWriteKey(key);
+
+    const info = await this.repository.insertKey({
+      keyId: generateId('key'),
+      sourceId,
+      keyHash,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    });
+
+    this.keys.set(keyHash, { keyId: info.keyId, sourceId, expiresAt: null });
+    this.misses.delete(keyHash);
+
+    return { ...info, key };
+  }
+
+  /**
+   * Issue a new key and let every other key of the source expire after the overlap
+   * window, so clients can be redeployed with the new key without dropping events
+   */
+  async rotateKey(sourceId: string, overlapMs: number): Promise<{ key: IssuedWriteKey; previousKeysExpireAt: Date }> {
+    const key = await this.issueKey(sourceId);
+    const previousKeysExpireAt = new Date(Date.now() + overlapMs);
+
+    await this.repository.expireOtherKeys(sourceId, key.keyId, previousKeysExpireAt);
+
+    for (const cached of this.keys.values()) {
+      if (cached.sourceId === sourceId && cached.keyId !== key.keyId) {
+        cached.expiresAt = Math.min(cached.expiresAt ?? Infinity, previousKeysExpireAt.getTime());
+      }
+    }
+
+    return { key, previousKeysExpireAt };
+  }
+
+  // Takes effect immediately on this instance and on the next refresh elsewhere
+  async revokeKey(sourceId: string, keyId: string): Promise<WriteKeyInfo | null> {
+    const info = await this.repository.revokeKey(sourceId, keyId);
+    if (!info) {
+      return null;
+    }
+
+    for (const [hash, cached] of this.keys) {
+      if (cached.keyId === keyId) {
+        this.keys.delete(hash);
+      }
+    }
+
+    return info;
+  }
+
+  private async flushLastUsed(): Promise<void> {
+    if (this.lastUsed.size === 0) {
+      return;
+    }
+
+    const batch = this.lastUsed;
+    this.lastUsed = new Map();
+
+    try {
+      await this.repository.touchKeys(batch);
+    } catch (error) {
+      // Best effort: merge back so the timestamps are written on the next attempt
+      for (const [keyId, usedAt] of batch) {
+        if (!this.lastUsed.has(keyId)) {
+          this.lastUsed.set(keyId, usedAt);
+        }
+      }
+      throw error;
+    }
+  }
+}
@@ -1,5 +1,8 @@
 import swaggerJsdoc from "swagger-jsdoc";
 import { SwaggerDefinition } from "swagger-jsdoc";
+import type { IEventTypeDefinition } from "@martech/types";
+import type { PayloadSchemaEntry } from "./repositories/payloadSchema.repository";
+import type { JsonSchema } from "./validators/payloadSchema.validator";
 
 /**
  * Swagger/OpenAPI Configuration
@@ -57,10 +60,70 @@ A production-grade event ingestion pipeline with user authentication.
 			name: "Events",
 			description: "Event ingestion and user journey endpoints",
 		},
+		{
+			name: "Sessions",
+			description:
+				"Sessions materialized from stored events: times, counts, pages and device context",
+		},
+		{
+			name: "Users",
+			description:
+				"User profiles: traits, first/last seen, event and session counts and computed properties",
+		},
 		{
 			name: "Monitoring",
 			description: "Health checks and system statistics",
 		},
+		{
+			name: "Dead Letters",
+			description:
+				"Administration of events that failed to flush after retries",
+		},
+		{
+			name: "Event Types",
+			description:
+				"Catalog of event types accepted by the ingestion endpoint, managed at runtime",
+		},
+		{
+			name: "Payload Schemas",
+			description:
+				"Tracking plan: versioned JSON Schemas for the payload of each event type",
+		},
+		{
+			name: "PII Redaction",
+			description:
+				"Rules that drop, mask or hash personal data in event payloads at ingestion",
+		},
+		{
+			name: "Transformation Pipeline",
+			description:
+				"Declarative stages that modify, split, drop or tag events between normalization and buffering",
+		},
+		{
+			name: "Traffic Filter",
+			description:
+				"Recognition of bot and internal traffic at ingestion, dropped or flagged and left out of analytics",
+		},
+		{
+			name: "Configuration",
+			description:
+				"Effective configuration of an API instance and runtime ingestion tuning",
+		},
+		{
+			name: "Imports",
+			description:
+				"Historical imports from CSV, NDJSON and JSON files: upload, progress, pause, resume and rollback",
+		},
+		{
+			name: "Sources",
+			description:
+				"Event sources and the write keys that authenticate POST /events",
+		},
+		{
+			name: "Segment",
+			description:
+				"Segment-compatible tracking API: existing Segment/RudderStack SDKs can send here by changing the host",
+		},
 	],
 	components: {
 		securitySchemes: {
@@ -70,6 +133,25 @@ A production-grade event ingestion pipeline with user authentication.
 				name: "better-auth.session_token",
 				description: "Session token cookie set by Better Auth after login",
 			},
+			writeKey: {
+				type: "apiKey",
+				in: "header",
+				name: "X-Write-Key",
+				description:
+					"Write key of an event source. Can also be sent as the username of HTTP Basic auth with an empty password.",
+			},
+			writeKeyQuery: {
+				type: "apiKey",
+				in: "query",
+				name: "writeKey",
+				description:
+					"Write key as a query parameter, for beacons and pixels that cannot set headers",
+			},
+			writeKeyBasic: {
+				type: "http",
+				scheme: "basic",
+				description: "Write key as the Basic auth username, empty password",
+			},
 		},
 		schemas: {
 			User: {
@@ -131,7 +213,8 @@ A production-grade event ingestion pipeline with user authentication.
 				properties: {
 					eventId: {
 						type: "string",
-						description: "Unique event identifier (UUID, auto-generated)",
+						description:
+							"Unique event identifier. Optional: clients may send a UUID or a namespaced string (e.g. \"ios:abc-123\") so retries are deduplicated. Generated by the server when omitted.",
 						example: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
 					},
 					userId: {
@@ -141,220 +224,3084 @@ A production-grade event ingestion pipeline with user authentication.
 					},
 					sessionId: {
 						type: "string",
-						description: "Session identifier",
+						description:
+							"Session identifier. May be omitted for sources with server-side sessionization, which then assigns one when the event is stored.",
 						example: "sess456",
 					},
+					derivedSessionId: {
+						type: "string",
+						readOnly: true,
+						description:
+							"Session derived by server-side sessionization, for sources that have it on",
+						example: "ds_9f86d081884c7d659a2feaa0",
+					},
 					type: {
 						type: "string",
-						enum: [
-							"session_start",
-							"page_view",
-							"search",
-							"purchase",
-							"add_to_cart",
-							"remove_from_cart",
-							"button_click",
-							"form_submit",
-							"video_play",
-							"video_pause",
-						],
-						description: "Event type",
+						description:
+							"Event type registered in the event-type catalog (see /event-types). Blocked types are rejected.",
 						example: "page_view",
 					},
 					payload: {
 						type: "object",
-						description: "Event-specific data",
+						description:
+							"Event-specific data. Validated against the registered payload schema of the event type, if any (see the *Payload schemas below).",
 						example: { url: "/products/123", referrer: "https://google.com" },
 					},
 					occurredAt: {
 						type: "string",
 						format: "date-time",
 						description:
-							"When the event occurred (ISO 8601). Defaults to current time if not provided.",
+							"When the event occurred (ISO 8601), by the client clock. Defaults to current time if not provided. Corrected for clock skew when sentAt is sent; see timestampCorrection.",
 						example: "2025-12-15T10:30:00Z",
 					},
+					sentAt: {
+						type: "string",
+						format: "date-time",
+						writeOnly: true,
+						description:
+							"Client clock when the request was sent. The server adds receivedAt - sentAt to occurredAt, so devices with a wrong clock still get correct timestamps.",
+						example: "2025-12-15T10:30:01Z",
+					},
+					anonymousId: {
+						type: "string",
+						description:
+							"Device-level identifier for events sent before the user is known",
+						example: "6f1b2c3d-anon",
+					},
+					context: {
+						type: "object",
+						description:
+							"Client environment reported by the SDK (app, device, library, locale...). On ingestion the server adds the parsed User-Agent (browser, os, device), geo (country, region, timezone) from the client IP, the IP with its last octet zeroed and the traffic channel; fields the SDK sent for browser, os and device take precedence.",
+						example: {
+							library: { name: "analytics.js", version: "2.1.0" },
+							userAgent:
+								"Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+							browser: { name: "Chrome", version: "120.0.0.0" },
+							os: { name: "macOS", version: "10.15.7" },
+							device: { type: "desktop", vendor: "Apple" },
+							ip: "203.0.113.0",
+							geo: { country: "DE", region: "BE", timezone: "Europe/Berlin" },
+							traffic: {
+								channel: "paid_search",
+								source: "google",
+								medium: "cpc",
+								referrerDomain: "google.com",
+							},
+						},
+					},
 					receivedAt: {
 						type: "string",
 						format: "date-time",
 						description: "When the server received the event (auto-generated)",
 						example: "2025-12-15T10:30:01.234Z",
 					},
+					sourceId: {
+						type: "string",
+						readOnly: true,
+						description:
+							"Source whose write key authenticated the request (set by the server)",
+						example: "src_4f2a9c1b7e3d",
+					},
+					timestampCorrection: {
+						$ref: "#/components/schemas/TimestampCorrection",
+					},
+					tags: {
+						type: "array",
+						items: { type: "string" },
+						readOnly: true,
+						description: "Added by tag stages of the transformation pipeline",
+						example: ["eu"],
+					},
+					excluded: {
+						type: "boolean",
+						readOnly: true,
+						description:
+							"Bot or internal traffic stored by the traffic filter in flag mode",
+					},
+					exclusionReason: {
+						type: "string",
+						readOnly: true,
+						enum: ["internal_user", "excluded_ip", "bot", "abnormal_rate"],
+					},
 				},
 			},
-			Error: {
+			TimestampCorrection: {
 				type: "object",
+				readOnly: true,
+				description:
+					"Client timestamps kept for auditing. Present when the client sent sentAt, or when occurredAt was outside the accepted window (TIMESTAMP_MAX_FUTURE_MS / TIMESTAMP_MAX_PAST_MS) and the clamp or flag policy applied.",
 				properties: {
-					error: {
+					clientOccurredAt: {
 						type: "string",
-						description: "Error type",
-						example: "Validation Error",
+						format: "date-time",
+						description: "occurredAt as sent by the client",
 					},
-					message: {
+					sentAt: { type: "string", format: "date-time" },
+					skewMs: {
+						type: "integer",
+						description: "receivedAt - sentAt, added to clientOccurredAt",
+						example: -7776000000,
+					},
+					outOfRange: { type: "string", enum: ["future", "past"] },
+					clamped: {
+						type: "boolean",
+						description: "occurredAt was moved to the edge of the window",
+					},
+				},
+			},
+			SegmentMessage: {
+				type: "object",
+				description:
+					"Segment spec message. userId falls back to anonymousId; sessionId is context.sessionId when present, otherwise the anonymousId (or userId).",
+				properties: {
+					type: {
 						type: "string",
-						description: "Error message",
-						example: "Missing required fields",
+						enum: ["track", "identify", "page", "screen", "alias"],
+						description: "Required in /v1/batch; implied by the route otherwise",
 					},
-					details: {
+					userId: { type: "string", example: "user123" },
+					anonymousId: { type: "string", example: "6f1b2c3d-anon" },
+					messageId: {
+						type: "string",
+						description:
+							"Becomes the eventId (namespaced as segment:<messageId> when it is not a UUID) so retries are deduplicated",
+						example: "ajs-next-1736942400000-4f2a",
+					},
+					event: {
+						type: "string",
+						description:
+							'track only. Mapped to an event type: spec events such as "Order Completed" to built-in types, other names to snake_case ("Signup Started" -> signup_started), which must be in the catalog.',
+						example: "Order Completed",
+					},
+					name: {
+						type: "string",
+						description: "page/screen name, added to the payload",
+					},
+					category: {
+						type: "string",
+						description: "page/screen category, added to the payload",
+					},
+					properties: {
 						type: "object",
-						description: "Additional error details",
+						description: "track/page/screen payload",
+					},
+					traits: { type: "object", description: "identify payload" },
+					previousId: {
+						type: "string",
+						description: "alias only: the identity being linked to userId",
+					},
+					context: { type: "object" },
+					timestamp: {
+						type: "string",
+						format: "date-time",
+						description: "Becomes occurredAt",
+					},
+					originalTimestamp: {
+						type: "string",
+						format: "date-time",
+						description:
+							"Used with sentAt to correct the device clock when timestamp is absent",
 					},
+					sentAt: { type: "string", format: "date-time" },
 				},
 			},
-		},
-	},
-};
-
-const options: swaggerJsdoc.Options = {
-	definition: {
-		...swaggerDefinition,
-		paths: {
-			"/events": {
-				post: {
-					tags: ["Events"],
-					summary: "Ingest one or more events",
-					description:
-						"Accepts single event or array of events for ingestion into the pipeline. Events are buffered in memory and flushed to MongoDB when buffer reaches 500 events or after 1000ms. Returns 202 Accepted immediately - processing is asynchronous.",
-					requestBody: {
-						required: true,
-						content: {
-							"application/json": {
-								schema: {
-									oneOf: [
-										{ $ref: "#/components/schemas/Event" },
-										{
-											type: "array",
-											items: { $ref: "#/components/schemas/Event" },
-										},
-									],
-								},
-								examples: {
-									singleEvent: {
-										summary: "Single event",
-										value: {
-											userId: "user123",
-											sessionId: "sess456",
-											type: "page_view",
-											payload: {
-												url: "/products/123",
-												referrer: "https://google.com",
-											},
-										},
-									},
-									batchEvents: {
-										summary: "Batch of events",
-										value: [
-											{
-												userId: "user123",
-												sessionId: "sess456",
-												type: "page_view",
-												payload: { url: "/home" },
-											},
-											{
-												userId: "user123",
-												sessionId: "sess456",
-												type: "button_click",
-												payload: { button: "add_to_cart" },
-											},
-										],
+			SegmentResponse: {
+				type: "object",
+				properties: {
+					success: { type: "boolean", example: true },
+					accepted: { type: "integer", description: "/v1/batch only" },
+					rejected: { type: "integer", description: "/v1/batch only" },
+					errors: {
+						type: "array",
+						description: "Rejected messages of a batch",
+						items: {
+							type: "object",
+							properties: {
+								index: { type: "integer" },
+								error: {
+									type: "object",
+									properties: {
+										code: { type: "string", example: "UNKNOWN_EVENT_TYPE" },
+										field: { type: "string", example: "type" },
+										message: { type: "string" },
 									},
 								},
 							},
 						},
 					},
-					responses: {
-						202: {
-							description: "Events accepted for processing",
-							content: {
-								"application/json": {
-									schema: {
-										type: "object",
-										properties: {
-											message: {
-												type: "string",
-												example: "Events accepted for processing",
-											},
-											count: { type: "integer", example: 2 },
-											eventIds: {
-												type: "array",
-												items: { type: "string" },
-												example: ["uuid-1", "uuid-2"],
-											},
-										},
-									},
-								},
-							},
-						},
-						400: {
-							description: "Invalid request payload",
-							content: {
-								"application/json": {
-									schema: { $ref: "#/components/schemas/Error" },
-								},
-							},
-						},
-						503: {
-							description: "Buffer overflow - service unavailable",
-							content: {
-								"application/json": {
-									schema: { $ref: "#/components/schemas/Error" },
-								},
+				},
+			},
+			IdentityLink: {
+				type: "object",
+				properties: {
+					identifier: {
+						type: "string",
+						description: "Linked identifier, as sent in events.userId",
+						example: "6f1b2c3d-anon",
+					},
+					canonicalUserId: { type: "string", example: "user123" },
+					kind: { type: "string", enum: ["anonymous", "device", "user"] },
+					via: { type: "string", enum: ["identify", "alias"] },
+					eventId: {
+						type: "string",
+						description: "identify/alias event that created the link",
+					},
+					linkedAt: { type: "string", format: "date-time" },
+				},
+			},
+			IdentityGraph: {
+				type: "object",
+				properties: {
+					userId: { type: "string", example: "6f1b2c3d-anon" },
+					canonicalUserId: { type: "string", example: "user123" },
+					identities: {
+						type: "array",
+						items: { $ref: "#/components/schemas/IdentityLink" },
+					},
+				},
+			},
+			WriteKey: {
+				type: "object",
+				properties: {
+					keyId: { type: "string", example: "key_9b1e44c0a2f7" },
+					sourceId: { type: "string", example: "src_4f2a9c1b7e3d" },
+					prefix: {
+						type: "string",
+						description: "First characters of the key, to tell keys apart",
+						example: "wk_Jx8Qm2a",
+					},
+					createdAt: { type: "string", format: "date-time" },
+					expiresAt: {
+						type: "string",
+						format: "date-time",
+						description: "Set when the key was rotated out",
+					},
+					revokedAt: { type: "string", format: "date-time" },
+					lastUsedAt: {
+						type: "string",
+						format: "date-time",
+						description: "Updated periodically, not on every request",
+					},
+				},
+			},
+			SessionizationSettings: {
+				type: "object",
+				description:
+					"Server-side sessionization of a source's events. Omitted fields take their default.",
+				properties: {
+					mode: {
+						type: "string",
+						enum: ["assign", "split"],
+						default: "assign",
+						description:
+							"assign: only events without a sessionId get a derived session. split: every event does, and a client sessionId change starts a session.",
+					},
+					inactivityTimeoutMinutes: { type: "integer", minimum: 1, maximum: 1440, default: 30 },
+					splitAtMidnight: { type: "boolean", default: true },
+					splitOnCampaignChange: { type: "boolean", default: true },
+					timezone: {
+						type: "string",
+						default: "UTC",
+						description: "IANA timezone of the midnight boundary",
+						example: "Europe/Berlin",
+					},
+				},
+			},
+			SourceLimits: {
+				type: "object",
+				description:
+					"Overrides of the default ingestion limits. Omitted fields use the server defaults.",
+				properties: {
+					eventsPerSecond: {
+						type: "number",
+						minimum: 0,
+						description: "Sustained rate (0 = unlimited)",
+						example: 2000,
+					},
+					burst: {
+						type: "number",
+						minimum: 0,
+						description: "Token bucket capacity",
+						example: 10000,
+					},
+					dailyQuota: {
+						type: "number",
+						minimum: 0,
+						description: "Events per UTC day (0 = unlimited)",
+						example: 5000000,
+					},
+				},
+			},
+			IssuedWriteKey: {
+				allOf: [
+					{ $ref: "#/components/schemas/WriteKey" },
+					{
+						type: "object",
+						properties: {
+							key: {
+								type: "string",
+								description:
+									"Plaintext write key. Only returned once; store it securely.",
+								example: "wk_Jx8Qm2aLr0vN5cTzP1hYbK7eWdFs3uGi",
 							},
 						},
 					},
+				],
+			},
+			Source: {
+				type: "object",
+				properties: {
+					sourceId: { type: "string", example: "src_4f2a9c1b7e3d" },
+					name: { type: "string", example: "iOS app" },
+					description: { type: "string" },
+					createdBy: { type: "string", format: "email" },
+					limits: { $ref: "#/components/schemas/SourceLimits" },
+					sessionization: { $ref: "#/components/schemas/SessionizationSettings" },
+					createdAt: { type: "string", format: "date-time" },
+					updatedAt: { type: "string", format: "date-time" },
+					keys: {
+						type: "array",
+						items: { $ref: "#/components/schemas/WriteKey" },
+					},
 				},
 			},
-			"/users/{userId}/journey": {
-				get: {
+			EventResult: {
+				type: "object",
+				properties: {
+					index: { type: "integer", example: 1 },
+					status: { type: "string", enum: ["accepted", "rejected"] },
+					eventId: { type: "string", description: "Present when accepted" },
+					eventIdSource: { type: "string", enum: ["client", "generated"] },
+					schemaViolations: {
+						$ref: "#/components/schemas/SchemaViolations",
+					},
+					error: {
+						type: "object",
+						description: "Present when rejected",
+						properties: {
+							code: {
+								type: "string",
+								enum: [
+									"INVALID_EVENT",
+									"INVALID_EVENT_ID",
+									"MISSING_FIELD",
+									"INVALID_FIELD_TYPE",
+									"UNKNOWN_EVENT_TYPE",
+									"BLOCKED_EVENT_TYPE",
+									"INVALID_TIMESTAMP",
+									"TIMESTAMP_OUT_OF_RANGE",
+									"INVALID_PAYLOAD",
+									"INVALID_JSON",
+								],
+								example: "MISSING_FIELD",
+							},
+							field: { type: "string", example: "sessionId" },
+							message: {
+								type: "string",
+								example: "Missing or invalid required field: sessionId",
+							},
+						},
+					},
+				},
+			},
+			RedactionRule: {
+				type: "object",
+				required: ["action"],
+				description:
+					"Matches values at a payload path, PII found anywhere in the payload, or PII found under a path when both are given",
+				properties: {
+					path: {
+						type: "string",
+						description:
+							"Dot-separated payload path; * matches any key or array index",
+						example: "items.*.card",
+					},
+					detect: {
+						type: "string",
+						enum: ["email", "phone", "credit_card", "ip"],
+						description:
+							"PII pattern searched in string values. credit_card requires a valid Luhn checksum; phone requires 9-15 digits written with a leading + or separators.",
+					},
+					action: {
+						type: "string",
+						enum: ["drop", "mask", "hash"],
+						description:
+							"drop removes the field; mask keeps a few characters (e.g. j***@example.com, ************1111); hash replaces the value with sha256:<salted SHA-256>",
+					},
+				},
+			},
+			RedactionRuleSet: {
+				type: "object",
+				properties: {
+					eventType: { type: "string", example: "form_submit" },
+					rules: {
+						type: "array",
+						items: { $ref: "#/components/schemas/RedactionRule" },
+					},
+					updatedAt: { type: "string", format: "date-time" },
+					updatedBy: { type: "string", example: "admin@example.com" },
+				},
+			},
+			TransformStage: {
+				type: "object",
+				required: ["name", "action"],
+				description:
+					"Paths are dot-separated and start with payload. or context.; conditions and copy may also read type, userId, sessionId, sourceId and anonymousId. The fields a stage takes depend on its action.",
+				properties: {
+					name: {
+						type: "string",
+						pattern: "^[A-Za-z0-9_-]{1,64}$",
+						description: "Unique; used as the stage label in metrics",
+						example: "drop-debug-clicks",
+					},
+					action: {
+						type: "string",
+						enum: ["drop", "rename", "set", "copy", "remove", "tag", "split"],
+						description:
+							"drop: discard the event. rename/copy (from, to): move or copy a value. set (path, value): write a constant. remove (path): delete a value. tag (tags): add tags. split (path, as): one event per element of the array at path, stored at as, with eventId <eventId>:<index>.",
+					},
+					when: {
+						type: "object",
+						description: "Every given criterion must match; without when the stage applies to every event",
+						properties: {
+							eventType: {
+								oneOf: [
+									{ type: "string" },
+									{ type: "array", items: { type: "string" } },
+								],
+							},
+							where: {
+								type: "object",
+								additionalProperties: true,
+								description: "Path to expected value, or to an array of accepted values",
+								example: { "payload.element": "debug" },
+							},
+						},
+					},
+					path: { type: "string", example: "payload.items" },
+					from: { type: "string", example: "payload.price" },
+					to: { type: "string", example: "payload.amount" },
+					as: { type: "string", example: "payload.item" },
+					value: { description: "Any JSON value, for set" },
+					tags: { type: "array", items: { type: "string" } },
+				},
+			},
+			TransformPipeline: {
+				type: "object",
+				properties: {
+					stages: {
+						type: "array",
+						items: { $ref: "#/components/schemas/TransformStage" },
+					},
+					updatedAt: {
+						type: "string",
+						format: "date-time",
+						nullable: true,
+						description: "null while the pipeline has never been configured",
+					},
+					updatedBy: { type: "string", example: "admin@example.com" },
+				},
+			},
+			IngestionSettings: {
+				type: "object",
+				properties: {
+					maxBufferSize: {
+						type: "integer",
+						minimum: 1,
+						maximum: 100000,
+						default: 2000,
+						description: "Events per flush; a full batch is flushed before the interval",
+					},
+					flushIntervalMs: { type: "integer", minimum: 10, maximum: 60000, default: 200 },
+					backpressureThreshold: {
+						type: "integer",
+						minimum: 1,
+						maximum: 1000000,
+						default: 10000,
+						description:
+							"Buffered and retrying events above which POST /events answers 429; at least maxBufferSize",
+					},
+					maxConcurrentFlushes: { type: "integer", minimum: 1, maximum: 50, default: 5 },
+					maxFlushAttempts: {
+						type: "integer",
+						minimum: 1,
+						maximum: 20,
+						default: 5,
+						description: "Failed attempts before a batch is bisected",
+					},
+					retryBaseDelayMs: { type: "integer", minimum: 1, maximum: 60000, default: 200 },
+					retryMaxDelayMs: { type: "integer", minimum: 1, maximum: 600000, default: 30000 },
+				},
+			},
+			BackpressureState: {
+				type: "object",
+				nullable: true,
+				description:
+					"Adaptive backpressure of this instance; null with BACKPRESSURE_ADAPTIVE=false",
+				properties: {
+					pressure: {
+						type: "number",
+						minimum: 0,
+						maximum: 1,
+						description:
+							"From flush latency, flush failures and the connection; 1 while disconnected",
+					},
+					databaseConnected: { type: "boolean" },
+					flushLatencyMs: {
+						type: "integer",
+						description: "Moving average of recent flush durations",
+					},
+					flushErrorRate: {
+						type: "number",
+						description: "Moving average share of failed flushes",
+					},
+					drainRate: {
+						type: "integer",
+						description: "Events per second written by one flush",
+					},
+					batchSize: { type: "integer" },
+					maxConcurrentFlushes: { type: "integer" },
+					acceptanceThreshold: { type: "integer" },
+					shedProbability: {
+						type: "number",
+						description:
+							"Probability that an ingestion request is rejected at the current buffer size",
+					},
+				},
+			},
+			PersistenceResults: {
+				type: "object",
+				properties: {
+					message: { type: "string", example: "Events processed" },
+					counts: {
+						type: "object",
+						additionalProperties: { type: "integer" },
+						example: { persisted: 1, pending: 1 },
+					},
+					deprecatedEventTypes: {
+						type: "array",
+						items: { type: "string" },
+					},
+					results: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: {
+								index: { type: "integer" },
+								eventId: { type: "string" },
+								status: {
+									type: "string",
+									enum: ["persisted", "duplicate", "dropped", "failed", "pending", "rejected"],
+								},
+								error: {
+									description: "Why the event was not stored; a rejection object in partial mode",
+								},
+							},
+						},
+					},
+				},
+			},
+			ImportRejection: {
+				type: "object",
+				properties: {
+					record: {
+						type: "integer",
+						description: "1-based record number (CSV data row, NDJSON line or array element)",
+					},
+					code: { type: "string", example: "UNKNOWN_EVENT_TYPE" },
+					field: { type: "string", example: "type" },
+					message: { type: "string" },
+				},
+			},
+			ImportJob: {
+				type: "object",
+				properties: {
+					importId: { type: "string", example: "imp_9b1e0c6f2a4d" },
+					status: {
+						type: "string",
+						enum: [
+							"queued",
+							"running",
+							"paused",
+							"completed",
+							"failed",
+							"rolling_back",
+							"rolled_back",
+						],
+					},
+					file: {
+						type: "string",
+						description: "Path relative to IMPORT_DIR",
+						example: "uploads/upl_4f9c2a7d1b3e.csv",
+					},
+					fileSize: { type: "integer" },
+					format: { type: "string", enum: ["csv", "ndjson", "json"] },
+					mapping: {
+						type: "object",
+						additionalProperties: { type: "string" },
+						example: { userId: "user_id", "payload.amount": "total" },
+					},
+					defaults: {
+						type: "object",
+						additionalProperties: true,
+						example: { type: "purchase" },
+					},
+					sourceId: { type: "string" },
+					progress: {
+						type: "object",
+						properties: {
+							processed: {
+								type: "integer",
+								description: "Records read and saved, including rejected ones; a resumed import continues after them",
+							},
+							imported: { type: "integer" },
+							duplicates: { type: "integer" },
+							rejected: { type: "integer" },
+							bytesRead: { type: "integer" },
+						},
+					},
+					rejections: {
+						type: "array",
+						maxItems: 100,
+						description: "The first rejected records; only returned for a single import",
+						items: { $ref: "#/components/schemas/ImportRejection" },
+					},
+					failure: { type: "string" },
+					deletedCount: {
+						type: "integer",
+						description: "Events deleted by the rollback",
+					},
+					createdBy: { type: "string" },
+					heartbeatAt: { type: "string", format: "date-time" },
+					startedAt: { type: "string", format: "date-time" },
+					completedAt: { type: "string", format: "date-time" },
+					rolledBackAt: { type: "string", format: "date-time" },
+					createdAt: { type: "string", format: "date-time" },
+					updatedAt: { type: "string", format: "date-time" },
+				},
+			},
+			SessionSummary: {
+				type: "object",
+				description:
+					"Session materialized from its stored events; updated on every buffer flush",
+				properties: {
+					sessionId: { type: "string", example: "sess456" },
+					userId: {
+						type: "string",
+						description: "userId of the session's first stored event",
+						example: "user123",
+					},
+					startedAt: { type: "string", format: "date-time" },
+					endedAt: {
+						type: "string",
+						format: "date-time",
+						description: "Time of the latest event so far",
+					},
+					duration: {
+						type: "integer",
+						description: "endedAt - startedAt in milliseconds",
+					},
+					eventCount: { type: "integer" },
+					pageViewCount: {
+						type: "integer",
+						description: "page_view and screen_view events",
+					},
+					uniquePages: {
+						type: "integer",
+						description: "Distinct pages viewed, counted up to 500",
+					},
+					entryPage: { type: "string", example: "/home" },
+					exitPage: { type: "string", example: "/checkout" },
+					device: { type: "string", example: "mobile" },
+					browser: { type: "string", example: "Safari" },
+					os: { type: "string", example: "iOS" },
+					ipAddress: {
+						type: "string",
+						description: "Anonymized by enrichment",
+						example: "203.0.113.0",
+					},
+					userAgent: { type: "string" },
+					country: { type: "string", example: "DE" },
+					channel: {
+						type: "string",
+						description: "Traffic channel the session came from",
+						example: "organic_search",
+					},
+					sourceId: { type: "string" },
+					excluded: {
+						type: "boolean",
+						description: "Contains bot or internal traffic flagged by the traffic filter",
+					},
+					updatedAt: { type: "string", format: "date-time" },
+				},
+			},
+			SessionSummaryPage: {
+				type: "object",
+				properties: {
+					sessions: {
+						type: "array",
+						items: { $ref: "#/components/schemas/SessionSummary" },
+					},
+					totalCount: { type: "integer" },
+					page: { type: "integer" },
+					pageSize: { type: "integer" },
+					totalPages: { type: "integer" },
+				},
+			},
+			UserProfile: {
+				type: "object",
+				description:
+					"Profile kept up to date from stored events and identify calls",
+				properties: {
+					userId: { type: "string", example: "user123" },
+					canonicalUserId: {
+						type: "string",
+						description:
+							"GET /users/:userId only: user the identities are linked to",
+					},
+					identities: {
+						type: "array",
+						items: { type: "string" },
+						description:
+							"GET /users/:userId only: userIds whose profiles were merged, canonical first",
+					},
+					email: {
+						type: "string",
+						description: "The email trait",
+						example: "ada@example.com",
+					},
+					name: {
+						type: "string",
+						description: "The name trait, or firstName and lastName",
+						example: "Ada Lovelace",
+					},
+					eventCount: { type: "integer" },
+					sessionCount: {
+						type: "integer",
+						description: "Sessions started by an event of the user",
+					},
+					firstSeenAt: { type: "string", format: "date-time" },
+					lastEventAt: { type: "string", format: "date-time" },
+					traits: {
+						type: "object",
+						additionalProperties: true,
+						example: { email: "ada@example.com", plan: "pro", logins: 7 },
+					},
+					computed: {
+						type: "object",
+						properties: {
+							eventTypeCounts: {
+								type: "object",
+								additionalProperties: { type: "integer" },
+								example: { page_view: 30, purchase: 2 },
+							},
+							purchaseCount: { type: "integer" },
+							totalRevenue: {
+								type: "number",
+								description:
+									"Sum of the numeric revenue, total, value or amount of purchase events",
+							},
+							averageOrderValue: { type: "number" },
+							lastPurchaseAt: { type: "string", format: "date-time" },
+						},
+					},
+					excludedEventCount: {
+						type: "integer",
+						description: "Events flagged by the traffic filter, left out of the other counts",
+					},
+					excluded: {
+						type: "boolean",
+						description: "All events were flagged by the traffic filter",
+					},
+					createdAt: { type: "string", format: "date-time" },
+					updatedAt: { type: "string", format: "date-time" },
+				},
+			},
+			TraitUpdate: {
+				type: "object",
+				description:
+					"Trait names are letters, digits, _ and -, up to 128 characters; a trait may appear in one operation only",
+				properties: {
+					set: {
+						type: "object",
+						additionalProperties: true,
+						description: "Overwrite the traits",
+					},
+					set_once: {
+						type: "object",
+						additionalProperties: true,
+						description: "Only set traits the profile does not have yet",
+					},
+					increment: {
+						type: "object",
+						additionalProperties: { type: "number" },
+						description: "Add to numeric traits; missing or non-numeric counts as 0",
+					},
+					append: {
+						type: "object",
+						additionalProperties: true,
+						description:
+							"Add to list traits (arrays add every item); lists keep their last 1000 items",
+					},
+				},
+				example: {
+					set: { plan: "pro" },
+					set_once: { signupSource: "ads" },
+					increment: { logins: 1 },
+					append: { tags: ["beta"] },
+				},
+			},
+			TrafficFilterSettings: {
+				type: "object",
+				description: "Omitted fields are reset to their default on PUT",
+				properties: {
+					mode: {
+						type: "string",
+						enum: ["drop", "flag"],
+						default: "flag",
+						description:
+							"drop: filtered events are not stored. flag: stored with excluded: true and left out of /stats and /users. Either way the client sees them as accepted.",
+					},
+					detectBots: {
+						type: "boolean",
+						default: true,
+						description: "Match the User-Agent against the isbot crawler list",
+					},
+					excludedIps: {
+						type: "array",
+						maxItems: 1000,
+						items: { type: "string" },
+						example: ["198.51.100.0/24", "2001:db8::/32"],
+					},
+					internalUserIds: {
+						type: "array",
+						maxItems: 10000,
+						items: { type: "string" },
+						example: ["qa-bot-1"],
+					},
+					maxEventsPerSession: {
+						type: "integer",
+						default: 0,
+						description:
+							"Sessions sending more events within sessionWindowMs are flagged abnormal_rate; 0 disables the check. Counted per API instance.",
+					},
+					sessionWindowMs: { type: "integer", default: 60000 },
+				},
+			},
+			TrafficFilter: {
+				allOf: [
+					{ $ref: "#/components/schemas/TrafficFilterSettings" },
+					{
+						type: "object",
+						properties: {
+							updatedAt: {
+								type: "string",
+								format: "date-time",
+								nullable: true,
+								description: "null while the filter has never been configured",
+							},
+							updatedBy: { type: "string", example: "admin@example.com" },
+						},
+					},
+				],
+			},
+			SchemaViolations: {
+				type: "object",
+				description:
+					"Present on events accepted in warn mode whose payload failed the schema",
+				properties: {
+					version: { type: "integer", example: 2 },
+					violations: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: {
+								path: { type: "string", example: "payload.amount" },
+								message: { type: "string", example: "must be number, got string" },
+							},
+						},
+					},
+				},
+			},
+			EventTypeDefinition: {
+				type: "object",
+				properties: {
+					name: { type: "string", example: "purchase" },
+					description: { type: "string", example: "An order was completed" },
+					owner: { type: "string", example: "checkout-team" },
+					status: { type: "string", enum: ["active", "deprecated", "blocked"] },
+					icon: { type: "string", example: "💰" },
+					createdAt: { type: "string", format: "date-time" },
+					updatedAt: { type: "string", format: "date-time" },
+				},
+			},
+			PayloadSchema: {
+				type: "object",
+				properties: {
+					eventType: { type: "string", example: "purchase" },
+					mode: { type: "string", enum: ["off", "warn", "enforce"] },
+					currentVersion: { type: "integer", example: 2 },
+					schema: {
+						type: "object",
+						description: "JSON Schema of the current version",
+						example: {
+							type: "object",
+							required: ["amount", "currency"],
+							properties: {
+								amount: { type: "number", minimum: 0 },
+								currency: { type: "string", pattern: "^[A-Z]{3}$" },
+							},
+						},
+					},
+					updatedAt: { type: "string", format: "date-time" },
+				},
+			},
+			DeadLetterEntry: {
+				type: "object",
+				properties: {
+					eventId: { type: "string" },
+					event: { $ref: "#/components/schemas/Event" },
+					error: {
+						type: "object",
+						properties: {
+							name: { type: "string", example: "MongoBulkWriteError" },
+							message: { type: "string" },
+							code: { type: "string" },
+						},
+					},
+					attempts: { type: "integer", example: 5 },
+					deadLetteredAt: { type: "string", format: "date-time" },
+				},
+			},
+			Error: {
+				type: "object",
+				properties: {
+					error: {
+						type: "string",
+						description: "Error type",
+						example: "Validation Error",
+					},
+					message: {
+						type: "string",
+						description: "Error message",
+						example: "Missing required fields",
+					},
+					details: {
+						type: "object",
+						description: "Additional error details",
+					},
+				},
+			},
+		},
+	},
+};
+
+const options: swaggerJsdoc.Options = {
+	definition: {
+		...swaggerDefinition,
+		paths: {
+			"/events": {
+				post: {
 					tags: ["Events"],
-					summary: "Get user event journey",
+					summary: "Ingest one or more events",
+					security: [{ writeKey: [] }, { writeKeyBasic: [] }],
+					description:
+						"Accepts single event or array of events for ingestion into the pipeline. Events are buffered in memory and flushed to MongoDB when buffer reaches 500 events or after 1000ms. Returns 202 Accepted immediately - processing is asynchronous. Requests must carry a source write key (X-Write-Key header or Basic auth username); accepted events are stamped with the sourceId. Bodies may be JSON or newline-delimited JSON (application/x-ndjson, parsed as a stream), optionally gzip or deflate encoded; MAX_BODY_BYTES limits the decompressed size. With `partial=true`, valid events are accepted even if others in the batch are invalid and a 207 response lists per-index results. With `waitForPersistence=true` the request waits until the events are stored (or the timeout passes) and answers 200 when all were persisted, duplicates or dropped, 207 otherwise.",
+					parameters: [
+						{
+							in: "query",
+							name: "partial",
+							schema: { type: "boolean", default: false },
+							description:
+								"Accept valid events and report per-index rejections instead of rejecting the whole batch",
+						},
+						{
+							in: "header",
+							name: "Content-Encoding",
+							schema: { type: "string", enum: ["gzip", "deflate"] },
+							description: "Compressed request body",
+						},
+						{
+							in: "query",
+							name: "waitForPersistence",
+							schema: { type: "boolean", default: false },
+							description:
+								"Wait until the events are written to MongoDB and report per-event persistence results (also X-Wait-For-Persistence: true)",
+						},
+						{
+							in: "query",
+							name: "persistenceTimeoutMs",
+							schema: { type: "integer", minimum: 1, maximum: 30000 },
+							description:
+								"How long to wait for persistence (also X-Persistence-Timeout-Ms). Defaults to SYNC_INGESTION_DEFAULT_TIMEOUT_MS and may not exceed SYNC_INGESTION_MAX_TIMEOUT_MS",
+						},
+						{
+							in: "header",
+							name: "X-Wait-For-Persistence",
+							schema: { type: "boolean" },
+							description: "Same as the waitForPersistence query parameter",
+						},
+						{
+							in: "header",
+							name: "X-Persistence-Timeout-Ms",
+							schema: { type: "integer" },
+							description: "Same as the persistenceTimeoutMs query parameter",
+						},
+					],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									oneOf: [
+										{ $ref: "#/components/schemas/Event" },
+										{
+											type: "array",
+											items: { $ref: "#/components/schemas/Event" },
+										},
+									],
+								},
+								examples: {
+									singleEvent: {
+										summary: "Single event",
+										value: {
+											userId: "user123",
+											sessionId: "sess456",
+											type: "page_view",
+											payload: {
+												url: "/products/123",
+												referrer: "https://google.com",
+											},
+										},
+									},
+									batchEvents: {
+										summary: "Batch of events",
+										value: [
+											{
+												userId: "user123",
+												sessionId: "sess456",
+												type: "page_view",
+												payload: { url: "/home" },
+											},
+											{
+												userId: "user123",
+												sessionId: "sess456",
+												type: "button_click",
+												payload: { button: "add_to_cart" },
+											},
+										],
+									},
+								},
+							},
+							"application/x-ndjson": {
+								schema: {
+									type: "string",
+									description:
+										"One event object per line. Lines that are not valid JSON are rejected with code INVALID_JSON.",
+								},
+								example:
+									'{"userId":"user123","sessionId":"sess456","type":"page_view"}\n{"userId":"user123","sessionId":"sess456","type":"search","payload":{"query":"shoes"}}\n',
+							},
+						},
+					},
+					responses: {
+						202: {
+							description: "Events accepted for processing",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											message: {
+												type: "string",
+												example: "Events accepted for processing",
+											},
+											count: { type: "integer", example: 2 },
+											eventIds: {
+												type: "array",
+												items: { type: "string" },
+												example: ["web:evt-1", "uuid-2"],
+											},
+											clientEventIds: {
+												type: "array",
+												description: "Event IDs supplied by the client",
+												items: { type: "string" },
+												example: ["web:evt-1"],
+											},
+											generatedEventIds: {
+												type: "array",
+												description: "Event IDs generated by the server",
+												items: { type: "string" },
+												example: ["uuid-2"],
+											},
+											deprecatedEventTypes: {
+												type: "array",
+												description:
+													"Present when accepted events use deprecated event types",
+												items: { type: "string" },
+											},
+										},
+									},
+								},
+							},
+						},
+						200: {
+							description: "Wait-for-persistence mode: every event was persisted, a duplicate or dropped",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/PersistenceResults" },
+								},
+							},
+						},
+						207: {
+							description:
+								"Partial mode: per-index acceptance results. Wait-for-persistence mode: some events failed, were still pending at the timeout or were rejected (PersistenceResults)",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											message: { type: "string", example: "Batch processed" },
+											accepted: { type: "integer", example: 1 },
+											rejected: { type: "integer", example: 1 },
+											deprecatedEventTypes: {
+												type: "array",
+												items: { type: "string" },
+											},
+											results: {
+												type: "array",
+												items: { $ref: "#/components/schemas/EventResult" },
+											},
+										},
+									},
+								},
+							},
+						},
+						400: {
+							description: "Invalid request payload",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: {
+							description: "Missing, unknown, revoked or expired write key",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						413: {
+							description: "Request body larger than MAX_BODY_BYTES after decompression",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						415: {
+							description: "Unsupported Content-Encoding",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						429: {
+							description:
+								"Rate limit or daily quota exceeded (code SOURCE_RATE_LIMITED, IP_RATE_LIMITED or DAILY_QUOTA_EXCEEDED), or load shed by adaptive backpressure (code INGESTION_OVERLOADED). Every event in the body counts towards the limits.",
+							headers: {
+								"Retry-After": {
+									description: "Seconds to wait before retrying",
+									schema: { type: "integer" },
+								},
+								"RateLimit-Limit": { schema: { type: "integer" } },
+								"RateLimit-Remaining": { schema: { type: "integer" } },
+								"RateLimit-Reset": {
+									description: "Seconds until the limit is fully reset",
+									schema: { type: "integer" },
+								},
+								"RateLimit-Policy": {
+									description: "Applied policies, e.g. 5000;w=5, 200000;w=86400",
+									schema: { type: "string" },
+								},
+							},
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						503: {
+							description:
+								"Buffer overflow, or write keys could not be verified - service unavailable",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+					},
+				},
+			},
+			"/events/beacon": {
+				post: {
+					tags: ["Events"],
+					summary: "Ingest events sent with navigator.sendBeacon",
+					description:
+						"Same validation, normalization and buffering as POST /events, for browser SDKs flushing events on pagehide. sendBeacon can only send text/plain without a CORS preflight, so the body is JSON sent as text/plain (application/json also works) and the write key is passed as the writeKey query parameter. Any origin may call this endpoint; cookies are never used.",
+					security: [{ writeKeyQuery: [] }, { writeKey: [] }],
+					parameters: [
+						{
+							in: "query",
+							name: "writeKey",
+							schema: { type: "string" },
+							description: "Write key of the source",
+						},
+						{
+							in: "query",
+							name: "partial",
+							schema: { type: "boolean", default: false },
+						},
+					],
+					requestBody: {
+						required: true,
+						content: {
+							"text/plain": {
+								schema: {
+									type: "string",
+									description: "JSON event object or array",
+								},
+								example:
+									'[{"userId":"user123","sessionId":"sess456","type":"page_view","payload":{"url":"/checkout"}}]',
+							},
+						},
+					},
+					responses: {
+						202: { description: "Events accepted for processing (same body as POST /events)" },
+						207: { description: "Partial mode: per-index acceptance results" },
+						400: {
+							description: "Malformed JSON or invalid events",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/p.gif": {
+				get: {
+					tags: ["Events"],
+					summary: "Tracking pixel",
+					description:
+						"Records one event from query parameters and returns a transparent 1x1 GIF, for clients that can only load images (e.g. email opens). The event goes through the same validation and buffering as POST /events. The GIF is returned even when the event is rejected; the outcome is reported in the X-Event-Status header.",
+					security: [{ writeKeyQuery: [] }],
+					parameters: [
+						{ in: "query", name: "writeKey", required: true, schema: { type: "string" } },
+						{ in: "query", name: "userId", required: true, schema: { type: "string" } },
+						{ in: "query", name: "sessionId", required: true, schema: { type: "string" } },
+						{
+							in: "query",
+							name: "type",
+							required: true,
+							schema: { type: "string" },
+							example: "page_view",
+						},
+						{ in: "query", name: "eventId", schema: { type: "string" } },
+						{
+							in: "query",
+							name: "occurredAt",
+							schema: { type: "string", format: "date-time" },
+						},
+						{
+							in: "query",
+							name: "sentAt",
+							schema: { type: "string", format: "date-time" },
+							description: "Client clock when the pixel was requested, for clock-skew correction",
+						},
+						{
+							in: "query",
+							name: "payload",
+							schema: { type: "string", format: "byte" },
+							description: "Event payload as base64 or base64url encoded JSON object",
+							example: "eyJjYW1wYWlnbiI6InNwcmluZyJ9",
+						},
+					],
+					responses: {
+						200: {
+							description: "Transparent 1x1 GIF (never cached)",
+							headers: {
+								"X-Event-Status": {
+									description: "accepted, rejected, dropped (buffer full) or error",
+									schema: { type: "string" },
+								},
+								"X-Event-Rejection": {
+									description: "Rejection code when X-Event-Status is rejected",
+									schema: { type: "string" },
+								},
+								"X-Event-Id": { schema: { type: "string" } },
+							},
+							content: {
+								"image/gif": { schema: { type: "string", format: "binary" } },
+							},
+						},
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded" },
+					},
+				},
+			},
+			"/v1/track": {
+				post: {
+					tags: ["Segment"],
+					summary: "Record a track call",
+					description:
+						"Mapped onto an event of the catalog type derived from `event`; properties become the payload. Same validation and buffering as POST /events. Also served at /v1/t for analytics.js.",
+					security: [{ writeKeyBasic: [] }, { writeKey: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/SegmentMessage" },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Message accepted",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/SegmentResponse" },
+								},
+							},
+						},
+						400: { description: "Message could not be mapped or failed validation" },
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/v1/identify": {
+				post: {
+					tags: ["Segment"],
+					summary: "Record an identify call",
+					description:
+						"Stored as an identify event whose payload is the traits. Same validation and buffering as POST /events. Also served at /v1/i for analytics.js.",
+					security: [{ writeKeyBasic: [] }, { writeKey: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/SegmentMessage" },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Message accepted",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/SegmentResponse" },
+								},
+							},
+						},
+						400: { description: "Message could not be mapped or failed validation" },
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/v1/page": {
+				post: {
+					tags: ["Segment"],
+					summary: "Record a page call",
+					description:
+						"Stored as a page_view event; properties, name and category become the payload. Same validation and buffering as POST /events. Also served at /v1/p for analytics.js.",
+					security: [{ writeKeyBasic: [] }, { writeKey: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/SegmentMessage" },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Message accepted",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/SegmentResponse" },
+								},
+							},
+						},
+						400: { description: "Message could not be mapped or failed validation" },
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/v1/screen": {
+				post: {
+					tags: ["Segment"],
+					summary: "Record a screen call",
+					description:
+						"Stored as a screen_view event; properties, name and category become the payload. Same validation and buffering as POST /events. Also served at /v1/s for analytics.js.",
+					security: [{ writeKeyBasic: [] }, { writeKey: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/SegmentMessage" },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Message accepted",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/SegmentResponse" },
+								},
+							},
+						},
+						400: { description: "Message could not be mapped or failed validation" },
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/v1/alias": {
+				post: {
+					tags: ["Segment"],
+					summary: "Record an alias call",
+					description:
+						"Stored as an alias event whose payload holds previousId. Same validation and buffering as POST /events. Also served at /v1/a for analytics.js.",
+					security: [{ writeKeyBasic: [] }, { writeKey: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/SegmentMessage" },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Message accepted",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/SegmentResponse" },
+								},
+							},
+						},
+						400: { description: "Message could not be mapped or failed validation" },
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/v1/batch": {
+				post: {
+					tags: ["Segment"],
+					summary: "Record a batch of Segment messages",
+					description:
+						"Each message carries its own type. Envelope context and sentAt apply to every message. Valid messages are accepted and rejected ones are listed in errors, with a 200 either way. Also served at /v1/b. The write key may also be sent in a writeKey body field (analytics.js), and text/plain JSON bodies are accepted.",
+					security: [{ writeKeyBasic: [] }, { writeKey: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["batch"],
+									properties: {
+										batch: {
+											type: "array",
+											items: { $ref: "#/components/schemas/SegmentMessage" },
+										},
+										context: { type: "object" },
+										sentAt: { type: "string", format: "date-time" },
+										writeKey: { type: "string" },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Batch processed",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/SegmentResponse" },
+								},
+							},
+						},
+						400: { description: "Body has no batch array" },
+						401: { description: "Missing, unknown, revoked or expired write key" },
+						429: { description: "Rate limit or daily quota exceeded, or buffer at capacity" },
+					},
+				},
+			},
+			"/events/live": {
+				get: {
+					tags: ["Events"],
+					summary: "Stream accepted events (Server-Sent Events)",
+					description:
+						"Sends every event accepted by this instance that matches the filter as a Server-Sent Event, before it is written to MongoDB. A `ready` event echoes the subscription and a `stats` event every LIVE_STREAM_HEARTBEAT_MS counts the events sent and skipped. Events over the rate cap, or sent while the client is still reading earlier ones, are skipped rather than buffered. Connections are per instance.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "query",
+							name: "userId",
+							schema: { type: "string" },
+							description: "Only events of this user",
+						},
+						{
+							in: "query",
+							name: "type",
+							schema: { type: "string" },
+							description: "Comma-separated event types",
+							example: "purchase,add_to_cart",
+						},
+						{
+							in: "query",
+							name: "sourceId",
+							schema: { type: "string" },
+							description: "Only events of this source",
+						},
+						{
+							in: "query",
+							name: "where",
+							schema: { type: "string" },
+							description:
+								"JSON object of paths (under payload or context, or a top-level field) to a value or an array of accepted values",
+							example: '{"payload.plan":["pro","team"]}',
+						},
+						{
+							in: "query",
+							name: "sample",
+							schema: { type: "number", exclusiveMinimum: 0, maximum: 1, default: 1 },
+							description: "Share of matching events to send",
+						},
+						{
+							in: "query",
+							name: "maxEventsPerSecond",
+							schema: { type: "integer", minimum: 1 },
+							description:
+								"Rate cap of the connection, at most LIVE_STREAM_MAX_EVENTS_PER_SECOND (the default)",
+						},
+					],
+					responses: {
+						200: {
+							description: "Event stream; stays open until the client disconnects",
+							content: {
+								"text/event-stream": {
+									schema: { type: "string" },
+									example:
+										'event: ready\ndata: {"filter":{"types":["purchase"]},"sampleRate":1,"maxEventsPerSecond":50}\n\ndata: {"eventId":"...","type":"purchase",...}\n\nevent: stats\ndata: {"sent":1,"rateLimited":0,"slowClient":0}\n\n',
+								},
+							},
+						},
+						400: {
+							description: "Invalid filter, sample rate or rate cap",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+						404: { description: "Live stream turned off (LIVE_STREAM_MAX_CONNECTIONS=0)" },
+						503: {
+							description: "Too many open connections; retry after the Retry-After header",
+						},
+					},
+				},
+			},
+			"/users/{userId}/journey": {
+				get: {
+					tags: ["Events"],
+					summary: "Get user event journey",
+					description:
+						"Retrieve a user's event timeline with optional date range filtering and pagination. Events of every identity linked to the user through identify/alias calls (anonymous IDs, devices, earlier user IDs) are merged into one timeline; any of those identifiers may be passed.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "path",
+							name: "userId",
+							required: true,
+							schema: { type: "string" },
+							description: "User identifier",
+							example: "user123",
+						},
+						{
+							in: "query",
+							name: "from",
+							schema: { type: "string", format: "date-time" },
+							description: "Start date (ISO 8601 format)",
+							example: "2025-12-01T00:00:00Z",
+						},
+						{
+							in: "query",
+							name: "to",
+							schema: { type: "string", format: "date-time" },
+							description: "End date (ISO 8601 format)",
+							example: "2025-12-15T23:59:59Z",
+						},
+						{
+							in: "query",
+							name: "limit",
+							schema: {
+								type: "integer",
+								minimum: 1,
+								maximum: 1000,
+								default: 100,
+							},
+							description: "Maximum number of events to return",
+						},
+					],
+					responses: {
+						200: {
+							description: "User journey retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											userId: { type: "string", example: "user123" },
+											canonicalUserId: {
+												type: "string",
+												description: "User the requested identifier is linked to",
+												example: "user123",
+											},
+											identities: {
+												type: "array",
+												items: { type: "string" },
+												description: "Every userId whose events are included",
+												example: ["user123", "6f1b2c3d-anon"],
+											},
+											count: { type: "integer", example: 50 },
+											events: {
+												type: "array",
+												items: { $ref: "#/components/schemas/Event" },
+											},
+										},
+									},
+								},
+							},
+						},
+						400: {
+							description: "Invalid query parameters",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/users/{userId}/identities": {
+				get: {
+					tags: ["Events"],
+					summary: "Inspect the identities linked to a user",
+					description:
+						"Identity graph built from identify (anonymousId, context.device.id) and alias (previousId) events. Any linked identifier may be passed; the whole identity it belongs to is returned.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "path",
+							name: "userId",
+							required: true,
+							schema: { type: "string" },
+						},
+					],
+					responses: {
+						200: {
+							description: "Identity graph of the user",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/IdentityGraph" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/users/{userId}/identities/{identifier}": {
+				delete: {
+					tags: ["Events"],
+					summary: "Unlink an identity from a user",
+					description:
+						"Detach a wrongly merged identifier (e.g. a shared device). Its events are reported as a separate user again until a new identify or alias links it.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "path",
+							name: "userId",
+							required: true,
+							schema: { type: "string" },
+						},
+						{
+							in: "path",
+							name: "identifier",
+							required: true,
+							schema: { type: "string" },
+						},
+					],
+					responses: {
+						200: {
+							description: "Identity graph after unlinking",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/IdentityGraph" },
+								},
+							},
+						},
+						400: { description: "identifier is the canonical user ID" },
+						401: { description: "Not authenticated" },
+						404: { description: "identifier is not linked to this user" },
+					},
+				},
+			},
+			"/stats": {
+				get: {
+					tags: ["Monitoring"],
+					summary: "Get buffer statistics",
+					description:
+						"Returns current buffer state and statistics for monitoring purposes. Bot and internal traffic flagged by the traffic filter is left out unless includeExcluded=true.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "query",
+							name: "includeExcluded",
+							schema: { type: "boolean", default: false },
+							description:
+								"Count bot and internal traffic stored by the traffic filter in flag mode",
+						},
+					],
+					responses: {
+						200: {
+							description: "Buffer statistics retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											bufferSize: {
+												type: "integer",
+												description: "Current number of events in buffer",
+												example: 150,
+											},
+											isFlushingInProgress: {
+												type: "boolean",
+												description:
+													"Whether a flush operation is currently running",
+												example: false,
+											},
+											maxBufferSize: {
+												type: "integer",
+												description:
+													"Buffer size threshold that triggers flush",
+												example: 500,
+											},
+											emergencyThreshold: {
+												type: "integer",
+												description:
+													"Emergency threshold where events start getting dropped",
+												example: 5000,
+											},
+											bufferUtilization: {
+												type: "number",
+												description: "Buffer usage percentage",
+												example: 30,
+											},
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/health": {
+				get: {
+					tags: ["Monitoring"],
+					summary: "Health check endpoint",
+					description:
+						"Returns service health status including database connection, uptime, memory usage, and buffer size",
+					responses: {
+						200: {
+							description: "Service is healthy",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											status: { type: "string", example: "ok" },
+											timestamp: {
+												type: "string",
+												format: "date-time",
+												example: "2025-12-17T10:30:00.000Z",
+											},
+											uptime: {
+												type: "number",
+												description: "Process uptime in seconds",
+												example: 3600,
+											},
+											memory: {
+												type: "object",
+												properties: {
+													rss: {
+														type: "number",
+														description: "Resident Set Size",
+													},
+													heapTotal: {
+														type: "number",
+														description: "Total heap size",
+													},
+													heapUsed: {
+														type: "number",
+														description: "Used heap size",
+													},
+													external: {
+														type: "number",
+														description: "External memory",
+													},
+												},
+											},
+											database: {
+												type: "string",
+												enum: ["connected", "disconnected"],
+												example: "connected",
+											},
+											bufferSize: {
+												type: "integer",
+												description: "Current events in buffer",
+												example: 150,
+											},
+											backpressure: {
+												$ref: "#/components/schemas/BackpressureState",
+											},
+										},
+									},
+								},
+							},
+						},
+						503: {
+							description: "Service unavailable (database disconnected)",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											status: { type: "string", example: "ok" },
+											database: { type: "string", example: "disconnected" },
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+			},
+			"/api/auth/sign-up/email": {
+				post: {
+					tags: ["Authentication"],
+					summary: "Register a new user",
+					description: "Create a new user account with email and password",
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["email", "password"],
+									properties: {
+										email: {
+											type: "string",
+											format: "email",
+											example: "user@example.com",
+										},
+										password: {
+											type: "string",
+											format: "password",
+											minLength: 8,
+											example: "securepass123",
+										},
+										name: { type: "string", example: "John Doe" },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "User registered successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											user: { $ref: "#/components/schemas/User" },
+											session: { $ref: "#/components/schemas/Session" },
+										},
+									},
+								},
+							},
+						},
+						400: {
+							description: "Invalid input or email already exists",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+					},
+				},
+			},
+			"/api/auth/sign-in/email": {
+				post: {
+					tags: ["Authentication"],
+					summary: "Login with email and password",
+					description: "Authenticate user and create a session",
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["email", "password"],
+									properties: {
+										email: {
+											type: "string",
+											format: "email",
+											example: "user@example.com",
+										},
+										password: {
+											type: "string",
+											format: "password",
+											example: "securepass123",
+										},
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Login successful",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											user: { $ref: "#/components/schemas/User" },
+											session: { $ref: "#/components/schemas/Session" },
+										},
+									},
+								},
+							},
+						},
+						401: {
+							description: "Invalid credentials",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+					},
+				},
+			},
+			"/api/auth/sign-out": {
+				post: {
+					tags: ["Authentication"],
+					summary: "Logout",
+					description: "Invalidate current session",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: { description: "Logout successful" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/api/auth/get-session": {
+				get: {
+					tags: ["Authentication"],
+					summary: "Get current session",
+					description:
+						"Retrieve information about the current authenticated session",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Session retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											session: { $ref: "#/components/schemas/Session" },
+											user: { $ref: "#/components/schemas/User" },
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/session": {
+				get: {
+					tags: ["Authentication"],
+					summary: "Check current session",
+					description: "Convenience endpoint to verify authentication status",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Authenticated",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											session: { $ref: "#/components/schemas/Session" },
+											user: { $ref: "#/components/schemas/User" },
+										},
+									},
+								},
+							},
+						},
+						401: {
+							description: "Not authenticated",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+					},
+				},
+			},
+			"/users": {
+				get: {
+					tags: ["Users"],
+					summary: "List user profiles",
+					description:
+						"Profiles, most recently active first, read from the profiles collection. Each userId has its own profile; GET /users/{userId} merges linked identities. Flagged bot or internal traffic is left out of the counts; users who sent nothing else are left out unless includeExcluded=true.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "query", name: "page", schema: { type: "integer", default: 1 } },
+						{
+							in: "query",
+							name: "pageSize",
+							schema: { type: "integer", default: 10, maximum: 100 },
+						},
+						{
+							in: "query",
+							name: "includeExcluded",
+							schema: { type: "boolean", default: false },
+							description:
+								"Also list users all of whose traffic was flagged by the traffic filter",
+						},
+					],
+					responses: {
+						200: {
+							description: "Users retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											users: {
+												type: "array",
+												items: { $ref: "#/components/schemas/UserProfile" },
+											},
+											totalCount: { type: "integer" },
+											page: { type: "integer" },
+											pageSize: { type: "integer" },
+											totalPages: { type: "integer" },
+										},
+									},
+								},
+							},
+						},
+						400: { description: "Invalid query parameters" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/users/{userId}": {
+				get: {
+					tags: ["Users"],
+					summary: "Get a user profile",
+					description:
+						"Profile of the user merged with those of every identity linked to it: counts add up and the canonical user's traits win",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "userId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: {
+							description: "Profile retrieved successfully",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/UserProfile" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+						404: { description: "Neither the user nor its identities have a profile" },
+					},
+				},
+				patch: {
+					tags: ["Users"],
+					summary: "Update user traits",
+					description:
+						"Applies set, set_once, increment and append operations to the canonical user's profile, creating it if needed, and returns the merged profile",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "userId", required: true, schema: { type: "string" } },
+					],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/TraitUpdate" },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Traits updated",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/UserProfile" },
+								},
+							},
+						},
+						400: { description: "Invalid trait update" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/admin/dead-letters": {
+				get: {
+					tags: ["Dead Letters"],
+					summary: "List dead-lettered events",
+					description:
+						"Events that could not be written to MongoDB after retries and batch bisection, most recent first",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "query", name: "page", schema: { type: "integer", default: 1 } },
+						{
+							in: "query",
+							name: "pageSize",
+							schema: { type: "integer", default: 20, maximum: 100 },
+						},
+						{
+							in: "query",
+							name: "type",
+							schema: { type: "string" },
+							description: "Filter by event type",
+						},
+					],
+					responses: {
+						200: {
+							description: "Dead-lettered events retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											items: {
+												type: "array",
+												items: { $ref: "#/components/schemas/DeadLetterEntry" },
+											},
+											totalCount: { type: "integer" },
+											page: { type: "integer" },
+											pageSize: { type: "integer" },
+											totalPages: { type: "integer" },
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+				delete: {
+					tags: ["Dead Letters"],
+					summary: "Purge dead-lettered events",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									properties: {
+										eventIds: { type: "array", items: { type: "string" } },
+										all: { type: "boolean" },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: { description: "Number of deleted entries" },
+						400: { description: "Neither eventIds nor all provided" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/admin/dead-letters/{eventId}": {
+				get: {
+					tags: ["Dead Letters"],
+					summary: "Inspect a dead-lettered event",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "eventId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: {
+							description: "Dead-lettered event with failure details",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/DeadLetterEntry" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+						404: { description: "Not found" },
+					},
+				},
+				delete: {
+					tags: ["Dead Letters"],
+					summary: "Purge a single dead-lettered event",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "eventId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: { description: "Number of deleted entries" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/admin/dead-letters/replay": {
+				post: {
+					tags: ["Dead Letters"],
+					summary: "Replay dead-lettered events",
+					description:
+						"Re-submits events through the ingestion buffer and removes them from the dead-letter collection. Without eventIds the oldest `limit` entries are replayed.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									properties: {
+										eventIds: { type: "array", items: { type: "string" } },
+										limit: { type: "integer", default: 100, maximum: 1000 },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						202: { description: "Events re-queued for ingestion" },
+						400: { description: "Invalid request body" },
+						401: { description: "Not authenticated" },
+						429: { description: "Event buffer at capacity" },
+					},
+				},
+			},
+			"/schemas": {
+				get: {
+					tags: ["Payload Schemas"],
+					summary: "List registered payload schemas",
+					description:
+						"Current version and validation mode of every event type in the tracking plan. The same schemas appear as *Payload components in this document.",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Payload schemas retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											schemas: {
+												type: "array",
+												items: { $ref: "#/components/schemas/PayloadSchema" },
+											},
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/schemas/{eventType}": {
+				parameters: [
+					{ in: "path", name: "eventType", required: true, schema: { type: "string" } },
+				],
+				get: {
+					tags: ["Payload Schemas"],
+					summary: "Get a payload schema with its version history",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: { description: "Payload schema and all versions" },
+						401: { description: "Not authenticated" },
+						404: { description: "No schema registered for this event type" },
+					},
+				},
+				put: {
+					tags: ["Payload Schemas"],
+					summary: "Register a new payload schema version",
+					description:
+						"Every call creates a new version. Supported JSON Schema keywords: type, enum, const, properties, required, additionalProperties, items, minItems, maxItems, minLength, maxLength, pattern, format (date-time, email, uri), minimum, maximum. Validation mode defaults to warn for new event types and is kept otherwise.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["schema"],
+									properties: {
+										schema: { type: "object" },
+										mode: { type: "string", enum: ["off", "warn", "enforce"] },
+									},
+								},
+								example: {
+									mode: "enforce",
+									schema: {
+										type: "object",
+										required: ["amount", "currency"],
+										properties: {
+											amount: { type: "number", minimum: 0 },
+											currency: { type: "string", pattern: "^[A-Z]{3}$" },
+										},
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "New version registered",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/PayloadSchema" },
+								},
+							},
+						},
+						201: { description: "First version registered" },
+						400: { description: "Unknown event type, invalid mode or unsupported schema" },
+						401: { description: "Not authenticated" },
+					},
+				},
+				patch: {
+					tags: ["Payload Schemas"],
+					summary: "Change the validation mode",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["mode"],
+									properties: {
+										mode: { type: "string", enum: ["off", "warn", "enforce"] },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: { description: "Mode updated" },
+						400: { description: "Invalid mode" },
+						401: { description: "Not authenticated" },
+						404: { description: "No schema registered for this event type" },
+					},
+				},
+				delete: {
+					tags: ["Payload Schemas"],
+					summary: "Remove an event type from the tracking plan",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						204: { description: "Deleted" },
+						401: { description: "Not authenticated" },
+						404: { description: "No schema registered for this event type" },
+					},
+				},
+			},
+			"/schemas/{eventType}/versions/{version}": {
+				get: {
+					tags: ["Payload Schemas"],
+					summary: "Get a specific payload schema version",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "eventType", required: true, schema: { type: "string" } },
+						{ in: "path", name: "version", required: true, schema: { type: "integer" } },
+					],
+					responses: {
+						200: { description: "Schema version" },
+						401: { description: "Not authenticated" },
+						404: { description: "Version not found" },
+					},
+				},
+			},
+			"/event-types": {
+				get: {
+					tags: ["Event Types"],
+					summary: "List the event-type catalog",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "query",
+							name: "status",
+							schema: { type: "string", enum: ["active", "deprecated", "blocked"] },
+						},
+					],
+					responses: {
+						200: {
+							description: "Event types retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											eventTypes: {
+												type: "array",
+												items: { $ref: "#/components/schemas/EventTypeDefinition" },
+											},
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+				post: {
+					tags: ["Event Types"],
+					summary: "Register a new event type",
+					description:
+						"The type is accepted by POST /events immediately on this instance and within the refresh interval on others.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["name", "description", "owner"],
+									properties: {
+										name: { type: "string", pattern: "^[a-z][a-z0-9_]{0,63}$" },
+										description: { type: "string" },
+										owner: { type: "string" },
+										status: { type: "string", enum: ["active", "deprecated", "blocked"] },
+										icon: { type: "string" },
+									},
+								},
+								example: {
+									name: "newsletter_signup",
+									description: "Visitor subscribed to the newsletter",
+									owner: "growth-team",
+									icon: "📧",
+								},
+							},
+						},
+					},
+					responses: {
+						201: {
+							description: "Event type created",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/EventTypeDefinition" },
+								},
+							},
+						},
+						400: { description: "Invalid name or fields" },
+						401: { description: "Not authenticated" },
+						409: { description: "Event type already exists" },
+					},
+				},
+			},
+			"/event-types/{name}": {
+				parameters: [
+					{ in: "path", name: "name", required: true, schema: { type: "string" } },
+				],
+				get: {
+					tags: ["Event Types"],
+					summary: "Get an event type",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Event type",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/EventTypeDefinition" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+						404: { description: "Not in the catalog" },
+					},
+				},
+				patch: {
+					tags: ["Event Types"],
+					summary: "Update an event type",
+					description:
+						"Types cannot be deleted because stored events refer to them; set status to blocked to stop accepting a type.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									properties: {
+										description: { type: "string" },
+										owner: { type: "string" },
+										status: { type: "string", enum: ["active", "deprecated", "blocked"] },
+										icon: { type: "string" },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: { description: "Event type updated" },
+						400: { description: "Invalid fields" },
+						401: { description: "Not authenticated" },
+						404: { description: "Not in the catalog" },
+					},
+				},
+			},
+			"/admin/sources": {
+				get: {
+					tags: ["Sources"],
+					summary: "List event sources",
+					description: "Every source with its write keys (metadata only, never the key itself)",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Sources retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											sources: {
+												type: "array",
+												items: { $ref: "#/components/schemas/Source" },
+											},
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+					},
+				},
+				post: {
+					tags: ["Sources"],
+					summary: "Create an event source",
+					description:
+						"Creates the source together with its first write key. The plaintext key is only part of this response.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["name"],
+									properties: {
+										name: { type: "string", example: "iOS app" },
+										description: { type: "string" },
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						201: {
+							description: "Source created",
+							content: {
+								"application/json": {
+									schema: {
+										allOf: [
+											{ $ref: "#/components/schemas/Source" },
+											{
+												type: "object",
+												properties: {
+													writeKey: { $ref: "#/components/schemas/IssuedWriteKey" },
+												},
+											},
+										],
+									},
+								},
+							},
+						},
+						400: {
+							description: "Invalid name or description",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+					},
+				},
+			},
+			"/admin/sources/{sourceId}": {
+				get: {
+					tags: ["Sources"],
+					summary: "Get an event source and its write keys",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "sourceId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: {
+							description: "Source retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										allOf: [
+											{ $ref: "#/components/schemas/Source" },
+											{
+												type: "object",
+												properties: {
+													effectiveLimits: {
+														$ref: "#/components/schemas/SourceLimits",
+													},
+													eventsToday: {
+														type: "integer",
+														description:
+															"Events counted against the daily quota (only tracked when a quota applies)",
+													},
+												},
+											},
+										],
+									},
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+						404: { description: "Source not found" },
+					},
+				},
+				patch: {
+					tags: ["Sources"],
+					summary: "Update a source or its ingestion limits",
+					description:
+						"Set a limit to null to go back to the server default. Limit and sessionization changes apply immediately on the instance handling the request and within the refresh interval on the others.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "sourceId", required: true, schema: { type: "string" } },
+					],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									properties: {
+										name: { type: "string" },
+										description: { type: "string", nullable: true },
+										limits: { $ref: "#/components/schemas/SourceLimits" },
+										sessionization: {
+											allOf: [{ $ref: "#/components/schemas/SessionizationSettings" }],
+											nullable: true,
+											description: "Replaces the source's settings; null turns sessionization off",
+										},
+									},
+								},
+								example: { limits: { eventsPerSecond: 2000, dailyQuota: 5000000 } },
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Source updated",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Source" },
+								},
+							},
+						},
+						400: {
+							description: "Invalid fields",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+						404: { description: "Source not found" },
+					},
+				},
+			},
+			"/admin/sources/{sourceId}/keys": {
+				post: {
+					tags: ["Sources"],
+					summary: "Issue an additional write key",
+					description: "Existing keys of the source keep working",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "sourceId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						201: {
+							description: "Write key issued",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/IssuedWriteKey" },
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+						404: { description: "Source not found" },
+					},
+				},
+			},
+			"/admin/sources/{sourceId}/keys/rotate": {
+				post: {
+					tags: ["Sources"],
+					summary: "Rotate the write keys of a source",
+					description:
+						"Issues a new key and schedules every other key of the source to expire after the overlap window, so clients can switch without dropping events",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "sourceId", required: true, schema: { type: "string" } },
+					],
+					requestBody: {
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									properties: {
+										overlapHours: {
+											type: "number",
+											minimum: 0,
+											maximum: 720,
+											default: 24,
+											description: "How long the previous keys keep working",
+										},
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						201: {
+							description: "New write key issued",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											writeKey: { $ref: "#/components/schemas/IssuedWriteKey" },
+											previousKeysExpireAt: { type: "string", format: "date-time" },
+										},
+									},
+								},
+							},
+						},
+						400: {
+							description: "Invalid overlapHours",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/Error" },
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+						404: { description: "Source not found" },
+					},
+				},
+			},
+			"/admin/sources/{sourceId}/keys/{keyId}": {
+				delete: {
+					tags: ["Sources"],
+					summary: "Revoke a write key",
+					description:
+						"Takes effect immediately on the instance handling the request and within the refresh interval on the others",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "sourceId", required: true, schema: { type: "string" } },
+						{ in: "path", name: "keyId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: {
+							description: "Write key revoked",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/WriteKey" },
+								},
+							},
+						},
+						401: { description: "Unauthorized" },
+						404: { description: "Write key not found for this source" },
+					},
+				},
+			},
+			"/redaction-rules": {
+				get: {
+					tags: ["PII Redaction"],
+					summary: "List PII redaction rule sets",
+					description:
+						"hashAvailable is false when the server has no PII_HASH_SALT, in which case hash rules cannot be saved.",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Rule sets retrieved successfully",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											ruleSets: {
+												type: "array",
+												items: { $ref: "#/components/schemas/RedactionRuleSet" },
+											},
+											hashAvailable: { type: "boolean" },
+										},
+									},
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/redaction-rules/{eventType}": {
+				parameters: [
+					{
+						in: "path",
+						name: "eventType",
+						required: true,
+						schema: { type: "string" },
+						description: "Event type, or * for the rules applied to every type",
+					},
+				],
+				get: {
+					tags: ["PII Redaction"],
+					summary: "Get the redaction rules of an event type",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Rule set",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/RedactionRuleSet" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+						404: { description: "No rules registered for this event type" },
+					},
+				},
+				put: {
+					tags: ["PII Redaction"],
+					summary: "Replace the redaction rules of an event type",
 					description:
-						"Retrieve a user's event timeline with optional date range filtering and pagination",
+						"Rules run in order at ingestion, the * rules first, after payload schema validation and before events are buffered. Events already stored are not changed.",
 					security: [{ cookieAuth: [] }],
-					parameters: [
-						{
-							in: "path",
-							name: "userId",
-							required: true,
-							schema: { type: "string" },
-							description: "User identifier",
-							example: "user123",
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["rules"],
+									properties: {
+										rules: {
+											type: "array",
+											maxItems: 50,
+											items: { $ref: "#/components/schemas/RedactionRule" },
+										},
+									},
+								},
+								example: {
+									rules: [
+										{ path: "customer.email", action: "hash" },
+										{ path: "items.*.card", action: "drop" },
+										{ detect: "phone", action: "mask" },
+									],
+								},
+							},
 						},
-						{
-							in: "query",
-							name: "from",
-							schema: { type: "string", format: "date-time" },
-							description: "Start date (ISO 8601 format)",
-							example: "2025-12-01T00:00:00Z",
+					},
+					responses: {
+						200: { description: "Rules replaced" },
+						201: { description: "Rule set created" },
+						400: {
+							description:
+								"Unknown event type, malformed rules, or hash rules without PII_HASH_SALT",
 						},
-						{
-							in: "query",
-							name: "to",
-							schema: { type: "string", format: "date-time" },
-							description: "End date (ISO 8601 format)",
-							example: "2025-12-15T23:59:59Z",
+						401: { description: "Not authenticated" },
+					},
+				},
+				delete: {
+					tags: ["PII Redaction"],
+					summary: "Remove the redaction rules of an event type",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						204: { description: "Deleted" },
+						401: { description: "Not authenticated" },
+						404: { description: "No rules registered for this event type" },
+					},
+				},
+			},
+			"/pipeline": {
+				get: {
+					tags: ["Transformation Pipeline"],
+					summary: "Get the transformation pipeline",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Pipeline stages",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/TransformPipeline" },
+								},
+							},
 						},
-						{
-							in: "query",
-							name: "limit",
-							schema: {
-								type: "integer",
-								minimum: 1,
-								maximum: 1000,
-								default: 100,
+						401: { description: "Not authenticated" },
+					},
+				},
+				put: {
+					tags: ["Transformation Pipeline"],
+					summary: "Replace the transformation pipeline",
+					description:
+						"Stages run in order on every accepted event after PII redaction and enrichment, before buffering; a stage after a split sees each split event. Dropped and split events are still reported to the client under their original eventId. A stage that fails leaves the event to the next stage. Only events ingested afterwards are affected.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["stages"],
+									properties: {
+										stages: {
+											type: "array",
+											maxItems: 50,
+											items: { $ref: "#/components/schemas/TransformStage" },
+										},
+									},
+								},
+								example: {
+									stages: [
+										{
+											name: "drop-debug-clicks",
+											action: "drop",
+											when: {
+												eventType: "button_click",
+												where: { "payload.element": "debug" },
+											},
+										},
+										{
+											name: "price-to-amount",
+											action: "rename",
+											from: "payload.price",
+											to: "payload.amount",
+										},
+									],
+								},
 							},
-							description: "Maximum number of events to return",
 						},
-					],
+					},
 					responses: {
 						200: {
-							description: "User journey retrieved successfully",
+							description: "Pipeline replaced",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/TransformPipeline" },
+								},
+							},
+						},
+						400: { description: "Malformed stages" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/pipeline/dry-run": {
+				post: {
+					tags: ["Transformation Pipeline"],
+					summary: "Run an event through the pipeline without storing it",
+					description:
+						"Validates and normalizes the event as POST /events would, then runs it through the given stages, or the configured ones when stages is omitted. Redaction, enrichment and the timestamp policy are not applied, and no metrics are recorded.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: {
+									type: "object",
+									required: ["event"],
+									properties: {
+										event: { $ref: "#/components/schemas/Event" },
+										stages: {
+											type: "array",
+											items: { $ref: "#/components/schemas/TransformStage" },
+										},
+									},
+								},
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Events after every stage, and the events that would be buffered",
 							content: {
 								"application/json": {
 									schema: {
 										type: "object",
 										properties: {
-											userId: { type: "string", example: "user123" },
-											count: { type: "integer", example: 50 },
+											input: { $ref: "#/components/schemas/Event" },
+											trace: {
+												type: "array",
+												items: {
+													type: "object",
+													properties: {
+														stage: { type: "string" },
+														outcomes: {
+															type: "object",
+															description:
+																"Number of matched events per outcome: applied, skipped (nothing to transform), dropped, split or error",
+															example: { applied: 1 },
+														},
+														events: {
+															type: "array",
+															items: { $ref: "#/components/schemas/Event" },
+														},
+													},
+												},
+											},
 											events: {
 												type: "array",
 												items: { $ref: "#/components/schemas/Event" },
@@ -364,60 +3311,87 @@ const options: swaggerJsdoc.Options = {
 								},
 							},
 						},
-						400: {
-							description: "Invalid query parameters",
+						400: { description: "Invalid event or malformed stages" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/traffic-filter": {
+				get: {
+					tags: ["Traffic Filter"],
+					summary: "Get the traffic filter settings",
+					security: [{ cookieAuth: [] }],
+					responses: {
+						200: {
+							description: "Current settings (the defaults until configured)",
 							content: {
 								"application/json": {
-									schema: { $ref: "#/components/schemas/Error" },
+									schema: { $ref: "#/components/schemas/TrafficFilter" },
+								},
+							},
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+				put: {
+					tags: ["Traffic Filter"],
+					summary: "Replace the traffic filter settings",
+					description:
+						"Checks run in order: internal user ID, excluded IP, bot User-Agent, session rate. The IP and User-Agent are the ones forwarded in context by server-side SDKs, or the request's. Only events ingested afterwards are filtered.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/TrafficFilterSettings" },
+								example: {
+									mode: "flag",
+									detectBots: true,
+									excludedIps: ["198.51.100.0/24"],
+									internalUserIds: ["qa-bot-1"],
+									maxEventsPerSession: 300,
+									sessionWindowMs: 60000,
+								},
+							},
+						},
+					},
+					responses: {
+						200: {
+							description: "Settings replaced",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/TrafficFilter" },
 								},
 							},
 						},
+						400: { description: "Malformed settings" },
 						401: { description: "Not authenticated" },
 					},
 				},
 			},
-			"/stats": {
+			"/admin/config": {
 				get: {
-					tags: ["Monitoring"],
-					summary: "Get buffer statistics",
+					tags: ["Configuration"],
+					summary: "Get the effective configuration",
 					description:
-						"Returns current buffer state and statistics for monitoring purposes",
+						"Settings of the instance that answers, resolved from defaults, CONFIG_FILE and environment variables. Secrets are masked; the ingestion section includes runtime changes.",
 					security: [{ cookieAuth: [] }],
 					responses: {
 						200: {
-							description: "Buffer statistics retrieved successfully",
+							description: "Configuration by section",
 							content: {
 								"application/json": {
 									schema: {
 										type: "object",
 										properties: {
-											bufferSize: {
-												type: "integer",
-												description: "Current number of events in buffer",
-												example: 150,
-											},
-											isFlushingInProgress: {
-												type: "boolean",
-												description:
-													"Whether a flush operation is currently running",
-												example: false,
-											},
-											maxBufferSize: {
-												type: "integer",
-												description:
-													"Buffer size threshold that triggers flush",
-												example: 500,
-											},
-											emergencyThreshold: {
-												type: "integer",
-												description:
-													"Emergency threshold where events start getting dropped",
-												example: 5000,
+											config: {
+												type: "object",
+												additionalProperties: { type: "object" },
 											},
-											bufferUtilization: {
-												type: "number",
-												description: "Buffer usage percentage",
-												example: 30,
+											runtimeSections: {
+												type: "array",
+												items: { type: "string" },
+												example: ["ingestion"],
 											},
 										},
 									},
@@ -428,287 +3402,422 @@ const options: swaggerJsdoc.Options = {
 					},
 				},
 			},
-			"/health": {
-				get: {
-					tags: ["Monitoring"],
-					summary: "Health check endpoint",
+			"/admin/config/ingestion": {
+				patch: {
+					tags: ["Configuration"],
+					summary: "Change ingestion buffer settings at runtime",
 					description:
-						"Returns service health status including database connection, uptime, memory usage, and buffer size",
+						"Applies to this instance only, until it restarts. Omitted settings keep their current value.",
+					security: [{ cookieAuth: [] }],
+					requestBody: {
+						required: true,
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/IngestionSettings" },
+								example: { maxBufferSize: 5000, flushIntervalMs: 500 },
+							},
+						},
+					},
 					responses: {
 						200: {
-							description: "Service is healthy",
+							description: "Settings now in effect",
 							content: {
 								"application/json": {
-									schema: {
-										type: "object",
-										properties: {
-											status: { type: "string", example: "ok" },
-											timestamp: {
-												type: "string",
-												format: "date-time",
-												example: "2025-12-17T10:30:00.000Z",
-											},
-											uptime: {
-												type: "number",
-												description: "Process uptime in seconds",
-												example: 3600,
-											},
-											memory: {
-												type: "object",
-												properties: {
-													rss: {
-														type: "number",
-														description: "Resident Set Size",
-													},
-													heapTotal: {
-														type: "number",
-														description: "Total heap size",
-													},
-													heapUsed: {
-														type: "number",
-														description: "Used heap size",
-													},
-													external: {
-														type: "number",
-														description: "External memory",
-													},
-												},
-											},
-											database: {
+									schema: { $ref: "#/components/schemas/IngestionSettings" },
+								},
+							},
+						},
+						400: { description: "Unknown, out-of-range or inconsistent settings" },
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/admin/imports/files": {
+				post: {
+					tags: ["Imports"],
+					summary: "Upload a file to import",
+					description:
+						"Stores the raw request body in IMPORT_DIR/uploads. The format comes from ?format= or the Content-Type; gzip and deflate Content-Encoding are decoded.",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{
+							in: "query",
+							name: "format",
+							schema: { type: "string", enum: ["csv", "ndjson", "json"] },
+						},
+					],
+					requestBody: {
+						required: true,
+						content: {
+							"text/csv": { schema: { type: "string" } },
+							"application/x-ndjson": { schema: { type: "string" } },
+							"application/json": { schema: { type: "string" } },
+							"application/octet-stream": {
+								schema: { type: "string", format: "binary" },
+							},
+						},
+					},
+					responses: {
+						201: {
+							description: "File stored",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											file: {
 												type: "string",
-												enum: ["connected", "disconnected"],
-												example: "connected",
-											},
-											bufferSize: {
-												type: "integer",
-												description: "Current events in buffer",
-												example: 150,
+												example: "uploads/upl_4f9c2a7d1b3e.csv",
 											},
+											size: { type: "integer" },
+											format: { type: "string" },
 										},
 									},
 								},
 							},
 						},
-						503: {
-							description: "Service unavailable (database disconnected)",
+						400: { description: "Unknown format or undecodable body" },
+						401: { description: "Not authenticated" },
+						413: { description: "Larger than IMPORT_MAX_UPLOAD_BYTES" },
+					},
+				},
+			},
+			"/admin/imports": {
+				get: {
+					tags: ["Imports"],
+					summary: "List imports",
+					description: "Newest first, without the rejected records",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "query", name: "page", schema: { type: "integer", default: 1 } },
+						{
+							in: "query",
+							name: "pageSize",
+							schema: { type: "integer", default: 20, maximum: 100 },
+						},
+					],
+					responses: {
+						200: {
+							description: "Imports retrieved successfully",
 							content: {
 								"application/json": {
 									schema: {
 										type: "object",
 										properties: {
-											status: { type: "string", example: "ok" },
-											database: { type: "string", example: "disconnected" },
+											items: {
+												type: "array",
+												items: { $ref: "#/components/schemas/ImportJob" },
+											},
+											totalCount: { type: "integer" },
+											page: { type: "integer" },
+											pageSize: { type: "integer" },
+											totalPages: { type: "integer" },
 										},
 									},
 								},
 							},
 						},
+						400: { description: "Invalid page or pageSize" },
+						401: { description: "Not authenticated" },
 					},
 				},
-			},
-			"/api/auth/sign-up/email": {
 				post: {
-					tags: ["Authentication"],
-					summary: "Register a new user",
-					description: "Create a new user account with email and password",
+					tags: ["Imports"],
+					summary: "Queue an import",
+					description:
+						"Checks the file and mapping, then queues the import; an instance picks it up right away. Records are validated like ingested events and redacted; enrichment, the traffic filter, the pipeline and payload schemas do not apply.",
+					security: [{ cookieAuth: [] }],
 					requestBody: {
 						required: true,
 						content: {
 							"application/json": {
 								schema: {
 									type: "object",
-									required: ["email", "password"],
+									required: ["file"],
 									properties: {
-										email: {
+										file: { type: "string", example: "uploads/upl_4f9c2a7d1b3e.csv" },
+										format: {
 											type: "string",
-											format: "email",
-											example: "user@example.com",
+											enum: ["csv", "ndjson", "json"],
+											description: "Defaults to the file extension",
 										},
-										password: {
-											type: "string",
-											format: "password",
-											minLength: 8,
-											example: "securepass123",
+										mapping: {
+											type: "object",
+											additionalProperties: { type: "string" },
+											description:
+												"Event field or payload.*/context.* path → column (or dotted path in JSON records). Columns named like an event field need no mapping; other columns go to the payload.",
+											example: { userId: "user_id", occurredAt: "timestamp" },
 										},
-										name: { type: "string", example: "John Doe" },
+										defaults: {
+											type: "object",
+											additionalProperties: true,
+											description: "Values for fields a record leaves empty",
+											example: { sessionId: "import", type: "purchase" },
+										},
+										sourceId: { type: "string" },
 									},
 								},
 							},
 						},
 					},
 					responses: {
-						200: {
-							description: "User registered successfully",
+						202: {
+							description: "Import queued",
 							content: {
 								"application/json": {
-									schema: {
-										type: "object",
-										properties: {
-											user: { $ref: "#/components/schemas/User" },
-											session: { $ref: "#/components/schemas/Session" },
-										},
-									},
+									schema: { $ref: "#/components/schemas/ImportJob" },
 								},
 							},
 						},
 						400: {
-							description: "Invalid input or email already exists",
+							description:
+								"Invalid body, file outside IMPORT_DIR or missing, unknown format, or mapping to columns not in the CSV header",
+						},
+						401: { description: "Not authenticated" },
+					},
+				},
+			},
+			"/admin/imports/{importId}": {
+				get: {
+					tags: ["Imports"],
+					summary: "Get an import with its progress and rejected records",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "importId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: {
+							description: "Import",
 							content: {
 								"application/json": {
-									schema: { $ref: "#/components/schemas/Error" },
+									schema: { $ref: "#/components/schemas/ImportJob" },
 								},
 							},
 						},
+						401: { description: "Not authenticated" },
+						404: { description: "Not found" },
 					},
 				},
 			},
-			"/api/auth/sign-in/email": {
+			"/admin/imports/{importId}/pause": {
 				post: {
-					tags: ["Authentication"],
-					summary: "Login with email and password",
-					description: "Authenticate user and create a session",
-					requestBody: {
-						required: true,
-						content: {
-							"application/json": {
-								schema: {
-									type: "object",
-									required: ["email", "password"],
-									properties: {
-										email: {
-											type: "string",
-											format: "email",
-											example: "user@example.com",
-										},
-										password: {
-											type: "string",
-											format: "password",
-											example: "securepass123",
-										},
-									},
-								},
-							},
-						},
-					},
+					tags: ["Imports"],
+					summary: "Pause an import",
+					description: "Stops after the chunk being written",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "importId", required: true, schema: { type: "string" } },
+					],
 					responses: {
 						200: {
-							description: "Login successful",
+							description: "Import after the change",
 							content: {
 								"application/json": {
-									schema: {
-										type: "object",
-										properties: {
-											user: { $ref: "#/components/schemas/User" },
-											session: { $ref: "#/components/schemas/Session" },
-										},
-									},
+									schema: { $ref: "#/components/schemas/ImportJob" },
 								},
 							},
 						},
-						401: {
-							description: "Invalid credentials",
+						401: { description: "Not authenticated" },
+						404: { description: "Not found" },
+						409: { description: "The import is not queued or running" },
+					},
+				},
+			},
+			"/admin/imports/{importId}/resume": {
+				post: {
+					tags: ["Imports"],
+					summary: "Resume an import",
+					description: "Continues a paused or failed import after its last saved chunk",
+					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "importId", required: true, schema: { type: "string" } },
+					],
+					responses: {
+						200: {
+							description: "Import after the change",
 							content: {
 								"application/json": {
-									schema: { $ref: "#/components/schemas/Error" },
+									schema: { $ref: "#/components/schemas/ImportJob" },
 								},
 							},
 						},
+						401: { description: "Not authenticated" },
+						404: { description: "Not found" },
+						409: { description: "The import is not paused or failed" },
 					},
 				},
 			},
-			"/api/auth/sign-out": {
+			"/admin/imports/{importId}/rollback": {
 				post: {
-					tags: ["Authentication"],
-					summary: "Logout",
-					description: "Invalidate current session",
+					tags: ["Imports"],
+					summary: "Roll back an import",
+					description: "Deletes the events the import wrote and takes them back out of session and profile counts. Sessions and profiles left empty are deleted; identity links are kept.",
 					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "importId", required: true, schema: { type: "string" } },
+					],
 					responses: {
-						200: { description: "Logout successful" },
+						200: {
+							description: "Import after the change",
+							content: {
+								"application/json": {
+									schema: { $ref: "#/components/schemas/ImportJob" },
+								},
+							},
+						},
 						401: { description: "Not authenticated" },
+						404: { description: "Not found" },
+						409: { description: "The import is not paused, completed or failed" },
 					},
 				},
 			},
-			"/api/auth/get-session": {
+			"/sessions": {
 				get: {
-					tags: ["Authentication"],
-					summary: "Get current session",
+					tags: ["Sessions"],
+					summary: "List sessions",
 					description:
-						"Retrieve information about the current authenticated session",
+						"Most recent first. Sessions with bot or internal traffic are left out unless includeExcluded=true.",
 					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "query", name: "userId", schema: { type: "string" } },
+						{
+							in: "query",
+							name: "from",
+							schema: { type: "string", format: "date-time" },
+							description: "Sessions started at or after",
+						},
+						{
+							in: "query",
+							name: "to",
+							schema: { type: "string", format: "date-time" },
+							description: "Sessions started at or before",
+						},
+						{ in: "query", name: "page", schema: { type: "integer", default: 1 } },
+						{
+							in: "query",
+							name: "pageSize",
+							schema: { type: "integer", default: 20, maximum: 100 },
+						},
+						{
+							in: "query",
+							name: "includeExcluded",
+							schema: { type: "boolean", default: false },
+						},
+					],
 					responses: {
 						200: {
-							description: "Session retrieved successfully",
+							description: "Sessions retrieved successfully",
 							content: {
 								"application/json": {
-									schema: {
-										type: "object",
-										properties: {
-											session: { $ref: "#/components/schemas/Session" },
-											user: { $ref: "#/components/schemas/User" },
-										},
-									},
+									schema: { $ref: "#/components/schemas/SessionSummaryPage" },
 								},
 							},
 						},
+						400: { description: "Invalid query parameters" },
 						401: { description: "Not authenticated" },
 					},
 				},
 			},
-			"/session": {
+			"/sessions/{sessionId}": {
 				get: {
-					tags: ["Authentication"],
-					summary: "Check current session",
-					description: "Convenience endpoint to verify authentication status",
+					tags: ["Sessions"],
+					summary: "Get a session with its events",
+					description:
+						"Sessions are kept per user and source, as clients may reuse sessionIds. When several users or sources have a session with this id, userId and sourceId pick one.",
 					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "sessionId", required: true, schema: { type: "string" } },
+						{
+							in: "query",
+							name: "userId",
+							schema: { type: "string" },
+							description: "User of the session",
+						},
+						{
+							in: "query",
+							name: "sourceId",
+							schema: { type: "string" },
+							description: "Source of the session",
+						},
+						{
+							in: "query",
+							name: "limit",
+							schema: { type: "integer", minimum: 1, maximum: 1000, default: 100 },
+							description: "Maximum number of events to return, oldest first",
+						},
+					],
 					responses: {
 						200: {
-							description: "Authenticated",
+							description: "Session and its events in the order they occurred",
 							content: {
 								"application/json": {
 									schema: {
-										type: "object",
-										properties: {
-											session: { $ref: "#/components/schemas/Session" },
-											user: { $ref: "#/components/schemas/User" },
-										},
+										allOf: [
+											{ $ref: "#/components/schemas/SessionSummary" },
+											{
+												type: "object",
+												properties: {
+													events: {
+														type: "array",
+														items: { $ref: "#/components/schemas/Event" },
+													},
+												},
+											},
+										],
 									},
 								},
 							},
 						},
-						401: {
-							description: "Not authenticated",
-							content: {
-								"application/json": {
-									schema: { $ref: "#/components/schemas/Error" },
-								},
-							},
+						400: { description: "Invalid limit, userId or sourceId" },
+						401: { description: "Not authenticated" },
+						404: { description: "Not found" },
+						409: {
+							description:
+								"Several users or sources have a session with this id; the response lists them in sessions",
 						},
 					},
 				},
 			},
-			"/users": {
+			"/users/{userId}/sessions": {
 				get: {
-					tags: ["Authentication"],
-					summary: "List all users",
-					description: "Get a list of all registered users with their metrics",
+					tags: ["Sessions"],
+					summary: "List a user's sessions",
+					description:
+						"Sessions of every identity linked to the user, most recent first, including bot and internal traffic like the journey",
 					security: [{ cookieAuth: [] }],
+					parameters: [
+						{ in: "path", name: "userId", required: true, schema: { type: "string" } },
+						{ in: "query", name: "from", schema: { type: "string", format: "date-time" } },
+						{ in: "query", name: "to", schema: { type: "string", format: "date-time" } },
+						{ in: "query", name: "page", schema: { type: "integer", default: 1 } },
+						{
+							in: "query",
+							name: "pageSize",
+							schema: { type: "integer", default: 20, maximum: 100 },
+						},
+					],
 					responses: {
 						200: {
-							description: "Users retrieved successfully",
+							description: "Sessions retrieved successfully",
 							content: {
 								"application/json": {
 									schema: {
-										type: "object",
-										properties: {
-											users: {
-												type: "array",
-												items: { $ref: "#/components/schemas/User" },
+										allOf: [
+											{
+												type: "object",
+												properties: {
+													userId: { type: "string" },
+													canonicalUserId: { type: "string" },
+													identities: { type: "array", items: { type: "string" } },
+												},
 											},
-										},
+											{ $ref: "#/components/schemas/SessionSummaryPage" },
+										],
 									},
 								},
 							},
 						},
+						400: { description: "Invalid query parameters" },
 						401: { description: "Not authenticated" },
 					},
 				},
@@ -720,3 +3829,110 @@ const options: swaggerJsdoc.Options = {
 };
 
 export const swaggerSpec = swaggerJsdoc(options);
+
+// JSON Schema keywords that OpenAPI 3.0 schema objects spell differently
+function toOpenApiSchema(schema: JsonSchema): Record<string, unknown> {
+	const { $schema, const: constValue, examples, type, ...rest } = schema;
+	const result: Record<string, unknown> = { ...rest };
+
+	if (constValue !== undefined) {
+		result.enum = [constValue];
+	}
+	if (Array.isArray(examples) && examples.length > 0) {
+		result.example = examples[0];
+	}
+	if (Array.isArray(type)) {
+		const types = type.filter((t) => t !== "null");
+		if (types.length < type.length) {
+			result.nullable = true;
+		}
+		if (types.length === 1) {
+			result.type = types[0];
+		} else if (types.length > 1) {
+			result.anyOf = types.map((t) => ({ type: t }));
+		}
+	} else if (type !== undefined) {
+		result.type = type;
+	}
+	if (rest.properties) {
+		result.properties = Object.fromEntries(
+			Object.entries(rest.properties).map(([key, value]) => [
+				key,
+				toOpenApiSchema(value),
+			]),
+		);
+	}
+	if (rest.items) {
+		result.items = toOpenApiSchema(rest.items);
+	}
+	if (rest.additionalProperties && typeof rest.additionalProperties === "object") {
+		result.additionalProperties = toOpenApiSchema(rest.additionalProperties);
+	}
+
+	return result;
+}
+
+// The parts of the spec filled in when it is served
+interface OpenApiSchemaObject {
+	properties?: Record<string, OpenApiSchemaObject>;
+	[keyword: string]: unknown;
+}
+
+interface OpenApiDocument {
+	components: { schemas: Record<string, OpenApiSchemaObject> };
+}
+
+// purchase -> PurchasePayload, add_to_cart -> AddToCartPayload
+function payloadComponentName(eventType: string): string {
+	const pascal = eventType
+		.split("_")
+		.map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+		.join("");
+	return `${pascal}Payload`;
+}
+
+// Lists the accepted catalog types as the enum of Event.type
+export function withEventTypes(
+	spec: object,
+	definitions: IEventTypeDefinition[],
+): object {
+	const result = structuredClone(spec) as OpenApiDocument;
+	const accepted = definitions.filter((d) => d.status !== "blocked");
+	const typeProperty = result.components.schemas.Event?.properties?.type;
+
+	if (typeProperty && accepted.length > 0) {
+		typeProperty.enum = accepted.map((d) => d.name);
+	}
+
+	return result;
+}
+
+/**
+ * The served spec: the static definition plus one component per registered
+ * payload schema, so /api-docs always shows the current tracking plan
+ */
+export function withPayloadSchemas(
+	spec: object,
+	entries: PayloadSchemaEntry[],
+): object {
+	const result = structuredClone(spec) as OpenApiDocument;
+
+	for (const entry of entries) {
+		const current = entry.versions.find(
+			(version) => version.version === entry.currentVersion,
+		);
+		if (!current) {
+			continue;
+		}
+
+		result.components.schemas[payloadComponentName(entry.eventType)] = {
+			...toOpenApiSchema(current.schema),
+			description: `${current.schema.description ?? `Payload of \`${entry.eventType}\` events`} (schema v${entry.currentVersion}, mode: ${entry.mode})`,
+			"x-event-type": entry.eventType,
+			"x-schema-version": entry.currentVersion,
+			"x-validation-mode": entry.mode,
+		};
+	}
+
+	return result;
+}
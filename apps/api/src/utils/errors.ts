@@ -0,0 +1,12 @@
+// Caught values are not necessarily Errors (anything can be thrown), so these
+// read what the logs and responses need without assuming a type
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// `code` of Node.js system and zlib errors (e.g. 'Z_DATA_ERROR') and of MongoDB server errors (e.g. 11000)
+export function errorCode(error: unknown): string | number | undefined {
+  const code = typeof error === 'object' && error !== null && 'code' in error ? error.code : undefined;
+  return typeof code === 'string' || typeof code === 'number' ? code : undefined;
+}
@@ -67,6 +67,21 @@ describe('normalizeEvent', () => {
     expect(normalized1.eventId).not.toBe(normalized2.eventId);
   });
 
+  it('keeps client-supplied eventId', () => {
+    const rawEvent = {
+      eventId: 'ios:retry-safe-1',
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PAGE_VIEW,
+    };
+
+    const normalized1 = normalizeEvent(rawEvent);
+    const normalized2 = normalizeEvent(rawEvent);
+
+    expect(normalized1.eventId).toBe('ios:retry-safe-1');
+    expect(normalized2.eventId).toBe(normalized1.eventId);
+  });
+
   it('converts string date to Date object', () => {
     const rawEvent = {
       userId: 'user123',
@@ -95,4 +110,36 @@ describe('normalizeEvent', () => {
     expect(normalized.occurredAt).toBeInstanceOf(Date);
     expect(normalized.occurredAt.getTime()).toBe(occurredDate.getTime());
   });
+
+  it('corrects occurredAt for the client clock skew given by sentAt', () => {
+    const rawEvent = {
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PAGE_VIEW,
+      // Device clock two hours behind the server
+      occurredAt: '2025-01-15T09:59:00Z',
+      sentAt: '2025-01-15T10:00:00Z',
+    };
+
+    const normalized = normalizeEvent(rawEvent);
+
+    expect(normalized.occurredAt).toEqual(new Date('2025-01-15T11:59:00Z'));
+    expect(normalized.timestampCorrection).toEqual({
+      clientOccurredAt: new Date('2025-01-15T09:59:00Z'),
+      sentAt: new Date('2025-01-15T10:00:00Z'),
+      skewMs: 2 * 60 * 60 * 1000,
+    });
+  });
+
+  it('sets sourceId from the authenticated write key, not the event body', () => {
+    const rawEvent = {
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PAGE_VIEW,
+      sourceId: 'src_spoofed',
+    };
+
+    expect(normalizeEvent(rawEvent, 'src_web').sourceId).toBe('src_web');
+    expect(normalizeEvent(rawEvent)).not.toHaveProperty('sourceId');
+  });
 });
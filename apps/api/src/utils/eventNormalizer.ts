@@ -1,16 +1,30 @@
 import { randomUUID } from 'crypto';
-import { EventType } from '@martech/types';
 import { NormalizedEvent } from '../repositories/event.repository';
 import { RawEvent } from '../validators/event.validator';
+import { correctClockSkew } from './eventTimestamp';
+
+// Client-supplied eventIds are kept so retried requests map to the same _id;
+// a server-generated UUID is only used when the client did not send one.
+// sourceId comes from the authenticated write key, never from the event body.
+// occurredAt is corrected for the client's clock skew when it sent sentAt.
+// sessionId stays empty until server-side sessionization assigns one at flush time.
+export function normalizeEvent(rawEvent: RawEvent, sourceId?: string): NormalizedEvent {
+  const receivedAt = new Date();
+  const { occurredAt, correction } = rawEvent.occurredAt
+    ? correctClockSkew(new Date(rawEvent.occurredAt), rawEvent.sentAt ? new Date(rawEvent.sentAt) : undefined, receivedAt)
+    : { occurredAt: receivedAt, correction: undefined };
 
-export function normalizeEvent(rawEvent: RawEvent): NormalizedEvent {
   return {
-    eventId: randomUUID(),
+    eventId: rawEvent.eventId ?? randomUUID(),
     userId: rawEvent.userId,
-    sessionId: rawEvent.sessionId,
-    type: rawEvent.type as EventType,
+    sessionId: rawEvent.sessionId || '',
+    type: rawEvent.type,
     payload: rawEvent.payload || {},
-    occurredAt: rawEvent.occurredAt ? new Date(rawEvent.occurredAt) : new Date(),
-    receivedAt: new Date(),
+    occurredAt,
+    receivedAt,
+    ...(correction && { timestampCorrection: correction }),
+    ...(rawEvent.anonymousId && { anonymousId: rawEvent.anonymousId }),
+    ...(rawEvent.context && { context: rawEvent.context }),
+    ...(sourceId && { sourceId }),
   };
 }
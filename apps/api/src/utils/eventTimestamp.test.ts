@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { EventType } from '@martech/types';
+import { type TimestampPolicy, applyTimestampPolicy, correctClockSkew } from './eventTimestamp';
+import type { NormalizedEvent } from '../repositories/event.repository';
+
+const receivedAt = new Date('2025-01-15T12:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+function event(occurredAt: string): NormalizedEvent {
+  return {
+    eventId: 'evt-1',
+    userId: 'user123',
+    sessionId: 'sess',
+    type: EventType.PAGE_VIEW,
+    payload: {},
+    occurredAt: new Date(occurredAt),
+    receivedAt,
+  };
+}
+
+function policy(outOfRange: TimestampPolicy['outOfRange']): TimestampPolicy {
+  return { maxFutureMs: HOUR, maxPastMs: 24 * HOUR, outOfRange };
+}
+
+describe('correctClockSkew', () => {
+  it('shifts occurredAt by the difference between receivedAt and sentAt', () => {
+    // Device clock three months ahead
+    const result = correctClockSkew(
+      new Date('2025-04-15T11:59:00.000Z'),
+      new Date('2025-04-15T11:59:55.000Z'),
+      receivedAt
+    );
+
+    expect(result.occurredAt).toEqual(new Date('2025-01-15T11:59:05.000Z'));
+    expect(result.correction).toEqual({
+      clientOccurredAt: new Date('2025-04-15T11:59:00.000Z'),
+      sentAt: new Date('2025-04-15T11:59:55.000Z'),
+      skewMs: -(90 * 24 * HOUR - 5000),
+    });
+  });
+
+  it('leaves occurredAt alone without sentAt', () => {
+    const occurredAt = new Date('2025-01-15T11:00:00.000Z');
+
+    expect(correctClockSkew(occurredAt, undefined, receivedAt)).toEqual({ occurredAt });
+  });
+});
+
+describe('applyTimestampPolicy', () => {
+  it('accepts timestamps inside the window', () => {
+    const inRange = event('2025-01-15T11:00:00.000Z');
+
+    expect(applyTimestampPolicy(inRange, policy('reject'))).toBeNull();
+    expect(inRange.timestampCorrection).toBeUndefined();
+  });
+
+  it('rejects out-of-range timestamps with the reject policy', () => {
+    expect(applyTimestampPolicy(event('2025-01-15T14:00:00.000Z'), policy('reject'))).toMatchObject({
+      code: 'TIMESTAMP_OUT_OF_RANGE',
+      field: 'occurredAt',
+    });
+  });
+
+  it('clamps to the edge of the window and keeps the client timestamp', () => {
+    const future = event('2025-07-01T00:00:00.000Z');
+    const past = event('2024-01-01T00:00:00.000Z');
+
+    expect(applyTimestampPolicy(future, policy('clamp'))).toBeNull();
+    applyTimestampPolicy(past, policy('clamp'));
+
+    expect(future.occurredAt).toEqual(new Date('2025-01-15T13:00:00.000Z'));
+    expect(future.timestampCorrection).toEqual({
+      clientOccurredAt: new Date('2025-07-01T00:00:00.000Z'),
+      outOfRange: 'future',
+      clamped: true,
+    });
+    expect(past.occurredAt).toEqual(new Date('2025-01-14T12:00:00.000Z'));
+    expect(past.timestampCorrection).toMatchObject({ outOfRange: 'past', clamped: true });
+  });
+
+  it('flags out-of-range timestamps without moving them', () => {
+    const past = event('2024-01-01T00:00:00.000Z');
+
+    applyTimestampPolicy(past, policy('flag'));
+
+    expect(past.occurredAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+    expect(past.timestampCorrection).toEqual({
+      clientOccurredAt: new Date('2024-01-01T00:00:00.000Z'),
+      outOfRange: 'past',
+    });
+  });
+
+  it('treats a bound of 0 as unlimited', () => {
+    expect(
+      applyTimestampPolicy(event('2020-01-01T00:00:00.000Z'), { maxFutureMs: 0, maxPastMs: 0, outOfRange: 'reject' })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import type { ITimestampCorrection } from '../models/Event';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { EventValidationIssue } from '../validators/event.validator';
+import { timestampOutOfRangeCounter } from '../observability/metrics';
+
+// What happens to an event whose occurredAt is still outside the accepted window
+// after clock-skew correction
+export type OutOfRangePolicy = 'clamp' | 'reject' | 'flag';
+
+export const OUT_OF_RANGE_POLICIES: OutOfRangePolicy[] = ['clamp', 'reject', 'flag'];
+
+export interface TimestampPolicy {
+  // How far occurredAt may lie after / before receivedAt; 0 disables the bound
+  maxFutureMs: number;
+  maxPastMs: number;
+  outOfRange: OutOfRangePolicy;
+}
+
+export const DEFAULT_TIMESTAMP_POLICY: TimestampPolicy = {
+  maxFutureMs: 5 * 60 * 1000,
+  maxPastMs: 30 * 24 * 60 * 60 * 1000,
+  outOfRange: 'flag',
+};
+
+export interface CorrectedTimestamp {
+  occurredAt: Date;
+  correction?: ITimestampCorrection;
+}
+
+/**
+ * Shift a client timestamp by the difference between the server clock (receivedAt)
+ * and the client clock (sentAt). A device whose clock is an hour behind sends both
+ * timestamps an hour early, so the offset moves occurredAt back to server time.
+ *
+ * @returns occurredAt unchanged, without a correction, when sentAt is missing
+ */
+export function correctClockSkew(clientOccurredAt: Date, sentAt: Date | undefined, receivedAt: Date): CorrectedTimestamp {
+  if (!sentAt) {
+    return { occurredAt: clientOccurredAt };
+  }
+
+  const skewMs = receivedAt.getTime() - sentAt.getTime();
+  return {
+    occurredAt: new Date(clientOccurredAt.getTime() + skewMs),
+    correction: { clientOccurredAt, sentAt, skewMs },
+  };
+}
+
+/**
+ * Apply the out-of-range policy to a normalized event. Clamped and flagged events are
+ * updated in place and keep their client timestamp in timestampCorrection.
+ *
+ * @returns the rejection when the policy is "reject" and occurredAt is out of range
+ */
+export function applyTimestampPolicy(event: NormalizedEvent, policy: TimestampPolicy): EventValidationIssue | null {
+  const offsetMs = event.occurredAt.getTime() - event.receivedAt.getTime();
+  const outOfRange =
+    policy.maxFutureMs > 0 && offsetMs > policy.maxFutureMs
+      ? 'future'
+      : policy.maxPastMs > 0 && -offsetMs > policy.maxPastMs
+        ? 'past'
+        : null;
+
+  if (!outOfRange) {
+    return null;
+  }
+  timestampOutOfRangeCounter.inc({ bound: outOfRange, policy: policy.outOfRange });
+
+  if (policy.outOfRange === 'reject') {
+    return {
+      code: 'TIMESTAMP_OUT_OF_RANGE',
+      field: 'occurredAt',
+      message:
+        outOfRange === 'future'
+          ? `occurredAt is more than ${policy.maxFutureMs}ms in the future`
+          : `occurredAt is more than ${policy.maxPastMs}ms in the past`,
+    };
+  }
+
+  const correction: ITimestampCorrection = event.timestampCorrection ?? { clientOccurredAt: event.occurredAt };
+  correction.outOfRange = outOfRange;
+  if (policy.outOfRange === 'clamp') {
+    correction.clamped = true;
+    event.occurredAt = new Date(
+      event.receivedAt.getTime() + (outOfRange === 'future' ? policy.maxFutureMs : -policy.maxPastMs)
+    );
+  }
+  event.timestampCorrection = correction;
+  return null;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import type { ITransformStage } from '../models/TransformPipeline';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import { type StageResult, checkTransformStages, createTransform, runTransforms } from './eventTransforms';
+
+function event(overrides: Partial<NormalizedEvent> = {}): NormalizedEvent {
+  return {
+    eventId: '6b3f2c9e-1d4a-4f8b-9c2e-7a5d3e1f0b42',
+    userId: 'user123',
+    sessionId: 'session456',
+    type: 'button_click',
+    payload: {},
+    occurredAt: new Date('2026-03-01T10:00:00Z'),
+    receivedAt: new Date('2026-03-01T10:00:01Z'),
+    ...overrides,
+  };
+}
+
+function run(stages: ITransformStage[], input: NormalizedEvent, onStage?: (result: StageResult) => void) {
+  return runTransforms(stages.map(createTransform), input, onStage);
+}
+
+describe('runTransforms', () => {
+  it('drops events matching the condition only', () => {
+    const stages: ITransformStage[] = [
+      { name: 'drop-debug', action: 'drop', when: { eventType: 'button_click', where: { 'payload.element': 'debug' } } },
+    ];
+
+    expect(run(stages, event({ payload: { element: 'debug' } }))).toEqual([]);
+    expect(run(stages, event({ payload: { element: 'buy' } }))).toHaveLength(1);
+    expect(run(stages, event({ type: 'page_view', payload: { element: 'debug' } }))).toHaveLength(1);
+  });
+
+  it('renames, copies, sets and removes values', () => {
+    const [result] = run(
+      [
+        { name: 'price-to-amount', action: 'rename', from: 'payload.price', to: 'payload.amount' },
+        { name: 'copy-user', action: 'copy', from: 'userId', to: 'context.user.id' },
+        { name: 'set-currency', action: 'set', path: 'payload.currency', value: 'EUR' },
+        { name: 'remove-internal', action: 'remove', path: 'payload.internal' },
+      ],
+      event({ type: 'purchase', payload: { price: 19.9, internal: true } })
+    );
+
+    expect(result.payload).toEqual({ amount: 19.9, currency: 'EUR' });
+    expect(result.context).toEqual({ user: { id: 'user123' } });
+  });
+
+  it('matches any of the accepted values', () => {
+    const stages: ITransformStage[] = [
+      { name: 'tag-eu', action: 'tag', tags: ['eu'], when: { where: { 'context.geo.country': ['DE', 'FR'] } } },
+    ];
+
+    expect(run(stages, event({ context: { geo: { country: 'FR' } } }))[0].tags).toEqual(['eu']);
+    expect(run(stages, event({ context: { geo: { country: 'US' } } }))[0].tags).toBeUndefined();
+  });
+
+  it('splits an array into one event per element with derived eventIds', () => {
+    const results = run(
+      [
+        { name: 'split-items', action: 'split', path: 'payload.items', as: 'payload.item' },
+        { name: 'tag-items', action: 'tag', tags: ['item'] },
+      ],
+      event({ type: 'purchase', payload: { orderId: 'o-1', items: [{ sku: 'A' }, { sku: 'B' }] } })
+    );
+
+    expect(results).toEqual([
+      expect.objectContaining({ eventId: '6b3f2c9e-1d4a-4f8b-9c2e-7a5d3e1f0b42:0', payload: { orderId: 'o-1', item: { sku: 'A' } }, tags: ['item'] }),
+      expect.objectContaining({ eventId: '6b3f2c9e-1d4a-4f8b-9c2e-7a5d3e1f0b42:1', payload: { orderId: 'o-1', item: { sku: 'B' } }, tags: ['item'] }),
+    ]);
+  });
+
+  it('reports the outcome of every stage, skipping events with nothing to transform', () => {
+    const results: StageResult[] = [];
+
+    run(
+      [
+        { name: 'price-to-amount', action: 'rename', from: 'payload.price', to: 'payload.amount' },
+        { name: 'drop-all', action: 'drop' },
+        { name: 'never-reached', action: 'tag', tags: ['x'] },
+      ],
+      event(),
+      (result) => results.push(result)
+    );
+
+    expect(results).toEqual([
+      { stage: 'price-to-amount', outcomes: { skipped: 1 }, events: [expect.any(Object)] },
+      { stage: 'drop-all', outcomes: { dropped: 1 }, events: [] },
+    ]);
+  });
+
+  it('passes the event on when a stage throws', () => {
+    const results: StageResult[] = [];
+    const failing = {
+      name: 'failing',
+      action: 'set' as const,
+      matches: () => true,
+      apply: () => {
+        throw new Error('boom');
+      },
+    };
+
+    const output = runTransforms([failing], event(), (result) => results.push(result));
+
+    expect(output).toHaveLength(1);
+    expect(results[0].outcomes).toEqual({ error: 1 });
+  });
+});
+
+describe('checkTransformStages', () => {
+  it('accepts well-formed stages', () => {
+    expect(
+      checkTransformStages([
+        { name: 'drop-debug', action: 'drop', when: { eventType: ['button_click'], where: { 'payload.element': 'debug' } } },
+        { name: 'price-to-amount', action: 'rename', from: 'payload.price', to: 'payload.amount' },
+        { name: 'split-items', action: 'split', path: 'payload.items', as: 'payload.item' },
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects malformed stages', () => {
+    expect(checkTransformStages({})).toBe('stages must be an array');
+    expect(checkTransformStages([{ name: 'a b', action: 'drop' }])).toMatch(/name/);
+    expect(checkTransformStages([{ name: 'a', action: 'drop' }, { name: 'a', action: 'drop' }])).toMatch(/used by another stage/);
+    expect(checkTransformStages([{ name: 'a', action: 'explode' }])).toMatch(/action: must be one of/);
+    expect(checkTransformStages([{ name: 'a', action: 'drop', path: 'payload.x' }])).toMatch(/unknown field "path"/);
+    expect(checkTransformStages([{ name: 'a', action: 'rename', from: 'payload.x' }])).toMatch(/to: required/);
+    expect(checkTransformStages([{ name: 'a', action: 'tag', tags: [] }])).toMatch(/tags/);
+    expect(checkTransformStages([{ name: 'a', action: 'drop', when: { where: { 'payload.x': { y: 1 } } } }])).toMatch(/where/);
+  });
+
+  it('only writes under payload and context', () => {
+    expect(checkTransformStages([{ name: 'a', action: 'set', path: 'userId', value: 'x' }])).toMatch(/path/);
+    expect(checkTransformStages([{ name: 'a', action: 'set', path: 'payload.__proto__.x', value: 1 }])).toMatch(/path/);
+    expect(checkTransformStages([{ name: 'a', action: 'rename', from: 'payload.a', to: 'payload.a.b' }])).toMatch(/contain/);
+    expect(checkTransformStages([{ name: 'a', action: 'copy', from: 'sessionId', to: 'payload.session' }])).toBeNull();
+  });
+});
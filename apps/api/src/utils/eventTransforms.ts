@@ -0,0 +1,348 @@
+import {
+  type ITransformCondition,
+  type ITransformStage,
+  TRANSFORM_ACTIONS,
+  type TransformAction,
+} from '../models/TransformPipeline';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import { errorMessage } from './errors';
+
+// Declarative transformation stages run on normalized events before they are
+// buffered. Stages run in order over every event the previous stage produced, so a
+// stage after a split sees each split event.
+
+export const MAX_TRANSFORM_STAGES = 50;
+
+// Upper bound on the events one split produces; larger arrays are left unsplit
+export const MAX_SPLIT_EVENTS = 100;
+
+// What a stage did to one event:
+// - applied: the event was modified (or tagged)
+// - skipped: the event matched but had nothing to transform, e.g. a missing path
+// - dropped / split: the event was discarded / replaced by several events
+// - error:   the stage threw; the event continues to the next stage
+export type TransformOutcome = 'applied' | 'skipped' | 'dropped' | 'split' | 'error';
+
+export interface EventTransform {
+  name: string;
+  action: TransformAction;
+  matches: (event: NormalizedEvent) => boolean;
+  // Transforms the event in place; returns the events that continue down the pipeline
+  apply: (event: NormalizedEvent) => { outcome: TransformOutcome; events: NormalizedEvent[] };
+}
+
+// Events after one stage, and what the stage did to the events it received
+export interface StageResult {
+  stage: string;
+  outcomes: Partial<Record<TransformOutcome, number>>;
+  events: NormalizedEvent[];
+}
+
+// Envelope fields a condition or copy can read besides payload.* and context.*
+const READABLE_FIELDS = ['type', 'userId', 'sessionId', 'sourceId', 'anonymousId'];
+
+// Segments that would reach Object.prototype through a plain object
+const FORBIDDEN_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+const STAGE_FIELDS: Record<TransformAction, string[]> = {
+  drop: [],
+  rename: ['from', 'to'],
+  set: ['path', 'value'],
+  copy: ['from', 'to'],
+  remove: ['path'],
+  tag: ['tags'],
+  split: ['path', 'as'],
+};
+
+type Container = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function segmentsOf(path: string): string[] {
+  return path.split('.');
+}
+
+function read(event: NormalizedEvent, path: string): unknown {
+  let current: unknown = event;
+  for (const segment of segmentsOf(path)) {
+    if (!isPlainObject(current) || !Object.hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+// Parent object of the path and its last segment, creating missing parents when asked.
+// Null when a parent is missing or not an object.
+function parentOf(event: NormalizedEvent, path: string, create: boolean): { parent: Container; key: string } | null {
+  const segments = segmentsOf(path);
+  const key = segments.pop() as string;
+  let current: unknown = event;
+  for (const segment of segments) {
+    if (!isPlainObject(current)) {
+      return null;
+    }
+    if (current[segment] === undefined && create) {
+      current[segment] = {};
+    }
+    current = current[segment];
+  }
+  return isPlainObject(current) ? { parent: current, key } : null;
+}
+
+function write(event: NormalizedEvent, path: string, value: unknown): boolean {
+  const target = parentOf(event, path, true);
+  if (!target) {
+    return false;
+  }
+  target.parent[target.key] = value;
+  return true;
+}
+
+function remove(event: NormalizedEvent, path: string): boolean {
+  const target = parentOf(event, path, false);
+  if (!target || !Object.hasOwn(target.parent, target.key)) {
+    return false;
+  }
+  delete target.parent[target.key];
+  return true;
+}
+
+// Also used to filter the live event stream
+export function conditionMatcher(when: ITransformCondition | undefined): (event: NormalizedEvent) => boolean {
+  const eventTypes = when?.eventType === undefined ? null : [when.eventType].flat();
+  const where = Object.entries(when?.where ?? {});
+
+  return (event) =>
+    (!eventTypes || eventTypes.includes(event.type)) &&
+    where.every(([path, expected]) => {
+      const actual = read(event, path);
+      return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+    });
+}
+
+const applied = (event: NormalizedEvent, changed: boolean) => ({
+  outcome: (changed ? 'applied' : 'skipped') as TransformOutcome,
+  events: [event],
+});
+
+const ACTIONS: Record<TransformAction, (stage: ITransformStage) => EventTransform['apply']> = {
+  drop: () => () => ({ outcome: 'dropped', events: [] }),
+
+  rename: ({ from, to }) => (event) => {
+    const value = read(event, from as string);
+    return applied(event, value !== undefined && write(event, to as string, value) && remove(event, from as string));
+  },
+
+  set: ({ path, value }) => (event) => applied(event, write(event, path as string, structuredClone(value))),
+
+  copy: ({ from, to }) => (event) => {
+    const value = read(event, from as string);
+    return applied(event, value !== undefined && write(event, to as string, structuredClone(value)));
+  },
+
+  remove: ({ path }) => (event) => applied(event, remove(event, path as string)),
+
+  tag: ({ tags }) => (event) => {
+    event.tags = Array.from(new Set([...(event.tags ?? []), ...(tags as string[])]));
+    return applied(event, true);
+  },
+
+  // Each element becomes its own event with a derived eventId, so a retried request
+  // produces the same IDs and is still deduplicated
+  split: ({ path, as }) => (event) => {
+    const items = read(event, path as string);
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_SPLIT_EVENTS) {
+      return applied(event, false);
+    }
+
+    remove(event, path as string);
+    const events = items.map((item, index) => {
+      const copy = structuredClone(event);
+      copy.eventId = `${event.eventId}:${index}`;
+      write(copy, as as string, item);
+      return copy;
+    });
+    return { outcome: 'split', events };
+  },
+};
+
+export function createTransform(stage: ITransformStage): EventTransform {
+  return {
+    name: stage.name,
+    action: stage.action,
+    matches: conditionMatcher(stage.when),
+    apply: ACTIONS[stage.action](stage),
+  };
+}
+
+/**
+ * Run an event through the transforms
+ *
+ * @param onStage - Called after each stage with the events it produced; the events
+ *   are transformed further in place by later stages
+ * @returns the events to buffer: none when dropped, several when split
+ */
+export function runTransforms(
+  transforms: EventTransform[],
+  event: NormalizedEvent,
+  onStage?: (result: StageResult) => void
+): NormalizedEvent[] {
+  let events = [event];
+
+  for (const transform of transforms) {
+    const outcomes: StageResult['outcomes'] = {};
+    events = events.flatMap((current) => {
+      if (!transform.matches(current)) {
+        return [current];
+      }
+
+      let result: ReturnType<EventTransform['apply']>;
+      try {
+        result = transform.apply(current);
+      } catch (error) {
+        console.error(`[EventTransforms] Stage ${transform.name} failed:`, errorMessage(error));
+        result = { outcome: 'error', events: [current] };
+      }
+      outcomes[result.outcome] = (outcomes[result.outcome] ?? 0) + 1;
+      return result.events;
+    });
+
+    onStage?.({ stage: transform.name, outcomes, events });
+    if (events.length === 0) {
+      break;
+    }
+  }
+
+  return events;
+}
+
+function checkPath(path: unknown, writable: boolean): string | null {
+  const hint = writable
+    ? 'must be a dot-separated path under payload or context, such as "payload.amount"'
+    : `must be a dot-separated path under payload or context, or one of ${READABLE_FIELDS.join(', ')}`;
+  if (typeof path !== 'string') {
+    return hint;
+  }
+
+  const [root, ...rest] = segmentsOf(path);
+  const rootAllowed =
+    root === 'payload' || root === 'context' ? rest.length > 0 : !writable && READABLE_FIELDS.includes(root);
+  if (!rootAllowed || rest.some((segment) => segment === '' || FORBIDDEN_SEGMENTS.includes(segment))) {
+    return hint;
+  }
+  return null;
+}
+
+export function checkCondition(when: unknown): string | null {
+  if (!isPlainObject(when)) {
+    return 'must be an object';
+  }
+  const unknownKey = Object.keys(when).find((key) => !['eventType', 'where'].includes(key));
+  if (unknownKey) {
+    return `unknown field "${unknownKey}"`;
+  }
+
+  const eventTypes = when.eventType === undefined ? [] : [when.eventType].flat();
+  if (eventTypes.length === 0 && when.eventType !== undefined) {
+    return 'eventType must not be an empty array';
+  }
+  if (eventTypes.some((type) => typeof type !== 'string')) {
+    return 'eventType must be a string or an array of strings';
+  }
+
+  if (when.where !== undefined) {
+    if (!isPlainObject(when.where)) {
+      return 'where must map paths to values';
+    }
+    for (const [path, expected] of Object.entries(when.where)) {
+      const problem = checkPath(path, false);
+      if (problem) {
+        return `where "${path}": ${problem}`;
+      }
+      if (isPlainObject(expected)) {
+        return `where "${path}": must be a value or an array of accepted values`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check that pipeline stages are well-formed before they are stored
+ *
+ * @returns description of the first problem, or null when the stages are usable
+ */
+export function checkTransformStages(stages: unknown): string | null {
+  if (!Array.isArray(stages)) {
+    return 'stages must be an array';
+  }
+  if (stages.length > MAX_TRANSFORM_STAGES) {
+    return `at most ${MAX_TRANSFORM_STAGES} stages are allowed`;
+  }
+
+  const names = new Set<string>();
+  for (const [index, stage] of stages.entries()) {
+    const at = `stages[${index}]`;
+    if (!isPlainObject(stage)) {
+      return `${at}: must be an object`;
+    }
+    // Names are metric label values, so they are kept short and simple
+    if (typeof stage.name !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(stage.name)) {
+      return `${at}.name: must be 1-64 letters, digits, dashes or underscores`;
+    }
+    if (names.has(stage.name)) {
+      return `${at}.name: "${stage.name}" is used by another stage`;
+    }
+    names.add(stage.name);
+
+    if (!TRANSFORM_ACTIONS.includes(stage.action as TransformAction)) {
+      return `${at}.action: must be one of ${TRANSFORM_ACTIONS.join(', ')}`;
+    }
+    const fields = STAGE_FIELDS[stage.action as TransformAction];
+    const unknownKey = Object.keys(stage).find((key) => !['name', 'action', 'when', ...fields].includes(key));
+    if (unknownKey) {
+      return `${at}: unknown field "${unknownKey}" for action ${stage.action}`;
+    }
+    const missing = fields.find((field) => stage[field] === undefined);
+    if (missing) {
+      return `${at}.${missing}: required for action ${stage.action}`;
+    }
+
+    if (stage.when !== undefined) {
+      const problem = checkCondition(stage.when);
+      if (problem) {
+        return `${at}.when: ${problem}`;
+      }
+    }
+
+    // Only copy may read an envelope field; everything else is written or removed
+    for (const field of ['path', 'from', 'to', 'as'].filter((name) => fields.includes(name))) {
+      const problem = checkPath(stage[field], !(stage.action === 'copy' && field === 'from'));
+      if (problem) {
+        return `${at}.${field}: ${problem}`;
+      }
+    }
+
+    if (
+      (stage.action === 'rename' || stage.action === 'copy') &&
+      (`${stage.to}.`.startsWith(`${stage.from}.`) || `${stage.from}.`.startsWith(`${stage.to}.`))
+    ) {
+      return `${at}: from and to must not contain one another`;
+    }
+
+    if (
+      stage.action === 'tag' &&
+      (!Array.isArray(stage.tags) ||
+        stage.tags.length === 0 ||
+        stage.tags.some((tag: unknown) => typeof tag !== 'string' || tag === ''))
+    ) {
+      return `${at}.tags: must be a non-empty array of strings`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { checkImportDefaults, checkImportMapping, mapImportRecord } from './importMapping';
+
+describe('mapImportRecord', () => {
+  it('reads event fields by name and puts other columns in the payload', () => {
+    const event = mapImportRecord(
+      { userId: 'u1', sessionId: 's1', type: 'purchase', occurredAt: '2024-03-01T10:00:00Z', amount: '9.99', coupon: '' },
+      {}
+    );
+
+    expect(event).toEqual({
+      userId: 'u1',
+      sessionId: 's1',
+      type: 'purchase',
+      occurredAt: '2024-03-01T10:00:00Z',
+      payload: { amount: '9.99' },
+    });
+  });
+
+  it('applies the mapping, nested paths and defaults', () => {
+    const event = mapImportRecord(
+      {
+        id: 'legacy:42',
+        user: { id: 'u1' },
+        session_id: 's1',
+        ts: '2024-03-01T10:00:00Z',
+        payload: '{"plan":"pro"}',
+        'payload.seats': '5',
+        country: 'DE',
+      },
+      {
+        eventId: 'id',
+        userId: 'user.id',
+        sessionId: 'session_id',
+        occurredAt: 'ts',
+        'context.geo.country': 'country',
+      },
+      { type: 'subscription_started', sessionId: 'unused' }
+    );
+
+    expect(event).toEqual({
+      eventId: 'legacy:42',
+      userId: 'u1',
+      sessionId: 's1',
+      type: 'subscription_started',
+      occurredAt: '2024-03-01T10:00:00Z',
+      payload: { plan: 'pro', seats: '5' },
+      context: { geo: { country: 'DE' } },
+    });
+  });
+
+  it('ignores columns that would reach the object prototype', () => {
+    const event = mapImportRecord(JSON.parse('{"x.__proto__.polluted":"yes","__proto__":{"polluted":"yes"}}'), {});
+
+    expect(event).toEqual({});
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe('checkImportMapping', () => {
+  it('accepts event fields and payload or context paths', () => {
+    expect(checkImportMapping({ userId: 'user_id', 'payload.amount': 'total', context: 'ctx' })).toBeNull();
+  });
+
+  it('rejects unknown targets and empty columns', () => {
+    expect(checkImportMapping([])).toMatch(/^mapping must be an object/);
+    expect(checkImportMapping({ user: 'user_id' })).toMatch(/^mapping\.user: must be one of/);
+    expect(checkImportMapping({ 'payload.__proto__': 'x' })).toMatch(/^mapping\.payload\.__proto__/);
+    expect(checkImportMapping({ userId: '' })).toBe('mapping.userId: must be a column name');
+    expect(checkImportDefaults({ tags: ['a'] })).toMatch(/^defaults\.tags: must be one of/);
+  });
+});
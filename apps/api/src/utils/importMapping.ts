@@ -0,0 +1,191 @@
+import type { RawEvent } from '../validators/event.validator';
+
+// Historical imports turn each record of a CSV, NDJSON or JSON file into an event.
+// A mapping names the column (or dotted record path) each event field is read from;
+// defaults supply values for fields no record has, e.g. the type of a file of
+// purchases. Record fields that are neither mapped nor event fields end up in the
+// payload, so a CSV of `userId,sessionId,type,occurredAt,amount` needs no mapping.
+
+// Event fields a mapping can target besides payload.* and context.* paths
+export const IMPORT_FIELDS = [
+  'eventId',
+  'userId',
+  'sessionId',
+  'type',
+  'occurredAt',
+  'receivedAt',
+  'anonymousId',
+  'payload',
+  'context',
+];
+
+// Record fields holding a whole object rather than one value
+const OBJECT_FIELDS = ['payload', 'context'];
+
+const MAX_MAPPING_ENTRIES = 200;
+
+// Segments that would reach Object.prototype through a plain object
+const FORBIDDEN_SEGMENTS = ['__proto__', 'prototype', 'constructor'];
+
+const NESTED_TARGET = /^(payload|context)(\.[^.]+)+$/;
+
+// A mapped record, before validation. receivedAt is only kept by imports; live
+// ingestion always sets it to the time the event arrived.
+export interface ImportedEvent extends RawEvent {
+  receivedAt?: unknown;
+}
+
+type Container = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSafePath(path: string): boolean {
+  return !path.split('.').some((segment) => FORBIDDEN_SEGMENTS.includes(segment));
+}
+
+function isTarget(field: string): boolean {
+  return IMPORT_FIELDS.includes(field) || (NESTED_TARGET.test(field) && isSafePath(field));
+}
+
+// Exact column names win over dotted paths, so a CSV header "payload.amount" is a column
+function read(record: Container, source: string): unknown {
+  if (Object.hasOwn(record, source)) {
+    return record[source];
+  }
+
+  let value: unknown = record;
+  for (const segment of source.split('.')) {
+    if (!isPlainObject(value) || !Object.hasOwn(value, segment)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+function write(event: Container, target: string, value: unknown): void {
+  const segments = target.split('.');
+  const key = segments.pop() as string;
+
+  let parent = event;
+  for (const segment of segments) {
+    const child = parent[segment];
+    if (isPlainObject(child)) {
+      parent = child;
+    } else {
+      const created: Container = {};
+      parent[segment] = created;
+      parent = created;
+    }
+  }
+  parent[key] = value;
+}
+
+// CSV cells are strings; a payload or context column may hold a JSON object
+function objectValue(value: unknown): unknown {
+  if (typeof value !== 'string' || !value.trimStart().startsWith('{')) {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Empty CSV cells count as missing
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Returns the first problem with an import mapping (event field -> record column or
+ * path), or null
+ */
+export function checkImportMapping(mapping: unknown): string | null {
+  if (!isPlainObject(mapping)) {
+    return 'mapping must be an object of event field -> column name';
+  }
+
+  const entries = Object.entries(mapping);
+  if (entries.length > MAX_MAPPING_ENTRIES) {
+    return `mapping must not have more than ${MAX_MAPPING_ENTRIES} entries`;
+  }
+
+  for (const [field, source] of entries) {
+    if (!isTarget(field)) {
+      return `mapping.${field}: must be one of ${IMPORT_FIELDS.join(', ')} or a payload.* or context.* path`;
+    }
+    if (typeof source !== 'string' || source.trim() === '') {
+      return `mapping.${field}: must be a column name`;
+    }
+  }
+  return null;
+}
+
+// Returns the first problem with the default values of an import, or null
+export function checkImportDefaults(defaults: unknown): string | null {
+  if (!isPlainObject(defaults)) {
+    return 'defaults must be an object of event field -> value';
+  }
+
+  for (const field of Object.keys(defaults)) {
+    if (!isTarget(field)) {
+      return `defaults.${field}: must be one of ${IMPORT_FIELDS.join(', ')} or a payload.* or context.* path`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build an event from one import record: unmapped record fields (event fields by
+ * name, everything else into the payload), then mapped fields, then defaults for
+ * fields that are still missing
+ */
+export function mapImportRecord(
+  record: Container,
+  mapping: Record<string, string>,
+  defaults: Record<string, unknown> = {}
+): ImportedEvent {
+  const event: Container = {};
+  // A mapped nested path uses up its whole top-level field
+  const mappedSources = new Set(
+    Object.values(mapping).map((source) =>
+      Object.hasOwn(record, source) ? source : source.split('.')[0]
+    )
+  );
+  const unmapped = Object.entries(record).filter(
+    ([key, value]) => !mappedSources.has(key) && !isMissing(value) && isSafePath(key)
+  );
+
+  // Whole payload/context objects first, so payload.* columns are merged into them
+  for (const [key, value] of unmapped) {
+    if (OBJECT_FIELDS.includes(key)) {
+      event[key] = objectValue(value);
+    }
+  }
+  for (const [key, value] of unmapped) {
+    if (OBJECT_FIELDS.includes(key)) {
+      continue;
+    }
+    write(event, isTarget(key) ? key : `payload.${key}`, value);
+  }
+
+  for (const [field, source] of Object.entries(mapping)) {
+    const value = read(record, source);
+    if (!isMissing(value)) {
+      write(event, field, OBJECT_FIELDS.includes(field) ? objectValue(value) : value);
+    }
+  }
+
+  for (const [field, value] of Object.entries(defaults)) {
+    if (isMissing(read(event, field))) {
+      write(event, field, value);
+    }
+  }
+
+  // Field types are checked by inspectRawEvent() like those of any other request body
+  return event as unknown as ImportedEvent;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { type ImportRecord, importFormatOf, parseCsv, readImportFile } from './importReader';
+import type { ImportFormat } from '../models/ImportJob';
+
+async function* chunks(...parts: string[]): AsyncGenerator<string> {
+  yield* parts;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('parseCsv', () => {
+  it('handles quoted fields with commas, newlines and escaped quotes across chunks', async () => {
+    const rows = await collect(parseCsv(chunks('a,"b, c","say ""hi', '"""\r\n1,"two\nlines",', '3\n')));
+
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'two\nlines', '3'],
+    ]);
+  });
+
+  it('keeps empty fields and a last row without newline', async () => {
+    const rows = await collect(parseCsv(chunks('a,,c\n,"",\nx')));
+
+    expect(rows).toEqual([['a', '', 'c'], ['', '', ''], ['x']]);
+  });
+});
+
+describe('readImportFile', () => {
+  let directory: string;
+
+  function file(name: string, content: string | Buffer): string {
+    const target = path.join(directory, name);
+    writeFileSync(target, content);
+    return target;
+  }
+
+  async function records(target: string, format: ImportFormat, maxJsonBytes = 1024): Promise<ImportRecord[]> {
+    return collect(readImportFile(target, format, { maxJsonBytes }).records);
+  }
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), 'martech-import-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('maps CSV rows to records by header, skipping a byte order mark and blank lines', async () => {
+    const target = file('events.csv', '\uFEFFuserId,type,amount\nu1,purchase,9.99\n\nu2,purchase\n');
+
+    expect(await records(target, 'csv')).toEqual([
+      { record: { userId: 'u1', type: 'purchase', amount: '9.99' } },
+      { issue: { code: 'INVALID_EVENT', message: 'Row has 2 columns, the header has 3' } },
+    ]);
+  });
+
+  it('rejects CSV files without a usable header', async () => {
+    await expect(records(file('empty.csv', '\n'), 'csv')).rejects.toThrow('CSV file has no header row');
+    await expect(records(file('dup.csv', 'a,b,a\n1,2,3\n'), 'csv')).rejects.toThrow(
+      'CSV header has the column a more than once'
+    );
+  });
+
+  it('reads gzipped NDJSON and reports invalid lines as rejected records', async () => {
+    const target = file('events.ndjson.gz', zlib.gzipSync('{"userId":"u1"}\n\nnot json\n[1]\n'));
+    const reader = readImportFile(target, 'ndjson', { maxJsonBytes: 1024 });
+
+    const items = await collect(reader.records);
+
+    expect(items).toEqual([
+      { record: { userId: 'u1' } },
+      { issue: { code: 'INVALID_JSON', message: expect.stringMatching(/^Not valid JSON/) } },
+      { issue: { code: 'INVALID_EVENT', message: 'Record must be a JSON object' } },
+    ]);
+    expect(reader.bytesRead()).toBeGreaterThan(0);
+  });
+
+  it('reads JSON arrays up to the size limit', async () => {
+    const target = file('events.json', JSON.stringify([{ userId: 'u1' }, { userId: 'u2' }]));
+
+    expect(await records(target, 'json')).toEqual([{ record: { userId: 'u1' } }, { record: { userId: 'u2' } }]);
+    await expect(records(target, 'json', 10)).rejects.toThrow('JSON file exceeds 10 bytes');
+  });
+});
+
+describe('importFormatOf', () => {
+  it('detects the format from the extension', () => {
+    expect(importFormatOf('uploads/events.CSV')).toBe('csv');
+    expect(importFormatOf('history/2024.jsonl.gz')).toBe('ndjson');
+    expect(importFormatOf('events.json')).toBe('json');
+    expect(importFormatOf('uploads/upl_4f9c2a7d1b3e')).toBeNull();
+  });
+});
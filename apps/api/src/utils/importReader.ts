@@ -0,0 +1,245 @@
+import { createReadStream } from 'node:fs';
+import path from 'node:path';
+import { Readable, pipeline } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import zlib from 'node:zlib';
+import type { ImportFormat } from '../models/ImportJob';
+import type { EventValidationIssue } from '../validators/event.validator';
+import { errorMessage } from './errors';
+
+// One record of an import file: its fields, or why it could not be read
+export type ImportRecord = { record: Record<string, unknown> } | { issue: EventValidationIssue };
+
+export interface ImportFileReader {
+  records: AsyncIterable<ImportRecord>;
+  // Bytes read from the file so far (compressed bytes for .gz files)
+  bytesRead: () => number;
+}
+
+// Problem with an import file as a whole, e.g. a CSV file without header
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+const FORMAT_EXTENSIONS: Record<string, ImportFormat> = {
+  '.csv': 'csv',
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.json': 'json',
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Format of an import file from its extension, ignoring a trailing .gz
+export function importFormatOf(file: string): ImportFormat | null {
+  const name = file.toLowerCase().replace(/\.gz$/, '');
+  return FORMAT_EXTENSIONS[path.extname(name)] ?? null;
+}
+
+async function* decodeText(chunks: AsyncIterable<Buffer>): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let first = true;
+
+  for await (const chunk of chunks) {
+    let text = decoder.write(chunk);
+    if (first && text.length > 0) {
+      // Spreadsheet exports often start with a byte order mark
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+    yield text;
+  }
+
+  const rest = decoder.end();
+  if (rest) {
+    yield rest;
+  }
+}
+
+async function* splitLines(text: AsyncIterable<string>): AsyncGenerator<string> {
+  let remainder = '';
+  for await (const chunk of text) {
+    const lines = (remainder + chunk).split('\n');
+    remainder = lines.pop() as string;
+    yield* lines;
+  }
+  yield remainder;
+}
+
+/**
+ * Parse CSV (RFC 4180) text into rows: fields may be quoted, quoted fields may
+ * contain commas, newlines and doubled quotes. Rows end with LF or CRLF.
+ */
+export async function* parseCsv(text: AsyncIterable<string>): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Just closed a quoted field; another quote means an escaped quote
+  let afterQuote = false;
+
+  for await (const chunk of text) {
+    for (const char of chunk) {
+      if (quoted) {
+        if (char === '"') {
+          quoted = false;
+          afterQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (afterQuote) {
+          field += char;
+          quoted = true;
+        } else if (field === '') {
+          quoted = true;
+        } else {
+          field += char;
+        }
+        afterQuote = false;
+        continue;
+      }
+
+      afterQuote = false;
+      if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        row.push(field);
+        yield row;
+        row = [];
+        field = '';
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    yield row;
+  }
+}
+
+// Column names from the first CSV row
+function csvHeader(cells: string[]): string[] {
+  const names = cells.map((name) => name.trim());
+  if (names.includes('')) {
+    throw new ImportFileError('CSV header has an empty column name');
+  }
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate !== undefined) {
+    throw new ImportFileError(`CSV header has the column ${duplicate} more than once`);
+  }
+  return names;
+}
+
+function csvRecord(header: string[], cells: string[]): ImportRecord {
+  if (cells.length !== header.length) {
+    return {
+      issue: { code: 'INVALID_EVENT', message: `Row has ${cells.length} columns, the header has ${header.length}` },
+    };
+  }
+  return { record: Object.fromEntries(header.map((name, index) => [name, cells[index]])) };
+}
+
+async function* csvRecords(text: AsyncIterable<string>): AsyncGenerator<ImportRecord> {
+  let header: string[] | null = null;
+
+  for await (const cells of parseCsv(text)) {
+    if (cells.length === 1 && cells[0].trim() === '') {
+      continue;
+    }
+    if (header) {
+      yield csvRecord(header, cells);
+    } else {
+      header = csvHeader(cells);
+    }
+  }
+
+  if (!header) {
+    throw new ImportFileError('CSV file has no header row');
+  }
+}
+
+function toRecord(value: unknown): ImportRecord {
+  return isPlainObject(value)
+    ? { record: value }
+    : { issue: { code: 'INVALID_EVENT', message: 'Record must be a JSON object' } };
+}
+
+async function* ndjsonRecords(text: AsyncIterable<string>): AsyncGenerator<ImportRecord> {
+  for await (const line of splitLines(text)) {
+    if (line.trim() === '') {
+      continue;
+    }
+    try {
+      yield toRecord(JSON.parse(line));
+    } catch (error) {
+      yield { issue: { code: 'INVALID_JSON', message: `Not valid JSON: ${errorMessage(error)}` } };
+    }
+  }
+}
+
+// JSON files are parsed as a whole, so their size is bounded; histories too large
+// for that should be NDJSON or CSV, which are streamed
+async function* jsonRecords(text: AsyncIterable<string>, maxBytes: number): AsyncGenerator<ImportRecord> {
+  let content = '';
+  let size = 0;
+  for await (const chunk of text) {
+    content += chunk;
+    size += Buffer.byteLength(chunk);
+    if (size > maxBytes) {
+      throw new ImportFileError(`JSON file exceeds ${maxBytes} bytes; use NDJSON or CSV for large imports`);
+    }
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ImportFileError(`Not valid JSON: ${errorMessage(error)}`);
+  }
+
+  for (const value of Array.isArray(parsed) ? parsed : [parsed]) {
+    yield toRecord(value);
+  }
+}
+
+/**
+ * Stream the records of an import file. Files ending in .gz are decompressed;
+ * records are only read as fast as they are consumed.
+ *
+ * @throws ImportFileError (while iterating) when the file as a whole is unusable
+ */
+export function readImportFile(file: string, format: ImportFormat, options: { maxJsonBytes: number }): ImportFileReader {
+  let bytesRead = 0;
+
+  async function* counted(): AsyncGenerator<Buffer> {
+    for await (const chunk of createReadStream(file)) {
+      bytesRead += chunk.length;
+      yield chunk;
+    }
+  }
+
+  let content: AsyncIterable<Buffer> = counted();
+  if (file.toLowerCase().endsWith('.gz')) {
+    const gunzip = zlib.createGunzip();
+    // pipeline destroys the gunzip stream with the error, which the iteration rethrows
+    pipeline(Readable.from(content), gunzip, () => {});
+    content = gunzip;
+  }
+
+  const text = decodeText(content);
+  const records =
+    format === 'csv' ? csvRecords(text) : format === 'ndjson' ? ndjsonRecords(text) : jsonRecords(text, options.maxJsonBytes);
+
+  return { records, bytesRead: () => bytesRead };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { anonymizeIp, createIpMatcher, normalizeIp } from './ipAddress';
+
+describe('normalizeIp', () => {
+  it('unwraps IPv4-mapped addresses and drops IPv6 zones', () => {
+    expect(normalizeIp('::ffff:203.0.113.7')).toBe('203.0.113.7');
+    expect(normalizeIp('fe80::1%eth0')).toBe('fe80::1');
+  });
+
+  it('returns null for anything that is not an IP address', () => {
+    expect(normalizeIp('')).toBeNull();
+    expect(normalizeIp('localhost')).toBeNull();
+  });
+});
+
+describe('anonymizeIp', () => {
+  it('zeroes the last IPv4 octet', () => {
+    expect(anonymizeIp('203.0.113.7')).toBe('203.0.113.0');
+    expect(anonymizeIp('::ffff:203.0.113.7')).toBe('203.0.113.0');
+  });
+
+  it('keeps the /48 prefix of IPv6 addresses', () => {
+    expect(anonymizeIp('2001:0db8:85a3:0000:0000:8a2e:0370:7334')).toBe('2001:db8:85a3::');
+    expect(anonymizeIp('2001:db8::1')).toBe('2001:db8:0::');
+    expect(anonymizeIp('::1')).toBe('0:0:0::');
+  });
+
+  it('returns null for invalid addresses', () => {
+    expect(anonymizeIp('not-an-ip')).toBeNull();
+  });
+});
+
+describe('createIpMatcher', () => {
+  it('matches single addresses and CIDR ranges', () => {
+    const matches = createIpMatcher(['198.51.100.23', '10.0.0.0/8', '2001:db8::/32']);
+
+    expect(matches?.('198.51.100.23')).toBe(true);
+    expect(matches?.('::ffff:10.20.30.40')).toBe(true);
+    expect(matches?.('2001:db8:1::5')).toBe(true);
+    expect(matches?.('198.51.100.24')).toBe(false);
+    expect(matches?.('not-an-ip')).toBe(false);
+  });
+
+  it('returns null for invalid entries', () => {
+    expect(createIpMatcher(['10.0.0.0/33'])).toBeNull();
+    expect(createIpMatcher(['office'])).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { BlockList, isIPv4, isIPv6 } from 'node:net';
+
+/**
+ * Strip the IPv6 zone and the IPv4-mapped prefix Node reports for IPv4 clients on
+ * dual-stack sockets ("::ffff:203.0.113.7" -> "203.0.113.7")
+ *
+ * @returns the address, or null when it is not an IP address
+ */
+export function normalizeIp(ip: string): string | null {
+  const address = ip.trim().replace(/%.*$/, '');
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped && isIPv4(mapped[1])) {
+    return mapped[1];
+  }
+  return isIPv4(address) || isIPv6(address) ? address : null;
+}
+
+/**
+ * Truncate an IP so it no longer identifies a single host: the last IPv4 octet is
+ * zeroed (/24), IPv6 addresses keep their first 48 bits (/48).
+ *
+ * @returns the truncated address, or null when it is not an IP address
+ */
+export function anonymizeIp(ip: string): string | null {
+  const address = normalizeIp(ip);
+  if (!address) {
+    return null;
+  }
+
+  if (isIPv4(address)) {
+    return address.replace(/\.\d+$/, '.0');
+  }
+
+  // The /48 prefix is the first three groups; groups compressed into "::" are zeros
+  const [head] = address.split('::');
+  const groups = head === '' ? [] : head.split(':');
+  const kept = [...groups, '0', '0', '0'].slice(0, 3).map((group) => group.replace(/^0+(?=.)/, '').toLowerCase());
+  return `${kept.join(':')}::`;
+}
+
+/**
+ * Build a matcher for a list of IP addresses and CIDR ranges ("203.0.113.7",
+ * "10.0.0.0/8", "2001:db8::/32")
+ *
+ * @returns null when an entry is neither an address nor a valid range
+ */
+export function createIpMatcher(entries: string[]): ((ip: string) => boolean) | null {
+  const list = new BlockList();
+
+  for (const entry of entries) {
+    const [address, prefix, ...rest] = entry.trim().split('/');
+    const type = isIPv4(address) ? 'ipv4' : isIPv6(address) ? 'ipv6' : null;
+    const bits = prefix === undefined ? null : Number(prefix);
+    const maxBits = type === 'ipv4' ? 32 : 128;
+    if (!type || rest.length > 0 || (bits !== null && !(Number.isInteger(bits) && bits >= 0 && bits <= maxBits))) {
+      return null;
+    }
+
+    if (bits === null) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, bits, type);
+    }
+  }
+
+  return (ip) => {
+    const address = normalizeIp(ip);
+    return address !== null && list.check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import { RequestBodyError, decodeRequestBody, readNdjson } from './ndjsonReader';
+
+const MAX_BYTES = 1024 * 1024;
+
+describe('readNdjson', () => {
+  it('parses one event per line across chunk boundaries', async () => {
+    const stream = Readable.from(['{"type":"page_view","n":1}\n{"type":"sea', 'rch","n":2}\r\n\n{"n":3}']);
+
+    const { events, lineErrors } = await readNdjson(stream, MAX_BYTES);
+
+    expect(events).toEqual([{ type: 'page_view', n: 1 }, { type: 'search', n: 2 }, { n: 3 }]);
+    expect(lineErrors.size).toBe(0);
+  });
+
+  it('reports invalid lines without failing the body', async () => {
+    const stream = Readable.from(['{"n":1}\n\n{"n":\n{"n":3}\n']);
+
+    const { events, lineErrors } = await readNdjson(stream, MAX_BYTES);
+
+    expect(events).toEqual([{ n: 1 }, null, { n: 3 }]);
+    expect(lineErrors.get(1)).toMatch(/^Line 3 is not valid JSON/);
+  });
+
+  it('keeps multi-byte characters split across chunks intact', async () => {
+    const bytes = Buffer.from('{"name":"café"}\n');
+    const stream = Readable.from([bytes.subarray(0, 13), bytes.subarray(13)]);
+
+    const { events } = await readNdjson(stream, MAX_BYTES);
+
+    expect(events).toEqual([{ name: 'café' }]);
+  });
+
+  it('rejects bodies larger than the limit', async () => {
+    const stream = Readable.from([Buffer.from('{"n":1}\n'.repeat(100))]);
+
+    await expect(readNdjson(stream, 100)).rejects.toMatchObject({ status: 413 });
+  });
+});
+
+describe('decodeRequestBody', () => {
+  const lines = '{"n":1}\n{"n":2}\n';
+
+  it('decompresses gzip and deflate bodies', async () => {
+    for (const [encoding, compressed] of [
+      ['gzip', zlib.gzipSync(lines)],
+      ['deflate', zlib.deflateSync(lines)],
+    ] as const) {
+      const { events } = await readNdjson(decodeRequestBody(Readable.from([compressed]), encoding), MAX_BYTES);
+      expect(events).toEqual([{ n: 1 }, { n: 2 }]);
+    }
+  });
+
+  it('stops inflating a zip bomb at the limit', async () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(50 * 1024 * 1024, ' '));
+
+    await expect(readNdjson(decodeRequestBody(Readable.from([bomb]), 'gzip'), MAX_BYTES)).rejects.toMatchObject({
+      status: 413,
+    });
+  });
+
+  it('rejects corrupt compressed data with 400', async () => {
+    const stream = decodeRequestBody(Readable.from([Buffer.from('not gzip at all')]), 'gzip');
+
+    await expect(readNdjson(stream, MAX_BYTES)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('rejects unsupported encodings with 415', () => {
+    expect(() => decodeRequestBody(Readable.from([]), 'compress')).toThrow(RequestBodyError);
+  });
+});
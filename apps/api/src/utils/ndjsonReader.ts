@@ -0,0 +1,106 @@
+import type { Readable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import zlib from 'node:zlib';
+import { errorCode, errorMessage } from './errors';
+
+// Problem with a request body as a whole; `status` is the HTTP status to answer with
+export class RequestBodyError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+export interface NdjsonBody {
+  events: unknown[];
+  // Index in `events` -> why that line could not be parsed (its entry is null)
+  lineErrors: Map<number, string>;
+}
+
+/**
+ * Decompress a request stream according to its Content-Encoding header
+ *
+ * @throws RequestBodyError (415) for encodings other than gzip, deflate and identity
+ */
+export function decodeRequestBody(req: Readable, contentEncoding: string | undefined): Readable {
+  const encoding = (contentEncoding || 'identity').trim().toLowerCase();
+
+  let decoder: zlib.Gunzip | zlib.Inflate;
+  switch (encoding) {
+    case 'identity':
+      return req;
+    case 'gzip':
+    case 'x-gzip':
+      decoder = zlib.createGunzip();
+      break;
+    case 'deflate':
+      decoder = zlib.createInflate();
+      break;
+    default:
+      throw new RequestBodyError(415, `Unsupported Content-Encoding: ${encoding}`);
+  }
+
+  req.on('error', (error) => decoder.destroy(error));
+  return req.pipe(decoder);
+}
+
+/**
+ * Parse newline-delimited JSON one line at a time. Lines that are not valid JSON
+ * are reported in `lineErrors` instead of failing the whole body; blank lines are
+ * skipped.
+ *
+ * @param maxBytes - Limit on the decoded size, so a small compressed body cannot
+ *   expand without bound (zip bomb)
+ * @throws RequestBodyError (413) when the decoded body exceeds maxBytes, (400) when
+ *   it is not valid gzip/deflate data
+ */
+export async function readNdjson(stream: AsyncIterable<Buffer | string>, maxBytes: number): Promise<NdjsonBody> {
+  const decoder = new StringDecoder('utf8');
+  const events: unknown[] = [];
+  const lineErrors = new Map<number, string>();
+  let received = 0;
+  let lineNumber = 0;
+  let remainder = '';
+
+  const parseLine = (line: string): void => {
+    lineNumber++;
+    if (line.trim() === '') {
+      return;
+    }
+    try {
+      events.push(JSON.parse(line));
+    } catch (error) {
+      lineErrors.set(events.length, `Line ${lineNumber} is not valid JSON: ${errorMessage(error)}`);
+      events.push(null);
+    }
+  };
+
+  try {
+    for await (const chunk of stream) {
+      received += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+      if (received > maxBytes) {
+        throw new RequestBodyError(413, `Request body exceeds ${maxBytes} bytes after decompression`);
+      }
+
+      const lines = (remainder + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split('\n');
+      remainder = lines.pop() ?? '';
+      lines.forEach(parseLine);
+    }
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      throw error;
+    }
+    // zlib errors carry a code such as Z_DATA_ERROR; anything else is a broken connection
+    const code = errorCode(error);
+    if (typeof code === 'string' && code.startsWith('Z_')) {
+      throw new RequestBodyError(400, `Invalid compressed body: ${errorMessage(error)}`);
+    }
+    throw error;
+  }
+
+  parseLine(remainder + decoder.end());
+  return { events, lineErrors };
+}
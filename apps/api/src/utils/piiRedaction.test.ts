@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { checkRedactionRules, hashValue, redactPayload } from './piiRedaction';
+
+const SALT = 'test-salt';
+
+describe('redactPayload', () => {
+  it('drops, masks and hashes values at a path', () => {
+    const payload = {
+      customer: { email: 'Jane.Doe@example.com', phone: '+1 415 555 2671', notes: 'VIP' },
+      items: [{ sku: 'A1', card: '4111111111111111' }],
+    };
+
+    const counts = redactPayload(
+      payload,
+      [
+        { path: 'customer.email', action: 'hash' },
+        { path: 'customer.phone', action: 'drop' },
+        { path: 'items.*.card', action: 'mask' },
+      ],
+      SALT
+    );
+
+    expect(payload).toEqual({
+      customer: { email: hashValue('Jane.Doe@example.com', SALT), notes: 'VIP' },
+      items: [{ sku: 'A1', card: '************1111' }],
+    });
+    expect(counts).toEqual([
+      { match: 'path', action: 'hash', count: 1 },
+      { match: 'path', action: 'drop', count: 1 },
+      { match: 'path', action: 'mask', count: 1 },
+    ]);
+  });
+
+  it('accepts paths prefixed with payload.', () => {
+    const payload = { email: 'jane@example.com' };
+
+    redactPayload(payload, [{ path: 'payload.email', action: 'drop' }]);
+
+    expect(payload).toEqual({});
+  });
+
+  it('finds PII inside free text anywhere in the payload', () => {
+    const payload = {
+      message: 'Call me at +1 (415) 555-2671 or mail jane@example.com',
+      form: { comment: 'My card is 4111 1111 1111 1111', orderId: '1234567890123' },
+      visitedAt: '2025-01-15 10:30:00',
+    };
+
+    redactPayload(
+      payload,
+      [
+        { detect: 'email', action: 'mask' },
+        { detect: 'credit_card', action: 'mask' },
+        { detect: 'phone', action: 'mask' },
+      ],
+      SALT
+    );
+
+    expect(payload).toEqual({
+      message: 'Call me at +* (***) ***-**71 or mail j***@example.com',
+      form: { comment: 'My card is **** **** **** 1111', orderId: '1234567890123' },
+      visitedAt: '2025-01-15 10:30:00',
+    });
+  });
+
+  it('only treats digit runs with a valid Luhn checksum as card numbers', () => {
+    const payload = { valid: '5555-5555-5555-4444', invalid: '5555-5555-5555-4445' };
+
+    redactPayload(payload, [{ detect: 'credit_card', action: 'drop' }]);
+
+    expect(payload).toEqual({ invalid: '5555-5555-5555-4445' });
+  });
+
+  it('detects IPv4 and IPv6 addresses but not times', () => {
+    const payload = { client: '203.0.113.7', v6: 'from 2001:db8::1', time: '10:30:00', version: '999.1.2.3' };
+
+    redactPayload(payload, [{ detect: 'ip', action: 'hash' }], SALT);
+
+    expect(payload.client).toBe(hashValue('203.0.113.7', SALT));
+    expect(payload.v6).toBe(`from ${hashValue('2001:db8::1', SALT)}`);
+    expect(payload.time).toBe('10:30:00');
+    expect(payload.version).toBe('999.1.2.3');
+  });
+
+  it('limits detection to a path when both are given', () => {
+    const payload = { contact: { primary: 'jane@example.com' }, support: 'help@example.com' };
+
+    redactPayload(payload, [{ path: 'contact', detect: 'email', action: 'drop' }]);
+
+    expect(payload).toEqual({ contact: {}, support: 'help@example.com' });
+  });
+
+  it('removes dropped array elements', () => {
+    const payload = { recipients: ['jane@example.com', 'team', 'joe@example.com'] };
+
+    redactPayload(payload, [{ detect: 'email', action: 'drop' }]);
+
+    expect(payload).toEqual({ recipients: ['team'] });
+  });
+
+  it('hashes emails case-insensitively so they stay joinable', () => {
+    expect(hashValue(' Jane@Example.com', SALT, 'email')).toBe(hashValue('jane@example.com', SALT, 'email'));
+    expect(hashValue('jane@example.com', SALT)).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(hashValue('jane@example.com', 'other-salt')).not.toBe(hashValue('jane@example.com', SALT));
+  });
+
+  it('masks instead of hashing without a salt', () => {
+    const payload = { email: 'jane@example.com' };
+
+    const counts = redactPayload(payload, [{ detect: 'email', action: 'hash' }]);
+
+    expect(payload.email).toBe('j***@example.com');
+    expect(counts).toEqual([{ match: 'email', action: 'mask', count: 1 }]);
+  });
+
+  it('reports nothing when no rule matches', () => {
+    expect(redactPayload({ url: '/home' }, [{ detect: 'email', action: 'drop' }])).toEqual([]);
+  });
+});
+
+describe('checkRedactionRules', () => {
+  it('accepts well-formed rules', () => {
+    expect(
+      checkRedactionRules([
+        { path: 'customer.email', action: 'hash' },
+        { detect: 'credit_card', action: 'mask' },
+        { path: 'items.*', detect: 'phone', action: 'drop' },
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects malformed rules', () => {
+    expect(checkRedactionRules({})).toBe('rules must be an array');
+    expect(checkRedactionRules([{ path: 'email', action: 'encrypt' }])).toMatch(/rules\[0\]\.action/);
+    expect(checkRedactionRules([{ action: 'drop' }])).toMatch(/needs a path/);
+    expect(checkRedactionRules([{ path: 'customer..email', action: 'drop' }])).toMatch(/rules\[0\]\.path/);
+    expect(checkRedactionRules([{ detect: 'ssn', action: 'drop' }])).toMatch(/rules\[0\]\.detect/);
+    expect(checkRedactionRules([{ path: 'email', action: 'drop', regex: '.*' }])).toMatch(/unknown field "regex"/);
+  });
+});
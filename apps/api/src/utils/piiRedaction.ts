@@ -0,0 +1,259 @@
+import { createHash } from 'node:crypto';
+import { isIPv4, isIPv6 } from 'node:net';
+import {
+  type IRedactionRule,
+  PII_DETECTORS,
+  type PiiDetector,
+  REDACTION_ACTIONS,
+  type RedactionAction,
+} from '../models/RedactionRuleSet';
+
+// Rule engine that strips PII from event payloads at ingestion. Rules run in order
+// and change the payload in place, so a value dropped by one rule is not seen by
+// the next.
+
+export const MAX_REDACTION_RULES = 50;
+
+// How many values one rule redacted, and with which action. The action differs from
+// the rule's when a hash rule runs without a salt and falls back to masking.
+export interface RedactionCount {
+  match: PiiDetector | 'path';
+  action: RedactionAction;
+  count: number;
+}
+
+interface Detector {
+  patterns: RegExp[];
+  // Second pass on a pattern match, for checks a regular expression cannot express
+  accept: (match: string) => boolean;
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+const DROP = Symbol('drop');
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const DETECTORS: Record<PiiDetector, Detector> = {
+  email: {
+    patterns: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g],
+    accept: () => true,
+  },
+  // 13-19 digits, optionally grouped by spaces or dashes, with a valid Luhn checksum
+  credit_card: {
+    patterns: [/\b\d(?:[ -]?\d){12,18}\b/g],
+    accept: (match) => passesLuhn(digitsOf(match)),
+  },
+  // 9-15 digits (E.164) written with a leading + or separators; bare digit runs are
+  // too often order numbers or IDs, and dates are excluded
+  phone: {
+    patterns: [/(?<![\w.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?![\w.-])/g],
+    accept: (match) => {
+      const digits = digitsOf(match).length;
+      return digits >= 9 && digits <= 15 && /^\+|[\s().-]/.test(match) && !/^\d{4}-\d{2}-\d{2}/.test(match);
+    },
+  },
+  ip: {
+    patterns: [/\b(?:\d{1,3}\.){3}\d{1,3}\b/g, /(?<![\w:])[0-9A-Fa-f]{0,4}(?::[0-9A-Fa-f]{0,4}){2,7}(?![\w:])/g],
+    accept: (match) => isIPv4(match) || isIPv6(match),
+  },
+};
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return isContainer(value) && !Array.isArray(value);
+}
+
+// Calls transform for every value at the path ("*" matches any key or array index)
+// and stores its result, removing the value when it returns DROP
+function transformAt(container: Container, segments: string[], transform: (value: unknown) => unknown): void {
+  const [head, ...rest] = segments;
+  const keys = head === '*' ? Object.keys(container) : [head];
+  const dropped: string[] = [];
+
+  for (const key of keys) {
+    if (!Object.hasOwn(container, key)) {
+      continue;
+    }
+    const value = (container as Record<string, unknown>)[key];
+    if (rest.length > 0) {
+      if (isContainer(value)) {
+        transformAt(value, rest, transform);
+      }
+      continue;
+    }
+
+    const replacement = transform(value);
+    if (replacement === DROP) {
+      dropped.push(key);
+    } else {
+      (container as Record<string, unknown>)[key] = replacement;
+    }
+  }
+
+  if (Array.isArray(container)) {
+    // Highest index first so the remaining indexes stay valid
+    for (const index of dropped.map(Number).sort((a, b) => b - a)) {
+      container.splice(index, 1);
+    }
+  } else {
+    for (const key of dropped) {
+      delete container[key];
+    }
+  }
+}
+
+// Applies transform to every string in a value, however deeply nested
+function eachString(value: unknown, transform: (text: string) => unknown): unknown {
+  if (typeof value === 'string') {
+    return transform(value);
+  }
+  if (isContainer(value)) {
+    transformAt(value, ['*'], (child) => eachString(child, transform));
+  }
+  return value;
+}
+
+function pathSegments(path: string): string[] {
+  return path.replace(/^payload\./, '').split('.');
+}
+
+function mask(value: string, detector?: PiiDetector): string {
+  switch (detector) {
+    case 'email': {
+      const at = value.lastIndexOf('@');
+      return `${value[0]}***${value.slice(at)}`;
+    }
+    case 'credit_card':
+      // Keep the last four digits, as on a receipt
+      return value.replace(/\d(?=(?:\D*\d){4})/g, '*');
+    case 'phone':
+      return value.replace(/\d(?=(?:\D*\d){2})/g, '*');
+    default:
+      return value.length >= 8 ? '*'.repeat(value.length - 4) + value.slice(-4) : '*'.repeat(value.length);
+  }
+}
+
+export function hashValue(value: string, salt: string, detector?: PiiDetector): string {
+  // Emails are case-insensitive; normalizing keeps hashes of one address equal
+  const normalized = detector === 'email' ? value.trim().toLowerCase() : value;
+  return `sha256:${createHash('sha256').update(salt).update(normalized).digest('hex')}`;
+}
+
+function applyRule(payload: Record<string, unknown>, rule: IRedactionRule, salt: string | undefined): RedactionCount {
+  const action: RedactionAction = rule.action === 'hash' && !salt ? 'mask' : rule.action;
+  const detector = rule.detect;
+  let count = 0;
+
+  const redact = (value: string): string => {
+    count++;
+    return action === 'hash' ? hashValue(value, salt as string, detector) : mask(value, detector);
+  };
+
+  // Redacts a whole value: every primitive inside it, or the value itself on drop
+  const redactValue = (value: unknown): unknown => {
+    if (action === 'drop') {
+      count++;
+      return DROP;
+    }
+    if (isContainer(value)) {
+      transformAt(value, ['*'], redactValue);
+      return value;
+    }
+    return value === null || value === undefined ? value : redact(String(value));
+  };
+
+  // Redacts the PII found inside a string; drop removes the whole string
+  const redactMatches = (text: string): unknown => {
+    const { patterns, accept } = DETECTORS[detector as PiiDetector];
+    if (action === 'drop') {
+      const found = patterns.some((pattern) => (text.match(pattern) ?? []).some(accept));
+      if (found) {
+        count++;
+        return DROP;
+      }
+      return text;
+    }
+    return patterns.reduce(
+      (result, pattern) => result.replace(pattern, (match) => (accept(match) ? redact(match) : match)),
+      text
+    );
+  };
+
+  const segments = rule.path ? pathSegments(rule.path) : ['*'];
+  transformAt(payload, segments, detector ? (value) => eachString(value, redactMatches) : redactValue);
+
+  return { match: detector ?? 'path', action, count };
+}
+
+/**
+ * Apply redaction rules to a payload, in place
+ *
+ * @param salt - Salt for hash rules; without one they mask instead, so PII is never
+ *   stored as an unsalted (dictionary-reversible) hash
+ * @returns what each rule redacted, for rules that matched anything
+ */
+export function redactPayload(
+  payload: Record<string, unknown>,
+  rules: IRedactionRule[],
+  salt?: string
+): RedactionCount[] {
+  return rules.map((rule) => applyRule(payload, rule, salt)).filter((result) => result.count > 0);
+}
+
+/**
+ * Check that a rule set is well-formed before it is stored
+ *
+ * @returns description of the first problem, or null when the rules are usable
+ */
+export function checkRedactionRules(rules: unknown): string | null {
+  if (!Array.isArray(rules)) {
+    return 'rules must be an array';
+  }
+  if (rules.length > MAX_REDACTION_RULES) {
+    return `at most ${MAX_REDACTION_RULES} rules are allowed per event type`;
+  }
+
+  for (const [index, rule] of rules.entries()) {
+    const at = `rules[${index}]`;
+    if (!isPlainObject(rule)) {
+      return `${at}: must be an object`;
+    }
+    const unknownKey = Object.keys(rule).find((key) => !['path', 'detect', 'action'].includes(key));
+    if (unknownKey) {
+      return `${at}: unknown field "${unknownKey}"`;
+    }
+    if (!REDACTION_ACTIONS.includes(rule.action as RedactionAction)) {
+      return `${at}.action: must be one of ${REDACTION_ACTIONS.join(', ')}`;
+    }
+    if (rule.path === undefined && rule.detect === undefined) {
+      return `${at}: needs a path, a detect pattern or both`;
+    }
+    if (rule.path !== undefined && (typeof rule.path !== 'string' || pathSegments(rule.path).some((s) => s === ''))) {
+      return `${at}.path: must be a dot-separated path such as "customer.email" or "items.*.card"`;
+    }
+    if (rule.detect !== undefined && !PII_DETECTORS.includes(rule.detect as PiiDetector)) {
+      return `${at}.detect: must be one of ${PII_DETECTORS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
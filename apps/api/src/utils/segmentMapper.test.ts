@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { EventType } from '@martech/types';
+import { mapSegmentMessage, readSegmentBatch, segmentEventId, segmentEventType } from './segmentMapper';
+
+describe('segmentEventType', () => {
+  it('maps spec events to built-in types and other names to snake_case', () => {
+    expect(segmentEventType('Order Completed')).toBe(EventType.PURCHASE);
+    expect(segmentEventType('Signup Started')).toBe('signup_started');
+    expect(segmentEventType('checkoutStepViewed')).toBe('checkout_step_viewed');
+    expect(segmentEventType('button_click')).toBe(EventType.BUTTON_CLICK);
+  });
+});
+
+describe('segmentEventId', () => {
+  it('keeps UUIDs and namespaces other message IDs', () => {
+    expect(segmentEventId('8f14e45f-ceea-467f-a0e6-0b2a3c4d5e6f')).toBe('8f14e45f-ceea-467f-a0e6-0b2a3c4d5e6f');
+    expect(segmentEventId('ajs-next-1a2b3c')).toBe('segment:ajs-next-1a2b3c');
+  });
+
+  it('hashes message IDs that cannot be used as an eventId', () => {
+    const eventId = segmentEventId('node/1700000000000/abc def');
+
+    expect(eventId).toMatch(/^segment:[0-9a-f]{32}$/);
+    expect(segmentEventId('node/1700000000000/abc def')).toBe(eventId);
+  });
+});
+
+describe('mapSegmentMessage', () => {
+  it('maps a track call onto a RawEvent', () => {
+    const result = mapSegmentMessage(
+      {
+        userId: 'user123',
+        anonymousId: 'anon-1',
+        event: 'Order Completed',
+        properties: { revenue: 42 },
+        context: { library: { name: 'analytics-node' } },
+        messageId: 'node-msg-1',
+        timestamp: '2025-01-15T12:00:00.000Z',
+      },
+      'track'
+    );
+
+    expect(result).toEqual({
+      rawEvent: {
+        eventId: 'segment:node-msg-1',
+        userId: 'user123',
+        sessionId: 'anon-1',
+        type: EventType.PURCHASE,
+        payload: { revenue: 42 },
+        occurredAt: '2025-01-15T12:00:00.000Z',
+        anonymousId: 'anon-1',
+        context: { library: { name: 'analytics-node' } },
+      },
+    });
+  });
+
+  it('falls back to anonymousId and takes the session from context', () => {
+    const result = mapSegmentMessage(
+      { anonymousId: 'anon-1', name: 'Pricing', properties: { path: '/pricing' }, context: { sessionId: 1736942400 } },
+      'page'
+    );
+
+    expect(result).toMatchObject({
+      rawEvent: {
+        userId: 'anon-1',
+        sessionId: '1736942400',
+        type: EventType.PAGE_VIEW,
+        payload: { path: '/pricing', name: 'Pricing' },
+      },
+    });
+  });
+
+  it('maps identify traits and alias previousId into the payload', () => {
+    expect(mapSegmentMessage({ userId: 'user123', traits: { plan: 'pro' } }, 'identify')).toMatchObject({
+      rawEvent: { type: EventType.IDENTIFY, payload: { plan: 'pro' } },
+    });
+    expect(mapSegmentMessage({ userId: 'user123', previousId: 'anon-1' }, 'alias')).toMatchObject({
+      rawEvent: { type: EventType.ALIAS, payload: { previousId: 'anon-1' } },
+    });
+  });
+
+  it('passes originalTimestamp and sentAt on for clock-skew correction', () => {
+    const result = mapSegmentMessage(
+      { type: 'screen', userId: 'user123', originalTimestamp: '2025-01-15T11:59:00.000Z' },
+      undefined,
+      { sentAt: '2025-01-15T11:59:30.000Z' }
+    );
+
+    expect(result).toMatchObject({
+      rawEvent: { occurredAt: '2025-01-15T11:59:00.000Z', sentAt: '2025-01-15T11:59:30.000Z' },
+    });
+  });
+
+  it('uses an explicit timestamp as-is', () => {
+    const result = mapSegmentMessage(
+      { type: 'track', event: 'Search', userId: 'u', timestamp: '2025-01-15T11:00:00.000Z', sentAt: 'garbage' },
+      undefined
+    );
+
+    expect(result).toMatchObject({ rawEvent: { occurredAt: '2025-01-15T11:00:00.000Z' } });
+    expect(result).not.toHaveProperty('rawEvent.sentAt');
+  });
+
+  it('merges the batch context under the message context', () => {
+    const result = mapSegmentMessage(
+      { type: 'track', event: 'Search', userId: 'u', context: { locale: 'fr-FR' } },
+      undefined,
+      { context: { locale: 'en-US', library: { name: 'analytics-python' } } }
+    );
+
+    expect(result).toMatchObject({
+      rawEvent: { context: { locale: 'fr-FR', library: { name: 'analytics-python' } } },
+    });
+  });
+
+  it('reports messages that cannot be mapped', () => {
+    expect(mapSegmentMessage({ event: 'Search' }, 'track')).toEqual({
+      issue: { code: 'MISSING_FIELD', field: 'userId', message: 'Either userId or anonymousId is required' },
+    });
+    expect(mapSegmentMessage({ userId: 'u' }, 'track')).toMatchObject({ issue: { field: 'event' } });
+    expect(mapSegmentMessage({ userId: 'u' }, 'alias')).toMatchObject({ issue: { field: 'previousId' } });
+    expect(mapSegmentMessage({ type: 'group', userId: 'u' })).toMatchObject({
+      issue: { code: 'UNKNOWN_EVENT_TYPE', field: 'type' },
+    });
+    expect(mapSegmentMessage({ userId: 'u', properties: [] }, 'page')).toMatchObject({
+      issue: { code: 'INVALID_FIELD_TYPE', field: 'properties' },
+    });
+  });
+});
+
+describe('readSegmentBatch', () => {
+  it('splits the envelope from its messages', () => {
+    expect(readSegmentBatch({ batch: [{ type: 'track' }], sentAt: '2025-01-15T12:00:00Z', writeKey: 'wk' })).toEqual({
+      messages: [{ type: 'track' }],
+      defaults: { sentAt: '2025-01-15T12:00:00Z' },
+    });
+    expect(readSegmentBatch({ type: 'track' })).toBeNull();
+  });
+});
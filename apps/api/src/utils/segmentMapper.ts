@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import { EventType } from '@martech/types';
+import { type RawEvent, type EventValidationIssue, isValidEventId, validateDate } from '../validators/event.validator';
+
+// Segment spec message types accepted by the /v1 tracking API
+export type SegmentMessageType = 'track' | 'identify' | 'page' | 'screen' | 'alias';
+
+export const SEGMENT_MESSAGE_TYPES: SegmentMessageType[] = ['track', 'identify', 'page', 'screen', 'alias'];
+
+// Fields a /v1/batch envelope applies to every message that does not set its own
+export interface SegmentBatchDefaults {
+  context?: Record<string, unknown>;
+  sentAt?: string;
+}
+
+export type SegmentMapping = { rawEvent: RawEvent } | { issue: EventValidationIssue };
+
+// Segment semantic events that correspond to a built-in type. Other track names are
+// converted to snake_case and must be registered in the event-type catalog.
+const SPEC_EVENT_TYPES: Record<string, string> = {
+  'Order Completed': EventType.PURCHASE,
+  'Product Added': EventType.ADD_TO_CART,
+  'Product Removed': EventType.REMOVE_FROM_CART,
+  'Products Searched': EventType.SEARCH,
+  'Video Playback Started': EventType.VIDEO_PLAY,
+  'Video Playback Paused': EventType.VIDEO_PAUSE,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMessageType(value: unknown): value is SegmentMessageType {
+  return SEGMENT_MESSAGE_TYPES.includes(value as SegmentMessageType);
+}
+
+// Segment allows numeric user IDs; everything else has to be a non-empty string
+function identifier(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function issue(code: EventValidationIssue['code'], field: string, message: string): { issue: EventValidationIssue } {
+  return { issue: { code, field, message } };
+}
+
+/**
+ * Catalog type for a track call: "Order Completed" -> purchase, "Signup Started" -> signup_started
+ */
+export function segmentEventType(event: string): string {
+  return (
+    SPEC_EVENT_TYPES[event] ??
+    event
+      .trim()
+      .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+  );
+}
+
+/**
+ * Deduplication key for a messageId. SDK IDs such as "ajs-next-1a2b..." are not valid
+ * eventIds, so they are namespaced under "segment:", or hashed when they contain
+ * characters an eventId cannot hold. Retries of a message keep the same eventId.
+ */
+export function segmentEventId(messageId: string): string {
+  if (isValidEventId(messageId)) {
+    return messageId;
+  }
+  const namespaced = `segment:${messageId}`;
+  return isValidEventId(namespaced)
+    ? namespaced
+    : `segment:${createHash('sha256').update(messageId).digest('hex').slice(0, 32)}`;
+}
+
+// Segment's timestamp semantics: an explicit timestamp is used as-is; otherwise the
+// time the message was created (originalTimestamp) is corrected for clock skew with
+// sentAt during normalization. Unparseable sentAt values are ignored, as Segment does.
+// occurredAt is checked by inspectRawEvent() like that of any other request body.
+function timestamps(message: Record<string, unknown>, sentAt: unknown): Pick<RawEvent, 'occurredAt' | 'sentAt'> {
+  if (message.timestamp !== undefined) {
+    return { occurredAt: message.timestamp as RawEvent['occurredAt'] };
+  }
+  const validSentAt = typeof sentAt === 'string' && validateDate(sentAt) !== null;
+  return {
+    occurredAt: message.originalTimestamp as RawEvent['occurredAt'],
+    ...(validSentAt && message.originalTimestamp !== undefined && { sentAt }),
+  };
+}
+
+function typeAndPayload(
+  type: SegmentMessageType,
+  message: Record<string, unknown>
+): { type: string; payload: Record<string, unknown> } | { issue: EventValidationIssue } {
+  const field = type === 'identify' ? 'traits' : 'properties';
+  const attributes = message[field] ?? {};
+  if (!isObject(attributes)) {
+    return issue('INVALID_FIELD_TYPE', field, `${field} must be a JSON object`);
+  }
+
+  switch (type) {
+    case 'track': {
+      if (typeof message.event !== 'string' || message.event.trim() === '') {
+        return issue('MISSING_FIELD', 'event', 'Missing or invalid required field: event');
+      }
+      return { type: segmentEventType(message.event), payload: attributes };
+    }
+    case 'page':
+    case 'screen':
+      return {
+        type: type === 'page' ? EventType.PAGE_VIEW : EventType.SCREEN_VIEW,
+        payload: {
+          ...attributes,
+          ...(typeof message.name === 'string' && { name: message.name }),
+          ...(typeof message.category === 'string' && { category: message.category }),
+        },
+      };
+    case 'identify':
+      return { type: EventType.IDENTIFY, payload: attributes };
+    case 'alias': {
+      const previousId = identifier(message.previousId);
+      if (!previousId) {
+        return issue('MISSING_FIELD', 'previousId', 'Missing or invalid required field: previousId');
+      }
+      return { type: EventType.ALIAS, payload: { previousId } };
+    }
+  }
+}
+
+/**
+ * Split a /v1/batch body into its messages and the envelope fields they inherit
+ *
+ * @returns null when the body has no batch array
+ */
+export function readSegmentBatch(body: unknown): { messages: unknown[]; defaults: SegmentBatchDefaults } | null {
+  if (!isObject(body) || !Array.isArray(body.batch)) {
+    return null;
+  }
+
+  return {
+    messages: body.batch,
+    defaults: {
+      ...(isObject(body.context) && { context: body.context }),
+      ...(typeof body.sentAt === 'string' && { sentAt: body.sentAt }),
+    },
+  };
+}
+
+/**
+ * Map a Segment spec message onto a RawEvent, which then goes through the regular
+ * validation (catalog, payload schemas) and the ingestion buffer.
+ *
+ * - userId falls back to anonymousId; one of them is required
+ * - sessionId is context.sessionId when the SDK sends one, otherwise the anonymousId
+ *   (or userId), so events from one device share a session
+ * - messageId becomes the eventId, so SDK retries are deduplicated
+ *
+ * @param type - Message type implied by the route; /v1/batch reads it from each message
+ */
+export function mapSegmentMessage(
+  message: unknown,
+  type?: SegmentMessageType,
+  defaults: SegmentBatchDefaults = {}
+): SegmentMapping {
+  if (!isObject(message)) {
+    return { issue: { code: 'INVALID_EVENT', message: 'Message must be a JSON object' } };
+  }
+
+  const messageType = type ?? message.type;
+  if (!isMessageType(messageType)) {
+    return issue(
+      typeof messageType === 'string' ? 'UNKNOWN_EVENT_TYPE' : 'MISSING_FIELD',
+      'type',
+      `Unsupported message type: ${messageType}. Expected one of ${SEGMENT_MESSAGE_TYPES.join(', ')}`
+    );
+  }
+
+  if (message.context !== undefined && !isObject(message.context)) {
+    return issue('INVALID_FIELD_TYPE', 'context', 'context must be a JSON object');
+  }
+  const context = defaults.context || message.context ? { ...defaults.context, ...message.context } : undefined;
+
+  const anonymousId = identifier(message.anonymousId);
+  const userId = identifier(message.userId) ?? anonymousId;
+  if (!userId) {
+    return issue('MISSING_FIELD', 'userId', 'Either userId or anonymousId is required');
+  }
+
+  if (message.messageId !== undefined && typeof message.messageId !== 'string') {
+    return issue('INVALID_FIELD_TYPE', 'messageId', 'messageId must be a string');
+  }
+
+  const mapped = typeAndPayload(messageType, message);
+  if ('issue' in mapped) {
+    return mapped;
+  }
+
+  return {
+    rawEvent: {
+      eventId: message.messageId ? segmentEventId(message.messageId) : undefined,
+      userId,
+      sessionId: identifier(context?.sessionId) ?? anonymousId ?? userId,
+      type: mapped.type,
+      payload: mapped.payload,
+      ...timestamps(message, message.sentAt ?? defaults.sentAt),
+      ...(anonymousId && { anonymousId }),
+      ...(context && { context }),
+    },
+  };
+}
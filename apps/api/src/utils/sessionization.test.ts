@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { EventType } from '@martech/types';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import {
+  DEFAULT_SESSIONIZATION,
+  campaignOf,
+  checkSessionizationSettings,
+  dayIn,
+  derivedSessionId,
+  sessionizeUser,
+} from './sessionization';
+
+let counter = 0;
+const createEvent = (minute: number, overrides: Partial<NormalizedEvent> = {}): NormalizedEvent => ({
+  eventId: `e${++counter}`,
+  userId: 'u1',
+  sessionId: '',
+  type: EventType.BUTTON_CLICK,
+  payload: {},
+  occurredAt: new Date(Date.UTC(2024, 2, 1, 10, minute)),
+  receivedAt: new Date(Date.UTC(2024, 2, 1, 12)),
+  sourceId: 'billing',
+  ...overrides,
+});
+
+const KEY = 'billing:u1';
+
+describe('sessionizeUser', () => {
+  it('starts a new session after more than the inactivity timeout', () => {
+    const { sessionIds, boundaries, state } = sessionizeUser(
+      KEY,
+      [createEvent(0), createEvent(20), createEvent(50), createEvent(81)],
+      null,
+      DEFAULT_SESSIONIZATION
+    );
+
+    const first = derivedSessionId(KEY, Date.UTC(2024, 2, 1, 10, 0));
+    const second = derivedSessionId(KEY, Date.UTC(2024, 2, 1, 10, 81));
+    expect(sessionIds).toEqual([first, first, first, second]);
+    expect(boundaries).toEqual(['new_user', 'inactivity']);
+    expect(state).toMatchObject({ key: KEY, sessionId: second, lastEventAt: new Date(Date.UTC(2024, 2, 1, 11, 21)) });
+  });
+
+  it('continues the session left by an earlier batch', () => {
+    const first = sessionizeUser(KEY, [createEvent(0)], null, DEFAULT_SESSIONIZATION);
+    const second = sessionizeUser(KEY, [createEvent(25)], first.state, DEFAULT_SESSIONIZATION);
+
+    expect(second.sessionIds).toEqual(first.sessionIds);
+    expect(second.boundaries).toEqual([]);
+  });
+
+  it('splits at midnight in the configured timezone', () => {
+    // 22:50 and 23:10 UTC are either side of midnight in Berlin (UTC+1)
+    const events = [createEvent(12 * 60 + 50), createEvent(13 * 60 + 10)];
+
+    const utc = sessionizeUser(KEY, events, null, DEFAULT_SESSIONIZATION);
+    const berlin = sessionizeUser(KEY, events, null, { ...DEFAULT_SESSIONIZATION, timezone: 'Europe/Berlin' });
+
+    expect(utc.boundaries).toEqual(['new_user']);
+    expect(berlin.boundaries).toEqual(['new_user', 'midnight']);
+  });
+
+  it('splits when a new campaign brings the user back, but not on direct traffic', () => {
+    const newsletter = { traffic: { channel: 'email' as const, source: 'newsletter', campaign: 'spring' } };
+    const { boundaries } = sessionizeUser(
+      KEY,
+      [
+        createEvent(0, { context: newsletter }),
+        createEvent(5, { context: { traffic: { channel: 'direct' as const } } }),
+        createEvent(10, { context: newsletter }),
+        createEvent(15, { context: { traffic: { channel: 'paid_search' as const, source: 'google' } } }),
+      ],
+      null,
+      DEFAULT_SESSIONIZATION
+    );
+
+    expect(boundaries).toEqual(['new_user', 'campaign']);
+  });
+
+  it('splits on a client sessionId change in split mode only', () => {
+    const events = [createEvent(0, { sessionId: 'a' }), createEvent(5, { sessionId: 'b' })];
+
+    expect(sessionizeUser(KEY, events, null, DEFAULT_SESSIONIZATION).boundaries).toEqual(['new_user']);
+    expect(sessionizeUser(KEY, events, null, { ...DEFAULT_SESSIONIZATION, mode: 'split' }).boundaries).toEqual([
+      'new_user',
+      'client_session',
+    ]);
+  });
+
+  it('lets late events join the session they fall in or just precede', () => {
+    const { state } = sessionizeUser(KEY, [createEvent(30), createEvent(40)], null, DEFAULT_SESSIONIZATION);
+
+    const late = sessionizeUser(KEY, [createEvent(10), createEvent(35)], state, DEFAULT_SESSIONIZATION);
+
+    expect(late.sessionIds).toEqual([state?.sessionId, state?.sessionId]);
+    expect(late.state?.startedAt).toEqual(new Date(Date.UTC(2024, 2, 1, 10, 10)));
+    expect(late.boundaries).toEqual([]);
+  });
+
+  it('puts older late events in a session per timeout-long slot', () => {
+    const { state } = sessionizeUser(KEY, [createEvent(180)], null, DEFAULT_SESSIONIZATION);
+
+    const late = sessionizeUser(KEY, [createEvent(0), createEvent(10), createEvent(31)], state, DEFAULT_SESSIONIZATION);
+
+    const slot = (minute: number) => derivedSessionId(KEY, Date.UTC(2024, 2, 1, 10, minute));
+    expect(late.sessionIds).toEqual([slot(0), slot(0), slot(30)]);
+    expect(late.boundaries).toEqual(['late_event', 'late_event']);
+    expect(late.state).toEqual(state);
+  });
+});
+
+describe('campaignOf', () => {
+  it('identifies the campaign of attributed traffic', () => {
+    expect(campaignOf(createEvent(0, { context: { traffic: { channel: 'email', campaign: 'spring' } } }))).toBe(
+      'email|||spring'
+    );
+    expect(campaignOf(createEvent(0, { context: { traffic: { channel: 'internal' } } }))).toBeUndefined();
+    expect(campaignOf(createEvent(0))).toBeUndefined();
+  });
+});
+
+describe('dayIn', () => {
+  it('formats the calendar day in a timezone', () => {
+    const time = Date.UTC(2024, 2, 1, 23, 30);
+    expect(dayIn(time, 'UTC')).toBe('2024-03-01');
+    expect(dayIn(time, 'Asia/Tokyo')).toBe('2024-03-02');
+  });
+});
+
+describe('checkSessionizationSettings', () => {
+  it('accepts partial settings', () => {
+    expect(checkSessionizationSettings({})).toBeNull();
+    expect(checkSessionizationSettings({ mode: 'split', timezone: 'America/New_York' })).toBeNull();
+  });
+
+  it('rejects invalid values and unknown fields', () => {
+    expect(checkSessionizationSettings([])).toMatch(/must be an object/);
+    expect(checkSessionizationSettings({ mode: 'merge' })).toMatch(/mode must be one of assign, split/);
+    expect(checkSessionizationSettings({ inactivityTimeoutMinutes: 0 })).toMatch(/between 1 and 1440/);
+    expect(checkSessionizationSettings({ inactivityTimeoutMinutes: 2.5 })).toMatch(/between 1 and 1440/);
+    expect(checkSessionizationSettings({ splitAtMidnight: 'yes' })).toMatch(/splitAtMidnight must be a boolean/);
+    expect(checkSessionizationSettings({ timezone: 'Mars/Olympus' })).toMatch(/IANA timezone/);
+    expect(checkSessionizationSettings({ timeout: 30 })).toMatch(/unknown field "timeout"/);
+  });
+});
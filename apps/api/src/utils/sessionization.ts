@@ -0,0 +1,214 @@
+import { createHash } from 'node:crypto';
+import { type ISessionizationSettings, SESSIONIZATION_MODES } from '../models/Source';
+import type { NormalizedEvent } from '../repositories/event.repository';
+import type { SessionState } from '../repositories/sessionization.repository';
+
+export const MAX_INACTIVITY_TIMEOUT_MINUTES = 24 * 60;
+
+// The usual web analytics definition of a session
+export const DEFAULT_SESSIONIZATION: ISessionizationSettings = {
+  mode: 'assign',
+  inactivityTimeoutMinutes: 30,
+  splitAtMidnight: true,
+  splitOnCampaignChange: true,
+  timezone: 'UTC',
+};
+
+const SETTING_KEYS = Object.keys(DEFAULT_SESSIONIZATION);
+
+// Why an event started a new derived session
+export type SessionBoundary = 'new_user' | 'inactivity' | 'midnight' | 'campaign' | 'client_session' | 'late_event';
+
+const dayFormats = new Map<string, Intl.DateTimeFormat>();
+
+function dayFormat(timezone: string): Intl.DateTimeFormat {
+  let format = dayFormats.get(timezone);
+  if (!format) {
+    // en-CA formats dates as YYYY-MM-DD
+    format = new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' });
+    dayFormats.set(timezone, format);
+  }
+  return format;
+}
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value === '') {
+    return false;
+  }
+  try {
+    dayFormat(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar day of a timestamp in a timezone, YYYY-MM-DD
+export function dayIn(time: number, timezone: string): string {
+  return dayFormat(timezone).format(new Date(time));
+}
+
+/**
+ * Check per-source sessionization settings before they are stored. Omitted fields
+ * keep their default.
+ *
+ * @returns description of the first problem, or null when the settings are usable
+ */
+export function checkSessionizationSettings(settings: unknown): string | null {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return 'sessionization must be an object, or null to turn it off';
+  }
+
+  const { mode, inactivityTimeoutMinutes, splitAtMidnight, splitOnCampaignChange, timezone } =
+    settings as Record<string, unknown>;
+  const unknownKey = Object.keys(settings).find((key) => !SETTING_KEYS.includes(key));
+  if (unknownKey) {
+    return `sessionization: unknown field "${unknownKey}"`;
+  }
+  if (mode !== undefined && !SESSIONIZATION_MODES.includes(mode as ISessionizationSettings['mode'])) {
+    return `sessionization.mode must be one of ${SESSIONIZATION_MODES.join(', ')}`;
+  }
+  if (
+    inactivityTimeoutMinutes !== undefined &&
+    !(
+      Number.isInteger(inactivityTimeoutMinutes) &&
+      (inactivityTimeoutMinutes as number) >= 1 &&
+      (inactivityTimeoutMinutes as number) <= MAX_INACTIVITY_TIMEOUT_MINUTES
+    )
+  ) {
+    return `sessionization.inactivityTimeoutMinutes must be an integer between 1 and ${MAX_INACTIVITY_TIMEOUT_MINUTES}`;
+  }
+  if (splitAtMidnight !== undefined && typeof splitAtMidnight !== 'boolean') {
+    return 'sessionization.splitAtMidnight must be a boolean';
+  }
+  if (splitOnCampaignChange !== undefined && typeof splitOnCampaignChange !== 'boolean') {
+    return 'sessionization.splitOnCampaignChange must be a boolean';
+  }
+  if (timezone !== undefined && !isTimeZone(timezone)) {
+    return 'sessionization.timezone must be an IANA timezone, e.g. "Europe/Berlin"';
+  }
+
+  return null;
+}
+
+/**
+ * Campaign a visit came from, from the traffic attribution added by enrichment.
+ * Direct and same-site traffic carry no campaign, so they never end a session.
+ */
+export function campaignOf(event: NormalizedEvent): string | undefined {
+  const traffic = event.context?.traffic;
+  if (!traffic || typeof traffic !== 'object' || !traffic.channel) {
+    return undefined;
+  }
+  if (traffic.channel === 'direct' || traffic.channel === 'internal') {
+    return undefined;
+  }
+  return [traffic.channel, traffic.source ?? '', traffic.medium ?? '', traffic.campaign ?? ''].join('|');
+}
+
+// Stable for a given user and start, so replaying the same events derives the same IDs
+export function derivedSessionId(key: string, startedAt: number): string {
+  return `ds_${createHash('sha256').update(`${key}|${startedAt}`).digest('hex').slice(0, 24)}`;
+}
+
+export interface UserSessionization {
+  sessionIds: string[];  // Derived session of each event, in the order given
+  boundaries: SessionBoundary[];  // One per session started by these events
+  state: SessionState | null;
+}
+
+/**
+ * Assign derived sessions to the events of one user, continuing from the state
+ * left by earlier batches. Events are expected in occurredAt order.
+ *
+ * An event starts a session when it comes after more than the inactivity timeout,
+ * on another day (splitAtMidnight), from another campaign (splitOnCampaignChange)
+ * or, in split mode, with another client sessionId. Late events that fall within
+ * the current session join it, as do those up to one timeout before it (moving its
+ * start). Older ones get a session per timeout-long slot of time.
+ */
+export function sessionizeUser(
+  key: string,
+  events: NormalizedEvent[],
+  previous: SessionState | null,
+  settings: ISessionizationSettings
+): UserSessionization {
+  const timeoutMs = settings.inactivityTimeoutMinutes * 60 * 1000;
+  const sessionIds: string[] = [];
+  const boundaries: SessionBoundary[] = [];
+  let state = previous ? { ...previous } : null;
+
+  const boundaryBefore = (current: SessionState, event: NormalizedEvent, time: number): SessionBoundary | null => {
+    const lastEventAt = current.lastEventAt.getTime();
+    if (time - lastEventAt > timeoutMs) {
+      return 'inactivity';
+    }
+    if (settings.splitAtMidnight && dayIn(time, settings.timezone) !== dayIn(lastEventAt, settings.timezone)) {
+      return 'midnight';
+    }
+    const campaign = campaignOf(event);
+    if (settings.splitOnCampaignChange && campaign !== undefined && campaign !== current.campaign) {
+      return 'campaign';
+    }
+    if (
+      settings.mode === 'split' &&
+      event.sessionId &&
+      current.clientSessionId !== undefined &&
+      event.sessionId !== current.clientSessionId
+    ) {
+      return 'client_session';
+    }
+    return null;
+  };
+
+  for (const event of events) {
+    const time = event.occurredAt.getTime();
+
+    if (state && time < state.startedAt.getTime()) {
+      const startedAt = state.startedAt.getTime();
+      const sameDay =
+        !settings.splitAtMidnight || dayIn(time, settings.timezone) === dayIn(startedAt, settings.timezone);
+
+      if (startedAt - time <= timeoutMs && sameDay) {
+        state.startedAt = event.occurredAt;
+        sessionIds.push(state.sessionId);
+      } else {
+        const slotId = derivedSessionId(key, time - (time % timeoutMs));
+        if (!sessionIds.includes(slotId)) {
+          boundaries.push('late_event');
+        }
+        sessionIds.push(slotId);
+      }
+      continue;
+    }
+
+    if (state && time <= state.lastEventAt.getTime()) {
+      sessionIds.push(state.sessionId);
+      continue;
+    }
+
+    const boundary = state ? boundaryBefore(state, event, time) : 'new_user';
+    if (state && !boundary) {
+      state.lastEventAt = event.occurredAt;
+    } else {
+      state = {
+        key,
+        sessionId: derivedSessionId(key, time),
+        startedAt: event.occurredAt,
+        lastEventAt: event.occurredAt,
+      };
+      boundaries.push(boundary ?? 'new_user');
+    }
+
+    const campaign = campaignOf(event);
+    if (campaign !== undefined) {
+      state.campaign = campaign;
+    }
+    if (event.sessionId) {
+      state.clientSessionId = event.sessionId;
+    }
+    sessionIds.push(state.sessionId);
+  }
+
+  return { sessionIds, boundaries, state };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gracefulShutdown } from './shutdown';
+import { IngestionRateLimiter } from '../services/rateLimiter.service';
+import { WriteKeyService, hashWriteKey } from '../services/writeKey.service';
+import { SourceRepository } from '../repositories/source.repository';
+import { logger } from '../observability';
+
+describe('gracefulShutdown', () => {
+  const now = Date.parse('2025-01-15T12:00:00Z');
+  let repository: SourceRepository;
+  let exit: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(logger, 'info').mockReturnValue(logger);
+    vi.spyOn(logger, 'error').mockReturnValue(logger);
+    exit = vi.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    repository = new SourceRepository();
+    vi.spyOn(repository, 'listSources').mockResolvedValue([]);
+    vi.spyOn(repository, 'findUsage').mockResolvedValue(new Map());
+    vi.spyOn(repository, 'incrementUsage').mockResolvedValue(undefined);
+    vi.spyOn(repository, 'touchKeys').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('flushes pending quota usage before exiting', async () => {
+    const rateLimiter = new IngestionRateLimiter(
+      repository,
+      { source: { eventsPerSecond: 0, burst: 0 }, ip: { eventsPerSecond: 0, burst: 0 }, dailyQuota: 100 },
+      0
+    );
+    await rateLimiter.load(now);
+    rateLimiter.consume({ sourceId: 'src_web', events: 7 }, now);
+
+    await gracefulShutdown('SIGTERM', undefined, undefined, { rateLimiter });
+
+    expect(repository.incrementUsage).toHaveBeenCalledWith([{ sourceId: 'src_web', day: '2025-01-15', events: 7 }]);
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+
+  it('exits with an error when the usage cannot be written', async () => {
+    vi.mocked(repository.incrementUsage).mockRejectedValueOnce(new Error('mongo down'));
+    const rateLimiter = new IngestionRateLimiter(
+      repository,
+      { source: { eventsPerSecond: 0, burst: 0 }, ip: { eventsPerSecond: 0, burst: 0 }, dailyQuota: 100 },
+      0
+    );
+    await rateLimiter.load(now);
+    rateLimiter.consume({ sourceId: 'src_web', events: 7 }, now);
+
+    await gracefulShutdown('SIGTERM', undefined, undefined, { rateLimiter });
+
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+
+  it('writes last-used times of write keys and stops refresh timers', async () => {
+    vi.spyOn(repository, 'findUsableKeys').mockResolvedValue([
+      { keyId: 'key_1', sourceId: 'src_web', prefix: 'wk_abc', keyHash: hashWriteKey('wk_abc'), createdAt: new Date() },
+    ]);
+    const writeKeys = new WriteKeyService(repository, 0);
+    await writeKeys.load();
+    await writeKeys.authenticate('wk_abc');
+    const timer = { stop: vi.fn() };
+
+    await gracefulShutdown('SIGTERM', undefined, undefined, { writeKeys, timers: [timer] });
+
+    expect(repository.touchKeys).toHaveBeenCalledWith(new Map([['key_1', expect.any(Date)]]));
+    expect(timer.stop).toHaveBeenCalled();
+    expect(exit).toHaveBeenCalledWith(0);
+  });
+});
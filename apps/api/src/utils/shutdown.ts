@@ -1,15 +1,35 @@
 import mongoose from "mongoose";
 import { EventIngestionService } from "../services/eventIngestion.service";
+import type { LiveEventStream } from "../services/liveEventStream.service";
+import type { IngestionRateLimiter } from "../services/rateLimiter.service";
+import type { WriteKeyService } from "../services/writeKey.service";
 import { logger, dbConnectionGauge } from "../observability";
 
+// Services that hold state which has to be written or closed before exiting
+export interface ShutdownServices {
+  liveStream?: LiveEventStream;
+  rateLimiter?: IngestionRateLimiter;
+  writeKeys?: WriteKeyService;
+  // Refresh and polling timers, stopped before anything else so none of them fires mid-shutdown
+  timers?: Array<{ stop(): void }>;
+}
+
 export async function gracefulShutdown(
   signal: string,
   server: ReturnType<import("express").Express["listen"]> | undefined,
-  ingestionService: EventIngestionService | undefined
+  ingestionService: EventIngestionService | undefined,
+  { liveStream, rateLimiter, writeKeys, timers = [] }: ShutdownServices = {}
 ): Promise<void> {
   logger.info("Graceful shutdown initiated", { signal });
 
   try {
+    for (const service of timers) {
+      service.stop();
+    }
+
+    // Open streams would keep server.close() waiting until its timeout
+    liveStream?.close();
+
     if (server) {
       await new Promise<void>((resolve) => {
         server.close(() => {
@@ -27,9 +47,22 @@ export async function gracefulShutdown(
     if (ingestionService) {
       logger.info("Flushing buffer before shutdown...");
       await ingestionService.forceFlush();
+      await ingestionService.close();
       logger.info("Buffer flushed successfully");
     }
 
+    if (rateLimiter) {
+      // Quota usage is only written on the refresh interval
+      await rateLimiter.stop();
+      logger.info("Quota usage flushed");
+    }
+
+    if (writeKeys) {
+      // Same for the last-used times of write keys
+      await writeKeys.stop();
+      logger.info("Write key usage flushed");
+    }
+
     if (mongoose.connection.readyState === 1) {
       await mongoose.connection.close(false);
       logger.info("Database connection closed");
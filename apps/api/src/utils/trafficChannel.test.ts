@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { classifyTraffic } from './trafficChannel';
+
+describe('classifyTraffic', () => {
+  it('classifies by utm_medium first', () => {
+    expect(
+      classifyTraffic({
+        pageUrl: 'https://shop.example.com/?utm_source=newsletter&utm_medium=email&utm_campaign=Spring',
+        referrer: 'https://www.google.com/',
+      })
+    ).toEqual({
+      channel: 'email',
+      source: 'newsletter',
+      medium: 'email',
+      campaign: 'Spring',
+      referrerDomain: 'google.com',
+    });
+  });
+
+  it('tells paid social from paid search by the source', () => {
+    expect(classifyTraffic({ pageUrl: 'https://shop.example.com/?utm_source=facebook&utm_medium=cpc' })?.channel).toBe(
+      'paid_social'
+    );
+    expect(classifyTraffic({ pageUrl: 'https://shop.example.com/?utm_source=google&utm_medium=cpc' })?.channel).toBe(
+      'paid_search'
+    );
+  });
+
+  it('prefers the Segment campaign over the page URL', () => {
+    expect(
+      classifyTraffic({
+        pageUrl: 'https://shop.example.com/?utm_medium=email',
+        campaign: { source: 'partner', medium: 'affiliate' },
+      })
+    ).toMatchObject({ channel: 'affiliate', source: 'partner', medium: 'affiliate' });
+  });
+
+  it('treats ad click IDs without UTM parameters as paid search', () => {
+    expect(
+      classifyTraffic({ pageUrl: 'https://shop.example.com/?gclid=abc', referrer: 'https://www.google.com/' })?.channel
+    ).toBe('paid_search');
+  });
+
+  it('falls back to the referrer', () => {
+    const page = 'https://shop.example.com/products';
+
+    expect(classifyTraffic({ pageUrl: page, referrer: 'https://www.bing.com/search?q=shoes' })?.channel).toBe('organic_search');
+    expect(classifyTraffic({ pageUrl: page, referrer: 'https://t.co/xyz' })?.channel).toBe('social');
+    expect(classifyTraffic({ pageUrl: page, referrer: 'https://mail.google.com/' })?.channel).toBe('email');
+    expect(classifyTraffic({ pageUrl: page, referrer: 'https://blog.example.org/post' })).toEqual({
+      channel: 'referral',
+      referrerDomain: 'blog.example.org',
+    });
+    expect(classifyTraffic({ pageUrl: page, referrer: 'https://shop.example.com/' })?.channel).toBe('internal');
+    expect(classifyTraffic({ pageUrl: page })).toEqual({ channel: 'direct' });
+  });
+
+  it('returns null without page, referrer or campaign', () => {
+    expect(classifyTraffic({})).toBeNull();
+    expect(classifyTraffic({ pageUrl: 'not a url' })).toBeNull();
+  });
+});
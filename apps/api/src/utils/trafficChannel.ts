@@ -0,0 +1,149 @@
+import type { IEventContext, TrafficChannel } from '@martech/types';
+
+export type TrafficAttribution = NonNullable<IEventContext['traffic']>;
+
+export interface TrafficSignals {
+  // Page the event happened on; utm_* and click IDs are read from its query string
+  pageUrl?: string;
+  referrer?: string;
+  // Segment context.campaign, which takes precedence over the page URL
+  campaign?: { source?: string; medium?: string; name?: string };
+}
+
+const WEBMAIL_HOSTS = [/^mail\.google\.com$/, /^outlook\.(live|office)\.com$/, /^mail\.yahoo\.com$/, /^mail\.proton\.me$/];
+
+const SEARCH_HOSTS = [
+  /(^|\.)google\.[a-z.]+$/,
+  /(^|\.)bing\.com$/,
+  /(^|\.)search\.yahoo\.com$/,
+  /(^|\.)duckduckgo\.com$/,
+  /(^|\.)baidu\.com$/,
+  /(^|\.)yandex\.[a-z.]+$/,
+  /(^|\.)ecosia\.org$/,
+  /(^|\.)search\.brave\.com$/,
+];
+
+const SOCIAL_HOSTS = [
+  /(^|\.)facebook\.com$/,
+  /(^|\.)instagram\.com$/,
+  /^t\.co$/,
+  /(^|\.)twitter\.com$/,
+  /(^|\.)x\.com$/,
+  /(^|\.)linkedin\.com$/,
+  /^lnkd\.in$/,
+  /(^|\.)reddit\.com$/,
+  /(^|\.)pinterest\.[a-z.]+$/,
+  /(^|\.)youtube\.com$/,
+  /(^|\.)tiktok\.com$/,
+];
+
+// utm_source values used for social networks, besides their domains
+const SOCIAL_SOURCES = /^(facebook|fb|instagram|ig|twitter|x|linkedin|reddit|pinterest|tiktok|youtube)$/;
+
+// Click IDs appended by ad platforms, for paid clicks that carry no UTM parameters
+const PAID_CLICK_IDS = ['gclid', 'gbraid', 'wbraid', 'dclid', 'msclkid'];
+
+function parseUrl(value: string | undefined): URL | null {
+  if (!value) {
+    return null;
+  }
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function matches(host: string | undefined, patterns: RegExp[]): boolean {
+  return host !== undefined && patterns.some((pattern) => pattern.test(host));
+}
+
+function mediumChannel(medium: string, source: string | undefined): TrafficChannel {
+  const socialSource = source !== undefined && (SOCIAL_SOURCES.test(source) || matches(source, SOCIAL_HOSTS));
+  if (socialSource && /^(cpc|ppc|cpm|cpv|paid.*|retargeting)$/.test(medium)) {
+    return 'paid_social';
+  }
+  if (/^(cpc|ppc|paid[-_]?search)$/.test(medium)) {
+    return 'paid_search';
+  }
+  if (/^(display|cpm|banner|interstitial)$/.test(medium)) {
+    return 'display';
+  }
+  if (/^(e-?mail|newsletter)$/.test(medium)) {
+    return 'email';
+  }
+  if (medium === 'affiliate') {
+    return 'affiliate';
+  }
+  if (/^(social|social[-_]network|social[-_]media|sm)$/.test(medium)) {
+    return 'social';
+  }
+  if (medium === 'organic') {
+    return 'organic_search';
+  }
+  if (medium === 'referral') {
+    return 'referral';
+  }
+  return 'other';
+}
+
+function referrerChannel(referrerHost: string | undefined, pageHost: string | undefined): TrafficChannel {
+  if (!referrerHost) {
+    return 'direct';
+  }
+  if (referrerHost === pageHost) {
+    return 'internal';
+  }
+  if (matches(referrerHost, WEBMAIL_HOSTS)) {
+    return 'email';
+  }
+  if (matches(referrerHost, SEARCH_HOSTS)) {
+    return 'organic_search';
+  }
+  if (matches(referrerHost, SOCIAL_HOSTS)) {
+    return 'social';
+  }
+  return 'referral';
+}
+
+/**
+ * Attribute a visit to a marketing channel. UTM parameters win over click IDs, which
+ * win over the referrer; no referrer and no campaign is direct traffic.
+ *
+ * @returns null when there is nothing to classify (no page URL, referrer or campaign),
+ *   e.g. for server-side events
+ */
+export function classifyTraffic(signals: TrafficSignals): TrafficAttribution | null {
+  const page = parseUrl(signals.pageUrl);
+  const referrer = parseUrl(signals.referrer);
+  if (!page && !referrer && !signals.campaign) {
+    return null;
+  }
+
+  const query = page?.searchParams;
+  const source = (signals.campaign?.source ?? query?.get('utm_source') ?? undefined)?.toLowerCase();
+  const medium = (signals.campaign?.medium ?? query?.get('utm_medium') ?? undefined)?.toLowerCase();
+  const campaign = signals.campaign?.name ?? query?.get('utm_campaign') ?? undefined;
+  const referrerDomain = referrer ? hostOf(referrer) : undefined;
+
+  let channel: TrafficChannel;
+  if (medium) {
+    channel = mediumChannel(medium, source);
+  } else if (PAID_CLICK_IDS.some((param) => query?.has(param))) {
+    channel = 'paid_search';
+  } else {
+    channel = referrerChannel(referrerDomain, page ? hostOf(page) : undefined);
+  }
+
+  return {
+    channel,
+    ...(source && { source }),
+    ...(medium && { medium }),
+    ...(campaign && { campaign }),
+    ...(referrerDomain && { referrerDomain }),
+  };
+}
@@ -0,0 +1,66 @@
+import { type ITrafficFilterSettings, TRAFFIC_FILTER_MODES } from '../models/TrafficFilter';
+import { createIpMatcher } from './ipAddress';
+
+export const MAX_EXCLUDED_IPS = 1000;
+export const MAX_INTERNAL_USER_IDS = 10000;
+
+// Bots are flagged out of the box; the session-rate heuristic is opt-in because
+// SDKs flushing an offline queue legitimately send bursts
+export const DEFAULT_TRAFFIC_FILTER: ITrafficFilterSettings = {
+  mode: 'flag',
+  detectBots: true,
+  excludedIps: [],
+  internalUserIds: [],
+  maxEventsPerSession: 0,
+  sessionWindowMs: 60 * 1000,
+};
+
+const SETTING_KEYS = Object.keys(DEFAULT_TRAFFIC_FILTER);
+
+function isStringArray(value: unknown, max: number): value is string[] {
+  return Array.isArray(value) && value.length <= max && value.every((item) => typeof item === 'string' && item !== '');
+}
+
+/**
+ * Check filter settings before they are stored. Omitted fields keep their default.
+ *
+ * @returns description of the first problem, or null when the settings are usable
+ */
+export function checkTrafficFilterSettings(settings: unknown): string | null {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    return 'settings must be an object';
+  }
+
+  const { mode, detectBots, excludedIps, internalUserIds, maxEventsPerSession, sessionWindowMs } =
+    settings as Record<string, unknown>;
+  const unknownKey = Object.keys(settings).find((key) => !SETTING_KEYS.includes(key));
+  if (unknownKey) {
+    return `unknown field "${unknownKey}"`;
+  }
+  if (mode !== undefined && !TRAFFIC_FILTER_MODES.includes(mode as ITrafficFilterSettings['mode'])) {
+    return `mode must be one of ${TRAFFIC_FILTER_MODES.join(', ')}`;
+  }
+  if (detectBots !== undefined && typeof detectBots !== 'boolean') {
+    return 'detectBots must be a boolean';
+  }
+  if (excludedIps !== undefined) {
+    if (!isStringArray(excludedIps, MAX_EXCLUDED_IPS)) {
+      return `excludedIps must be an array of at most ${MAX_EXCLUDED_IPS} addresses or CIDR ranges`;
+    }
+    const invalid = excludedIps.find((entry) => !createIpMatcher([entry]));
+    if (invalid) {
+      return `excludedIps: "${invalid}" is not an IP address or CIDR range`;
+    }
+  }
+  if (internalUserIds !== undefined && !isStringArray(internalUserIds, MAX_INTERNAL_USER_IDS)) {
+    return `internalUserIds must be an array of at most ${MAX_INTERNAL_USER_IDS} user IDs`;
+  }
+  if (maxEventsPerSession !== undefined && !(Number.isInteger(maxEventsPerSession) && (maxEventsPerSession as number) >= 0)) {
+    return 'maxEventsPerSession must be a non-negative integer (0 disables the session-rate check)';
+  }
+  if (sessionWindowMs !== undefined && !(Number.isInteger(sessionWindowMs) && (sessionWindowMs as number) > 0)) {
+    return 'sessionWindowMs must be a positive integer';
+  }
+
+  return null;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { checkTraitUpdate, identifyTraits } from './traits';
+
+describe('checkTraitUpdate', () => {
+  it('accepts every operation', () => {
+    expect(
+      checkTraitUpdate({
+        set: { plan: 'pro', address: { city: 'Berlin' } },
+        set_once: { signup_source: 'ads' },
+        increment: { logins: 1, credits: -2.5 },
+        append: { tags: ['beta'] },
+      })
+    ).toBeNull();
+  });
+
+  it('rejects malformed updates', () => {
+    expect(checkTraitUpdate([])).toMatch(/must be an object/);
+    expect(checkTraitUpdate({})).toBe('No traits to update');
+    expect(checkTraitUpdate({ unset: { plan: true } })).toMatch(/Unknown operation "unset"/);
+    expect(checkTraitUpdate({ set: 'plan' })).toMatch(/set must be an object/);
+    expect(checkTraitUpdate({ set: { 'address.city': 'Berlin' } })).toMatch(/invalid trait name "address.city"/);
+    expect(checkTraitUpdate({ set: { $where: 1 } })).toMatch(/invalid trait name/);
+    expect(checkTraitUpdate({ increment: { logins: Infinity } })).toBe('increment.logins must be a number');
+    expect(checkTraitUpdate({ set: { plan: 'pro' }, set_once: { plan: 'free' } })).toMatch(
+      /"plan" appears in more than one operation/
+    );
+  });
+});
+
+describe('identifyTraits', () => {
+  it('sets the traits of an identify payload that can be stored', () => {
+    expect(identifyTraits({ email: 'a@example.com', 'bad.name': 1, plan: undefined })).toEqual({
+      set: { email: 'a@example.com' },
+    });
+    expect(identifyTraits({})).toBeNull();
+    expect(identifyTraits(null)).toBeNull();
+  });
+});
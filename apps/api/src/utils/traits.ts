@@ -0,0 +1,74 @@
+import type { ITraitUpdate } from '@martech/types';
+
+// Trait names end up in MongoDB field paths, so dots and a leading "$" are not allowed
+export const TRAIT_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_-]{0,127}$/;
+
+export const TRAIT_OPERATIONS = ['set', 'set_once', 'increment', 'append'] as const;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a PATCH /users/:userId body before it is applied
+ *
+ * @returns description of the first problem, or null when the update is usable
+ */
+export function checkTraitUpdate(update: unknown): string | null {
+  if (!isObject(update)) {
+    return `Body must be an object with any of ${TRAIT_OPERATIONS.join(', ')}`;
+  }
+
+  const unknownKey = Object.keys(update).find((key) => !(TRAIT_OPERATIONS as readonly string[]).includes(key));
+  if (unknownKey) {
+    return `Unknown operation "${unknownKey}", expected one of ${TRAIT_OPERATIONS.join(', ')}`;
+  }
+
+  const seen = new Set<string>();
+  for (const operation of TRAIT_OPERATIONS) {
+    const traits = update[operation];
+    if (traits === undefined) {
+      continue;
+    }
+    if (!isObject(traits)) {
+      return `${operation} must be an object of trait names to values`;
+    }
+
+    for (const [name, value] of Object.entries(traits)) {
+      if (!TRAIT_NAME_PATTERN.test(name)) {
+        return `${operation}: invalid trait name "${name}" (letters, digits, "_" and "-", up to 128 characters)`;
+      }
+      if (seen.has(name)) {
+        return `Trait "${name}" appears in more than one operation`;
+      }
+      if (value === undefined) {
+        return `${operation}.${name} has no value`;
+      }
+      if (operation === 'increment' && !(typeof value === 'number' && Number.isFinite(value))) {
+        return `increment.${name} must be a number`;
+      }
+      seen.add(name);
+    }
+  }
+
+  if (seen.size === 0) {
+    return 'No traits to update';
+  }
+
+  return null;
+}
+
+/**
+ * Traits an identify event carries in its payload, as a set operation. Traits whose
+ * name cannot be stored are left out.
+ */
+export function identifyTraits(payload: unknown): ITraitUpdate | null {
+  if (!isObject(payload)) {
+    return null;
+  }
+
+  const set = Object.fromEntries(
+    Object.entries(payload).filter(([name, value]) => TRAIT_NAME_PATTERN.test(name) && value !== undefined)
+  );
+  return Object.keys(set).length > 0 ? { set } : null;
+}
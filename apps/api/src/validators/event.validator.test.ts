@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { EventType } from '@martech/types';
-import { validateRawEvent, validateDate, validateLimit } from './event.validator';
+import { type RawEvent, validateRawEvent, inspectRawEvent, validateDate, validateLimit } from './event.validator';
 
 describe('validateRawEvent', () => {
   it('accepts valid event', () => {
@@ -94,6 +94,93 @@ describe('validateRawEvent', () => {
     expect(result?.error).toBe('Bad Request');
     expect(result?.message).toContain('Invalid event type');
   });
+
+  it('accepts UUID eventId', () => {
+    const result = validateRawEvent({
+      eventId: '7c9e6679-7425-40de-944b-e07fc1f90ae7',
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PAGE_VIEW,
+    });
+    expect(result).toBeNull();
+  });
+
+  it('accepts namespaced eventId', () => {
+    const result = validateRawEvent({
+      eventId: 'billing:invoice-1042:paid',
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PURCHASE,
+    });
+    expect(result).toBeNull();
+  });
+
+  it('rejects malformed eventId', () => {
+    const result = validateRawEvent({
+      eventId: 'not a valid id',
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PAGE_VIEW,
+    });
+    expect(result?.error).toBe('Bad Request');
+    expect(result?.message).toContain('Invalid eventId');
+  });
+
+  it('rejects non-string eventId', () => {
+    const result = validateRawEvent({
+      eventId: 42,
+      userId: 'user123',
+      sessionId: 'session456',
+      type: EventType.PAGE_VIEW,
+    } as unknown as RawEvent);
+    expect(result?.message).toContain('Invalid eventId');
+  });
+});
+
+describe('inspectRawEvent with an event-type catalog', () => {
+  const statuses: Record<string, 'active' | 'deprecated' | 'blocked'> = {
+    newsletter_signup: 'active',
+    legacy_click: 'deprecated',
+    spam_event: 'blocked',
+  };
+  const lookup = (name: string) => statuses[name] ?? null;
+  const event = (type: string) => ({ userId: 'user123', sessionId: 'session456', type });
+
+  it('accepts types registered at runtime', () => {
+    expect(inspectRawEvent(event('newsletter_signup'), lookup)).toBeNull();
+  });
+
+  it('accepts deprecated types', () => {
+    expect(inspectRawEvent(event('legacy_click'), lookup)).toBeNull();
+  });
+
+  it('rejects blocked types', () => {
+    expect(inspectRawEvent(event('spam_event'), lookup)).toEqual(
+      expect.objectContaining({ code: 'BLOCKED_EVENT_TYPE', field: 'type' })
+    );
+  });
+
+  it('rejects built-in types missing from the catalog', () => {
+    expect(inspectRawEvent(event(EventType.PAGE_VIEW), lookup)).toEqual(
+      expect.objectContaining({ code: 'UNKNOWN_EVENT_TYPE' })
+    );
+  });
+});
+
+describe('inspectRawEvent for sessionized sources', () => {
+  const event = { userId: 'user123', type: EventType.BUTTON_CLICK } as RawEvent;
+
+  it('accepts events without a sessionId when it is optional', () => {
+    expect(inspectRawEvent(event)).toEqual(expect.objectContaining({ code: 'MISSING_FIELD', field: 'sessionId' }));
+    expect(inspectRawEvent(event, undefined, { sessionIdOptional: true })).toBeNull();
+  });
+
+  it('still checks the type of a sessionId that was sent', () => {
+    const withNumericSessionId = { ...event, sessionId: 42 } as unknown as RawEvent;
+    expect(inspectRawEvent(withNumericSessionId, undefined, { sessionIdOptional: true })).toEqual(
+      expect.objectContaining({ code: 'INVALID_FIELD_TYPE', field: 'sessionId' })
+    );
+  });
 });
 
 describe('validateDate', () => {
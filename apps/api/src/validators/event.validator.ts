@@ -1,11 +1,19 @@
-import { EventType } from '@martech/types';
+import { EventType, type EventTypeStatus } from '@martech/types';
 
 export interface RawEvent {
+  eventId?: string;
   userId: string;
+  // May be left out for sources with server-side sessionization
   sessionId: string;
   type: string;
   payload?: Record<string, any>;
   occurredAt?: string | Date;
+  // Client clock when the event was sent; the difference to receivedAt corrects occurredAt
+  sentAt?: string | Date;
+  // Device-level identifier for events sent before the user is known
+  anonymousId?: string;
+  // Client environment (app, device, library, locale...) as reported by the SDK
+  context?: Record<string, unknown>;
 }
 
 export interface ValidationError {
@@ -13,38 +21,153 @@ export interface ValidationError {
   message: string;
 }
 
-export function validateRawEvent(rawEvent: RawEvent): ValidationError | null {
-  if (!rawEvent.userId || typeof rawEvent.userId !== 'string') {
+// Client-supplied event IDs are either a UUID or a namespaced string such as
+// "ios:8f14e45f-ceea-467f-a0e6-0b2a3c4d5e6f" or "billing:invoice-1042:paid".
+// They become the Mongo _id, so retries of the same event are deduplicated.
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const NAMESPACED_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}:[A-Za-z0-9._:-]{1,128}$/;
+
+export function isValidEventId(eventId: string): boolean {
+  return UUID_PATTERN.test(eventId) || NAMESPACED_ID_PATTERN.test(eventId);
+}
+
+// Machine-readable reasons a single event is rejected. Returned per index in
+// partial-acceptance responses so clients can fix or drop individual events.
+export type EventRejectionCode =
+  | 'INVALID_EVENT'
+  | 'INVALID_EVENT_ID'
+  | 'MISSING_FIELD'
+  | 'INVALID_FIELD_TYPE'
+  | 'UNKNOWN_EVENT_TYPE'
+  | 'BLOCKED_EVENT_TYPE'
+  | 'INVALID_TIMESTAMP'
+  | 'TIMESTAMP_OUT_OF_RANGE'
+  | 'INVALID_PAYLOAD'
+  | 'INVALID_JSON';
+
+export interface EventValidationIssue {
+  code: EventRejectionCode;
+  field?: string;
+  message: string;
+}
+
+// Resolves an event type name to its catalog status, or null when it is not registered
+export type EventTypeLookup = (name: string) => EventTypeStatus | null;
+
+// Used when no catalog is wired in: only the built-in types are known
+export function builtInEventTypeStatus(name: string): EventTypeStatus | null {
+  return Object.values(EventType).includes(name as EventType) ? 'active' : null;
+}
+
+function requiredStringIssue(rawEvent: RawEvent, field: 'userId' | 'sessionId' | 'type'): EventValidationIssue | null {
+  const value = rawEvent[field];
+  if (value === undefined || value === null || value === '') {
+    return { code: 'MISSING_FIELD', field, message: `Missing or invalid required field: ${field}` };
+  }
+  if (typeof value !== 'string') {
+    return { code: 'INVALID_FIELD_TYPE', field, message: `Missing or invalid required field: ${field}` };
+  }
+  return null;
+}
+
+export interface InspectOptions {
+  // The source derives sessions server-side, so events may come without a sessionId
+  sessionIdOptional?: boolean;
+}
+
+export function inspectRawEvent(
+  rawEvent: RawEvent,
+  lookupEventType: EventTypeLookup = builtInEventTypeStatus,
+  options: InspectOptions = {}
+): EventValidationIssue | null {
+  if (!rawEvent || typeof rawEvent !== 'object' || Array.isArray(rawEvent)) {
+    return { code: 'INVALID_EVENT', message: 'Event must be a JSON object' };
+  }
+
+  if (rawEvent.eventId !== undefined) {
+    if (typeof rawEvent.eventId !== 'string' || !isValidEventId(rawEvent.eventId)) {
+      return {
+        code: 'INVALID_EVENT_ID',
+        field: 'eventId',
+        message: 'Invalid eventId: must be a UUID or a namespaced string (e.g. "ios:abc-123")',
+      };
+    }
+  }
+
+  for (const field of ['userId', 'sessionId', 'type'] as const) {
+    const value = rawEvent[field];
+    if (field === 'sessionId' && options.sessionIdOptional && (value === undefined || value === null || value === '')) {
+      continue;
+    }
+    const issue = requiredStringIssue(rawEvent, field);
+    if (issue) {
+      return issue;
+    }
+  }
+
+  if (rawEvent.anonymousId !== undefined && typeof rawEvent.anonymousId !== 'string') {
+    return { code: 'INVALID_FIELD_TYPE', field: 'anonymousId', message: 'anonymousId must be a string' };
+  }
+
+  if (
+    rawEvent.context !== undefined &&
+    (!rawEvent.context || typeof rawEvent.context !== 'object' || Array.isArray(rawEvent.context))
+  ) {
+    return { code: 'INVALID_FIELD_TYPE', field: 'context', message: 'context must be a JSON object' };
+  }
+
+  const status = lookupEventType(rawEvent.type);
+
+  if (!status) {
     return {
-      error: 'Bad Request',
-      message: 'Missing or invalid required field: userId',
+      code: 'UNKNOWN_EVENT_TYPE',
+      field: 'type',
+      message: `Invalid event type: ${rawEvent.type}. Not registered in the event-type catalog`,
     };
   }
 
-  if (!rawEvent.sessionId || typeof rawEvent.sessionId !== 'string') {
+  if (status === 'blocked') {
     return {
-      error: 'Bad Request',
-      message: 'Missing or invalid required field: sessionId',
+      code: 'BLOCKED_EVENT_TYPE',
+      field: 'type',
+      message: `Event type ${rawEvent.type} is blocked and no longer accepted`,
     };
   }
 
-  if (!rawEvent.type || typeof rawEvent.type !== 'string') {
+  if (rawEvent.occurredAt && !validateDate(rawEvent.occurredAt)) {
     return {
-      error: 'Bad Request',
-      message: 'Missing or invalid required field: type',
+      code: 'INVALID_TIMESTAMP',
+      field: 'occurredAt',
+      message: 'Invalid occurredAt timestamp format',
     };
   }
 
-  if (!Object.values(EventType).includes(rawEvent.type as EventType)) {
+  if (rawEvent.sentAt && !validateDate(rawEvent.sentAt)) {
     return {
-      error: 'Bad Request',
-      message: `Invalid event type: ${rawEvent.type}. Must be one of: ${Object.values(EventType).join(', ')}`,
+      code: 'INVALID_TIMESTAMP',
+      field: 'sentAt',
+      message: 'Invalid sentAt timestamp format',
     };
   }
 
   return null;
 }
 
+export function validateRawEvent(
+  rawEvent: RawEvent,
+  lookupEventType?: EventTypeLookup
+): ValidationError | null {
+  const issue = inspectRawEvent(rawEvent, lookupEventType);
+  if (!issue) {
+    return null;
+  }
+
+  return {
+    error: 'Bad Request',
+    message: issue.message,
+  };
+}
+
 export function validateDate(dateValue: string | Date): Date | null {
   const date = new Date(dateValue);
   if (isNaN(date.getTime())) {
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { checkSchemaDefinition, compilePatterns, validatePayload } from './payloadSchema.validator';
+
+describe('checkSchemaDefinition', () => {
+  it('accepts a typical tracking plan schema', () => {
+    const schema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      required: ['amount', 'currency'],
+      additionalProperties: false,
+      properties: {
+        amount: { type: 'number', minimum: 0 },
+        currency: { type: 'string', pattern: '^[A-Z]{3}$' },
+        coupon: { type: ['string', 'null'] },
+        items: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' } } } },
+      },
+    };
+
+    expect(checkSchemaDefinition(schema)).toBeNull();
+  });
+
+  it('rejects non-object schemas', () => {
+    expect(checkSchemaDefinition('object')).toBe('#: schema must be an object');
+    expect(checkSchemaDefinition(undefined)).toBe('#: schema must be an object');
+  });
+
+  it('rejects unsupported keywords with their location', () => {
+    const schema = { type: 'object', properties: { amount: { oneOf: [{ type: 'number' }] } } };
+
+    expect(checkSchemaDefinition(schema)).toBe('#/properties/amount: unsupported keyword "oneOf"');
+  });
+
+  it('rejects malformed keyword values', () => {
+    expect(checkSchemaDefinition({ type: 'decimal' })).toMatch(/^#\/type:/);
+    expect(checkSchemaDefinition({ minLength: -1 })).toBe('#/minLength: must be a non-negative integer');
+    expect(checkSchemaDefinition({ pattern: '([' })).toBe('#/pattern: must be a valid regular expression');
+    expect(checkSchemaDefinition({ format: 'ipv4' })).toMatch(/^#\/format:/);
+  });
+});
+
+describe('validatePayload', () => {
+  const purchaseSchema = {
+    type: 'object',
+    required: ['amount', 'currency'],
+    properties: {
+      amount: { type: 'number', minimum: 0 },
+      currency: { type: 'string', enum: ['USD', 'EUR'] },
+      items: { type: 'array', minItems: 1, items: { type: 'string' } },
+    },
+  };
+
+  it('returns no violations for a valid payload', () => {
+    expect(validatePayload(purchaseSchema, { amount: 19.99, currency: 'USD', items: ['sku-1'] })).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validatePayload(purchaseSchema, { currency: 'USD' })).toEqual([
+      { path: 'payload.amount', message: 'is required' },
+    ]);
+  });
+
+  it('reports wrong types, such as an amount sent as a string', () => {
+    expect(validatePayload(purchaseSchema, { amount: '19.99', currency: 'USD' })).toEqual([
+      { path: 'payload.amount', message: 'must be number, got string' },
+    ]);
+  });
+
+  it('collects every violation including nested ones', () => {
+    const violations = validatePayload(purchaseSchema, { amount: -1, currency: 'GBP', items: [42] });
+
+    expect(violations.map((v) => v.path)).toEqual(['payload.amount', 'payload.currency', 'payload.items[0]']);
+  });
+
+  it('distinguishes integer from number', () => {
+    expect(validatePayload({ type: 'integer' }, 1.5)).toHaveLength(1);
+    expect(validatePayload({ type: 'integer' }, 2)).toEqual([]);
+  });
+
+  it('accepts any of several types', () => {
+    const schema = { type: ['string', 'null'] };
+
+    expect(validatePayload(schema, null)).toEqual([]);
+    expect(validatePayload(schema, 3)).toEqual([{ path: 'payload', message: 'must be string or null, got number' }]);
+  });
+
+  it('rejects unknown properties when additionalProperties is false', () => {
+    const schema = { type: 'object', properties: { url: { type: 'string' } }, additionalProperties: false };
+
+    expect(validatePayload(schema, { url: '/', utm: 'x' })).toEqual([
+      { path: 'payload.utm', message: 'is not an allowed property' },
+    ]);
+  });
+
+  it('does not take Object.prototype members for declared properties', () => {
+    const schema = { type: 'object', properties: { url: { type: 'string' } }, additionalProperties: false };
+    const payload = JSON.parse('{"constructor": 1, "toString": "x", "__proto__": {}}');
+
+    expect(validatePayload(schema, payload)).toEqual([
+      { path: 'payload.constructor', message: 'is not an allowed property' },
+      { path: 'payload.toString', message: 'is not an allowed property' },
+      { path: 'payload.__proto__', message: 'is not an allowed property' },
+    ]);
+    expect(validatePayload({ type: 'object', required: ['constructor'] }, {})).toEqual([
+      { path: 'payload.constructor', message: 'is required' },
+    ]);
+  });
+
+  it('checks patterns compiled ahead of validation', () => {
+    const schema = { type: 'object', properties: { sku: { type: 'string', pattern: '^SKU-\\d+$' } } };
+    compilePatterns(schema);
+
+    expect(validatePayload(schema, { sku: 'SKU-12' })).toEqual([]);
+    expect(validatePayload(schema, { sku: 'sku' })).toEqual([
+      { path: 'payload.sku', message: 'must match pattern ^SKU-\\d+$' },
+    ]);
+  });
+
+  it('checks string formats', () => {
+    expect(validatePayload({ format: 'date-time' }, 'not a date')).toHaveLength(1);
+    expect(validatePayload({ format: 'email' }, 'user@example.com')).toEqual([]);
+    expect(validatePayload({ format: 'uri' }, 'https://example.com/a')).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+// Validation of event payloads against the JSON Schemas in the payload schema
+// registry. Only the subset of JSON Schema that tracking plans need is supported;
+// checkSchemaDefinition() rejects anything else when a schema is registered, so a
+// schema can never silently skip a keyword it appears to enforce.
+
+// Shape of a schema accepted by checkSchemaDefinition(), i.e. of every stored schema
+export interface JsonSchema {
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  // Annotations: $schema, title, description, examples, default
+  [annotation: string]: unknown;
+}
+
+export interface PayloadViolation {
+  path: string;
+  message: string;
+}
+
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const SUPPORTED_KEYWORDS = new Set([
+  // Annotations, ignored during validation
+  '$schema',
+  'title',
+  'description',
+  'examples',
+  'default',
+  // Assertions
+  'type',
+  'enum',
+  'const',
+  'properties',
+  'required',
+  'additionalProperties',
+  'items',
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'format',
+  'minimum',
+  'maximum',
+]);
+
+const SUPPORTED_FORMATS = new Set(['date-time', 'email', 'uri']);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// pattern keywords compiled once per schema object, not once per validated value
+const compiledPatterns = new WeakMap<JsonSchema, RegExp>();
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check that a schema only uses supported keywords with well-formed values
+ *
+ * @returns description of the first problem, or null when the schema is usable
+ */
+export function checkSchemaDefinition(schema: unknown, path = '#'): string | null {
+  if (!isPlainObject(schema)) {
+    return `${path}: schema must be an object`;
+  }
+
+  for (const keyword of Object.keys(schema)) {
+    if (!SUPPORTED_KEYWORDS.has(keyword)) {
+      return `${path}: unsupported keyword "${keyword}"`;
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length === 0 || !types.every((type: unknown) => SCHEMA_TYPES.includes(type as string))) {
+      return `${path}/type: must be one of ${SCHEMA_TYPES.join(', ')} or an array of them`;
+    }
+  }
+
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    return `${path}/enum: must be a non-empty array`;
+  }
+
+  if (schema.required !== undefined) {
+    if (!Array.isArray(schema.required) || !schema.required.every((key: unknown) => typeof key === 'string')) {
+      return `${path}/required: must be an array of property names`;
+    }
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      return `${path}/properties: must be an object`;
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      const problem = checkSchemaDefinition(propertySchema, `${path}/properties/${key}`);
+      if (problem) {
+        return problem;
+      }
+    }
+  }
+
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    const problem = checkSchemaDefinition(schema.additionalProperties, `${path}/additionalProperties`);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  if (schema.items !== undefined) {
+    const problem = checkSchemaDefinition(schema.items, `${path}/items`);
+    if (problem) {
+      return problem;
+    }
+  }
+
+  for (const keyword of ['minItems', 'maxItems', 'minLength', 'maxLength']) {
+    if (schema[keyword] !== undefined && !isNonNegativeInteger(schema[keyword])) {
+      return `${path}/${keyword}: must be a non-negative integer`;
+    }
+  }
+
+  for (const keyword of ['minimum', 'maximum']) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      return `${path}/${keyword}: must be a number`;
+    }
+  }
+
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== 'string') {
+      return `${path}/pattern: must be a string`;
+    }
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      return `${path}/pattern: must be a valid regular expression`;
+    }
+  }
+
+  if (schema.format !== undefined && (typeof schema.format !== 'string' || !SUPPORTED_FORMATS.has(schema.format))) {
+    return `${path}/format: must be one of ${Array.from(SUPPORTED_FORMATS).join(', ')}`;
+  }
+
+  return null;
+}
+
+function patternOf(schema: JsonSchema, source: string): RegExp {
+  let pattern = compiledPatterns.get(schema);
+  if (!pattern) {
+    pattern = new RegExp(source);
+    compiledPatterns.set(schema, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Compile the patterns of a schema accepted by checkSchemaDefinition() ahead of
+ * validation, so the first payloads validated against it do not pay for it
+ */
+export function compilePatterns(schema: JsonSchema): void {
+  if (schema.pattern !== undefined) {
+    patternOf(schema, schema.pattern);
+  }
+  for (const propertySchema of Object.values<JsonSchema>(schema.properties ?? {})) {
+    compilePatterns(propertySchema);
+  }
+  if (isPlainObject(schema.additionalProperties)) {
+    compilePatterns(schema.additionalProperties);
+  }
+  if (schema.items !== undefined) {
+    compilePatterns(schema.items);
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function matchesFormat(value: string, format: string): boolean {
+  switch (format) {
+    case 'date-time':
+      return !Number.isNaN(Date.parse(value));
+    case 'email':
+      return EMAIL_PATTERN.test(value);
+    case 'uri':
+      return URL.canParse(value);
+    default:
+      return true;
+  }
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a schema accepted by checkSchemaDefinition()
+ *
+ * @returns every violation found; an empty array means the value is valid
+ */
+export function validatePayload(schema: JsonSchema, value: unknown, path = 'payload'): PayloadViolation[] {
+  const violations: PayloadViolation[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      // Nested keywords assume the declared type, so stop here
+      return [{ path, message: `must be ${types.join(' or ')}, got ${typeOf(value)}` }];
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    violations.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some((option: unknown) => isEqual(value, option))) {
+    violations.push({
+      path,
+      message: `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !patternOf(schema, schema.pattern).test(value)) {
+      violations.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+    if (schema.format !== undefined && !matchesFormat(value, schema.format)) {
+      violations.push({ path, message: `must be a valid ${schema.format}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `must contain at most ${schema.maxItems} items` });
+    }
+    const { items } = schema;
+    if (items !== undefined) {
+      value.forEach((item, index) => {
+        violations.push(...validatePayload(items, item, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(value, key) || value[key] === undefined) {
+        violations.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+      // Own properties only: "constructor" or "__proto__" must not find Object.prototype's
+      if (Object.hasOwn(properties, key)) {
+        violations.push(...validatePayload(properties[key], propertyValue, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        violations.push(...validatePayload(schema.additionalProperties, propertyValue, `${path}.${key}`));
+      }
+    }
+  }
+
+  return violations;
+}
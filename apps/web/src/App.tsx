@@ -4,10 +4,11 @@ import { AuthProvider, useAuth } from './features/auth';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { UsersOverview } from './pages/UsersOverview';
 import { UserJourney } from './pages/UserJourney';
+import { LiveEvents } from './pages/LiveEvents';
 import { Dashboard } from './pages/Dashboard';
 import { Login } from './pages/Login';
 import { SignUp } from './pages/SignUp';
-import { BarChart3, Users, LogOut } from 'lucide-react';
+import { BarChart3, Users, Radio, LogOut } from 'lucide-react';
 import { Button } from './components/ui/button';
 import { Footer } from './components/Footer';
 
@@ -68,6 +69,17 @@ function Navigation() {
               <Users size={20} />
               Users
             </Link>
+            <Link
+              to="/live"
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                location.pathname === '/live'
+                  ? 'bg-[#004747]/10 text-[#004747]'
+                  : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <Radio size={20} />
+              Live
+            </Link>
             <Button
               variant="ghost"
               size="sm"
@@ -105,6 +117,14 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/live"
+        element={
+          <ProtectedRoute>
+            <LiveEvents />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/dashboard"
         element={
@@ -0,0 +1,20 @@
+import { apiEventTypesResponseSchema } from "./schemas";
+import { eventTypeTransformer } from "./transformers";
+import type { EventTypeIndex } from "./schemas";
+
+const API_BASE = import.meta.env.VITE_API_URL || "https://api-veritas.mrsamdev.xyz";
+
+export async function fetchEventTypes(): Promise<EventTypeIndex> {
+  const response = await fetch(`${API_BASE}/event-types`, {
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch event types");
+  }
+
+  const apiData = await response.json();
+  const validated = apiEventTypesResponseSchema.parse(apiData);
+
+  return eventTypeTransformer.indexByName(validated.eventTypes.map(eventTypeTransformer.fromAPI));
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchEventTypes } from './api';
+
+// The catalog changes rarely, so it is shared across pages for a few minutes
+export function useEventTypes() {
+  return useQuery({
+    queryKey: ['eventTypes'],
+    queryFn: fetchEventTypes,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+const eventTypeStatusSchema = z.enum(['active', 'deprecated', 'blocked']);
+
+const apiEventTypeSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  owner: z.string(),
+  status: eventTypeStatusSchema,
+  icon: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const apiEventTypesResponseSchema = z.object({
+  eventTypes: z.array(apiEventTypeSchema),
+});
+
+const appEventTypeSchema = z.object({
+  name: z.string(),
+  label: z.string(),
+  description: z.string(),
+  owner: z.string(),
+  status: eventTypeStatusSchema,
+  icon: z.string().optional(),
+});
+
+export type EventTypeStatus = z.infer<typeof eventTypeStatusSchema>;
+export type ApiEventType = z.infer<typeof apiEventTypeSchema>;
+export type AppEventType = z.infer<typeof appEventTypeSchema>;
+export type ApiEventTypesResponse = z.infer<typeof apiEventTypesResponseSchema>;
+
+// Catalog entries keyed by event type name
+export type EventTypeIndex = Record<string, AppEventType>;
+
+export { eventTypeStatusSchema, apiEventTypeSchema, appEventTypeSchema, apiEventTypesResponseSchema };
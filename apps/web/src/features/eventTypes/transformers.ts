@@ -0,0 +1,24 @@
+import type { ApiEventType, AppEventType, EventTypeIndex } from './schemas';
+
+export function formatEventType(eventType: string): string {
+  return eventType
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+export const eventTypeTransformer = {
+  fromAPI(apiEventType: ApiEventType): AppEventType {
+    return {
+      name: apiEventType.name,
+      label: formatEventType(apiEventType.name),
+      description: apiEventType.description,
+      owner: apiEventType.owner,
+      status: apiEventType.status,
+      icon: apiEventType.icon,
+    };
+  },
+
+  indexByName(eventTypes: AppEventType[]): EventTypeIndex {
+    return Object.fromEntries(eventTypes.map((eventType) => [eventType.name, eventType]));
+  },
+};
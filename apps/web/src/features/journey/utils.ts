@@ -1,22 +1,20 @@
-const eventIcons: Record<string, string> = {
-  session_start: '🚀',
-  page_view: '👁️',
-  search: '🔍',
-  purchase: '💰',
-  add_to_cart: '🛒',
-  remove_from_cart: '❌',
-  button_click: '👆',
-  form_submit: '📝',
-  video_play: '▶️',
-  video_pause: '⏸️',
-};
+import { formatEventType } from '../eventTypes';
+import type { EventTypeIndex } from '../eventTypes';
 
-export function getEventIcon(eventType: string): string {
-  return eventIcons[eventType] || '📌';
+const DEFAULT_EVENT_ICON = '📌';
+
+// Display metadata comes from the event-type catalog; types without an icon
+// (or a catalog that has not loaded yet) fall back to a generic marker
+export function getEventIcon(eventType: string, eventTypes?: EventTypeIndex): string {
+  return eventTypes?.[eventType]?.icon || DEFAULT_EVENT_ICON;
+}
+
+export function getEventLabel(eventType: string, eventTypes?: EventTypeIndex): string {
+  return eventTypes?.[eventType]?.label ?? formatEventType(eventType);
 }
 
-export function formatEventType(eventType: string): string {
-  return eventType
-    .replace(/_/g, ' ')
-    .replace(/\b\w/g, (c) => c.toUpperCase());
+export function getEventDescription(eventType: string, eventTypes?: EventTypeIndex): string | undefined {
+  return eventTypes?.[eventType]?.description;
 }
+
+export { formatEventType };
@@ -0,0 +1,57 @@
+import { apiLiveEventSchema, apiLiveStatsSchema } from "./schemas";
+import { liveEventTransformer } from "./transformers";
+import type { ApiLiveStats, AppLiveEvent, LiveFilter } from "./schemas";
+
+const API_BASE = import.meta.env.VITE_API_URL || "https://api-veritas.mrsamdev.xyz";
+
+export interface LiveStreamHandlers {
+  onEvent: (event: AppLiveEvent) => void;
+  onStats: (stats: ApiLiveStats) => void;
+  onStatusChange: (connected: boolean) => void;
+}
+
+export function liveStreamUrl(filter: LiveFilter): string {
+  const searchParams = new URLSearchParams();
+
+  if (filter.userId.trim()) {
+    searchParams.append("userId", filter.userId.trim());
+  }
+
+  if (filter.types.trim()) {
+    searchParams.append("type", filter.types.replace(/\s+/g, ""));
+  }
+
+  if (filter.sourceId.trim()) {
+    searchParams.append("sourceId", filter.sourceId.trim());
+  }
+
+  if (filter.where.trim()) {
+    searchParams.append("where", filter.where.trim());
+  }
+
+  return `${API_BASE}/events/live${searchParams.toString() ? `?${searchParams.toString()}` : ""}`;
+}
+
+// EventSource reconnects by itself after the connection drops; call close() to stop
+export function openLiveStream(filter: LiveFilter, handlers: LiveStreamHandlers): EventSource {
+  const source = new EventSource(liveStreamUrl(filter), { withCredentials: true });
+
+  source.onopen = () => handlers.onStatusChange(true);
+  source.onerror = () => handlers.onStatusChange(false);
+
+  source.onmessage = (message) => {
+    const result = apiLiveEventSchema.safeParse(JSON.parse(message.data));
+    if (result.success) {
+      handlers.onEvent(liveEventTransformer.fromAPI(result.data));
+    }
+  };
+
+  source.addEventListener("stats", (message) => {
+    const result = apiLiveStatsSchema.safeParse(JSON.parse((message as MessageEvent).data));
+    if (result.success) {
+      handlers.onStats(result.data);
+    }
+  });
+
+  return source;
+}
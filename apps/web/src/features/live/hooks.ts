@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { openLiveStream } from './api';
+import type { ApiLiveStats, AppLiveEvent, LiveFilter } from './schemas';
+
+// Older events are dropped so a busy stream cannot grow the page without bound
+export const MAX_LIVE_EVENTS = 200;
+
+interface LiveState {
+  filter: LiveFilter;
+  events: AppLiveEvent[];
+  stats: ApiLiveStats | null;
+}
+
+// Opens a new stream whenever the filter changes; events of the previous filter are dropped
+export function useLiveEvents(filter: LiveFilter) {
+  const [state, setState] = useState<LiveState>({ filter, events: [], stats: null });
+  const [connected, setConnected] = useState(false);
+  const [paused, setPausedState] = useState(false);
+  const [missed, setMissed] = useState(0);
+  const pausedRef = useRef(false);
+
+  useEffect(() => {
+    const current = (previous: LiveState): LiveState =>
+      previous.filter === filter ? previous : { filter, events: [], stats: null };
+
+    const source = openLiveStream(filter, {
+      onEvent: (event) => {
+        if (pausedRef.current) {
+          setMissed((count) => count + 1);
+          return;
+        }
+        setState((previous) => {
+          const next = current(previous);
+          return { ...next, events: [event, ...next.events].slice(0, MAX_LIVE_EVENTS) };
+        });
+      },
+      onStats: (stats) => setState((previous) => ({ ...current(previous), stats })),
+      onStatusChange: setConnected,
+    });
+
+    return () => source.close();
+  }, [filter]);
+
+  function setPaused(value: boolean) {
+    pausedRef.current = value;
+    setPausedState(value);
+    if (!value) setMissed(0);
+  }
+
+  const isCurrent = state.filter === filter;
+
+  return {
+    events: isCurrent ? state.events : [],
+    stats: isCurrent ? state.stats : null,
+    connected,
+    paused,
+    setPaused,
+    missed,
+    clear: () => setState({ filter, events: [], stats: null }),
+  };
+}
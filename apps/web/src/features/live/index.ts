@@ -0,0 +1,4 @@
+export * from './schemas';
+export * from './transformers';
+export * from './api';
+export * from './hooks';
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+const apiLiveEventSchema = z.object({
+  eventId: z.string(),
+  userId: z.string(),
+  sessionId: z.string(),
+  type: z.string(),
+  payload: z.record(z.string(), z.unknown()),
+  occurredAt: z.string(),
+  receivedAt: z.string(),
+  sourceId: z.string().optional(),
+  excluded: z.boolean().optional(),
+});
+
+const apiLiveStatsSchema = z.object({
+  sent: z.number(),
+  rateLimited: z.number(),
+  slowClient: z.number(),
+});
+
+const appLiveEventSchema = z.object({
+  eventId: z.string(),
+  userId: z.string(),
+  sessionId: z.string(),
+  type: z.string(),
+  payload: z.record(z.string(), z.unknown()),
+  occurredAt: z.instanceof(Date),
+  receivedAt: z.instanceof(Date),
+  sourceId: z.string().optional(),
+  excluded: z.boolean(),
+  formattedTime: z.string(),
+});
+
+// Filter of the live stream; empty fields match everything
+const liveFilterSchema = z.object({
+  userId: z.string(),
+  types: z.string(),
+  sourceId: z.string(),
+  where: z.string().refine((value) => {
+    if (!value.trim()) return true;
+    try {
+      const parsed = JSON.parse(value);
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed);
+    } catch {
+      return false;
+    }
+  }, 'Must be a JSON object, e.g. {"payload.plan":"pro"}'),
+});
+
+export type ApiLiveEvent = z.infer<typeof apiLiveEventSchema>;
+export type ApiLiveStats = z.infer<typeof apiLiveStatsSchema>;
+export type AppLiveEvent = z.infer<typeof appLiveEventSchema>;
+export type LiveFilter = z.infer<typeof liveFilterSchema>;
+
+export {
+  apiLiveEventSchema,
+  apiLiveStatsSchema,
+  appLiveEventSchema,
+  liveFilterSchema,
+};
@@ -0,0 +1,20 @@
+import type { ApiLiveEvent, AppLiveEvent } from './schemas';
+
+export const liveEventTransformer = {
+  fromAPI(apiEvent: ApiLiveEvent): AppLiveEvent {
+    const occurredAt = new Date(apiEvent.occurredAt);
+
+    return {
+      eventId: apiEvent.eventId,
+      userId: apiEvent.userId,
+      sessionId: apiEvent.sessionId,
+      type: apiEvent.type,
+      payload: apiEvent.payload,
+      occurredAt,
+      receivedAt: new Date(apiEvent.receivedAt),
+      sourceId: apiEvent.sourceId,
+      excluded: apiEvent.excluded ?? false,
+      formattedTime: occurredAt.toLocaleTimeString(),
+    };
+  },
+};
@@ -1,39 +1,60 @@
 import { z } from 'zod';
 
-const apiUserMetricsSchema = z.object({
+const apiUserComputedSchema = z.object({
+  eventTypeCounts: z.record(z.string(), z.number()),
+  purchaseCount: z.number(),
+  totalRevenue: z.number(),
+  averageOrderValue: z.number().optional(),
+  lastPurchaseAt: z.string().optional(),
+});
+
+const apiUserProfileSchema = z.object({
   userId: z.string(),
-  totalSessions: z.number(),
-  totalEvents: z.number(),
-  lastActive: z.string(),
+  email: z.string().optional(),
+  name: z.string().optional(),
+  eventCount: z.number(),
+  sessionCount: z.number(),
+  firstSeenAt: z.string().optional(),
+  lastEventAt: z.string().optional(),
+  traits: z.record(z.string(), z.unknown()),
+  computed: apiUserComputedSchema,
+  excluded: z.boolean().optional(),
 });
 
 const apiPaginatedUsersSchema = z.object({
-  users: z.array(apiUserMetricsSchema),
+  users: z.array(apiUserProfileSchema),
   totalCount: z.number(),
   page: z.number(),
   pageSize: z.number(),
   totalPages: z.number(),
 });
 
-const appUserMetricsSchema = z.object({
+const appUserProfileSchema = z.object({
   userId: z.string(),
-  totalSessions: z.number(),
-  totalEvents: z.number(),
-  lastActive: z.instanceof(Date),
+  email: z.string().optional(),
+  name: z.string().optional(),
+  sessionCount: z.number(),
+  eventCount: z.number(),
+  purchaseCount: z.number(),
+  totalRevenue: z.number(),
+  traits: z.record(z.string(), z.unknown()),
+  firstSeenAt: z.instanceof(Date).nullable(),
+  lastActive: z.instanceof(Date).nullable(),
+  formattedFirstSeen: z.string(),
   formattedLastActive: z.string(),
 });
 
 const appPaginatedUsersSchema = z.object({
-  users: z.array(appUserMetricsSchema),
+  users: z.array(appUserProfileSchema),
   totalCount: z.number(),
   page: z.number(),
   pageSize: z.number(),
   totalPages: z.number(),
 });
 
-export type ApiUserMetrics = z.infer<typeof apiUserMetricsSchema>;
-export type AppUserMetrics = z.infer<typeof appUserMetricsSchema>;
+export type ApiUserProfile = z.infer<typeof apiUserProfileSchema>;
+export type AppUserProfile = z.infer<typeof appUserProfileSchema>;
 export type ApiPaginatedUsers = z.infer<typeof apiPaginatedUsersSchema>;
 export type AppPaginatedUsers = z.infer<typeof appPaginatedUsersSchema>;
 
-export { apiUserMetricsSchema, appUserMetricsSchema, apiPaginatedUsersSchema, appPaginatedUsersSchema };
+export { apiUserProfileSchema, appUserProfileSchema, apiPaginatedUsersSchema, appPaginatedUsersSchema };
@@ -1,24 +1,27 @@
-import type { ApiUserMetrics, AppUserMetrics, ApiPaginatedUsers, AppPaginatedUsers } from './schemas';
+import type { ApiUserProfile, AppUserProfile, ApiPaginatedUsers, AppPaginatedUsers } from './schemas';
 
-export const userMetricsTransformer = {
-  fromAPI(apiData: ApiUserMetrics): AppUserMetrics {
-    const lastActive = new Date(apiData.lastActive);
+function toDate(value: string | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+export const userProfileTransformer = {
+  fromAPI(apiData: ApiUserProfile): AppUserProfile {
+    const firstSeenAt = toDate(apiData.firstSeenAt);
+    const lastActive = toDate(apiData.lastEventAt);
 
     return {
       userId: apiData.userId,
-      totalSessions: apiData.totalSessions,
-      totalEvents: apiData.totalEvents,
+      email: apiData.email,
+      name: apiData.name,
+      sessionCount: apiData.sessionCount,
+      eventCount: apiData.eventCount,
+      purchaseCount: apiData.computed.purchaseCount,
+      totalRevenue: apiData.computed.totalRevenue,
+      traits: apiData.traits,
+      firstSeenAt,
       lastActive,
-      formattedLastActive: lastActive.toLocaleString(),
-    };
-  },
-
-  toAPI(appData: AppUserMetrics): ApiUserMetrics {
-    return {
-      userId: appData.userId,
-      totalSessions: appData.totalSessions,
-      totalEvents: appData.totalEvents,
-      lastActive: appData.lastActive.toISOString(),
+      formattedFirstSeen: firstSeenAt ? firstSeenAt.toLocaleString() : '—',
+      formattedLastActive: lastActive ? lastActive.toLocaleString() : '—',
     };
   },
 };
@@ -26,7 +29,7 @@ export const userMetricsTransformer = {
 export const paginatedUsersTransformer = {
   fromAPI(apiData: ApiPaginatedUsers): AppPaginatedUsers {
     return {
-      users: apiData.users.map(user => userMetricsTransformer.fromAPI(user)),
+      users: apiData.users.map(user => userProfileTransformer.fromAPI(user)),
       totalCount: apiData.totalCount,
       page: apiData.page,
       pageSize: apiData.pageSize,
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { useLiveEvents, liveFilterSchema, MAX_LIVE_EVENTS } from "../features/live";
+import type { LiveFilter } from "../features/live";
+import { getEventIcon, getEventLabel } from "../features/journey";
+import { useEventTypes } from "../features/eventTypes";
+import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
+import { Input } from "../components/ui/input";
+import { Button } from "../components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
+import { Pause, Play, Trash2 } from "lucide-react";
+
+const EMPTY_FILTER: LiveFilter = { userId: "", types: "", sourceId: "", where: "" };
+
+export function LiveEvents() {
+  const navigate = useNavigate();
+  const [draft, setDraft] = useState<LiveFilter>(EMPTY_FILTER);
+  const [filter, setFilter] = useState<LiveFilter>(EMPTY_FILTER);
+  const [whereError, setWhereError] = useState<string>();
+  const { events, stats, connected, paused, setPaused, missed, clear } = useLiveEvents(filter);
+  const { data: eventTypes } = useEventTypes();
+
+  function handleApply(e: FormEvent) {
+    e.preventDefault();
+    const result = liveFilterSchema.safeParse(draft);
+    if (!result.success) {
+      setWhereError(result.error.issues[0]?.message);
+      return;
+    }
+    setWhereError(undefined);
+    setFilter(result.data);
+  }
+
+  function updateDraft(field: keyof LiveFilter, value: string) {
+    setDraft((current) => ({ ...current, [field]: value }));
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="mb-6 flex items-end justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Live Events</h1>
+          <p className="text-gray-600 mt-2">Events as the API accepts them. Click on an event to view the user's journey</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`flex items-center gap-2 text-sm ${connected ? "text-green-700" : "text-gray-500"}`}>
+            <span className={`h-2 w-2 rounded-full ${connected ? "bg-green-600" : "bg-gray-400"}`} />
+            {connected ? "Connected" : "Connecting..."}
+          </span>
+          <Button variant="secondary" size="sm" onClick={() => setPaused(!paused)} className="flex items-center gap-2">
+            {paused ? <Play size={16} /> : <Pause size={16} />}
+            {paused ? "Resume" : "Pause"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={clear} className="flex items-center gap-2">
+            <Trash2 size={16} />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="p-6">
+          <form onSubmit={handleApply} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <Input label="User ID" value={draft.userId} onChange={(e) => updateDraft("userId", e.target.value)} />
+            <Input
+              label="Event types"
+              placeholder="purchase, page_view"
+              value={draft.types}
+              onChange={(e) => updateDraft("types", e.target.value)}
+            />
+            <Input label="Source ID" value={draft.sourceId} onChange={(e) => updateDraft("sourceId", e.target.value)} />
+            <Input
+              label="Payload condition"
+              placeholder='{"payload.plan":"pro"}'
+              value={draft.where}
+              error={whereError}
+              onChange={(e) => updateDraft("where", e.target.value)}
+            />
+            <Button type="submit">Apply filter</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Latest {MAX_LIVE_EVENTS} events</CardTitle>
+          <div className="text-sm text-gray-600">
+            {paused && `Paused, ${missed} new events not shown. `}
+            {stats &&
+              `${stats.sent} sent, ${stats.rateLimited} skipped over the rate limit, ${stats.slowClient} skipped while the browser caught up`}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Payload</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">
+                    Waiting for events...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow
+                    key={event.eventId}
+                    onClick={() => navigate(`/users/${encodeURIComponent(event.userId)}/journey`)}
+                    className={`cursor-pointer ${event.excluded ? "opacity-60" : ""}`}
+                  >
+                    <TableCell className="whitespace-nowrap">{event.formattedTime}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {getEventIcon(event.type, eventTypes)} {getEventLabel(event.type, eventTypes)}
+                      {event.excluded && <span className="ml-2 text-xs text-gray-500">excluded</span>}
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{event.userId}</TableCell>
+                    <TableCell className="text-sm">{event.sourceId ?? "-"}</TableCell>
+                    <TableCell className="font-mono text-xs text-gray-600 max-w-md truncate">
+                      {JSON.stringify(event.payload)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useParams, useNavigate } from "react-router-dom";
-import { useUserJourney, getEventIcon, formatEventType } from "../features/journey";
+import { useUserJourney, getEventIcon, getEventLabel, getEventDescription } from "../features/journey";
 import type { SessionGroup } from "../features/journey";
+import { useEventTypes } from "../features/eventTypes";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Loader } from "../components/Loader";
 import { ArrowLeft } from "lucide-react";
@@ -9,6 +10,8 @@ export function UserJourney() {
   const { userId } = useParams<{ userId: string }>();
   const navigate = useNavigate();
   const { data: sessions = [], isLoading, error } = useUserJourney(userId!);
+  // Icons fall back to a generic marker while the catalog loads or if it fails
+  const { data: eventTypes } = useEventTypes();
 
   function renderPayload(payload: Record<string, unknown>) {
     if (!payload || Object.keys(payload).length === 0) return null;
@@ -77,12 +80,12 @@ export function UserJourney() {
                   <div className="space-y-4">
                     {session.events.map((event) => (
                       <div key={event.eventId} className="relative flex gap-4">
-                        <div className="shrink-0 w-12 h-12 rounded-full bg-[#004747]/10 flex items-center justify-center text-2xl z-10">{getEventIcon(event.type)}</div>
+                        <div className="shrink-0 w-12 h-12 rounded-full bg-[#004747]/10 flex items-center justify-center text-2xl z-10">{getEventIcon(event.type, eventTypes)}</div>
 
                         <div className="flex-1 pb-4">
                           <div className="flex items-start justify-between">
                             <div>
-                              <div className="font-semibold text-lg">{formatEventType(event.type)}</div>
+                              <div className="font-semibold text-lg" title={getEventDescription(event.type, eventTypes)}>{getEventLabel(event.type, eventTypes)}</div>
                               <div className="text-sm text-gray-500">{event.formattedTime}</div>
                             </div>
                           </div>
@@ -3,27 +3,57 @@ import { useNavigate } from "react-router-dom";
 import { useReactTable, getCoreRowModel, getPaginationRowModel, flexRender } from "@tanstack/react-table";
 import type { ColumnDef } from "@tanstack/react-table";
 import { useUsers } from "../features/users";
-import type { AppUserMetrics } from "../features/users";
+import type { AppUserProfile } from "../features/users";
 import { Card, CardContent, CardHeader, CardTitle } from "../components/ui/card";
 import { Loader } from "../components/Loader";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../components/ui/table";
 
-const columns: ColumnDef<AppUserMetrics>[] = [
+const columns: ColumnDef<AppUserProfile>[] = [
   {
     accessorKey: "userId",
-    header: "User ID",
-    cell: (info) => <span className="font-mono text-sm">{info.getValue() as string}</span>,
+    header: "User",
+    cell: (info) => {
+      const { name, email } = info.row.original;
+      return (
+        <div>
+          <span className="font-mono text-sm">{info.getValue() as string}</span>
+          {(name || email) && <div className="text-xs text-gray-500">{[name, email].filter(Boolean).join(" · ")}</div>}
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: "sessionCount",
+    header: "Sessions",
+    cell: (info) => <div className="text-right">{info.getValue() as number}</div>,
   },
   {
-    accessorKey: "totalSessions",
-    header: "Total Sessions",
+    accessorKey: "eventCount",
+    header: "Events",
     cell: (info) => <div className="text-right">{info.getValue() as number}</div>,
   },
   {
-    accessorKey: "totalEvents",
-    header: "Total Events",
+    accessorKey: "purchaseCount",
+    header: "Purchases",
     cell: (info) => <div className="text-right">{info.getValue() as number}</div>,
   },
+  {
+    accessorKey: "totalRevenue",
+    header: "Revenue",
+    cell: (info) => <div className="text-right">{(info.getValue() as number).toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>,
+  },
+  {
+    accessorKey: "traits",
+    header: "Traits",
+    cell: (info) => {
+      const count = Object.keys(info.getValue() as Record<string, unknown>).length;
+      return <div className="text-right">{count}</div>;
+    },
+  },
+  {
+    accessorKey: "formattedFirstSeen",
+    header: "First Seen",
+  },
   {
     accessorKey: "formattedLastActive",
     header: "Last Active",
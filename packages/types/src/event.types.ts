@@ -1,4 +1,5 @@
-// Extensible event types - add new types here as needed
+// Built-in event types. They seed the event-type catalog on first start; further
+// types are registered at runtime through the API (/event-types) without a deploy.
 export enum EventType {
   SESSION_START = 'session_start',
   PAGE_VIEW = 'page_view',
@@ -10,25 +11,77 @@ export enum EventType {
   FORM_SUBMIT = 'form_submit',
   VIDEO_PLAY = 'video_play',
   VIDEO_PAUSE = 'video_pause',
+  SCREEN_VIEW = 'screen_view',
+  IDENTIFY = 'identify',
+  ALIAS = 'alias',
+}
+
+// Lifecycle of a catalog entry:
+// - active:     accepted at ingestion
+// - deprecated: still accepted, flagged so senders can migrate
+// - blocked:    rejected at ingestion
+export type EventTypeStatus = 'active' | 'deprecated' | 'blocked';
+
+// Entry of the event-type catalog
+export interface IEventTypeDefinition {
+  name: string;             // Value clients send as event.type (e.g. "purchase")
+  description: string;
+  owner: string;            // Team or person responsible for the event
+  status: EventTypeStatus;
+  icon?: string;            // Display icon (emoji) used by the dashboard
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Canonical event shape - all events conform to this structure
 export interface IEvent {
   eventId: string;          // UUID v4 for global uniqueness
   userId: string;           // Client-provided user identifier
-  sessionId: string;        // Client-provided session identifier
-  type: EventType;          // Event type from enum
+  sessionId: string;        // Client-provided session identifier, or derived server-side
+  type: string;             // Event type name from the event-type catalog
   payload: Record<string, any>;  // Flexible JSON payload for event-specific data
   occurredAt: Date;         // Client-reported timestamp (when event happened)
   receivedAt: Date;         // Server timestamp (authoritative, prevents clock skew issues)
 }
 
+// Marketing channel an event's visit came from, derived from UTM parameters and the referrer
+export type TrafficChannel =
+  | 'direct'
+  | 'organic_search'
+  | 'paid_search'
+  | 'social'
+  | 'paid_social'
+  | 'email'
+  | 'display'
+  | 'affiliate'
+  | 'referral'
+  | 'internal'    // Referrer on the same site: navigation, not a new visit
+  | 'other';      // UTM medium that matches no known channel
+
+// Event context: what the SDK sent, plus the fields added by server-side enrichment
+export interface IEventContext {
+  userAgent?: string;
+  ip?: string;              // Anonymized: last IPv4 octet / last 80 IPv6 bits zeroed
+  browser?: { name?: string; version?: string };
+  os?: { name?: string; version?: string };
+  device?: { type?: string; vendor?: string; model?: string; id?: string };
+  geo?: { country?: string; region?: string; timezone?: string };
+  traffic?: {
+    channel: TrafficChannel;
+    source?: string;
+    medium?: string;
+    campaign?: string;
+    referrerDomain?: string;
+  };
+  [key: string]: unknown;   // Anything else the SDK sent (library, locale, page...)
+}
+
 // Event creation payload (what clients send)
 export interface IEventCreate {
   eventId: string;
   userId: string;
   sessionId: string;
-  type: EventType;
+  type: string;
   payload: Record<string, any>;
   occurredAt: Date;
 }
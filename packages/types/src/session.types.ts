@@ -37,3 +37,17 @@ export interface ISessionStats {
   pageViewCount: number;
   uniquePages: number;
 }
+
+// Session materialized by the API from stored events (GET /sessions): the session
+// with its device context and statistics, updated on every buffer flush
+export interface ISessionSummary extends ISession, ISessionStats {
+  endedAt: Date;            // Time of the latest event so far
+  duration: number;         // endedAt - startedAt in milliseconds
+  entryPage?: string;       // Page of the earliest page/screen view
+  exitPage?: string;        // Page of the latest page/screen view
+  country?: string;         // Geo country of the first enriched event
+  channel?: string;         // Traffic channel the session came from
+  sourceId?: string;        // Source of the first event
+  excluded?: boolean;       // Contains bot or internal traffic flagged by the traffic filter
+  updatedAt: Date;
+}
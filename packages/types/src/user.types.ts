@@ -23,9 +23,31 @@ export interface IUserUpdate {
   metadata?: Record<string, any>;
 }
 
+// Trait changes for a user profile; a trait may appear in one operation only
+export interface ITraitUpdate {
+  set?: Record<string, unknown>;        // Overwrite the trait
+  set_once?: Record<string, unknown>;   // Only set traits the profile does not have yet
+  increment?: Record<string, number>;   // Add to a numeric trait (missing counts as 0)
+  append?: Record<string, unknown>;     // Add to a list trait (arrays add every item)
+}
+
+// Properties computed from a user's events
+export interface IUserComputedProperties {
+  eventTypeCounts: Record<string, number>;  // Events per event type
+  purchaseCount: number;
+  totalRevenue: number;     // Sum of the revenue of purchase events
+  averageOrderValue?: number;
+  lastPurchaseAt?: Date;
+}
+
 // User profile with statistics
 export interface IUserProfile extends IUser {
-  eventCount: number;       // Total number of events
+  eventCount: number;       // Total number of events, leaving out excluded ones
+  firstSeenAt?: Date;       // Timestamp of earliest event
   lastEventAt?: Date;       // Timestamp of most recent event
   sessionCount: number;     // Total number of sessions
+  traits: Record<string, unknown>;  // From identify calls and PATCH /users/:userId
+  computed: IUserComputedProperties;
+  excludedEventCount?: number;  // Events flagged as bot or internal traffic
+  excluded?: boolean;       // All events were flagged as bot or internal traffic
 }